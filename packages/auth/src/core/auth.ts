@@ -1,9 +1,19 @@
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  isDigestSigningWallet,
+  JwtAlgorithm,
+  JwtHeader,
+  Jwks,
+} from "./jwt";
+import { assertLoginMessageMatches, buildLoginMessage } from "./message";
 import {
   LoginOptions,
   LoginPayload,
   GenerateOptions,
-  LoginPayloadData,
   LoginPayloadDataSchema,
+  NonceOptions,
+  NonceOptionsSchema,
   AuthenticationPayloadDataSchema,
   AuthenticationPayloadData,
   LoginOptionsSchema,
@@ -14,17 +24,80 @@ import {
   AuthenticateOptions,
   User,
   Json,
+  GenerateSessionOptions,
+  GenerateSessionOptionsSchema,
+  RefreshOptions,
+  RefreshOptionsSchema,
+  SessionTokens,
 } from "./schema";
+import {
+  AccountLinkStore,
+  AuthSession,
+  LinkedAccount,
+  MemoryNonceStore,
+  NonceStore,
+  SessionStore,
+} from "./stores";
 import { isBrowser } from "./utils";
 import type { GenericAuthWallet } from "@thirdweb-dev/wallets";
+import { utils } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+
+type AuthenticationPayloadDataInput = z.input<
+  typeof AuthenticationPayloadDataSchema
+>;
+
+// Access tokens are short-lived when sessions are used, as they can be refreshed
+const DEFAULT_ACCESS_TOKEN_DURATION = 1000 * 60 * 15;
+const DEFAULT_REFRESH_TOKEN_DURATION = 1000 * 60 * 60 * 24 * 30;
+const DEFAULT_NONCE_DURATION = 1000 * 60 * 5;
+// A refresh token that was just rotated out can still be sent by concurrent requests, like two tabs refreshing at once
+const REFRESH_TOKEN_REUSE_INTERVAL = 1000 * 30;
+
+export type ThirdwebAuthOptions = {
+  sessionStore?: SessionStore;
+  nonceStore?: NonceStore;
+  linkStore?: AccountLinkStore;
+  /**
+   * Wallets used to verify login payloads from other ecosystems when linking accounts,
+   * ex: a Solana wallet when the admin wallet is an EVM wallet
+   */
+  linkVerifiers?: GenericAuthWallet[];
+};
+
+function hashRefreshSecret(secret: string): string {
+  return utils.sha256(utils.toUtf8Bytes(secret));
+}
+
+function isJsonObject(value: Json): value is { [key: string]: Json } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// EVM addresses are case-insensitive, but Solana addresses are case-sensitive
+function isSameAddress(a: string, b: string): boolean {
+  return a.startsWith("0x") ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
 
 export class ThirdwebAuth {
   private domain: string;
   private wallet: GenericAuthWallet;
+  private sessionStore?: SessionStore;
+  private nonceStore: NonceStore;
+  private linkStore?: AccountLinkStore;
+  private linkVerifiers: GenericAuthWallet[];
 
-  constructor(wallet: GenericAuthWallet, domain: string) {
+  constructor(
+    wallet: GenericAuthWallet,
+    domain: string,
+    options?: ThirdwebAuthOptions,
+  ) {
     this.wallet = wallet;
     this.domain = domain;
+    this.sessionStore = options?.sessionStore;
+    this.nonceStore = options?.nonceStore || new MemoryNonceStore();
+    this.linkStore = options?.linkStore;
+    this.linkVerifiers = options?.linkVerifiers || [];
   }
 
   public updateWallet(wallet: GenericAuthWallet) {
@@ -53,14 +126,15 @@ export class ThirdwebAuth {
         parsedOptions?.uri ||
         (isBrowser() ? window.location.origin : undefined),
       chain_id: chainId,
-      nonce: parsedOptions?.nonce,
+      nonce: parsedOptions?.nonce || (await this.generateNonce()),
       expiration_time:
         parsedOptions?.expirationTime || new Date(Date.now() + 1000 * 60 * 5),
       invalid_before: parsedOptions?.invalidBefore,
+      request_id: parsedOptions?.requestId,
       resources: parsedOptions?.resources,
     });
 
-    const message = this.generateMessage(payloadData);
+    const message = buildLoginMessage(payloadData);
     const signature = await this.wallet.signMessage(message);
 
     return {
@@ -72,12 +146,20 @@ export class ThirdwebAuth {
   public async verify(
     payload: LoginPayload,
     options?: VerifyOptions,
+  ): Promise<string> {
+    return this.verifyPayload(payload, this.wallet, options);
+  }
+
+  private async verifyPayload(
+    payload: LoginPayload,
+    wallet: GenericAuthWallet,
+    options?: VerifyOptions,
   ): Promise<string> {
     const parsedOptions = VerifyOptionsSchema.parse(options);
 
-    if (payload.payload.type !== this.wallet.type) {
+    if (payload.payload.type !== wallet.type) {
       throw new Error(
-        `Expected chain type '${this.wallet.type}' does not match chain type on payload '${payload.payload.type}'`,
+        `Expected chain type '${wallet.type}' does not match chain type on payload '${payload.payload.type}'`,
       );
     }
 
@@ -125,7 +207,7 @@ export class ThirdwebAuth {
       }
     }
 
-    // Check that the payload nonce is valid
+    // Check that the payload nonce is valid, custom validation replaces the issued nonce check
     if (parsedOptions?.validateNonce !== undefined) {
       try {
         await parsedOptions.validateNonce(payload.payload.nonce);
@@ -159,13 +241,21 @@ export class ThirdwebAuth {
       }
     }
 
+    // Check that the signed message says exactly what the payload says, so the checks above apply to it
+    let message: string;
+    if (payload.message !== undefined) {
+      assertLoginMessageMatches(payload.message, payload.payload);
+      message = payload.message;
+    } else {
+      message = buildLoginMessage(payload.payload);
+    }
+
     // Check that the signing address is the claimed wallet address
-    const message = this.generateMessage(payload.payload);
     const chainId =
-      this.wallet.type === "evm" && payload.payload.chain_id
+      wallet.type === "evm" && payload.payload.chain_id
         ? parseInt(payload.payload.chain_id)
         : undefined;
-    const verified = await this.verifySignature(
+    const verified = await wallet.verifySignature(
       message,
       payload.signature,
       payload.payload.address,
@@ -177,9 +267,51 @@ export class ThirdwebAuth {
       );
     }
 
+    // Check that the nonce was issued by the server and consume it, so the payload can't be replayed
+    if (parsedOptions?.validateNonce === undefined) {
+      const issued = await this.nonceStore.consume(payload.payload.nonce);
+      if (!issued) {
+        throw new Error(
+          `Login request nonce was not issued by the server or has already been used`,
+        );
+      }
+    }
+
     return payload.payload.address;
   }
 
+  /**
+   * Generate Nonce
+   * @remarks Server-side function that issues a nonce for the next login request. Login payloads are
+   * only verified if their nonce was issued by the server and hasn't been used yet.
+   *
+   * @param options - Options for the nonce, like its expiration time
+   * @returns The nonce to include in the login payload
+   *
+   * @example
+   * ```javascript
+   * // On the server
+   * const nonce = await auth.generateNonce();
+   *
+   * // On the client
+   * const payload = await auth.login({ nonce });
+   * ```
+   */
+  public async generateNonce(options?: NonceOptions): Promise<string> {
+    const parsedOptions = NonceOptionsSchema.parse(options);
+
+    const nonce = utils.hexlify(utils.randomBytes(16)).slice(2);
+    await this.nonceStore.add(
+      nonce,
+      (
+        parsedOptions?.expirationTime ||
+        new Date(Date.now() + DEFAULT_NONCE_DURATION)
+      ).getTime(),
+    );
+
+    return nonce;
+  }
+
   public async generate(
     payload: LoginPayload,
     options?: GenerateOptions,
@@ -197,53 +329,378 @@ export class ThirdwebAuth {
       domain,
       ...parsedOptions?.verifyOptions,
     });
+    const session = await this.getSessionContext(
+      userAddress,
+      parsedOptions?.session,
+    );
 
-    let session: Json | undefined = undefined;
-    if (typeof parsedOptions?.session === "function") {
-      const sessionTrigger = (await parsedOptions.session(userAddress)) as Json;
-      if (sessionTrigger) {
-        session = sessionTrigger;
-      }
-    } else {
-      session = parsedOptions?.session;
-    }
-
-    const adminAddress = await this.wallet.getAddress();
-    const payloadData = AuthenticationPayloadDataSchema.parse({
-      iss: adminAddress,
+    return this.signToken({
       sub: userAddress,
       aud: domain,
       nbf: parsedOptions?.invalidBefore || new Date(),
       exp:
         parsedOptions?.expirationTime ||
         new Date(Date.now() + 1000 * 60 * 60 * 5),
-      iat: new Date(),
       jti: parsedOptions?.tokenId,
       ctx: session,
     });
+  }
 
-    const message = JSON.stringify(payloadData);
-    const signature = await this.wallet.signMessage(message);
+  /**
+   * Generate Session
+   * @remarks Server-side function that verifies a login payload and starts a session, returning a
+   * short-lived access token and a refresh token that can be exchanged for new tokens until the session
+   * expires or is revoked. Requires a session store to be configured.
+   *
+   * @param payload - The signed login payload
+   * @param options - Options to configure the tokens and the session
+   * @returns The access token, refresh token, and the time the session expires
+   *
+   * @example
+   * ```javascript
+   * const auth = new ThirdwebAuth(wallet, "example.com", {
+   *   sessionStore: new MemorySessionStore(),
+   * });
+   * const { accessToken, refreshToken } = await auth.generateSession(payload);
+   *
+   * // Later, exchange the refresh token for a new access token and refresh token
+   * const tokens = await auth.refresh(refreshToken);
+   * ```
+   */
+  public async generateSession(
+    payload: LoginPayload,
+    options?: GenerateSessionOptions,
+  ): Promise<SessionTokens> {
+    if (isBrowser()) {
+      throw new Error(
+        "Sessions should not be generated in the browser, as they must be signed by a server-side admin wallet.",
+      );
+    }
 
-    // Header used for JWT token specifying hash algorithm
-    const header = {
-      // Specify ECDSA with SHA-256 for hashing algorithm
-      alg: "ES256",
-      typ: "JWT",
+    const sessionStore = this.getSessionStore();
+    const parsedOptions = GenerateSessionOptionsSchema.parse(options);
+
+    const domain = parsedOptions?.domain || this.domain;
+    const userAddress = await this.verify(payload, {
+      domain,
+      ...parsedOptions?.verifyOptions,
+    });
+    const ctx = await this.getSessionContext(
+      userAddress,
+      parsedOptions?.session,
+    );
+
+    const secret = utils.hexlify(utils.randomBytes(32));
+    const session: AuthSession = {
+      id: uuidv4(),
+      address: userAddress,
+      refreshTokenHash: hashRefreshSecret(secret),
+      ctx,
+      createdAt: Date.now(),
+      expiresAt: (
+        parsedOptions?.refreshExpirationTime ||
+        new Date(Date.now() + DEFAULT_REFRESH_TOKEN_DURATION)
+      ).getTime(),
     };
+    await sessionStore.set(session);
 
-    const encodedHeader = Buffer.from(JSON.stringify(header)).toString(
-      "base64",
+    const accessToken = await this.signToken({
+      sub: userAddress,
+      aud: domain,
+      nbf: parsedOptions?.invalidBefore || new Date(),
+      exp:
+        parsedOptions?.expirationTime ||
+        new Date(Date.now() + DEFAULT_ACCESS_TOKEN_DURATION),
+      jti: parsedOptions?.tokenId,
+      ctx,
+      sid: session.id,
+    });
+
+    return {
+      accessToken,
+      refreshToken: `${session.id}.${secret}`,
+      expiresAt: new Date(session.expiresAt),
+    };
+  }
+
+  /**
+   * Refresh Session
+   * @remarks Server-side function that exchanges a refresh token for a new access token and refresh token.
+   * Each refresh token can only be used once - if a used refresh token is presented again, the session is
+   * assumed to be compromised and is revoked. The token rotated out last is only rejected for a short while
+   * after its use, as it can still be sent by a concurrent request.
+   *
+   * @param refreshToken - The refresh token issued with the session
+   * @param options - Options to configure the new access token
+   * @returns The new access token, refresh token, and the time the session expires
+   */
+  public async refresh(
+    refreshToken: string,
+    options?: RefreshOptions,
+  ): Promise<SessionTokens> {
+    if (isBrowser()) {
+      throw new Error(
+        "Sessions should not be refreshed in the browser, as they must be signed by a server-side admin wallet.",
+      );
+    }
+
+    const sessionStore = this.getSessionStore();
+    const parsedOptions = RefreshOptionsSchema.parse(options);
+
+    const [sessionId, secret] = refreshToken.split(".");
+    const session = await sessionStore.get(sessionId);
+    if (!session || !secret) {
+      throw new Error(`Refresh token is invalid or the session has expired`);
+    }
+
+    const refreshTokenHash = hashRefreshSecret(secret);
+    const newSecret = utils.hexlify(utils.randomBytes(32));
+    const rotated = await sessionStore.rotate(
+      session.id,
+      refreshTokenHash,
+      hashRefreshSecret(newSecret),
     );
-    const encodedData = Buffer.from(JSON.stringify(payloadData))
-      .toString("base64")
-      .replace(/=/g, "");
-    const encodedSignature = Buffer.from(signature).toString("base64");
+    if (!rotated) {
+      // Refresh tokens are rotated on every use, so an old token being reused means it was leaked
+      const current = await sessionStore.get(session.id);
+      const rotatedHashes = current?.rotatedRefreshTokenHashes || [];
+      const isConcurrent =
+        rotatedHashes[rotatedHashes.length - 1] === refreshTokenHash &&
+        Date.now() - (current?.rotatedAt || 0) < REFRESH_TOKEN_REUSE_INTERVAL;
+      if (rotatedHashes.includes(refreshTokenHash) && !isConcurrent) {
+        await sessionStore.delete(session.id);
+        throw new Error(
+          `Refresh token has already been used, the session has been revoked`,
+        );
+      }
 
-    // Generate a JWT token with base64 encoded header, payload, and signature
-    const token = `${encodedHeader}.${encodedData}.${encodedSignature}`;
+      throw new Error(`Refresh token is invalid or the session has expired`);
+    }
+
+    const accessToken = await this.signToken({
+      sub: session.address,
+      aud: parsedOptions?.domain || this.domain,
+      nbf: new Date(),
+      exp:
+        parsedOptions?.expirationTime ||
+        new Date(Date.now() + DEFAULT_ACCESS_TOKEN_DURATION),
+      ctx: session.ctx,
+      sid: session.id,
+    });
 
-    return token;
+    return {
+      accessToken,
+      refreshToken: `${session.id}.${newSecret}`,
+      expiresAt: new Date(session.expiresAt),
+    };
+  }
+
+  /**
+   * Revoke a session, so its refresh token and access tokens are no longer accepted
+   *
+   * @param refreshToken - The current refresh token of the session to revoke
+   * @returns Whether the refresh token was valid and its session was revoked
+   */
+  public async revokeSession(refreshToken: string): Promise<boolean> {
+    const sessionStore = this.getSessionStore();
+    const [sessionId, secret] = refreshToken.split(".");
+    const session = await sessionStore.get(sessionId);
+    if (!session || !secret) {
+      return false;
+    }
+
+    // The session ID is in every access token, so only the holder of the refresh token can revoke it
+    if (session.refreshTokenHash !== hashRefreshSecret(secret)) {
+      return false;
+    }
+
+    await sessionStore.delete(session.id);
+    return true;
+  }
+
+  /**
+   * Revoke all sessions of a user, logging them out everywhere
+   *
+   * @param address - The address of the user to revoke all sessions for
+   */
+  public async revokeAllSessions(address: string): Promise<void> {
+    await this.getSessionStore().deleteAll(address);
+  }
+
+  /**
+   * Link Account
+   * @remarks Server-side function that links another wallet to the account of an authenticated user. The
+   * user signs a login payload with the wallet to link, which can be from another ecosystem if a wallet
+   * to verify it is configured in linkVerifiers. Returns a new token with the linked accounts in its context.
+   *
+   * @param token - The authentication token of the user
+   * @param payload - The login payload signed by the wallet to link
+   * @param options - Options to verify the login payload
+   * @returns The new authentication token
+   *
+   * @example
+   * ```javascript
+   * const auth = new ThirdwebAuth(wallet, "example.com", {
+   *   linkStore: new MemoryAccountLinkStore(),
+   *   linkVerifiers: [new KeypairWallet(keypair)],
+   * });
+   *
+   * const newToken = await auth.linkAccount(token, solanaPayload);
+   * const { session } = await auth.authenticate(newToken);
+   * console.log(session.linkedAccounts);
+   * ```
+   */
+  public async linkAccount(
+    token: string,
+    payload: LoginPayload,
+    options?: VerifyOptions,
+  ): Promise<string> {
+    const linkStore = this.getLinkStore();
+    const user = await this.authenticate(token, { domain: options?.domain });
+
+    const verifier =
+      payload.payload.type === this.wallet.type
+        ? this.wallet
+        : this.linkVerifiers.find(
+            (wallet) => wallet.type === payload.payload.type,
+          );
+    if (!verifier) {
+      throw new Error(
+        `A wallet must be configured in linkVerifiers to link '${payload.payload.type}' accounts.`,
+      );
+    }
+
+    const address = await this.verifyPayload(payload, verifier, {
+      domain: this.domain,
+      ...options,
+    });
+
+    const linkedAccounts = await linkStore.get(user.address);
+    if (isSameAddress(address, user.address)) {
+      throw new Error(`Can't link the account '${address}' to itself`);
+    }
+    if (
+      linkedAccounts.some((account) => isSameAddress(account.address, address))
+    ) {
+      throw new Error(`The account '${address}' is already linked`);
+    }
+    if ((await linkStore.get(address)).length > 0) {
+      throw new Error(
+        `The account '${address}' is already linked to another account`,
+      );
+    }
+
+    await linkStore.link(
+      { address: user.address, type: this.wallet.type, linkedAt: Date.now() },
+      { address, type: payload.payload.type, linkedAt: Date.now() },
+    );
+
+    return this.reissueToken(token);
+  }
+
+  /**
+   * Unlink Account
+   * @remarks Server-side function that unlinks a wallet from the account of an authenticated user.
+   * The wallet the user is logged in with can't be unlinked, and tokens issued before the wallet was
+   * unlinked are no longer accepted, as they still list it in their linked accounts.
+   *
+   * @param token - The authentication token of the user
+   * @param address - The address of the wallet to unlink
+   * @returns The new authentication token
+   */
+  public async unlinkAccount(
+    token: string,
+    address: string,
+    options?: AuthenticateOptions,
+  ): Promise<string> {
+    const linkStore = this.getLinkStore();
+    const user = await this.authenticate(token, options);
+
+    if (isSameAddress(address, user.address)) {
+      throw new Error(`Can't unlink the account that is logged in`);
+    }
+
+    const linkedAccounts = await linkStore.get(user.address);
+    if (
+      !linkedAccounts.some((account) => isSameAddress(account.address, address))
+    ) {
+      throw new Error(`The account '${address}' is not linked`);
+    }
+
+    await linkStore.unlink(address);
+    return this.reissueToken(token);
+  }
+
+  /**
+   * Get the accounts linked with an address, including itself, or an empty list if it isn't linked
+   *
+   * @param address - The address of the wallet
+   */
+  public async getLinkedAccounts(address: string): Promise<LinkedAccount[]> {
+    return this.getLinkStore().get(address);
+  }
+
+  /**
+   * Get JSON Web Key Set
+   * @remarks Returns the public key of the wallet that issues authentication tokens as a JWKS, so tokens
+   * can be verified by any standard JWT library, ex: in an API gateway. The key ID is the wallet address.
+   *
+   * @returns The JSON Web Key Set containing the issuer public key
+   *
+   * @example
+   * ```javascript
+   * // Serve the key set so other services can verify tokens
+   * app.get("/.well-known/jwks.json", async (req, res) => {
+   *   res.json(await auth.getJwks());
+   * });
+   * ```
+   */
+  public async getJwks(): Promise<Jwks> {
+    const address = await this.wallet.getAddress();
+    const alg = this.getJwtAlgorithm();
+
+    if (this.wallet.type === "solana") {
+      return {
+        keys: [
+          {
+            kty: "OKP",
+            crv: "Ed25519",
+            x: base64UrlEncode(utils.base58.decode(address)),
+            alg,
+            kid: address,
+            use: "sig",
+          },
+        ],
+      };
+    }
+
+    // EVM wallets only expose their address, so we recover the public key from a signature
+    const message = `Public key of ${address}`;
+    const publicKey = utils.arrayify(
+      utils.recoverPublicKey(
+        utils.hashMessage(message),
+        await this.wallet.signMessage(message),
+      ),
+    );
+    if (utils.computeAddress(publicKey) !== utils.getAddress(address)) {
+      throw new Error(
+        "A key set can only be generated for externally owned accounts.",
+      );
+    }
+
+    return {
+      keys: [
+        {
+          kty: "EC",
+          crv: "secp256k1",
+          x: base64UrlEncode(publicKey.slice(1, 33)),
+          y: base64UrlEncode(publicKey.slice(33, 65)),
+          alg,
+          kid: address,
+          use: "sig",
+        },
+      ],
+    };
   }
 
   /**
@@ -278,12 +735,7 @@ export class ThirdwebAuth {
     const parsedOptions = AuthenticateOptionsSchema.parse(options);
     const domain = parsedOptions?.domain || this.domain;
 
-    const encodedPayload = token.split(".")[1];
-    const encodedSignature = token.split(".")[2];
-    const payload: AuthenticationPayloadData = JSON.parse(
-      Buffer.from(encodedPayload, "base64").toString(),
-    );
-    const signature = Buffer.from(encodedSignature, "base64").toString();
+    const payload = this.decodeToken(token);
 
     // Check that the payload unique ID is valid
     if (parsedOptions?.validateTokenId !== undefined) {
@@ -333,11 +785,12 @@ export class ThirdwebAuth {
       }
     }
 
-    const verified = await this.verifySignature(
-      JSON.stringify(payload),
-      signature,
+    const verified = await this.verifyTokenSignature(
+      token,
+      payload,
       connectedAddress,
       chainId,
+      parsedOptions?.allowLegacyTokens ?? true,
     );
     if (!verified) {
       throw new Error(
@@ -345,68 +798,239 @@ export class ThirdwebAuth {
       );
     }
 
+    // Check that the session the token was issued for hasn't been revoked
+    if (payload.sid && this.sessionStore) {
+      const session = await this.sessionStore.get(payload.sid);
+      if (!session) {
+        throw new Error(`The session for this token has been revoked`);
+      }
+    }
+
+    // Check that the accounts linked in the token haven't been unlinked since it was issued
+    if (
+      this.linkStore &&
+      payload.ctx !== undefined &&
+      isJsonObject(payload.ctx) &&
+      Array.isArray(payload.ctx.linkedAccounts)
+    ) {
+      const linkedAccounts = await this.linkStore.get(payload.sub);
+      const isLinked = (payload.ctx.linkedAccounts as LinkedAccount[]).every(
+        (account) =>
+          linkedAccounts.some((linked) =>
+            isSameAddress(linked.address, account.address),
+          ),
+      );
+      if (!isLinked) {
+        throw new Error(
+          `An account linked in this token has been unlinked, a new token must be issued`,
+        );
+      }
+    }
+
     return {
       address: payload.sub,
       session: payload.ctx as TSession | undefined,
     };
   }
 
-  private async verifySignature(
-    message: string,
-    signature: string,
+  private getSessionStore(): SessionStore {
+    if (!this.sessionStore) {
+      throw new Error(
+        "A session store must be configured to use refresh tokens and sessions.",
+      );
+    }
+    return this.sessionStore;
+  }
+
+  private getLinkStore(): AccountLinkStore {
+    if (!this.linkStore) {
+      throw new Error("A link store must be configured to link accounts.");
+    }
+    return this.linkStore;
+  }
+
+  private async getSessionContext(
     address: string,
-    chainId?: number,
-  ) {
-    return this.wallet.verifySignature(message, signature, address, chainId);
+    session: Json | ((address: string) => unknown) | undefined,
+  ): Promise<Json | undefined> {
+    let ctx = session;
+    if (typeof session === "function") {
+      const sessionTrigger = (await session(address)) as Json;
+      ctx = sessionTrigger ? sessionTrigger : undefined;
+    }
+    return this.addLinkedAccounts(address, ctx as Json | undefined);
   }
 
-  /**
-   * Generates a EIP-4361 & CAIP-122 compliant message to sign based on the login payload
-   */
-  private generateMessage(payload: LoginPayloadData): string {
-    const typeField = payload.type === "evm" ? "Ethereum" : "Solana";
-    const header = `${payload.domain} wants you to sign in with your ${typeField} account:`;
-    let prefix = [header, payload.address].join("\n");
-    prefix = [prefix, payload.statement].join("\n\n");
-    if (payload.statement) {
-      prefix += "\n";
+  // Replaces the linked accounts in the session context with the accounts currently linked
+  private async addLinkedAccounts(
+    address: string,
+    ctx: Json | undefined,
+  ): Promise<Json | undefined> {
+    const linkedAccounts = this.linkStore
+      ? await this.linkStore.get(address)
+      : [];
+    if (ctx !== undefined && !isJsonObject(ctx)) {
+      if (linkedAccounts.length > 0) {
+        throw new Error(
+          "Linked accounts can only be added to an object session, return an object from onLogin.",
+        );
+      }
+      return ctx;
     }
 
-    const suffixArray = [];
-    if (payload.uri) {
-      const uriField = `URI: ${payload.uri}`;
-      suffixArray.push(uriField);
+    const rest = { ...ctx };
+    delete rest.linkedAccounts;
+    if (linkedAccounts.length === 0) {
+      return ctx === undefined ? undefined : rest;
     }
+    return { ...rest, linkedAccounts };
+  }
 
-    const versionField = `Version: ${payload.version}`;
-    suffixArray.push(versionField);
+  // Signs a new token for the same user and session, with the linked accounts updated in its context
+  private async reissueToken(token: string): Promise<string> {
+    const payload = this.decodeToken(token);
+    const ctx = await this.addLinkedAccounts(payload.sub, payload.ctx);
 
-    if (payload.chain_id) {
-      const chainField = `Chain ID: ` + payload.chain_id || "1";
-      suffixArray.push(chainField);
+    if (payload.sid && this.sessionStore) {
+      const session = await this.sessionStore.get(payload.sid);
+      if (session) {
+        await this.sessionStore.set({ ...session, ctx });
+      }
     }
 
-    const nonceField = `Nonce: ${payload.nonce}`;
-    suffixArray.push(nonceField);
+    return this.signToken({
+      sub: payload.sub,
+      aud: payload.aud,
+      nbf: new Date(payload.nbf * 1000),
+      exp: new Date(payload.exp * 1000),
+      jti: payload.jti,
+      ctx,
+      sid: payload.sid,
+    });
+  }
+
+  private decodeToken(token: string): AuthenticationPayloadData {
+    const encodedPayload = token.split(".")[1];
+    return JSON.parse(Buffer.from(base64UrlDecode(encodedPayload)).toString());
+  }
+
+  private async signToken(
+    data: Omit<AuthenticationPayloadDataInput, "iss" | "iat">,
+  ): Promise<string> {
+    const adminAddress = await this.wallet.getAddress();
+    const payloadData = AuthenticationPayloadDataSchema.parse({
+      ...data,
+      iss: adminAddress,
+      iat: new Date(),
+    });
+
+    const header: JwtHeader = {
+      alg: this.getJwtAlgorithm(),
+      typ: "JWT",
+      kid: adminAddress,
+    };
 
-    const issuedAtField = `Issued At: ${payload.issued_at}`;
-    suffixArray.push(issuedAtField);
+    const signingInput = `${base64UrlEncode(
+      JSON.stringify(header),
+    )}.${base64UrlEncode(JSON.stringify(payloadData))}`;
 
-    const expiryField = `Expiration Time: ${payload.expiration_time}`;
-    suffixArray.push(expiryField);
+    let signature: Uint8Array;
+    if (header.alg === "ES256K" && isDigestSigningWallet(this.wallet)) {
+      // Standard ES256K signatures are the 64 byte r and s values, without the recovery byte
+      const digest = utils.arrayify(
+        utils.sha256(utils.toUtf8Bytes(signingInput)),
+      );
+      signature = utils
+        .arrayify(await this.wallet.signDigest(digest))
+        .slice(0, 64);
+    } else if (header.alg === "EdDSA") {
+      signature = utils.base58.decode(
+        await this.wallet.signMessage(signingInput),
+      );
+    } else {
+      signature = utils.arrayify(await this.wallet.signMessage(signingInput));
+    }
+
+    return `${signingInput}.${base64UrlEncode(signature)}`;
+  }
 
-    if (payload.invalid_before) {
-      const invalidBeforeField = `Not Before: ${payload.invalid_before}`;
-      suffixArray.push(invalidBeforeField);
+  private getJwtAlgorithm(): JwtAlgorithm {
+    if (this.wallet.type === "solana") {
+      return "EdDSA";
     }
+    // Wallets may only expose signDigest once their signer is resolved, ex: by getAddress
+    return isDigestSigningWallet(this.wallet) ? "ES256K" : "EIP191";
+  }
 
-    if (payload.resources) {
-      suffixArray.push(
-        [`Resources:`, ...payload.resources.map((x) => `- ${x}`)].join("\n"),
-      );
+  private async verifyTokenSignature(
+    token: string,
+    payload: AuthenticationPayloadData,
+    address: string,
+    chainId: number | undefined,
+    allowLegacyTokens: boolean,
+  ): Promise<boolean> {
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split(".");
+    const header: JwtHeader = JSON.parse(
+      Buffer.from(base64UrlDecode(encodedHeader)).toString(),
+    );
+    const signingInput = `${encodedHeader}.${encodedPayload}`;
+    const signature = base64UrlDecode(encodedSignature);
+
+    switch (header.alg) {
+      case "ES256K": {
+        if (signature.length !== 64) {
+          return false;
+        }
+
+        // ES256K signatures don't include the recovery byte, so we check both possible signers
+        const digest = utils.sha256(utils.toUtf8Bytes(signingInput));
+        return [27, 28].some(
+          (v) =>
+            utils
+              .recoverAddress(digest, {
+                r: utils.hexlify(signature.slice(0, 32)),
+                s: utils.hexlify(signature.slice(32, 64)),
+                v,
+              })
+              .toLowerCase() === address.toLowerCase(),
+        );
+      }
+      case "EIP191":
+        return this.verifySignature(
+          signingInput,
+          utils.hexlify(signature),
+          address,
+          chainId,
+        );
+      case "EdDSA":
+        return this.verifySignature(
+          signingInput,
+          utils.base58.encode(signature),
+          address,
+        );
+      case "ES256":
+        if (!allowLegacyTokens) {
+          throw new Error(`Legacy authentication tokens are not accepted`);
+        }
+
+        // Legacy tokens are signed over the JSON payload with the signature encoded as a string
+        return this.verifySignature(
+          JSON.stringify(payload),
+          Buffer.from(signature).toString(),
+          address,
+          chainId,
+        );
+      default:
+        throw new Error(`Unsupported token algorithm '${header.alg}'`);
     }
+  }
 
-    const suffix = suffixArray.join("\n");
-    return [prefix, suffix].join("\n");
+  private async verifySignature(
+    message: string,
+    signature: string,
+    address: string,
+    chainId?: number,
+  ) {
+    return this.wallet.verifySignature(message, signature, address, chainId);
   }
 }
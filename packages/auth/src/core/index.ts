@@ -1,2 +1,7 @@
 export { ThirdwebAuth } from "./auth";
+export type { ThirdwebAuthOptions } from "./auth";
 export * from "./schema";
+export * from "./stores";
+export * from "./jwt";
+export { buildLoginMessage, parseLoginMessage } from "./message";
+export type { LoginMessage } from "./message";
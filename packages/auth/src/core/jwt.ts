@@ -0,0 +1,85 @@
+import type { GenericAuthWallet } from "@thirdweb-dev/wallets";
+
+/**
+ * Algorithms used to sign authentication tokens:
+ * - ES256K: standard ECDSA over secp256k1 with SHA-256, used by EVM wallets with access to their private key
+ * - EIP191: the signing input signed as an EIP-191 personal message, used by other EVM wallets (ex: KMS)
+ * - EdDSA: standard Ed25519 signatures, used by Solana wallets
+ * - ES256: legacy tokens, which sign the JSON payload instead of the JWT signing input
+ *
+ * @public
+ */
+export type JwtAlgorithm = "ES256K" | "EIP191" | "EdDSA" | "ES256";
+
+/**
+ * @public
+ */
+export type JwtHeader = {
+  alg: JwtAlgorithm;
+  typ: "JWT";
+  kid?: string;
+};
+
+/**
+ * A JSON Web Key for the public key of the wallet that issues authentication tokens
+ *
+ * @public
+ */
+export type Jwk = {
+  kty: "EC" | "OKP";
+  crv: "secp256k1" | "Ed25519";
+  x: string;
+  y?: string;
+  alg: JwtAlgorithm;
+  kid: string;
+  use: "sig";
+};
+
+/**
+ * @public
+ */
+export type Jwks = {
+  keys: Jwk[];
+};
+
+/**
+ * A wallet that can sign a raw 32 byte digest, returning a 65 byte hex signature
+ *
+ * @public
+ */
+export interface DigestSigningWallet extends GenericAuthWallet {
+  signDigest(digest: Uint8Array): Promise<string>;
+}
+
+/**
+ * @internal
+ */
+export function isDigestSigningWallet(
+  wallet: GenericAuthWallet,
+): wallet is DigestSigningWallet {
+  return typeof (wallet as DigestSigningWallet).signDigest === "function";
+}
+
+/**
+ * @internal
+ */
+export function base64UrlEncode(data: Uint8Array | string): string {
+  const buffer =
+    typeof data === "string" ? Buffer.from(data, "utf8") : Buffer.from(data);
+  return buffer
+    .toString("base64")
+    .replace(/=/g, "")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
+
+/**
+ * Decodes both base64url and the standard base64 used by legacy tokens
+ *
+ * @internal
+ */
+export function base64UrlDecode(data: string): Uint8Array {
+  return new Uint8Array(
+    Buffer.from(data.replace(/-/g, "+").replace(/_/g, "/"), "base64"),
+  );
+}
@@ -0,0 +1,212 @@
+import type { LoginPayloadData } from "./schema";
+
+/**
+ * The fields of an EIP-4361 (Sign-In With Ethereum) or CAIP-122 login message. Unlike a login
+ * payload, the optional fields of the grammar may be missing from messages signed with other libraries.
+ *
+ * @public
+ */
+export type LoginMessage = Omit<
+  LoginPayloadData,
+  "statement" | "expiration_time" | "invalid_before"
+> & {
+  statement?: string;
+  expiration_time?: string;
+  invalid_before?: string;
+};
+
+const ACCOUNT_TYPES = {
+  evm: "Ethereum",
+  solana: "Solana",
+} as const;
+
+// The optional and required fields of the message suffix, in the order they must appear
+const MESSAGE_FIELDS: [string, keyof LoginMessage, boolean][] = [
+  ["URI", "uri", false],
+  ["Version", "version", true],
+  ["Chain ID", "chain_id", false],
+  ["Nonce", "nonce", true],
+  ["Issued At", "issued_at", true],
+  ["Expiration Time", "expiration_time", false],
+  ["Not Before", "invalid_before", false],
+  ["Request ID", "request_id", false],
+];
+
+/**
+ * Build Login Message
+ * @remarks Generates the EIP-4361 & CAIP-122 compliant message that is signed to login
+ *
+ * @param payload - The fields of the login payload to include in the message
+ * @returns The message to sign
+ *
+ * @example
+ * ```javascript
+ * const message = buildLoginMessage(payload.payload);
+ * ```
+ */
+export function buildLoginMessage(payload: LoginMessage): string {
+  const header = `${payload.domain} wants you to sign in with your ${
+    ACCOUNT_TYPES[payload.type]
+  } account:`;
+  let prefix = [header, payload.address].join("\n");
+  prefix = [prefix, payload.statement].join("\n\n");
+  if (payload.statement) {
+    prefix += "\n";
+  }
+
+  const suffixArray = [];
+  for (const [label, key] of MESSAGE_FIELDS) {
+    const value = payload[key];
+    if (value !== undefined) {
+      suffixArray.push(`${label}: ${value}`);
+    }
+  }
+
+  if (payload.resources) {
+    suffixArray.push(
+      [`Resources:`, ...payload.resources.map((x) => `- ${x}`)].join("\n"),
+    );
+  }
+
+  const suffix = suffixArray.join("\n");
+  return [prefix, suffix].join("\n");
+}
+
+/**
+ * Parse Login Message
+ * @remarks Parses an EIP-4361 & CAIP-122 compliant message, including messages generated by other
+ * Sign-In With Ethereum libraries. Throws an error if the message does not follow the grammar.
+ *
+ * @param message - The message that was signed
+ * @returns The fields of the message
+ *
+ * @example
+ * ```javascript
+ * const fields = parseLoginMessage(message);
+ * console.log(fields.nonce);
+ * ```
+ */
+export function parseLoginMessage(message: string): LoginMessage {
+  const lines = message.split("\n");
+
+  const header = lines[0].match(
+    /^(.+) wants you to sign in with your (Ethereum|Solana) account:$/,
+  );
+  if (!header) {
+    throw new Error("Login message is missing a valid header");
+  }
+
+  const type = header[2] === ACCOUNT_TYPES.evm ? "evm" : "solana";
+  const address = lines[1];
+  if (!address || lines[2] !== "") {
+    throw new Error("Login message is missing a valid address");
+  }
+
+  // The statement is optional, but the blank lines around it are always present
+  let statement: string | undefined;
+  let index = 4;
+  if (lines[3] !== "") {
+    statement = lines[3];
+    if (lines[4] !== "") {
+      throw new Error("Login message statement must be a single line");
+    }
+    index = 5;
+  }
+
+  const fields: Partial<Record<keyof LoginMessage, string>> = {};
+  for (const [label, key, required] of MESSAGE_FIELDS) {
+    const line = lines[index];
+    if (line !== undefined && line.startsWith(`${label}: `)) {
+      fields[key] = line.slice(label.length + 2);
+      index++;
+    } else if (required) {
+      throw new Error(`Login message is missing the '${label}' field`);
+    }
+  }
+
+  let resources: string[] | undefined;
+  if (lines[index] === "Resources:") {
+    resources = [];
+    index++;
+    while (lines[index]?.startsWith("- ")) {
+      resources.push(lines[index].slice(2));
+      index++;
+    }
+  }
+
+  if (index < lines.length) {
+    throw new Error(`Login message has an unexpected line '${lines[index]}'`);
+  }
+
+  return {
+    type,
+    domain: header[1],
+    address,
+    statement,
+    uri: fields.uri,
+    version: fields.version as string,
+    chain_id: fields.chain_id,
+    nonce: fields.nonce as string,
+    issued_at: fields.issued_at as string,
+    expiration_time: fields.expiration_time,
+    invalid_before: fields.invalid_before,
+    request_id: fields.request_id,
+    resources,
+  };
+}
+
+const TIMESTAMP_FIELDS: (keyof LoginMessage)[] = [
+  "issued_at",
+  "expiration_time",
+  "invalid_before",
+];
+
+function normalizeField(
+  fields: LoginMessage,
+  key: keyof LoginMessage,
+): string | undefined {
+  const value = fields[key];
+  if (!value || value.length === 0) {
+    return undefined;
+  }
+
+  if (TIMESTAMP_FIELDS.includes(key)) {
+    // Timestamps may be serialized with a different precision than the payload
+    const date = new Date(value as string);
+    return isNaN(date.getTime()) ? (value as string) : date.toISOString();
+  }
+  if (key === "address" && fields.type === "evm") {
+    return (value as string).toLowerCase();
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Checks that every field of a signed message matches the login payload it was sent with
+ *
+ * @internal
+ */
+export function assertLoginMessageMatches(
+  message: string,
+  payload: LoginMessage,
+) {
+  const fields = parseLoginMessage(message);
+  const labels: [string, keyof LoginMessage][] = [
+    ["Domain", "domain"],
+    ["Account Type", "type"],
+    ["Address", "address"],
+    ["Statement", "statement"],
+    ...MESSAGE_FIELDS.map(
+      ([label, key]) => [label, key] as [string, keyof LoginMessage],
+    ),
+    ["Resources", "resources"],
+  ];
+
+  for (const [label, key] of labels) {
+    if (normalizeField(fields, key) !== normalizeField(payload, key)) {
+      throw new Error(
+        `Signed login message field '${label}' does not match the payload`,
+      );
+    }
+  }
+}
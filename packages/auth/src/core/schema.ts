@@ -41,6 +41,7 @@ export const LoginOptionsSchema = z
     nonce: z.string().optional(),
     expirationTime: z.date().optional(),
     invalidBefore: z.date().optional(),
+    requestId: z.string().optional(),
     resources: z.array(z.string()).optional(),
   })
   .optional();
@@ -70,6 +71,7 @@ export const LoginPayloadDataSchema = z.object({
     .date()
     .default(new Date())
     .transform((d) => d.toISOString()),
+  request_id: z.string().optional(),
   resources: z.array(z.string()).optional(),
 });
 
@@ -79,6 +81,7 @@ export const LoginPayloadDataSchema = z.object({
 export const LoginPayloadSchema = z.object({
   payload: LoginPayloadDataSchema,
   signature: z.string(),
+  message: z.string().optional(),
 });
 
 /**
@@ -102,16 +105,46 @@ export const VerifyOptionsSchema = VerifyOptionsSchemaRequired.optional();
 /**
  * @internal
  */
-export const GenerateOptionsSchema = z
+const GenerateOptionsSchemaRequired = z.object({
+  domain: z.string().optional(),
+  tokenId: z.string().optional(),
+  expirationTime: z.date().optional(),
+  invalidBefore: z.date().optional(),
+  session: z.union([JsonSchema, z.function().args(z.string())]).optional(),
+  verifyOptions: VerifyOptionsSchemaRequired.omit({
+    domain: true,
+  }).optional(),
+});
+
+/**
+ * @internal
+ */
+export const GenerateOptionsSchema = GenerateOptionsSchemaRequired.optional();
+
+/**
+ * @internal
+ */
+export const GenerateSessionOptionsSchema =
+  GenerateOptionsSchemaRequired.extend({
+    refreshExpirationTime: z.date().optional(),
+  }).optional();
+
+/**
+ * @internal
+ */
+export const RefreshOptionsSchema = z
   .object({
     domain: z.string().optional(),
-    tokenId: z.string().optional(),
     expirationTime: z.date().optional(),
-    invalidBefore: z.date().optional(),
-    session: z.union([JsonSchema, z.function().args(z.string())]).optional(),
-    verifyOptions: VerifyOptionsSchemaRequired.omit({
-      domain: true,
-    }).optional(),
+  })
+  .optional();
+
+/**
+ * @internal
+ */
+export const NonceOptionsSchema = z
+  .object({
+    expirationTime: z.date().optional(),
   })
   .optional();
 
@@ -127,6 +160,7 @@ export const AuthenticationPayloadDataSchema = z.object({
   iat: RawDateSchema.transform((b) => b.toNumber()),
   jti: z.string().default(uuidv4()),
   ctx: JsonSchema.optional(),
+  sid: z.string().optional(),
 });
 
 /**
@@ -144,6 +178,7 @@ export const AuthenticateOptionsSchema = z
   .object({
     domain: z.string().optional(),
     validateTokenId: z.function().args(z.string()).optional(),
+    allowLegacyTokens: z.boolean().optional(),
   })
   .optional();
 
@@ -172,6 +207,32 @@ export type VerifyOptions = z.input<typeof VerifyOptionsSchema>;
  */
 export type GenerateOptions = z.input<typeof GenerateOptionsSchema>;
 
+/**
+ * @public
+ */
+export type GenerateSessionOptions = z.input<
+  typeof GenerateSessionOptionsSchema
+>;
+
+/**
+ * @public
+ */
+export type RefreshOptions = z.input<typeof RefreshOptionsSchema>;
+
+/**
+ * @public
+ */
+export type NonceOptions = z.input<typeof NonceOptionsSchema>;
+
+/**
+ * @public
+ */
+export type SessionTokens = {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+};
+
 /**
  * @public
  */
@@ -0,0 +1,4 @@
+export * from "./key-value";
+export * from "./session";
+export * from "./nonce";
+export * from "./link";
@@ -0,0 +1,24 @@
+/**
+ * Minimal key-value storage interface, which can be implemented on top of Redis, Upstash, Cloudflare KV, etc.
+ * The take method must get and delete a value atomically, so only one of concurrent callers receives it.
+ *
+ * @example
+ * ```javascript
+ * // Wrap an ioredis client
+ * const storage: KeyValueStorage = {
+ *   get: (key) => redis.get(key),
+ *   set: (key, value, ttl) =>
+ *     ttl ? redis.set(key, value, "EX", ttl) : redis.set(key, value),
+ *   delete: (key) => redis.del(key),
+ *   take: (key) => redis.getdel(key),
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface KeyValueStorage {
+  get(key: string): Promise<string | null | undefined>;
+  set(key: string, value: string, ttlInSeconds?: number): Promise<unknown>;
+  delete(key: string): Promise<unknown>;
+  take(key: string): Promise<string | null | undefined>;
+}
@@ -0,0 +1,156 @@
+import { KeyValueStorage } from "./key-value";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * @public
+ */
+export type LinkedAccount = {
+  address: string;
+  type: "evm" | "solana";
+  linkedAt: number;
+};
+
+/**
+ * Stores which wallets are linked together as a single account
+ *
+ * @public
+ */
+export interface AccountLinkStore {
+  /**
+   * Returns every account linked with the address, including itself, or an empty list if it isn't linked
+   */
+  get(address: string): Promise<LinkedAccount[]>;
+  /**
+   * Links the account to the accounts already linked with the primary account
+   */
+  link(primary: LinkedAccount, account: LinkedAccount): Promise<void>;
+  unlink(address: string): Promise<void>;
+}
+
+// EVM addresses are case-insensitive, but Solana addresses are base58 encoded and case-sensitive
+function normalizeAddress(address: string) {
+  return address.startsWith("0x") ? address.toLowerCase() : address;
+}
+
+/**
+ * Account link store that keeps links in memory, only suitable for a single server instance
+ *
+ * @public
+ */
+export class MemoryAccountLinkStore implements AccountLinkStore {
+  private groups = new Map<string, string>();
+  private accounts = new Map<string, LinkedAccount[]>();
+
+  async get(address: string): Promise<LinkedAccount[]> {
+    const groupId = this.groups.get(normalizeAddress(address));
+    return (groupId && this.accounts.get(groupId)) || [];
+  }
+
+  async link(primary: LinkedAccount, account: LinkedAccount): Promise<void> {
+    const groupId =
+      this.groups.get(normalizeAddress(primary.address)) || uuidv4();
+    const accounts = this.accounts.get(groupId) || [primary];
+
+    this.accounts.set(groupId, [...accounts, account]);
+    this.groups.set(normalizeAddress(primary.address), groupId);
+    this.groups.set(normalizeAddress(account.address), groupId);
+  }
+
+  async unlink(address: string): Promise<void> {
+    const groupId = this.groups.get(normalizeAddress(address));
+    if (!groupId) {
+      return;
+    }
+
+    const accounts = (this.accounts.get(groupId) || []).filter(
+      (account) =>
+        normalizeAddress(account.address) !== normalizeAddress(address),
+    );
+    this.groups.delete(normalizeAddress(address));
+
+    // A single remaining account isn't linked to anything
+    if (accounts.length > 1) {
+      this.accounts.set(groupId, accounts);
+    } else {
+      accounts.forEach((account) =>
+        this.groups.delete(normalizeAddress(account.address)),
+      );
+      this.accounts.delete(groupId);
+    }
+  }
+}
+
+/**
+ * Account link store backed by any key-value storage, like Redis
+ *
+ * @public
+ */
+export class KeyValueAccountLinkStore implements AccountLinkStore {
+  private storage: KeyValueStorage;
+  private prefix: string;
+
+  constructor(storage: KeyValueStorage, prefix = "thirdweb_auth") {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  async get(address: string): Promise<LinkedAccount[]> {
+    const groupId = await this.storage.get(this.groupKey(address));
+    if (!groupId) {
+      return [];
+    }
+
+    const accounts = await this.storage.get(this.accountsKey(groupId));
+    return accounts ? JSON.parse(accounts) : [];
+  }
+
+  async link(primary: LinkedAccount, account: LinkedAccount): Promise<void> {
+    const groupId =
+      (await this.storage.get(this.groupKey(primary.address))) || uuidv4();
+    const accounts = await this.get(primary.address);
+
+    await this.storage.set(
+      this.accountsKey(groupId),
+      JSON.stringify([
+        ...(accounts.length > 0 ? accounts : [primary]),
+        account,
+      ]),
+    );
+    await this.storage.set(this.groupKey(primary.address), groupId);
+    await this.storage.set(this.groupKey(account.address), groupId);
+  }
+
+  async unlink(address: string): Promise<void> {
+    const groupId = await this.storage.get(this.groupKey(address));
+    if (!groupId) {
+      return;
+    }
+
+    const accounts = (await this.get(address)).filter(
+      (account) =>
+        normalizeAddress(account.address) !== normalizeAddress(address),
+    );
+    await this.storage.delete(this.groupKey(address));
+
+    // A single remaining account isn't linked to anything
+    if (accounts.length > 1) {
+      await this.storage.set(
+        this.accountsKey(groupId),
+        JSON.stringify(accounts),
+      );
+    } else {
+      for (const account of accounts) {
+        await this.storage.delete(this.groupKey(account.address));
+      }
+      await this.storage.delete(this.accountsKey(groupId));
+    }
+  }
+
+  private groupKey(address: string) {
+    return `${this.prefix}:link:${normalizeAddress(address)}`;
+  }
+
+  private accountsKey(groupId: string) {
+    return `${this.prefix}:links:${groupId}`;
+  }
+}
@@ -0,0 +1,75 @@
+import { KeyValueStorage } from "./key-value";
+
+/**
+ * Stores the nonces issued by the server, so each can only be used to login once
+ *
+ * @public
+ */
+export interface NonceStore {
+  add(nonce: string, expiresAt: number): Promise<void>;
+  /**
+   * Removes the nonce, returning whether it was issued and has not expired
+   */
+  consume(nonce: string): Promise<boolean>;
+}
+
+/**
+ * Nonce store that keeps nonces in memory, only suitable for a single server instance
+ *
+ * @public
+ */
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, number>();
+
+  async add(nonce: string, expiresAt: number): Promise<void> {
+    // Drop expired nonces that were never used, so unfinished logins don't accumulate
+    const now = Date.now();
+    this.nonces.forEach((expiry, key) => {
+      if (expiry <= now) {
+        this.nonces.delete(key);
+      }
+    });
+
+    this.nonces.set(nonce, expiresAt);
+  }
+
+  async consume(nonce: string): Promise<boolean> {
+    const expiresAt = this.nonces.get(nonce);
+    this.nonces.delete(nonce);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+}
+
+/**
+ * Nonce store backed by any key-value storage, like Redis
+ *
+ * @public
+ */
+export class KeyValueNonceStore implements NonceStore {
+  private storage: KeyValueStorage;
+  private prefix: string;
+
+  constructor(storage: KeyValueStorage, prefix = "thirdweb_auth") {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  async add(nonce: string, expiresAt: number): Promise<void> {
+    const ttl = Math.ceil((expiresAt - Date.now()) / 1000);
+    await this.storage.set(
+      this.nonceKey(nonce),
+      expiresAt.toString(),
+      Math.max(ttl, 1),
+    );
+  }
+
+  async consume(nonce: string): Promise<boolean> {
+    // Taken atomically, so concurrent logins replaying the same nonce can't both succeed
+    const expiresAt = await this.storage.take(this.nonceKey(nonce));
+    return !!expiresAt && parseInt(expiresAt) > Date.now();
+  }
+
+  private nonceKey(nonce: string) {
+    return `${this.prefix}:nonce:${nonce}`;
+  }
+}
@@ -0,0 +1,204 @@
+import { Json } from "../schema";
+import { KeyValueStorage } from "./key-value";
+
+/**
+ * @public
+ */
+export type AuthSession = {
+  id: string;
+  address: string;
+  refreshTokenHash: string;
+  /**
+   * Hashes of the refresh tokens that were rotated out, most recent last, so a replayed token can be told apart from an invalid one
+   */
+  rotatedRefreshTokenHashes?: string[];
+  /**
+   * When the refresh token was last rotated
+   */
+  rotatedAt?: number;
+  ctx?: Json;
+  createdAt: number;
+  expiresAt: number;
+};
+
+// Enough to detect the replay of any token from the last day of a session refreshed every 15 minutes
+const MAX_ROTATED_REFRESH_TOKENS = 100;
+
+function rotateSession(
+  session: AuthSession,
+  newRefreshTokenHash: string,
+): AuthSession {
+  return {
+    ...session,
+    refreshTokenHash: newRefreshTokenHash,
+    rotatedRefreshTokenHashes: [
+      ...(session.rotatedRefreshTokenHashes || []),
+      session.refreshTokenHash,
+    ].slice(-MAX_ROTATED_REFRESH_TOKENS),
+    rotatedAt: Date.now(),
+  };
+}
+
+/**
+ * Stores refresh token sessions so they can be rotated and revoked
+ *
+ * @public
+ */
+export interface SessionStore {
+  get(id: string): Promise<AuthSession | undefined>;
+  set(session: AuthSession): Promise<void>;
+  /**
+   * Atomically replaces the refresh token hash of the session if it still matches, so each refresh token can only be used once.
+   * Returns the updated session, or undefined if it doesn't exist or its refresh token was already rotated.
+   */
+  rotate(
+    id: string,
+    refreshTokenHash: string,
+    newRefreshTokenHash: string,
+  ): Promise<AuthSession | undefined>;
+  delete(id: string): Promise<void>;
+  deleteAll(address: string): Promise<void>;
+}
+
+/**
+ * Session store that keeps sessions in memory, only suitable for a single server instance
+ *
+ * @public
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, AuthSession>();
+
+  async get(id: string): Promise<AuthSession | undefined> {
+    const session = this.sessions.get(id);
+    if (session && session.expiresAt <= Date.now()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+
+    return session;
+  }
+
+  async set(session: AuthSession): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async rotate(
+    id: string,
+    refreshTokenHash: string,
+    newRefreshTokenHash: string,
+  ): Promise<AuthSession | undefined> {
+    // Read, checked and updated without awaiting in between, so concurrent rotations can't both succeed
+    const session = this.sessions.get(id);
+    if (
+      !session ||
+      session.expiresAt <= Date.now() ||
+      session.refreshTokenHash !== refreshTokenHash
+    ) {
+      return undefined;
+    }
+
+    const rotated = rotateSession(session, newRefreshTokenHash);
+    this.sessions.set(id, rotated);
+    return rotated;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async deleteAll(address: string): Promise<void> {
+    this.sessions.forEach((session, id) => {
+      if (session.address.toLowerCase() === address.toLowerCase()) {
+        this.sessions.delete(id);
+      }
+    });
+  }
+}
+
+/**
+ * Session store backed by any key-value storage, like Redis
+ *
+ * @public
+ */
+export class KeyValueSessionStore implements SessionStore {
+  private storage: KeyValueStorage;
+  private prefix: string;
+
+  constructor(storage: KeyValueStorage, prefix = "thirdweb_auth") {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  async get(id: string): Promise<AuthSession | undefined> {
+    const value = await this.storage.get(this.sessionKey(id));
+    if (!value) {
+      return undefined;
+    }
+
+    const session: AuthSession = JSON.parse(value);
+    if (session.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Key-value stores can't list sessions by address, so we record when all sessions were revoked instead
+    const revokedAt = await this.storage.get(this.revokedKey(session.address));
+    if (revokedAt && session.createdAt <= parseInt(revokedAt)) {
+      return undefined;
+    }
+
+    return session;
+  }
+
+  async set(session: AuthSession): Promise<void> {
+    const ttl = Math.max(Math.ceil((session.expiresAt - Date.now()) / 1000), 1);
+    await this.storage.set(
+      this.sessionKey(session.id),
+      JSON.stringify(session),
+      ttl,
+    );
+    await this.storage.set(
+      this.refreshKey(session.id, session.refreshTokenHash),
+      "1",
+      ttl,
+    );
+  }
+
+  async rotate(
+    id: string,
+    refreshTokenHash: string,
+    newRefreshTokenHash: string,
+  ): Promise<AuthSession | undefined> {
+    const session = await this.get(id);
+    // Only one of concurrent rotations can take the key of the current refresh token
+    if (
+      !session ||
+      !(await this.storage.take(this.refreshKey(id, refreshTokenHash)))
+    ) {
+      return undefined;
+    }
+
+    const rotated = rotateSession(session, newRefreshTokenHash);
+    await this.set(rotated);
+    return rotated;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.storage.delete(this.sessionKey(id));
+  }
+
+  async deleteAll(address: string): Promise<void> {
+    await this.storage.set(this.revokedKey(address), Date.now().toString());
+  }
+
+  private sessionKey(id: string) {
+    return `${this.prefix}:session:${id}`;
+  }
+
+  private refreshKey(id: string, refreshTokenHash: string) {
+    return `${this.prefix}:refresh:${id}:${refreshTokenHash}`;
+  }
+
+  private revokedKey(address: string) {
+    return `${this.prefix}:revoked:${address.toLowerCase()}`;
+  }
+}
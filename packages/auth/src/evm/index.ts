@@ -1,2 +1,15 @@
 export * from "./signer";
 export * from "./auth";
+export { evaluatePolicies } from "./policies";
+export type {
+  AuthPolicies,
+  AuthPolicy,
+  ERC20PolicyRule,
+  ERC721PolicyRule,
+  EvaluatePoliciesOptions,
+  PolicyResults,
+  PolicyRole,
+  PolicyRule,
+  PolicySDK,
+  RolePolicyRule,
+} from "./policies";
@@ -0,0 +1,274 @@
+import { BigNumber, utils } from "ethers";
+
+/**
+ * A contract role, as named by the SDK
+ *
+ * @public
+ */
+export type PolicyRole =
+  | "admin"
+  | "transfer"
+  | "minter"
+  | "pauser"
+  | "lister"
+  | "asset"
+  | "unwrap"
+  | "factory";
+
+/**
+ * The SDK methods used to evaluate policies, which a `ThirdwebSDK` satisfies. They are described
+ * here so auth does not depend on the SDK, which is only needed when policies are used.
+ *
+ * @public
+ */
+export type PolicySDK = {
+  getContract(address: string): Promise<{
+    erc721: { balanceOf(address: string): Promise<BigNumber> };
+    erc20: {
+      balanceOf(
+        address: string,
+      ): Promise<{ value: BigNumber; decimals: number }>;
+    };
+    roles: { verify(roles: PolicyRole[], address: string): Promise<void> };
+  }>;
+};
+
+/**
+ * @public
+ */
+export type ERC721PolicyRule = {
+  type: "erc721";
+  contractAddress: string;
+  chainId: number;
+  /**
+   * The minimum number of tokens the wallet must hold, defaults to 1
+   */
+  minBalance?: number;
+};
+
+/**
+ * @public
+ */
+export type ERC20PolicyRule = {
+  type: "erc20";
+  contractAddress: string;
+  chainId: number;
+  /**
+   * The minimum balance the wallet must hold, in display units (ex: "1.5" tokens)
+   */
+  minBalance: string | number;
+};
+
+/**
+ * @public
+ */
+export type RolePolicyRule = {
+  type: "role";
+  contractAddress: string;
+  chainId: number;
+  role: PolicyRole;
+};
+
+/**
+ * @public
+ */
+export type PolicyRule = ERC721PolicyRule | ERC20PolicyRule | RolePolicyRule;
+
+/**
+ * A policy is a rule, or a list of rules that must all pass
+ *
+ * @public
+ */
+export type AuthPolicy = PolicyRule | PolicyRule[];
+
+/**
+ * Policies by name, ex: `{ holder: { type: "erc721", ... } }`
+ *
+ * @public
+ */
+export type AuthPolicies = Record<string, AuthPolicy>;
+
+/**
+ * Whether the wallet qualifies for each policy, by name
+ *
+ * @public
+ */
+export type PolicyResults = Record<string, boolean>;
+
+/**
+ * How long policy results cached in a session are used before they are evaluated again
+ */
+const DEFAULT_POLICY_RESULTS_DURATION = 60 * 15;
+
+/**
+ * @public
+ */
+export type EvaluatePoliciesOptions = {
+  /**
+   * Get the SDK used to read contracts on a chain, ex: `(chainId) => new ThirdwebSDK(chainId)`
+   */
+  getSDK?: (chainId: number) => PolicySDK | Promise<PolicySDK>;
+};
+
+async function evaluateRule(
+  address: string,
+  rule: PolicyRule,
+  getSDK: (chainId: number) => PolicySDK | Promise<PolicySDK>,
+): Promise<boolean> {
+  const sdk = await getSDK(rule.chainId);
+  const contract = await sdk.getContract(rule.contractAddress);
+
+  switch (rule.type) {
+    case "erc721": {
+      const balance = await contract.erc721.balanceOf(address);
+      return balance.gte(BigNumber.from(rule.minBalance ?? 1));
+    }
+    case "erc20": {
+      const balance = await contract.erc20.balanceOf(address);
+      return balance.value.gte(
+        utils.parseUnits(rule.minBalance.toString(), balance.decimals),
+      );
+    }
+    case "role": {
+      try {
+        await contract.roles.verify([rule.role], address);
+        return true;
+      } catch (err: any) {
+        // Only a missing role disqualifies the wallet, other errors shouldn't be cached as results
+        if (err?.message?.includes("MISSING ROLE")) {
+          return false;
+        }
+        throw err;
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate Policies
+ * @remarks Checks whether a wallet qualifies for each token-gated policy, reading balances and
+ * roles with the SDK. Policies are evaluated in parallel.
+ *
+ * @param address - The address of the wallet to check
+ * @param policies - The policies to evaluate, by name
+ * @param options - Options for evaluating policies, like how to get the SDK for each chain
+ * @returns Whether the wallet qualifies for each policy, by name
+ *
+ * @example
+ * ```javascript
+ * const results = await evaluatePolicies(
+ *   address,
+ *   {
+ *     holder: { type: "erc721", contractAddress: "0x...", chainId: 137 },
+ *     minter: { type: "role", contractAddress: "0x...", chainId: 137, role: "minter" },
+ *   },
+ *   { getSDK: (chainId) => new ThirdwebSDK(chainId) },
+ * );
+ * // { holder: true, minter: false }
+ * ```
+ */
+export async function evaluatePolicies(
+  address: string,
+  policies: AuthPolicies,
+  options?: EvaluatePoliciesOptions,
+): Promise<PolicyResults> {
+  const getSDK = options?.getSDK;
+  if (!getSDK) {
+    throw new Error(
+      "Policies are evaluated with the SDK, specify getSDK in authOptions, ex: (chainId) => new ThirdwebSDK(chainId)",
+    );
+  }
+
+  const entries = await Promise.all(
+    Object.entries(policies).map(async ([name, policy]) => {
+      const rules = Array.isArray(policy) ? policy : [policy];
+      const results = await Promise.all(
+        rules.map((rule) => evaluateRule(address, rule, getSDK)),
+      );
+      return [name, results.every((passed) => passed)] as const;
+    }),
+  );
+
+  return entries.reduce<PolicyResults>((results, [name, passed]) => {
+    results[name] = passed;
+    return results;
+  }, {});
+}
+
+/**
+ * Adds the policy results of the wallet to the session returned by the onLogin callback
+ *
+ * @internal
+ */
+export async function addPolicyResults<TSession>(
+  address: string,
+  session: TSession,
+  policies?: AuthPolicies,
+  options?: EvaluatePoliciesOptions,
+): Promise<
+  | TSession
+  | (TSession & { policies: PolicyResults; policiesEvaluatedAt: number })
+> {
+  if (!policies) {
+    return session;
+  }
+
+  if (
+    session !== undefined &&
+    (typeof session !== "object" || session === null || Array.isArray(session))
+  ) {
+    throw new Error(
+      "Policy results can only be added to an object session, return an object from onLogin.",
+    );
+  }
+
+  return {
+    ...session,
+    policies: await evaluatePolicies(address, policies, options),
+    // Balances and roles change, so the results are only trusted for a while after this time
+    policiesEvaluatedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Checks whether a user satisfies the named policies, using the results cached in their session
+ * until they expire and evaluating any policies that were added since they logged in
+ *
+ * @internal
+ */
+export async function satisfiesPolicies(
+  address: string,
+  session: unknown,
+  names: string[],
+  policies?: AuthPolicies,
+  options?: EvaluatePoliciesOptions & { durationInSeconds?: number },
+): Promise<boolean> {
+  // Sessions are carried forward by refreshes, so results older than the duration are evaluated again
+  const evaluatedAt: number = (session as any)?.policiesEvaluatedAt || 0;
+  const duration =
+    options?.durationInSeconds ?? DEFAULT_POLICY_RESULTS_DURATION;
+  const cached: PolicyResults =
+    Date.now() / 1000 - evaluatedAt < duration
+      ? (session as any)?.policies || {}
+      : {};
+
+  const uncached: AuthPolicies = {};
+  for (const name of names) {
+    if (cached[name] !== undefined) {
+      continue;
+    }
+
+    if (!policies?.[name]) {
+      throw new Error(`The '${name}' policy is not configured in authOptions`);
+    }
+    uncached[name] = policies[name];
+  }
+
+  const results = {
+    ...cached,
+    ...(Object.keys(uncached).length > 0
+      ? await evaluatePolicies(address, uncached, options)
+      : {}),
+  };
+  return names.every((name) => results[name]);
+}
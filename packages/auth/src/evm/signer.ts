@@ -33,9 +33,16 @@ export const checkContractWalletSignature = async (
 export class SignerWallet implements GenericAuthWallet {
   type: Ecosystem = "evm";
   #signer: ethers.Signer;
+  signDigest?: (digest: Uint8Array) => Promise<string>;
 
   constructor(signer: ethers.Signer) {
     this.#signer = signer;
+
+    // Signers with a local private key can produce standard ES256K authentication tokens
+    if (signer instanceof ethers.Wallet) {
+      this.signDigest = async (digest: Uint8Array) =>
+        ethers.utils.joinSignature(signer._signingKey().signDigest(digest));
+    }
   }
 
   public async getAddress(): Promise<string> {
@@ -1,11 +1,16 @@
-import { Json, ThirdwebAuth as ThirdwebAuthSDK } from "../core";
-import { getUser } from "./helpers/user";
-import loginHandler from "./routes/login";
-import logoutHandler from "./routes/logout";
-import userHandler from "./routes/user";
-import { ThirdwebAuthConfig, ThirdwebAuthContext } from "./types";
+import { Json } from "../core";
+import {
+  sendFetchResponse,
+  toFetchHeadersRequest,
+  toFetchRequest,
+} from "../fetch/adapters/node";
+import { createAuthContext, getRequestContext } from "../fetch/helpers/context";
+import { checkPolicy } from "../fetch/helpers/policy";
+import { getUser } from "../fetch/helpers/user";
+import { ThirdwebAuthRouter } from "../fetch/router";
+import { ThirdwebAuthConfig, ThirdwebAuthUser } from "./types";
 import cookieParser from "cookie-parser";
-import express, { Request, Response } from "express";
+import express, { NextFunction, Request, Response } from "express";
 
 export * from "./types";
 
@@ -21,10 +26,7 @@ export function ThirdwebAuth<
   TData extends Json = Json,
   TSession extends Json = Json,
 >(cfg: ThirdwebAuthConfig<TData, TSession>) {
-  const ctx = {
-    ...cfg,
-    auth: new ThirdwebAuthSDK(cfg.wallet, cfg.domain),
-  };
+  const ctx = createAuthContext(cfg);
 
   const router = express.Router();
   const cookieMiddleware = cookieParser();
@@ -32,32 +34,44 @@ export function ThirdwebAuth<
   router.use(express.json());
   router.use(cookieMiddleware);
 
-  router.post(
-    "/login",
-    asyncHandler((req: Request, res: Response) =>
-      loginHandler(req, res, ctx as ThirdwebAuthContext),
-    ),
-  );
-
-  router.get(
-    "/user",
-    asyncHandler((req: Request, res: Response) =>
-      userHandler(req, res, ctx as ThirdwebAuthContext),
-    ),
-  );
-
-  router.post(
-    "/logout",
-    asyncHandler((req: Request, res: Response) =>
-      logoutHandler(req, res, ctx as ThirdwebAuthContext),
-    ),
+  // Every route is handled by the fetch handlers, with callbacks receiving the express request
+  router.all(
+    "/:route",
+    asyncHandler(async (req: Request, res: Response) => {
+      const request = await toFetchRequest(req, req.body);
+      await sendFetchResponse(
+        res,
+        await ThirdwebAuthRouter(request, getRequestContext(ctx, req)),
+      );
+    }),
   );
 
   return {
     authRouter: router,
     authMiddleware: cookieMiddleware,
     getUser: (req: Request) => {
-      return getUser<TData, TSession>(req, ctx);
+      return getUser(
+        toFetchHeadersRequest(req),
+        getRequestContext(ctx, req),
+      ) as Promise<ThirdwebAuthUser<TData, TSession> | null>;
     },
+    requirePolicy:
+      (policy: string | string[]) =>
+      async (req: Request, res: Response, next: NextFunction) => {
+        try {
+          const error = await checkPolicy(
+            toFetchHeadersRequest(req),
+            getRequestContext(ctx, req),
+            policy,
+          );
+          if (error) {
+            return await sendFetchResponse(res, error);
+          }
+
+          next();
+        } catch (err) {
+          next(err);
+        }
+      },
   };
 }
@@ -0,0 +1,23 @@
+import { ThirdwebAuthFetchHandler } from "../types";
+import { sendFetchResponse, toFetchRequest } from "./node";
+import type { NextFunction, Request, Response } from "express";
+
+/**
+ * Adapts the auth handler to an express request handler
+ *
+ * @example
+ * ```javascript
+ * const { handler } = ThirdwebAuth({ domain, wallet });
+ * app.use("/auth", toExpressHandler(handler));
+ * ```
+ */
+export function toExpressHandler(handler: ThirdwebAuthFetchHandler) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const request = await toFetchRequest(req, req.body);
+      await sendFetchResponse(res, await handler(request));
+    } catch (err) {
+      next(err);
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import { ThirdwebAuthFetchHandler } from "../types";
+import { getSetCookies, toFetchRequest } from "./node";
+import type { IncomingMessage } from "http";
+
+type FastifyRequest = {
+  raw: IncomingMessage;
+  body?: unknown;
+};
+
+type FastifyReply = {
+  status(statusCode: number): FastifyReply;
+  header(key: string, value: string | string[]): FastifyReply;
+  send(payload: Buffer): FastifyReply;
+};
+
+/**
+ * Adapts the auth handler to a Fastify route handler
+ *
+ * @example
+ * ```javascript
+ * const { handler } = ThirdwebAuth({ domain, wallet });
+ * fastify.all("/auth/*", toFastifyHandler(handler));
+ * ```
+ */
+export function toFastifyHandler(handler: ThirdwebAuthFetchHandler) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const response = await handler(
+      await toFetchRequest(request.raw, request.body),
+    );
+
+    reply.status(response.status);
+    response.headers.forEach((value: string, key: string) => {
+      if (key !== "set-cookie") {
+        reply.header(key, value);
+      }
+    });
+
+    const cookies = getSetCookies(response.headers);
+    if (cookies.length > 0) {
+      reply.header("set-cookie", cookies);
+    }
+
+    return reply.send(Buffer.from(await response.arrayBuffer()));
+  };
+}
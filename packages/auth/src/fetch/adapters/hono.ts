@@ -0,0 +1,18 @@
+import { ThirdwebAuthFetchHandler } from "../types";
+
+type HonoContext = {
+  req: { raw: Request };
+};
+
+/**
+ * Adapts the auth handler to a Hono route handler
+ *
+ * @example
+ * ```javascript
+ * const { handler } = ThirdwebAuth({ domain, wallet });
+ * app.all("/auth/*", toHonoHandler(handler));
+ * ```
+ */
+export function toHonoHandler(handler: ThirdwebAuthFetchHandler) {
+  return (c: HonoContext) => handler(c.req.raw);
+}
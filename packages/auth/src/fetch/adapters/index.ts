@@ -0,0 +1,5 @@
+export { toExpressHandler } from "./express";
+export { toFastifyHandler } from "./fastify";
+export { toHonoHandler } from "./hono";
+export { toNextRouteHandlers } from "./next";
+export { toNodeHandler } from "./node";
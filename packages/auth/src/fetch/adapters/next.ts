@@ -0,0 +1,18 @@
+import { ThirdwebAuthFetchHandler } from "../types";
+
+/**
+ * Adapts the auth handler to Next app router route handlers
+ *
+ * @example
+ * ```javascript
+ * // app/api/auth/[...thirdweb]/route.ts
+ * const { handler } = ThirdwebAuth({ domain, wallet });
+ * export const { GET, POST } = toNextRouteHandlers(handler);
+ * ```
+ */
+export function toNextRouteHandlers(handler: ThirdwebAuthFetchHandler) {
+  return {
+    GET: (req: Request) => handler(req),
+    POST: (req: Request) => handler(req),
+  };
+}
@@ -0,0 +1,135 @@
+import { FetchHeaders, FetchRequest } from "../helpers/fetch-api";
+import { ThirdwebAuthFetchHandler } from "../types";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Socket } from "net";
+import type { TLSSocket } from "tls";
+
+type NodeRequest = IncomingMessage & { originalUrl?: string };
+
+function isTlsSocket(socket: Socket): socket is TLSSocket {
+  return "encrypted" in socket;
+}
+
+function getRequestUrl(req: NodeRequest): URL {
+  const forwardedProto = req.headers["x-forwarded-proto"];
+  const protocol =
+    (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto) ||
+    (req.socket && isTlsSocket(req.socket) && req.socket.encrypted
+      ? "https"
+      : "http");
+  return new URL(
+    req.originalUrl || req.url || "/",
+    `${protocol}://${req.headers.host || "localhost"}`,
+  );
+}
+
+function getRequestHeaders(req: NodeRequest): Headers {
+  const headers = new FetchHeaders();
+  Object.entries(req.headers).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach((v) => headers.append(key, v));
+    } else if (value !== undefined) {
+      headers.set(key, value);
+    }
+  });
+  return headers;
+}
+
+/**
+ * Converts the url and headers of a Node request to a Fetch API request, without reading
+ * the body, so the request stream is left for the handler that runs after
+ */
+export function toFetchHeadersRequest(req: NodeRequest): Request {
+  return new FetchRequest(getRequestUrl(req), {
+    headers: getRequestHeaders(req),
+  });
+}
+
+/**
+ * Converts a Node request to a Fetch API request. Frameworks that parse the body before the
+ * handler runs consume the request stream, so the parsed body can be passed in instead.
+ */
+export async function toFetchRequest(
+  req: NodeRequest,
+  parsedBody?: unknown,
+): Promise<Request> {
+  const method = req.method || "GET";
+  let body: string | Buffer | undefined;
+  if (method !== "GET" && method !== "HEAD") {
+    if (parsedBody !== undefined) {
+      body =
+        typeof parsedBody === "string" || Buffer.isBuffer(parsedBody)
+          ? parsedBody
+          : JSON.stringify(parsedBody);
+    } else {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+      }
+      body = Buffer.concat(chunks);
+    }
+  }
+
+  return new FetchRequest(getRequestUrl(req), {
+    method,
+    headers: getRequestHeaders(req),
+    body,
+  });
+}
+
+/**
+ * Gets every Set-Cookie header of a response, which can't be joined into a single header
+ */
+export function getSetCookies(headers: Headers): string[] {
+  if (typeof (headers as any).getSetCookie === "function") {
+    return (headers as any).getSetCookie();
+  }
+  // The node-fetch headers used on older Node versions keep each value
+  if (typeof (headers as any).raw === "function") {
+    const raw: Record<string, string[]> = (headers as any).raw();
+    return Object.entries(raw)
+      .filter(([key]) => key.toLowerCase() === "set-cookie")
+      .flatMap(([, values]) => values);
+  }
+
+  // Older runtimes join Set-Cookie headers with commas, which also appear in cookie expiry dates
+  const cookies = headers.get("set-cookie");
+  return cookies ? cookies.split(/,\s*(?=[^;,=\s]+=)/) : [];
+}
+
+/**
+ * Writes a Fetch API response to a Node response
+ */
+export async function sendFetchResponse(
+  res: ServerResponse,
+  response: Response,
+): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value: string, key: string) => {
+    if (key !== "set-cookie") {
+      res.setHeader(key, value);
+    }
+  });
+
+  const cookies = getSetCookies(response.headers);
+  if (cookies.length > 0) {
+    res.setHeader("Set-Cookie", cookies);
+  }
+
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * Adapts the auth handler to a Node `http` request listener
+ *
+ * @example
+ * ```javascript
+ * const { handler } = ThirdwebAuth({ domain, wallet });
+ * http.createServer(toNodeHandler(handler)).listen(3000);
+ * ```
+ */
+export function toNodeHandler(handler: ThirdwebAuthFetchHandler) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    await sendFetchResponse(res, await handler(await toFetchRequest(req)));
+  };
+}
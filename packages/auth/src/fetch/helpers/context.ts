@@ -0,0 +1,50 @@
+import { Json, ThirdwebAuth as ThirdwebAuthSDK, User } from "../../core";
+import { ThirdwebAuthConfig, ThirdwebAuthContext } from "../types";
+
+type AuthOptionsConfig = Pick<
+  ThirdwebAuthConfig,
+  "domain" | "wallet" | "authOptions"
+>;
+
+// Methods keep the request parameter bivariant, as callbacks only receive their own request
+type FrameworkCallbacks<TRequest> = {
+  onLogin?(address: string, req?: TRequest): void | Json | Promise<void | Json>;
+  onUser?(user: User<any>, req?: TRequest): void | Json | Promise<void | Json>;
+  onLogout?(user: User, req?: TRequest): void | Promise<void>;
+};
+
+export function createAuthContext<TConfig extends AuthOptionsConfig>(
+  cfg: TConfig,
+): Omit<TConfig, "wallet" | "domain"> & { auth: ThirdwebAuthSDK } {
+  const { wallet, domain, ...rest } = cfg;
+  return {
+    ...rest,
+    auth: new ThirdwebAuthSDK(wallet, domain, {
+      sessionStore: cfg.authOptions?.sessionStore,
+      nonceStore: cfg.authOptions?.nonceStore,
+      linkStore: cfg.authOptions?.linkStore,
+      linkVerifiers: cfg.authOptions?.linkVerifiers,
+    }),
+  };
+}
+
+/**
+ * Binds the callbacks of a framework adapter to the framework request, so they receive
+ * the request they were configured with instead of its Fetch API conversion
+ */
+export function getRequestContext<TRequest>(
+  ctx: Omit<ThirdwebAuthContext, "callbacks"> & {
+    callbacks?: FrameworkCallbacks<TRequest>;
+  },
+  req: TRequest,
+): ThirdwebAuthContext {
+  const { onLogin, onUser, onLogout } = ctx.callbacks || {};
+  return {
+    ...ctx,
+    callbacks: {
+      onLogin: onLogin && (async (address: string) => onLogin(address, req)),
+      onUser: onUser && (async (user: User<Json>) => onUser(user, req)),
+      onLogout: onLogout && (async (user: User) => onLogout(user, req)),
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import {
+  Headers as HeadersPonyfill,
+  Request as RequestPonyfill,
+  Response as ResponsePonyfill,
+} from "cross-fetch";
+
+// Fetch runtimes and Node 18+ provide the Fetch API globally, servers on older Node versions use the ponyfill
+export const FetchHeaders: typeof Headers =
+  typeof Headers !== "undefined" ? Headers : HeadersPonyfill;
+
+export const FetchRequest: typeof Request =
+  typeof Request !== "undefined" ? Request : RequestPonyfill;
+
+export const FetchResponse: typeof Response =
+  typeof Response !== "undefined" ? Response : ResponsePonyfill;
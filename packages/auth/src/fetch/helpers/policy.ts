@@ -0,0 +1,59 @@
+import { satisfiesPolicies } from "../../evm/policies";
+import { ThirdwebAuthContext, ThirdwebAuthFetchHandler } from "../types";
+import { json } from "./response";
+import { getUser } from "./user";
+
+/**
+ * Checks the policies for the user of a request, and returns the error response
+ * if the user is not authenticated or does not satisfy them
+ */
+export async function checkPolicy(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+  policy: string | string[],
+): Promise<Response | undefined> {
+  const names = Array.isArray(policy) ? policy : [policy];
+
+  const user = await getUser(req, ctx);
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  const allowed = await satisfiesPolicies(
+    user.address,
+    user.session,
+    names,
+    ctx.authOptions?.policies,
+    {
+      getSDK: ctx.authOptions?.getSDK,
+      durationInSeconds: ctx.authOptions?.policyDurationInSeconds,
+    },
+  );
+  if (!allowed) {
+    return json(
+      {
+        error: `Wallet does not satisfy the required policies: ${names.join(
+          ", ",
+        )}`,
+      },
+      403,
+    );
+  }
+
+  return undefined;
+}
+
+export function requirePolicy(
+  ctx: ThirdwebAuthContext,
+  policy: string | string[],
+  handler: ThirdwebAuthFetchHandler,
+): ThirdwebAuthFetchHandler {
+  return async (req: Request) => {
+    const error = await checkPolicy(req, ctx, policy);
+    if (error) {
+      return error;
+    }
+
+    return handler(req);
+  };
+}
@@ -0,0 +1,40 @@
+import { FetchHeaders, FetchResponse } from "./fetch-api";
+
+export function json(
+  body: unknown,
+  status = 200,
+  cookies: string[] = [],
+): Response {
+  const headers = new FetchHeaders({ "Content-Type": "application/json" });
+  cookies.forEach((cookie) => headers.append("Set-Cookie", cookie));
+  return new FetchResponse(JSON.stringify(body), { status, headers });
+}
+
+export async function readJsonBody(req: Request): Promise<any> {
+  try {
+    return await req.clone().json();
+  } catch {
+    return undefined;
+  }
+}
+
+export function getCookie(req: Request, name: string): string | undefined {
+  const cookies = req.headers.get("cookie");
+  if (!cookies) {
+    return undefined;
+  }
+
+  for (const cookie of cookies.split(";")) {
+    const [key, ...value] = cookie.trim().split("=");
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join("="));
+      } catch {
+        // A malformed cookie can't be a valid token, so treat it as absent
+        return undefined;
+      }
+    }
+  }
+
+  return undefined;
+}
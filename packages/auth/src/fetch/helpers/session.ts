@@ -0,0 +1,60 @@
+import { SessionTokens } from "../../core";
+import { ThirdwebAuthContext } from "../types";
+import { readJsonBody, getCookie } from "./response";
+import { serialize } from "cookie";
+
+export async function getRefreshToken(
+  req: Request,
+): Promise<string | undefined> {
+  const body = await readJsonBody(req);
+  if (typeof body?.refreshToken === "string") {
+    return body.refreshToken;
+  }
+
+  return getCookie(req, "thirdweb_auth_refresh_token");
+}
+
+function getCookieOptions(ctx: ThirdwebAuthContext) {
+  return {
+    domain: ctx.cookieOptions?.domain,
+    path: ctx.cookieOptions?.path || "/",
+    sameSite: ctx.cookieOptions?.sameSite || "none",
+    httpOnly: true,
+    secure: true,
+  } as const;
+}
+
+export function getTokenCookies(
+  ctx: ThirdwebAuthContext,
+  token: string,
+): string[] {
+  return [serialize("thirdweb_auth_token", token, getCookieOptions(ctx))];
+}
+
+export function getSessionCookies(
+  ctx: ThirdwebAuthContext,
+  tokens: SessionTokens,
+): string[] {
+  const cookieOptions = getCookieOptions(ctx);
+  return [
+    serialize("thirdweb_auth_token", tokens.accessToken, cookieOptions),
+    serialize("thirdweb_auth_refresh_token", tokens.refreshToken, {
+      ...cookieOptions,
+      expires: tokens.expiresAt,
+    }),
+  ];
+}
+
+export function getClearedSessionCookies(ctx: ThirdwebAuthContext): string[] {
+  // Set the access and refresh tokens to 'none' and expire in 5 seconds
+  const cookieOptions = {
+    domain: ctx.cookieOptions?.domain,
+    path: ctx.cookieOptions?.path || "/",
+    expires: new Date(Date.now() + 5 * 1000),
+  };
+
+  return [
+    serialize("thirdweb_auth_token", "", cookieOptions),
+    serialize("thirdweb_auth_refresh_token", "", cookieOptions),
+  ];
+}
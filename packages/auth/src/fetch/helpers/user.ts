@@ -1,10 +1,11 @@
 import { Json } from "../../core/schema";
 import { ThirdwebAuthContext, ThirdwebAuthUser } from "../types";
-import { Request } from "express";
+import { getCookie } from "./response";
 
-function getToken(req: Request): string | undefined {
-  if (req.headers["authorization"]) {
-    const authorizationHeader = req.headers["authorization"].split(" ");
+export function getToken(req: Request): string | undefined {
+  const authorization = req.headers.get("authorization");
+  if (authorization) {
+    const authorizationHeader = authorization.split(" ");
     if (authorizationHeader?.length === 2) {
       return authorizationHeader[1];
     }
@@ -12,13 +13,7 @@ function getToken(req: Request): string | undefined {
     return undefined;
   }
 
-  const cookie: string | undefined = !req.cookies
-    ? undefined
-    : typeof req.cookies.get === "function"
-    ? (req.cookies as any).get("thirdweb_auth_token")
-    : (req.cookies as any).thirdweb_auth_token;
-
-  return cookie;
+  return getCookie(req, "thirdweb_auth_token");
 }
 
 export async function getUser<
@@ -34,6 +29,17 @@ export async function getUser<
     return null;
   }
 
+  return getUserFromToken<TData, TSession>(token, ctx, req);
+}
+
+export async function getUserFromToken<
+  TData extends Json = Json,
+  TSession extends Json = Json,
+>(
+  token: string,
+  ctx: ThirdwebAuthContext<TData, TSession>,
+  req?: Request,
+): Promise<ThirdwebAuthUser<TData, TSession> | null> {
   let authenticatedUser: ThirdwebAuthUser<TData, TSession>;
   try {
     authenticatedUser = await ctx.auth.authenticate<TSession>(token, {
@@ -51,7 +57,7 @@ export async function getUser<
     return authenticatedUser;
   }
 
-  const data = await ctx.callbacks.onUser(authenticatedUser);
+  const data = await ctx.callbacks.onUser(authenticatedUser, req);
   if (!data) {
     return authenticatedUser;
   }
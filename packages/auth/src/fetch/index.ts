@@ -0,0 +1,32 @@
+import { Json } from "../core";
+import { createAuthContext } from "./helpers/context";
+import { requirePolicy } from "./helpers/policy";
+import { getUser } from "./helpers/user";
+import { ThirdwebAuthRouter } from "./router";
+import {
+  ThirdwebAuthConfig,
+  ThirdwebAuthContext,
+  ThirdwebAuthFetchHandler,
+} from "./types";
+
+export * from "./types";
+export * from "./adapters";
+
+export function ThirdwebAuth<
+  TData extends Json = Json,
+  TSession extends Json = Json,
+>(cfg: ThirdwebAuthConfig<TData, TSession>) {
+  const ctx = createAuthContext(cfg);
+
+  return {
+    handler: (req: Request) =>
+      ThirdwebAuthRouter(req, ctx as ThirdwebAuthContext),
+    getUser: (req: Request) => {
+      return getUser<TData, TSession>(req, ctx);
+    },
+    requirePolicy: (
+      policy: string | string[],
+      handler: ThirdwebAuthFetchHandler,
+    ) => requirePolicy(ctx as ThirdwebAuthContext, policy, handler),
+  };
+}
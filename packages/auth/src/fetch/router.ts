@@ -0,0 +1,45 @@
+import { json } from "./helpers/response";
+import jwksHandler from "./routes/jwks";
+import linkHandler from "./routes/link";
+import loginHandler from "./routes/login";
+import logoutHandler from "./routes/logout";
+import logoutAllHandler from "./routes/logout-all";
+import nonceHandler from "./routes/nonce";
+import refreshHandler from "./routes/refresh";
+import unlinkHandler from "./routes/unlink";
+import userHandler from "./routes/user";
+import { ThirdwebAuthContext, ThirdwebAuthRoute } from "./types";
+
+export async function ThirdwebAuthRouter(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  // The route is the last segment of the path, ex: /api/auth/login
+  const action = new URL(req.url).pathname
+    .split("/")
+    .filter((segment) => !!segment)
+    .pop() as ThirdwebAuthRoute;
+
+  switch (action) {
+    case "login":
+      return await loginHandler(req, ctx);
+    case "user":
+      return await userHandler(req, ctx);
+    case "logout":
+      return await logoutHandler(req, ctx);
+    case "refresh":
+      return await refreshHandler(req, ctx);
+    case "logout-all":
+      return await logoutAllHandler(req, ctx);
+    case "jwks":
+      return await jwksHandler(req, ctx);
+    case "nonce":
+      return await nonceHandler(req, ctx);
+    case "link":
+      return await linkHandler(req, ctx);
+    case "unlink":
+      return await unlinkHandler(req, ctx);
+    default:
+      return json({ message: "Invalid route for authentication." }, 400);
+  }
+}
@@ -0,0 +1,16 @@
+import { json } from "../helpers/response";
+import { ThirdwebAuthContext } from "../types";
+
+export default async function handler(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  if (req.method !== "GET") {
+    return json({ error: "Invalid method. Only GET supported." }, 405);
+  }
+
+  // Publish the issuer public key so other services can verify tokens without this SDK
+  const res = json(await ctx.auth.getJwks());
+  res.headers.set("Cache-Control", "public, max-age=3600");
+  return res;
+}
@@ -0,0 +1,60 @@
+import { json, readJsonBody } from "../helpers/response";
+import { getTokenCookies } from "../helpers/session";
+import { getToken, getUser } from "../helpers/user";
+import { LoginPayloadBodySchema, ThirdwebAuthContext } from "../types";
+
+export default async function handler(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  if (req.method !== "POST") {
+    return json({ error: "Invalid method. Only POST supported." }, 405);
+  }
+
+  if (!ctx.authOptions?.linkStore) {
+    return json(
+      {
+        error:
+          "Account linking is not enabled, specify a linkStore in authOptions.",
+      },
+      400,
+    );
+  }
+
+  const user = await getUser(req, ctx);
+  const token = getToken(req);
+  if (!user || !token) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  // Get the login payload signed by the wallet to link from the frontend
+  const parsedPayload = LoginPayloadBodySchema.safeParse(
+    await readJsonBody(req),
+  );
+  if (!parsedPayload.success) {
+    return json({ error: "Invalid login payload" }, 400);
+  }
+
+  let newToken: string;
+  try {
+    // The chain ID isn't checked, as the linked wallet can be from another ecosystem
+    newToken = await ctx.auth.linkAccount(token, parsedPayload.data.payload, {
+      statement: ctx.authOptions?.statement,
+      uri: ctx.authOptions?.uri,
+      version: ctx.authOptions?.version,
+      validateNonce: ctx.authOptions?.validateNonce,
+      resources: ctx.authOptions?.resources,
+    });
+  } catch (err: any) {
+    return json({ error: err.message || "Invalid login payload" }, 400);
+  }
+
+  return json(
+    {
+      token: newToken,
+      linkedAccounts: await ctx.auth.getLinkedAccounts(user.address),
+    },
+    200,
+    getTokenCookies(ctx, newToken),
+  );
+}
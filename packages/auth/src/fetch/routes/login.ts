@@ -0,0 +1,95 @@
+import { GenerateOptions, SessionTokens } from "../../core";
+import { addPolicyResults } from "../../evm/policies";
+import { json, readJsonBody } from "../helpers/response";
+import { getSessionCookies, getTokenCookies } from "../helpers/session";
+import { LoginPayloadBodySchema, ThirdwebAuthContext } from "../types";
+
+export default async function handler(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const parsedPayload = LoginPayloadBodySchema.safeParse(
+    await readJsonBody(req),
+  );
+
+  // Get signed login payload from the frontend
+  if (!parsedPayload.success) {
+    return json({ error: "Invalid login payload" }, 400);
+  }
+
+  const payload = parsedPayload.data.payload;
+
+  const getSession = async (address: string) => {
+    const session = ctx.callbacks?.onLogin
+      ? await ctx.callbacks.onLogin(address, req)
+      : undefined;
+
+    // Cache which policies the user qualifies for in their session, with the time they were checked
+    return addPolicyResults(address, session, ctx.authOptions?.policies, {
+      getSDK: ctx.authOptions?.getSDK,
+    });
+  };
+
+  const expirationTime = ctx.authOptions?.tokenDurationInSeconds
+    ? new Date(Date.now() + 1000 * ctx.authOptions.tokenDurationInSeconds)
+    : undefined;
+
+  const refreshExpirationTime = ctx.authOptions?.refreshTokenDurationInSeconds
+    ? new Date(
+        Date.now() + 1000 * ctx.authOptions.refreshTokenDurationInSeconds,
+      )
+    : undefined;
+
+  const generateOptions: GenerateOptions = {
+    verifyOptions: {
+      statement: ctx.authOptions?.statement,
+      uri: ctx.authOptions?.uri,
+      version: ctx.authOptions?.version,
+      chainId: ctx.authOptions?.chainId,
+      // Nonces issued by the nonce route are checked unless custom validation is configured
+      validateNonce: ctx.authOptions?.validateNonce,
+      resources: ctx.authOptions?.resources,
+    },
+    expirationTime,
+    session: getSession,
+  };
+
+  let token: string;
+  let tokens: SessionTokens | undefined;
+  try {
+    if (ctx.authOptions?.sessionStore) {
+      // Start a session with a short-lived access token and a refresh token
+      tokens = await ctx.auth.generateSession(payload, {
+        ...generateOptions,
+        refreshExpirationTime,
+      });
+      token = tokens.accessToken;
+    } else {
+      // Generate an access token with the SDK using the signed payload
+      token = await ctx.auth.generate(payload, generateOptions);
+    }
+  } catch (err: any) {
+    if (err.message) {
+      return json({ error: err.message }, 400);
+    } else if (typeof err === "string") {
+      return json({ error: err }, 400);
+    } else {
+      return json({ error: "Invalid login payload" }, 400);
+    }
+  }
+
+  if (tokens) {
+    return json(
+      { token, refreshToken: tokens.refreshToken },
+      200,
+      getSessionCookies(ctx, tokens),
+    );
+  }
+
+  // Send token in body and as an httpOnly cookie for frontend and backend use cases
+  return json({ token }, 200, getTokenCookies(ctx, token));
+}
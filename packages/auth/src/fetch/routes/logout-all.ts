@@ -0,0 +1,40 @@
+import { json } from "../helpers/response";
+import { getClearedSessionCookies } from "../helpers/session";
+import { getUser } from "../helpers/user";
+import { ThirdwebAuthContext } from "../types";
+
+export default async function handler(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  if (req.method !== "POST") {
+    return json({ error: "Invalid method. Only POST supported." }, 405);
+  }
+
+  if (!ctx.authOptions?.sessionStore) {
+    return json(
+      {
+        error:
+          "Sessions are not enabled, specify a sessionStore in authOptions.",
+      },
+      400,
+    );
+  }
+
+  const user = await getUser(req, ctx);
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  // Revoke every session of the user, so all of their refresh and access tokens are rejected
+  await ctx.auth.revokeAllSessions(user.address);
+  if (ctx.callbacks?.onLogout) {
+    await ctx.callbacks.onLogout(user, req);
+  }
+
+  return json(
+    { message: "Succesfully logged out everywhere" },
+    200,
+    getClearedSessionCookies(ctx),
+  );
+}
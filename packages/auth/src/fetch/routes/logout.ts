@@ -0,0 +1,32 @@
+import { json } from "../helpers/response";
+import { getClearedSessionCookies, getRefreshToken } from "../helpers/session";
+import { getUser } from "../helpers/user";
+import { ThirdwebAuthContext } from "../types";
+
+export default async function handler(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  if (req.method !== "POST") {
+    return json({ error: "Invalid method. Only POST supported." }, 405);
+  }
+
+  if (ctx.callbacks?.onLogout) {
+    const user = await getUser(req, ctx);
+    if (user) {
+      await ctx.callbacks.onLogout(user, req);
+    }
+  }
+
+  // Revoke the current session so its refresh token can't be used again
+  const refreshToken = await getRefreshToken(req);
+  if (ctx.authOptions?.sessionStore && refreshToken) {
+    await ctx.auth.revokeSession(refreshToken);
+  }
+
+  return json(
+    { message: "Succesfully logged out" },
+    200,
+    getClearedSessionCookies(ctx),
+  );
+}
@@ -0,0 +1,20 @@
+import { json } from "../helpers/response";
+import { ThirdwebAuthContext } from "../types";
+
+export default async function handler(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  if (req.method !== "GET") {
+    return json({ error: "Invalid method. Only GET supported." }, 405);
+  }
+
+  const expirationTime = ctx.authOptions?.nonceDurationInSeconds
+    ? new Date(Date.now() + 1000 * ctx.authOptions.nonceDurationInSeconds)
+    : undefined;
+
+  // Issue a single-use nonce for the next login payload, which must never be cached
+  const res = json({ nonce: await ctx.auth.generateNonce({ expirationTime }) });
+  res.headers.set("Cache-Control", "no-store");
+  return res;
+}
@@ -0,0 +1,53 @@
+import { SessionTokens } from "../../core";
+import { json } from "../helpers/response";
+import {
+  getClearedSessionCookies,
+  getRefreshToken,
+  getSessionCookies,
+} from "../helpers/session";
+import { ThirdwebAuthContext } from "../types";
+
+export default async function handler(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  if (req.method !== "POST") {
+    return json({ error: "Invalid method. Only POST supported." }, 405);
+  }
+
+  if (!ctx.authOptions?.sessionStore) {
+    return json(
+      {
+        error:
+          "Sessions are not enabled, specify a sessionStore in authOptions.",
+      },
+      400,
+    );
+  }
+
+  const refreshToken = await getRefreshToken(req);
+  if (!refreshToken) {
+    return json({ error: "Missing refresh token" }, 401);
+  }
+
+  const expirationTime = ctx.authOptions?.tokenDurationInSeconds
+    ? new Date(Date.now() + 1000 * ctx.authOptions.tokenDurationInSeconds)
+    : undefined;
+
+  let tokens: SessionTokens;
+  try {
+    tokens = await ctx.auth.refresh(refreshToken, { expirationTime });
+  } catch (err: any) {
+    return json(
+      { error: err.message || "Invalid refresh token" },
+      401,
+      getClearedSessionCookies(ctx),
+    );
+  }
+
+  return json(
+    { token: tokens.accessToken, refreshToken: tokens.refreshToken },
+    200,
+    getSessionCookies(ctx, tokens),
+  );
+}
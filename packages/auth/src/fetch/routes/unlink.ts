@@ -0,0 +1,50 @@
+import { json, readJsonBody } from "../helpers/response";
+import { getTokenCookies } from "../helpers/session";
+import { getToken, getUser } from "../helpers/user";
+import { ThirdwebAuthContext, UnlinkBodySchema } from "../types";
+
+export default async function handler(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  if (req.method !== "POST") {
+    return json({ error: "Invalid method. Only POST supported." }, 405);
+  }
+
+  if (!ctx.authOptions?.linkStore) {
+    return json(
+      {
+        error:
+          "Account linking is not enabled, specify a linkStore in authOptions.",
+      },
+      400,
+    );
+  }
+
+  const user = await getUser(req, ctx);
+  const token = getToken(req);
+  if (!user || !token) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  const parsedBody = UnlinkBodySchema.safeParse(await readJsonBody(req));
+  if (!parsedBody.success) {
+    return json({ error: "Missing address to unlink" }, 400);
+  }
+
+  let newToken: string;
+  try {
+    newToken = await ctx.auth.unlinkAccount(token, parsedBody.data.address);
+  } catch (err: any) {
+    return json({ error: err.message }, 400);
+  }
+
+  return json(
+    {
+      token: newToken,
+      linkedAccounts: await ctx.auth.getLinkedAccounts(user.address),
+    },
+    200,
+    getTokenCookies(ctx, newToken),
+  );
+}
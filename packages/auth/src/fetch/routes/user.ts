@@ -0,0 +1,34 @@
+import { json } from "../helpers/response";
+import { getRefreshToken, getSessionCookies } from "../helpers/session";
+import { getUser, getUserFromToken } from "../helpers/user";
+import { ThirdwebAuthContext } from "../types";
+
+export default async function handler(
+  req: Request,
+  ctx: ThirdwebAuthContext,
+): Promise<Response> {
+  if (req.method !== "GET") {
+    return json({ error: "Invalid method. Only GET supported." }, 400);
+  }
+
+  let user = await getUser(req, ctx);
+  let cookies: string[] = [];
+
+  // If the access token has expired, use the refresh token to continue the session
+  const refreshToken = await getRefreshToken(req);
+  if (!user && ctx.authOptions?.sessionStore && refreshToken) {
+    const expirationTime = ctx.authOptions?.tokenDurationInSeconds
+      ? new Date(Date.now() + 1000 * ctx.authOptions.tokenDurationInSeconds)
+      : undefined;
+
+    try {
+      const tokens = await ctx.auth.refresh(refreshToken, { expirationTime });
+      cookies = getSessionCookies(ctx, tokens);
+      user = await getUserFromToken(tokens.accessToken, ctx, req);
+    } catch {
+      // The cookies are kept, as a concurrent request may have just set the rotated refresh token
+    }
+  }
+
+  return json(user, 200, cookies);
+}
@@ -0,0 +1,109 @@
+import {
+  AccountLinkStore,
+  NonceStore,
+  SessionStore,
+  ThirdwebAuth,
+} from "../../core";
+import { Json, LoginPayloadOutputSchema, User } from "../../core/schema";
+import { AuthPolicies, EvaluatePoliciesOptions } from "../../evm/policies";
+import type { GenericAuthWallet } from "@thirdweb-dev/wallets";
+import { z } from "zod";
+
+export const LoginPayloadBodySchema = z.object({
+  payload: LoginPayloadOutputSchema,
+});
+
+export const UnlinkBodySchema = z.object({
+  address: z.string(),
+});
+
+export type ThirdwebAuthRoute =
+  | "login"
+  | "user"
+  | "logout"
+  | "refresh"
+  | "logout-all"
+  | "jwks"
+  | "nonce"
+  | "link"
+  | "unlink";
+
+export type ThirdwebAuthUser<
+  TData extends Json = Json,
+  TSession extends Json = Json,
+> = User<TSession> & {
+  data?: TData;
+};
+
+export type ThirdwebAuthCallbacks<
+  TData extends Json = Json,
+  TSession extends Json = Json,
+  TRequest = Request,
+> = {
+  onLogin?:
+    | ((address: string, req?: TRequest) => void | TSession)
+    | ((address: string, req?: TRequest) => Promise<void | TSession>);
+  onUser?:
+    | ((user: User<TSession>, req?: TRequest) => void | TData)
+    | ((user: User<TSession>, req?: TRequest) => Promise<void | TData>);
+  onLogout?:
+    | ((user: User, req?: TRequest) => void)
+    | ((user: User, req?: TRequest) => Promise<void>);
+};
+
+/**
+ * The configuration of the auth handler, shared by every framework which passes its own callbacks
+ */
+export type ThirdwebAuthConfig<
+  TData extends Json = Json,
+  TSession extends Json = Json,
+  TCallbacks = ThirdwebAuthCallbacks<TData, TSession>,
+> = {
+  domain: string;
+  wallet: GenericAuthWallet;
+  authOptions?: {
+    statement?: string;
+    uri?: string;
+    version?: string;
+    chainId?: string;
+    resources?: string[];
+    validateNonce?:
+      | ((nonce: string) => void)
+      | ((nonce: string) => Promise<void>);
+    validateTokenId?:
+      | ((tokenId: string) => void)
+      | ((tokenId: string) => Promise<void>);
+    tokenDurationInSeconds?: number;
+    sessionStore?: SessionStore;
+    refreshTokenDurationInSeconds?: number;
+    nonceStore?: NonceStore;
+    nonceDurationInSeconds?: number;
+    policies?: AuthPolicies;
+    policyDurationInSeconds?: number;
+    getSDK?: EvaluatePoliciesOptions["getSDK"];
+    linkStore?: AccountLinkStore;
+    linkVerifiers?: GenericAuthWallet[];
+  };
+  cookieOptions?: {
+    domain?: string;
+    path?: string;
+    sameSite?: "lax" | "strict" | "none";
+  };
+  callbacks?: TCallbacks;
+};
+
+export type ThirdwebAuthContext<
+  TData extends Json = Json,
+  TSession extends Json = Json,
+  TCallbacks = ThirdwebAuthCallbacks<TData, TSession>,
+> = Omit<
+  ThirdwebAuthConfig<TData, TSession, TCallbacks>,
+  "wallet" | "domain"
+> & {
+  auth: ThirdwebAuth;
+};
+
+/**
+ * A handler that takes a standard Fetch API request and returns a response
+ */
+export type ThirdwebAuthFetchHandler = (req: Request) => Promise<Response>;
@@ -1,14 +1,50 @@
-import { LoginPayload, ThirdwebAuth, VerifyOptions } from "../core";
-import { SignerWallet } from "../evm";
+import {
+  GenerateOptions,
+  Json,
+  LoginPayload,
+  ThirdwebAuth,
+  VerifyOptions,
+} from "../core";
+import { addPolicyResults } from "../evm/policies";
 import { ThirdwebProviderConfig } from "./types";
-import { ethers } from "ethers";
-import { Awaitable, Session } from "next-auth/core/types";
+import { utils } from "ethers";
+import { Awaitable, Session, User } from "next-auth/core/types";
 import { JWT } from "next-auth/jwt/types";
 import CredentialsProvider from "next-auth/providers/credentials";
 
-export function ThirdwebAuthProvider(cfg: ThirdwebProviderConfig) {
-  const wallet = new SignerWallet(ethers.Wallet.createRandom());
-  const auth = new ThirdwebAuth(wallet, cfg.domain);
+export * from "./types";
+
+/**
+ * Credentials provider that verifies a signed login payload and issues an authentication token with
+ * the configured wallet, so it's accepted by the express and next handlers that use the same wallet.
+ * Nonces are checked against the nonce store unless validateNonce is configured, so the nonce store
+ * should be shared with the handler that issues nonces.
+ *
+ * @example
+ * ```javascript
+ * const nonceStore = new MemoryNonceStore();
+ *
+ * export default NextAuth({
+ *   providers: [
+ *     ThirdwebAuthProvider({
+ *       domain: "example.com",
+ *       wallet: new PrivateKeyWallet(process.env.PRIVATE_KEY),
+ *       authOptions: { nonceStore },
+ *     }),
+ *   ],
+ *   callbacks: {
+ *     jwt: authJwt,
+ *     session: authSession,
+ *   },
+ * });
+ * ```
+ */
+export function ThirdwebAuthProvider<TSession extends Json = Json>(
+  cfg: ThirdwebProviderConfig<TSession>,
+) {
+  const auth = new ThirdwebAuth(cfg.wallet, cfg.domain, {
+    nonceStore: cfg.authOptions?.nonceStore,
+  });
 
   return CredentialsProvider({
     name: "Credentials",
@@ -19,7 +55,7 @@ export function ThirdwebAuthProvider(cfg: ThirdwebProviderConfig) {
         placeholder: "",
       },
     },
-    async authorize({ payload }: any) {
+    async authorize({ payload }: any): Promise<User | null> {
       try {
         const parsedPayload: LoginPayload = JSON.parse(payload);
         const verifyOptions: VerifyOptions = {
@@ -28,16 +64,41 @@ export function ThirdwebAuthProvider(cfg: ThirdwebProviderConfig) {
           version: cfg.authOptions?.version,
           chainId: cfg.authOptions?.chainId,
           resources: cfg.authOptions?.resources,
-          validateNonce: async (nonce: string) => {
-            if (cfg.authOptions?.validateNonce) {
-              await cfg.authOptions?.validateNonce(nonce);
-            }
-          },
+          // Issued nonces are checked unless custom validation is configured
+          validateNonce: cfg.authOptions?.validateNonce,
+        };
+
+        const getSession = async (address: string) => {
+          const session = cfg.callbacks?.onLogin
+            ? await cfg.callbacks.onLogin(address)
+            : undefined;
+
+          // Cache which policies the user qualifies for in their session, with the time they were checked
+          return addPolicyResults(address, session, cfg.authOptions?.policies, {
+            getSDK: cfg.authOptions?.getSDK,
+          });
+        };
+
+        const generateOptions: GenerateOptions = {
+          verifyOptions,
+          expirationTime: cfg.authOptions?.tokenDurationInSeconds
+            ? new Date(
+                Date.now() + 1000 * cfg.authOptions.tokenDurationInSeconds,
+              )
+            : undefined,
+          session: getSession,
         };
 
-        const address = await auth.verify(parsedPayload, verifyOptions);
+        const token = await auth.generate(parsedPayload, generateOptions);
+        const { address, session } = await auth.authenticate(token);
 
-        return { id: address };
+        return {
+          id: address,
+          address,
+          chainId: parsedPayload.payload.chain_id,
+          ctx: session,
+          thirdwebToken: token,
+        };
       } catch (err) {
         return null;
       }
@@ -45,16 +106,48 @@ export function ThirdwebAuthProvider(cfg: ThirdwebProviderConfig) {
   });
 }
 
+/**
+ * Copies the address, chain ID, session and authentication token of the user onto the next-auth JWT
+ * when they login, to be used as the jwt callback
+ */
+export function authJwt(params: { token: JWT; user?: User }): Awaitable<JWT> {
+  if (params.user?.address) {
+    params.token.address = params.user.address;
+    params.token.chainId = params.user.chainId;
+    params.token.ctx = params.user.ctx;
+    params.token.thirdwebToken = params.user.thirdwebToken;
+  }
+
+  return params.token;
+}
+
+/**
+ * Exposes the address, chain ID and session of the user on the next-auth session, to be used as the
+ * session callback. The authentication token stays on the JWT, which is only readable on the server.
+ */
 export function authSession(params: {
   session: Session;
   token: JWT;
 }): Awaitable<Session> {
-  if (params.token.sub && ethers.utils.isAddress(params.token.sub)) {
+  // Users of other providers don't have an address, so the subject is only used if it's an address
+  const address =
+    params.token.address ||
+    (params.token.sub && utils.isAddress(params.token.sub)
+      ? params.token.sub
+      : undefined);
+  if (address) {
     params.session.user = {
       ...params.session.user,
-      address: params.token.sub,
+      address,
     };
   }
 
+  if (params.token.chainId) {
+    params.session.chainId = params.token.chainId;
+  }
+  if (params.token.ctx !== undefined) {
+    params.session.ctx = params.token.ctx;
+  }
+
   return params.session;
 }
@@ -1,6 +1,8 @@
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import NextAuth from "next-auth";
 
+type Json = import("../core/schema").Json;
+
 declare module "next-auth" {
   interface Session {
     user: {
@@ -10,5 +12,23 @@ declare module "next-auth" {
       address?: string;
       [key: string]: string;
     };
+    chainId?: string;
+    ctx?: Json;
+  }
+
+  interface User {
+    address?: string;
+    chainId?: string;
+    ctx?: Json;
+    thirdwebToken?: string;
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    address?: string;
+    chainId?: string;
+    ctx?: Json;
+    thirdwebToken?: string;
   }
 }
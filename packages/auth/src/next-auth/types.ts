@@ -1,5 +1,11 @@
-export type ThirdwebProviderConfig = {
+import { NonceStore } from "../core";
+import { Json } from "../core/schema";
+import { AuthPolicies, EvaluatePoliciesOptions } from "../evm/policies";
+import type { GenericAuthWallet } from "@thirdweb-dev/wallets";
+
+export type ThirdwebProviderConfig<TSession extends Json = Json> = {
   domain: string;
+  wallet: GenericAuthWallet;
   authOptions?: {
     statement?: string;
     uri?: string;
@@ -9,5 +15,14 @@ export type ThirdwebProviderConfig = {
     validateNonce?:
       | ((nonce: string) => void)
       | ((nonce: string) => Promise<void>);
+    tokenDurationInSeconds?: number;
+    nonceStore?: NonceStore;
+    policies?: AuthPolicies;
+    getSDK?: EvaluatePoliciesOptions["getSDK"];
+  };
+  callbacks?: {
+    onLogin?:
+      | ((address: string) => void | TSession)
+      | ((address: string) => Promise<void | TSession>);
   };
 };
@@ -1,63 +1,51 @@
-import { Json, ThirdwebAuth as ThirdwebAuthSDK } from "../core";
-import { getUser } from "./helpers/user";
-import loginHandler from "./routes/login";
-import logoutHandler from "./routes/logout";
-import userHandler from "./routes/user";
-import {
-  ThirdwebAuthConfig,
-  ThirdwebAuthContext,
-  ThirdwebAuthRoute,
-} from "./types";
-import { NextRequest } from "next/server";
+import { Json } from "../core";
 import {
+  sendFetchResponse,
+  toFetchHeadersRequest,
+  toFetchRequest,
+} from "../fetch/adapters/node";
+import { createAuthContext, getRequestContext } from "../fetch/helpers/context";
+import { checkPolicy } from "../fetch/helpers/policy";
+import { getUser } from "../fetch/helpers/user";
+import { ThirdwebAuthRouter } from "../fetch/router";
+import { ThirdwebAuthConfig, ThirdwebAuthUser } from "./types";
+import type { NextRequest } from "next/server";
+import type {
   GetServerSidePropsContext,
+  NextApiHandler,
   NextApiRequest,
   NextApiResponse,
 } from "next/types";
 
 export * from "./types";
 
-async function ThirdwebAuthRouter(
-  req: NextApiRequest,
-  res: NextApiResponse,
-  ctx: ThirdwebAuthContext,
-) {
-  // Catch-all route must be named with [...thirdweb]
-  const { thirdweb } = req.query;
-  const action = thirdweb?.[0] as ThirdwebAuthRoute;
-
-  switch (action) {
-    case "login":
-      return await loginHandler(req, res, ctx);
-    case "user":
-      return await userHandler(req, res, ctx);
-    case "logout":
-      return await logoutHandler(req, res, ctx);
-    default:
-      return res.status(400).json({
-        message: "Invalid route for authentication.",
-      });
-  }
-}
-
 export function ThirdwebAuth<
   TData extends Json = Json,
   TSession extends Json = Json,
 >(cfg: ThirdwebAuthConfig<TData, TSession>) {
-  const ctx = {
-    ...cfg,
-    auth: new ThirdwebAuthSDK(cfg.wallet, cfg.domain),
-  };
+  const ctx = createAuthContext(cfg);
+
+  // Every route is handled by the fetch handlers, with callbacks receiving the next request
+  async function ThirdwebAuthRouterHandler(
+    req: NextApiRequest,
+    res: NextApiResponse,
+  ) {
+    const request = await toFetchRequest(req, req.body);
+    await sendFetchResponse(
+      res,
+      await ThirdwebAuthRouter(request, getRequestContext(ctx, req)),
+    );
+  }
 
   function ThirdwebAuthHandler(
     ...args: [] | [NextApiRequest, NextApiResponse]
   ) {
     if (args.length === 0) {
       return async (req: NextApiRequest, res: NextApiResponse) =>
-        await ThirdwebAuthRouter(req, res, ctx as ThirdwebAuthContext);
+        await ThirdwebAuthRouterHandler(req, res);
     }
 
-    return ThirdwebAuthRouter(args[0], args[1], ctx as ThirdwebAuthContext);
+    return ThirdwebAuthRouterHandler(args[0], args[1]);
   }
 
   return {
@@ -65,7 +53,29 @@ export function ThirdwebAuth<
     getUser: (
       req: GetServerSidePropsContext["req"] | NextRequest | NextApiRequest,
     ) => {
-      return getUser<TData, TSession>(req, ctx);
+      // Middleware and edge requests are already Fetch API requests
+      const request =
+        typeof req.headers.get === "function"
+          ? (req as NextRequest)
+          : toFetchHeadersRequest(req as NextApiRequest);
+      return getUser(
+        request,
+        getRequestContext(ctx, req),
+      ) as Promise<ThirdwebAuthUser<TData, TSession> | null>;
     },
+    requirePolicy:
+      (policy: string | string[], handler: NextApiHandler) =>
+      async (req: NextApiRequest, res: NextApiResponse) => {
+        const error = await checkPolicy(
+          toFetchHeadersRequest(req),
+          getRequestContext(ctx, req),
+          policy,
+        );
+        if (error) {
+          return await sendFetchResponse(res, error);
+        }
+
+        return handler(req, res);
+      },
   };
 }
@@ -1,18 +0,0 @@
-import { getUser } from "../helpers/user";
-import { ThirdwebAuthContext } from "../types";
-import { NextApiRequest, NextApiResponse } from "next";
-
-export default async function handler(
-  req: NextApiRequest,
-  res: NextApiResponse,
-  ctx: ThirdwebAuthContext,
-) {
-  if (req.method !== "GET") {
-    return res.status(400).json({
-      error: "Invalid method. Only GET supported.",
-    });
-  }
-
-  const user = await getUser(req, ctx);
-  return res.status(200).json(user);
-}
@@ -0,0 +1,200 @@
+import {
+  MemorySessionStore,
+  ThirdwebAuth as ThirdwebAuthSDK,
+} from "../src/core";
+import { SignerWallet } from "../src/evm";
+import { ThirdwebAuth, toNodeHandler } from "../src/fetch";
+import { ThirdwebAuth as ThirdwebNextAuth } from "../src/next";
+import { expect } from "chai";
+import { fetch, Request } from "cross-fetch";
+import { Wallet } from "ethers";
+import { IncomingMessage, createServer } from "http";
+import { AddressInfo } from "net";
+
+describe("Fetch Handler", async () => {
+  let adminWallet: any, signerWallet: any;
+  let client: ThirdwebAuthSDK;
+  let auth: ReturnType<typeof ThirdwebAuth>;
+
+  before(async () => {
+    adminWallet = new SignerWallet(Wallet.createRandom());
+    signerWallet = new SignerWallet(Wallet.createRandom());
+    client = new ThirdwebAuthSDK(signerWallet, "thirdweb.com");
+  });
+
+  beforeEach(async () => {
+    auth = ThirdwebAuth({ domain: "thirdweb.com", wallet: adminWallet });
+  });
+
+  async function login(
+    baseUrl = "https://thirdweb.com/api/auth",
+    send = (req: Request) => auth.handler(req),
+  ) {
+    const nonceRes = await send(new Request(`${baseUrl}/nonce`));
+    const { nonce } = await nonceRes.json();
+    const payload = await client.login({ nonce });
+
+    return send(
+      new Request(`${baseUrl}/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload }),
+      }),
+    );
+  }
+
+  it("Should login and get the user with the token cookie", async () => {
+    const res = await login();
+    expect(res.status).to.equal(200);
+
+    const cookie = res.headers.get("set-cookie") as string;
+    expect(cookie).to.contain("thirdweb_auth_token=");
+    expect(cookie).to.contain("HttpOnly");
+
+    const userRes = await auth.handler(
+      new Request("https://thirdweb.com/api/auth/user", {
+        headers: { cookie: cookie.split(";")[0] },
+      }),
+    );
+    const user = await userRes.json();
+    expect(user.address).to.equal(await signerWallet.getAddress());
+  });
+
+  it("Should get the user from a bearer token", async () => {
+    const { token } = await (await login()).json();
+
+    const user = await auth.getUser(
+      new Request("https://thirdweb.com/api/data", {
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(user?.address).to.equal(await signerWallet.getAddress());
+  });
+
+  it("Should reject invalid routes and methods", async () => {
+    const invalidRoute = await auth.handler(
+      new Request("https://thirdweb.com/api/auth/invalid"),
+    );
+    expect(invalidRoute.status).to.equal(400);
+
+    const invalidMethod = await auth.handler(
+      new Request("https://thirdweb.com/api/auth/login"),
+    );
+    expect(invalidMethod.status).to.equal(405);
+  });
+
+  it("Should only log out sessions with their refresh token", async () => {
+    auth = ThirdwebAuth({
+      domain: "thirdweb.com",
+      wallet: adminWallet,
+      authOptions: { sessionStore: new MemorySessionStore() },
+    });
+    const { refreshToken } = await (await login()).json();
+    const sessionId = refreshToken.split(".")[0];
+
+    const post = (route: string, body: unknown) =>
+      auth.handler(
+        new Request(`https://thirdweb.com/api/auth/${route}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }),
+      );
+
+    await post("logout", { refreshToken: sessionId });
+    expect(
+      (await post("refresh", { refreshToken: `${sessionId}.x` })).status,
+    ).to.equal(401);
+    const refreshRes = await post("refresh", { refreshToken });
+    expect(refreshRes.status).to.equal(200);
+
+    const tokens = await refreshRes.json();
+    await post("logout", { refreshToken: tokens.refreshToken });
+    expect((await post("refresh", tokens)).status).to.equal(401);
+  });
+
+  it("Should serve requests through the Node http adapter", async () => {
+    const server = createServer(toNodeHandler(auth.handler));
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const res = await login(`http://127.0.0.1:${port}/auth`, fetch);
+      expect(res.status).to.equal(200);
+
+      const logoutRes = await fetch(`http://127.0.0.1:${port}/auth/logout`, {
+        method: "POST",
+      });
+      expect(logoutRes.status).to.equal(200);
+      expect(logoutRes.headers.get("set-cookie")).to.contain(
+        "thirdweb_auth_refresh_token=;",
+      );
+    } finally {
+      server.close();
+    }
+  });
+
+  it("Should treat a malformed token cookie as absent", async () => {
+    const userRes = await auth.handler(
+      new Request("https://thirdweb.com/api/auth/user", {
+        headers: { cookie: "thirdweb_auth_token=%E0%A4%A" },
+      }),
+    );
+    expect(userRes.status).to.equal(200);
+    expect(await userRes.json()).to.equal(null);
+  });
+
+  it("Should serve the next adapter through the fetch handlers", async () => {
+    let callbackReq: unknown;
+    const nextAuth = ThirdwebNextAuth({
+      domain: "thirdweb.com",
+      wallet: adminWallet,
+      callbacks: {
+        onLogin: (_address, req) => {
+          callbackReq = req;
+        },
+      },
+    });
+
+    // Next parses the body and query of API routes before the handler runs
+    const server = createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      const nextReq = Object.assign(req, {
+        body: chunks.length
+          ? JSON.parse(Buffer.concat(chunks).toString())
+          : undefined,
+        query: {},
+      });
+
+      if (req.url?.startsWith("/api/data")) {
+        return nextAuth.requirePolicy("admin", (_req, _res) => {
+          _res.end("allowed");
+        })(nextReq as any, res as any);
+      }
+
+      await nextAuth.ThirdwebAuthHandler(nextReq as any, res as any);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const res = await login(`http://127.0.0.1:${port}/api/auth`, fetch);
+      expect(res.status).to.equal(200);
+      expect(callbackReq).to.be.instanceOf(IncomingMessage);
+
+      const { token } = await res.json();
+      const user = await nextAuth.getUser({
+        headers: { authorization: `Bearer ${token}` },
+      } as any);
+      expect(user?.address).to.equal(await signerWallet.getAddress());
+
+      const dataRes = await fetch(`http://127.0.0.1:${port}/api/data`);
+      expect(dataRes.status).to.equal(401);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { ThirdwebAuth } from "../src/core";
+import { SignerWallet } from "../src/evm";
+import { KeypairWallet } from "../src/solana";
+import { Keypair } from "@solana/web3.js";
+import type { GenericAuthWallet } from "@thirdweb-dev/wallets";
+import { expect } from "chai";
+import { createPublicKey, verify } from "crypto";
+import { Wallet } from "ethers";
+
+// Verifies a token with node's standard JWT primitives, independently of the SDK
+function verifyWithJwk(token: string, jwk: any) {
+  const [header, payload, signature] = token.split(".");
+  const key = createPublicKey({ key: jwk, format: "jwk" });
+  const data = Buffer.from(`${header}.${payload}`);
+  const sig = Buffer.from(signature, "base64url");
+  return jwk.kty === "OKP"
+    ? verify(null, data, key, sig)
+    : verify("sha256", data, { key, dsaEncoding: "ieee-p1363" }, sig);
+}
+
+function decodeSegment(segment: string) {
+  return JSON.parse(Buffer.from(segment, "base64url").toString());
+}
+
+describe("JWT Authentication", async () => {
+  let adminWallet: any, signerWallet: any;
+  let auth: ThirdwebAuth;
+
+  before(async () => {
+    adminWallet = new SignerWallet(Wallet.createRandom());
+    signerWallet = new SignerWallet(Wallet.createRandom());
+    auth = new ThirdwebAuth(signerWallet, "thirdweb.com");
+  });
+
+  beforeEach(async () => {
+    auth.updateWallet(signerWallet);
+  });
+
+  async function generateToken() {
+    const payload = await auth.login();
+    auth.updateWallet(adminWallet);
+    return auth.generate(payload);
+  }
+
+  it("Should generate standard ES256K tokens verifiable with the JWKS", async () => {
+    const token = await generateToken();
+    const header = decodeSegment(token.split(".")[0]);
+    expect(header).to.deep.equal({
+      alg: "ES256K",
+      typ: "JWT",
+      kid: await adminWallet.getAddress(),
+    });
+    expect(token).to.not.match(/[+/=]/);
+
+    const { keys } = await auth.getJwks();
+    expect(keys[0].kid).to.equal(await adminWallet.getAddress());
+    expect(verifyWithJwk(token, keys[0])).to.equal(true);
+
+    const user = await auth.authenticate(token);
+    expect(user.address).to.equal(await signerWallet.getAddress());
+  });
+
+  it("Should generate EIP191 tokens with wallets that can't sign digests", async () => {
+    const wallet = Wallet.createRandom();
+    const messageWallet: GenericAuthWallet = {
+      type: "evm",
+      getAddress: async () => wallet.address,
+      signMessage: (message: string) => wallet.signMessage(message),
+      verifySignature: (message, signature, address, chainId) =>
+        adminWallet.verifySignature(message, signature, address, chainId),
+    };
+
+    const payload = await auth.login();
+    auth.updateWallet(messageWallet);
+    const token = await auth.generate(payload);
+
+    expect(decodeSegment(token.split(".")[0]).alg).to.equal("EIP191");
+    const user = await auth.authenticate(token);
+    expect(user.address).to.equal(await signerWallet.getAddress());
+  });
+
+  it("Should generate EdDSA tokens with Solana wallets", async () => {
+    const solanaAdmin = new KeypairWallet(Keypair.generate());
+    const solanaAuth = new ThirdwebAuth(
+      new KeypairWallet(Keypair.generate()),
+      "thirdweb.com",
+    );
+
+    const payload = await solanaAuth.login();
+    solanaAuth.updateWallet(solanaAdmin);
+    const token = await solanaAuth.generate(payload);
+
+    const { keys } = await solanaAuth.getJwks();
+    expect(keys[0].crv).to.equal("Ed25519");
+    expect(verifyWithJwk(token, keys[0])).to.equal(true);
+    await solanaAuth.authenticate(token);
+  });
+
+  it("Should accept legacy tokens unless disabled", async () => {
+    const token = await generateToken();
+    const payload = decodeSegment(token.split(".")[1]);
+
+    // Tokens issued by previous versions sign the JSON payload and use padded base64
+    const signature = await adminWallet.signMessage(JSON.stringify(payload));
+    const legacyToken = [
+      Buffer.from(JSON.stringify({ alg: "ES256", typ: "JWT" })).toString(
+        "base64",
+      ),
+      Buffer.from(JSON.stringify(payload)).toString("base64").replace(/=/g, ""),
+      Buffer.from(signature).toString("base64"),
+    ].join(".");
+
+    const user = await auth.authenticate(legacyToken);
+    expect(user.address).to.equal(await signerWallet.getAddress());
+
+    try {
+      await auth.authenticate(legacyToken, { allowLegacyTokens: false });
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal(
+        "Legacy authentication tokens are not accepted",
+      );
+    }
+  });
+
+  it("Should reject tokens with a tampered payload", async () => {
+    const token = await generateToken();
+    const [header, payload, signature] = token.split(".");
+    const tampered = Buffer.from(
+      JSON.stringify({
+        ...decodeSegment(payload),
+        sub: Wallet.createRandom().address,
+      }),
+    ).toString("base64url");
+
+    try {
+      await auth.authenticate(`${header}.${tampered}.${signature}`);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("did not sign the token");
+    }
+  });
+});
@@ -0,0 +1,305 @@
+import {
+  KeyValueAccountLinkStore,
+  MemoryAccountLinkStore,
+  MemorySessionStore,
+  ThirdwebAuth,
+} from "../src/core";
+import { SignerWallet } from "../src/evm";
+import { ThirdwebAuth as ThirdwebAuthHandler } from "../src/fetch";
+import { KeypairWallet } from "../src/solana";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import { Request } from "cross-fetch";
+import { Wallet } from "ethers";
+
+describe("Account Linking", async () => {
+  let adminWallet: any, signerWallet: any, secondWallet: any, solanaWallet: any;
+  let auth: ThirdwebAuth;
+
+  before(async () => {
+    adminWallet = new SignerWallet(Wallet.createRandom());
+    signerWallet = new SignerWallet(Wallet.createRandom());
+    secondWallet = new SignerWallet(Wallet.createRandom());
+    solanaWallet = new KeypairWallet(Keypair.generate());
+  });
+
+  beforeEach(async () => {
+    auth = new ThirdwebAuth(adminWallet, "thirdweb.com", {
+      sessionStore: new MemorySessionStore(),
+      linkStore: new MemoryAccountLinkStore(),
+      linkVerifiers: [new KeypairWallet(Keypair.generate())],
+    });
+  });
+
+  async function signPayload(wallet: any) {
+    const client = new ThirdwebAuth(wallet, "thirdweb.com");
+    return client.login({ nonce: await auth.generateNonce() });
+  }
+
+  it("Should link wallets from both ecosystems to the session", async () => {
+    const { accessToken } = await auth.generateSession(
+      await signPayload(signerWallet),
+      { session: { role: "admin" } },
+    );
+
+    let token = await auth.linkAccount(
+      accessToken,
+      await signPayload(secondWallet),
+    );
+    token = await auth.linkAccount(token, await signPayload(solanaWallet));
+
+    const { address, session } = await auth.authenticate<any>(token);
+    expect(address).to.equal(await signerWallet.getAddress());
+    expect(session.role).to.equal("admin");
+    expect(
+      session.linkedAccounts.map((account: any) => [
+        account.address,
+        account.type,
+      ]),
+    ).to.deep.equal([
+      [await signerWallet.getAddress(), "evm"],
+      [await secondWallet.getAddress(), "evm"],
+      [await solanaWallet.getAddress(), "solana"],
+    ]);
+
+    // Logging in with a linked wallet includes every linked account
+    const secondToken = await auth.generate(await signPayload(secondWallet));
+    const { session: secondSession } = await auth.authenticate<any>(
+      secondToken,
+    );
+    expect(secondSession.linkedAccounts).to.deep.equal(session.linkedAccounts);
+  });
+
+  it("Should keep linked accounts when the session is refreshed", async () => {
+    const { accessToken, refreshToken } = await auth.generateSession(
+      await signPayload(signerWallet),
+    );
+    await auth.linkAccount(accessToken, await signPayload(secondWallet));
+
+    const tokens = await auth.refresh(refreshToken);
+    const { session } = await auth.authenticate<any>(tokens.accessToken);
+    expect(session.linkedAccounts.length).to.equal(2);
+  });
+
+  it("Should unlink wallets", async () => {
+    let token = await auth.generate(await signPayload(signerWallet), {
+      tokenId: "token-id",
+    });
+    token = await auth.linkAccount(token, await signPayload(secondWallet));
+    const linkedToken = token;
+
+    try {
+      await auth.unlinkAccount(token, await signerWallet.getAddress());
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal(
+        "Can't unlink the account that is logged in",
+      );
+    }
+
+    token = await auth.unlinkAccount(token, await secondWallet.getAddress());
+    const { session } = await auth.authenticate(token, {
+      validateTokenId: (tokenId) => {
+        expect(tokenId).to.equal("token-id");
+      },
+    });
+    expect(session).to.deep.equal({});
+    expect(
+      await auth.getLinkedAccounts(await secondWallet.getAddress()),
+    ).to.deep.equal([]);
+
+    // Tokens issued before the wallet was unlinked still list it, so they are rejected
+    try {
+      await auth.authenticate(linkedToken);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal(
+        "An account linked in this token has been unlinked, a new token must be issued",
+      );
+    }
+  });
+
+  it("Should reject wallets linked to another account", async () => {
+    const token = await auth.generate(await signPayload(signerWallet));
+    await auth.linkAccount(token, await signPayload(secondWallet));
+
+    const otherToken = await auth.generate(await signPayload(adminWallet));
+    try {
+      await auth.linkAccount(otherToken, await signPayload(secondWallet));
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal(
+        `The account '${await secondWallet.getAddress()}' is already linked to another account`,
+      );
+    }
+  });
+
+  it("Should reject payloads from ecosystems without a verifier", async () => {
+    auth = new ThirdwebAuth(adminWallet, "thirdweb.com", {
+      linkStore: new MemoryAccountLinkStore(),
+    });
+    const token = await auth.generate(await signPayload(signerWallet));
+
+    try {
+      await auth.linkAccount(token, await signPayload(solanaWallet));
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal(
+        "A wallet must be configured in linkVerifiers to link 'solana' accounts.",
+      );
+    }
+  });
+
+  it("Should store links in a key-value store", async () => {
+    const values = new Map<string, string>();
+    const store = new KeyValueAccountLinkStore({
+      get: async (key) => values.get(key),
+      set: async (key, value) => values.set(key, value),
+      delete: async (key) => values.delete(key),
+      take: async (key) => {
+        const value = values.get(key);
+        values.delete(key);
+        return value;
+      },
+    });
+    const accounts = [signerWallet, secondWallet, solanaWallet];
+    const [primary, second, solana] = await Promise.all(
+      accounts.map(async (wallet) => ({
+        address: await wallet.getAddress(),
+        type: wallet.type,
+        linkedAt: Date.now(),
+      })),
+    );
+
+    await store.link(primary, second);
+    await store.link(primary, solana);
+    expect(await store.get(second.address.toLowerCase())).to.deep.equal([
+      primary,
+      second,
+      solana,
+    ]);
+
+    await store.unlink(second.address);
+    expect(await store.get(solana.address)).to.deep.equal([primary, solana]);
+
+    await store.unlink(solana.address);
+    expect(await store.get(primary.address)).to.deep.equal([]);
+    expect(values.size).to.equal(0);
+  });
+});
+
+describe("Account Linking Routes", async () => {
+  let adminWallet: any, signerWallet: any, secondWallet: any;
+  let auth: ReturnType<typeof ThirdwebAuthHandler>;
+
+  before(async () => {
+    adminWallet = new SignerWallet(Wallet.createRandom());
+    signerWallet = new SignerWallet(Wallet.createRandom());
+    secondWallet = new SignerWallet(Wallet.createRandom());
+  });
+
+  beforeEach(async () => {
+    auth = ThirdwebAuthHandler({
+      domain: "thirdweb.com",
+      wallet: adminWallet,
+      authOptions: { linkStore: new MemoryAccountLinkStore() },
+    });
+  });
+
+  async function signPayload(wallet: any) {
+    const nonceRes = await auth.handler(
+      new Request("https://thirdweb.com/api/auth/nonce"),
+    );
+    const { nonce } = await nonceRes.json();
+    const client = new ThirdwebAuth(wallet, "thirdweb.com");
+    return client.login({ nonce });
+  }
+
+  function post(route: string, body: unknown, token?: string) {
+    return auth.handler(
+      new Request(`https://thirdweb.com/api/auth/${route}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(body),
+      }),
+    );
+  }
+
+  it("Should link and unlink wallets through the routes", async () => {
+    const loginRes = await post("login", {
+      payload: await signPayload(signerWallet),
+    });
+    const { token } = await loginRes.json();
+
+    const linkRes = await post(
+      "link",
+      { payload: await signPayload(secondWallet) },
+      token,
+    );
+    expect(linkRes.status).to.equal(200);
+    expect(linkRes.headers.get("set-cookie")).to.contain(
+      "thirdweb_auth_token=",
+    );
+    const linked = await linkRes.json();
+    expect(
+      linked.linkedAccounts.map((account: any) => account.address),
+    ).to.deep.equal([
+      await signerWallet.getAddress(),
+      await secondWallet.getAddress(),
+    ]);
+
+    const unlinkRes = await post(
+      "unlink",
+      { address: await secondWallet.getAddress() },
+      linked.token,
+    );
+    expect(unlinkRes.status).to.equal(200);
+    const unlinked = await unlinkRes.json();
+    expect(unlinked.linkedAccounts).to.deep.equal([]);
+
+    // The token from before the unlink no longer authenticates
+    const staleUser = await auth.getUser(
+      new Request("https://thirdweb.com/api/data", {
+        headers: { Authorization: `Bearer ${linked.token}` },
+      }),
+    );
+    expect(staleUser).to.equal(null);
+
+    const user = await auth.getUser(
+      new Request("https://thirdweb.com/api/data", {
+        headers: { Authorization: `Bearer ${unlinked.token}` },
+      }),
+    );
+    expect(user?.address).to.equal(await signerWallet.getAddress());
+  });
+
+  it("Should reject invalid link and unlink requests", async () => {
+    const unauthenticated = await post("link", {
+      payload: await signPayload(secondWallet),
+    });
+    expect(unauthenticated.status).to.equal(401);
+
+    const { token } = await (
+      await post("login", { payload: await signPayload(signerWallet) })
+    ).json();
+
+    const invalidPayload = await post("link", { payload: {} }, token);
+    expect(invalidPayload.status).to.equal(400);
+
+    const missingAddress = await post("unlink", {}, token);
+    expect(missingAddress.status).to.equal(400);
+    expect((await missingAddress.json()).error).to.equal(
+      "Missing address to unlink",
+    );
+
+    const notLinked = await post(
+      "unlink",
+      { address: await secondWallet.getAddress() },
+      token,
+    );
+    expect(notLinked.status).to.equal(400);
+  });
+});
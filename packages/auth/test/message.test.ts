@@ -0,0 +1,150 @@
+import {
+  buildLoginMessage,
+  LoginPayload,
+  parseLoginMessage,
+  ThirdwebAuth,
+} from "../src/core";
+import { SignerWallet } from "../src/evm";
+import { expect } from "chai";
+import { Wallet } from "ethers";
+
+// Example message from the EIP-4361 specification
+const EIP4361_MESSAGE = `service.invalid wants you to sign in with your Ethereum account:
+0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2
+
+I accept the ServiceOrg Terms of Service: https://service.invalid/tos
+
+URI: https://service.invalid/login
+Version: 1
+Chain ID: 1
+Nonce: 32891756
+Issued At: 2021-09-30T16:25:24Z
+Resources:
+- ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/
+- https://example.com/my-web2-claim.json`;
+
+// Message with every optional field and no statement, in the format of the siwe library
+function createSiweMessage(
+  address: string,
+  expirationTime: Date,
+  nonce = "oNCEHm5jzQU2WvuBB",
+) {
+  return `thirdweb.com wants you to sign in with your Ethereum account:
+${address}
+
+
+URI: https://thirdweb.com
+Version: 1
+Chain ID: 137
+Nonce: ${nonce}
+Issued At: ${new Date(Date.now() - 1000 * 60).toISOString()}
+Expiration Time: ${expirationTime.toISOString()}
+Not Before: 2021-09-30T16:25:24Z
+Request ID: 8d2a5a2a-3c1b-4b1f-9f0e-0c0f1e2d3c4b
+Resources:
+- https://thirdweb.com/terms`;
+}
+
+describe("Login Messages", async () => {
+  let adminWallet: any, signerWallet: any;
+  let auth: ThirdwebAuth;
+
+  before(async () => {
+    adminWallet = new SignerWallet(Wallet.createRandom());
+    signerWallet = Wallet.createRandom();
+    auth = new ThirdwebAuth(adminWallet, "thirdweb.com");
+  });
+
+  it("Should round-trip the EIP-4361 example message", async () => {
+    const fields = parseLoginMessage(EIP4361_MESSAGE);
+
+    expect(fields.type).to.equal("evm");
+    expect(fields.domain).to.equal("service.invalid");
+    expect(fields.chain_id).to.equal("1");
+    expect(fields.expiration_time).to.equal(undefined);
+    expect(fields.resources).to.deep.equal([
+      "ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/",
+      "https://example.com/my-web2-claim.json",
+    ]);
+    expect(buildLoginMessage(fields)).to.equal(EIP4361_MESSAGE);
+  });
+
+  it("Should round-trip messages with every optional field", async () => {
+    const message = createSiweMessage(signerWallet.address, new Date());
+    const fields = parseLoginMessage(message);
+
+    expect(fields.statement).to.equal(undefined);
+    expect(fields.invalid_before).to.equal("2021-09-30T16:25:24Z");
+    expect(fields.request_id).to.equal("8d2a5a2a-3c1b-4b1f-9f0e-0c0f1e2d3c4b");
+    expect(buildLoginMessage(fields)).to.equal(message);
+  });
+
+  it("Should round-trip messages generated on login", async () => {
+    const auth = new ThirdwebAuth(
+      new SignerWallet(signerWallet),
+      "thirdweb.com",
+    );
+    const { payload, signature } = await auth.login({
+      chainId: "1",
+      requestId: "request",
+      resources: ["https://thirdweb.com"],
+    });
+
+    const message = buildLoginMessage(payload);
+    expect(parseLoginMessage(message)).to.deep.equal(payload);
+    expect(await signerWallet.signMessage(message)).to.equal(signature);
+  });
+
+  it("Should reject malformed messages", async () => {
+    const invalidMessages = [
+      EIP4361_MESSAGE.replace("Ethereum account", "Bitcoin account"),
+      EIP4361_MESSAGE.replace("Nonce: 32891756\n", ""),
+      EIP4361_MESSAGE.replace(
+        "Version: 1\nChain ID: 1",
+        "Chain ID: 1\nVersion: 1",
+      ),
+      `${EIP4361_MESSAGE}\nUnknown: field`,
+    ];
+
+    for (const message of invalidMessages) {
+      expect(() => parseLoginMessage(message)).to.throw();
+    }
+  });
+
+  it("Should verify messages signed with other libraries", async () => {
+    const message = createSiweMessage(
+      signerWallet.address,
+      new Date(Date.now() + 1000 * 60 * 5),
+      await auth.generateNonce(),
+    );
+    const payload = {
+      payload: parseLoginMessage(message),
+      message,
+      signature: await signerWallet.signMessage(message),
+    } as LoginPayload;
+
+    const address = await auth.verify(payload, { chainId: "137" });
+    expect(address).to.equal(signerWallet.address);
+  });
+
+  it("Should reject signed messages that don't match the payload", async () => {
+    const message = createSiweMessage(
+      signerWallet.address,
+      new Date(Date.now() + 1000 * 60 * 5),
+    );
+    const payload = {
+      payload: { ...parseLoginMessage(message), chain_id: "1" },
+      message,
+      signature: await signerWallet.signMessage(message),
+    } as LoginPayload;
+
+    try {
+      await auth.verify(payload, { chainId: "1" });
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal(
+        "Signed login message field 'Chain ID' does not match the payload",
+      );
+    }
+  });
+});
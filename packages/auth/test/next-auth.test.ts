@@ -0,0 +1,83 @@
+import { ThirdwebAuth } from "../src/core";
+import { SignerWallet } from "../src/evm";
+import { authJwt, authSession, ThirdwebAuthProvider } from "../src/next-auth";
+import { expect } from "chai";
+import { Wallet } from "ethers";
+
+describe("Next Auth Provider", async () => {
+  let adminWallet: any, signerWallet: any;
+  let serverAuth: ThirdwebAuth, clientAuth: ThirdwebAuth;
+
+  before(async () => {
+    adminWallet = new SignerWallet(Wallet.createRandom());
+    signerWallet = new SignerWallet(Wallet.createRandom());
+    serverAuth = new ThirdwebAuth(adminWallet, "thirdweb.com");
+    clientAuth = new ThirdwebAuth(signerWallet, "thirdweb.com");
+  });
+
+  function authorize(provider: any, payload: any) {
+    return provider.options.authorize({ payload: JSON.stringify(payload) });
+  }
+
+  it("Should issue tokens accepted by the configured wallet", async () => {
+    const provider = ThirdwebAuthProvider({
+      domain: "thirdweb.com",
+      wallet: adminWallet,
+      authOptions: { validateNonce: () => undefined },
+      callbacks: { onLogin: () => ({ role: "admin" }) },
+    });
+
+    const user = await authorize(
+      provider,
+      await clientAuth.login({ chainId: "137" }),
+    );
+    expect(user.address).to.equal(await signerWallet.getAddress());
+    expect(user.chainId).to.equal("137");
+    expect(user.ctx).to.deep.equal({ role: "admin" });
+
+    const authenticated = await serverAuth.authenticate(user.thirdwebToken);
+    expect(authenticated.address).to.equal(await signerWallet.getAddress());
+    expect(authenticated.session).to.deep.equal({ role: "admin" });
+
+    const token = await authJwt({ token: { sub: user.id }, user });
+    const session = await authSession({
+      session: { expires: "" } as any,
+      token,
+    });
+    expect(session.user.address).to.equal(await signerWallet.getAddress());
+    expect(session.chainId).to.equal("137");
+    expect(session.ctx).to.deep.equal({ role: "admin" });
+  });
+
+  it("Should reject nonces that weren't issued or validated", async () => {
+    const provider = ThirdwebAuthProvider({
+      domain: "thirdweb.com",
+      wallet: adminWallet,
+      authOptions: {
+        validateNonce: (nonce: string) => {
+          if (nonce !== "valid") {
+            throw new Error("Invalid nonce");
+          }
+        },
+      },
+    });
+
+    expect(
+      await authorize(provider, await clientAuth.login({ nonce: "invalid" })),
+    ).to.equal(null);
+    expect(
+      await authorize(provider, await clientAuth.login({ nonce: "valid" })),
+    ).to.not.equal(null);
+
+    const unvalidatedProvider = ThirdwebAuthProvider({
+      domain: "thirdweb.com",
+      wallet: adminWallet,
+    });
+    expect(
+      await authorize(
+        unvalidatedProvider,
+        await clientAuth.login({ nonce: "valid" }),
+      ),
+    ).to.equal(null);
+  });
+});
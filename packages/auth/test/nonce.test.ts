@@ -0,0 +1,107 @@
+import { KeyValueNonceStore, ThirdwebAuth } from "../src/core";
+import { SignerWallet } from "../src/evm";
+import { expect } from "chai";
+import { Wallet } from "ethers";
+
+describe("Nonce Validation", async () => {
+  let adminWallet: any, signerWallet: any;
+  let serverAuth: ThirdwebAuth, clientAuth: ThirdwebAuth;
+
+  before(async () => {
+    adminWallet = new SignerWallet(Wallet.createRandom());
+    signerWallet = new SignerWallet(Wallet.createRandom());
+  });
+
+  beforeEach(async () => {
+    serverAuth = new ThirdwebAuth(adminWallet, "thirdweb.com");
+    clientAuth = new ThirdwebAuth(signerWallet, "thirdweb.com");
+  });
+
+  it("Should verify payloads with a nonce issued by the server", async () => {
+    const nonce = await serverAuth.generateNonce();
+    const payload = await clientAuth.login({ nonce });
+
+    const address = await serverAuth.verify(payload);
+    expect(address).to.equal(await signerWallet.getAddress());
+  });
+
+  it("Should reject reused nonces", async () => {
+    const nonce = await serverAuth.generateNonce();
+    const payload = await clientAuth.login({ nonce });
+    await serverAuth.verify(payload);
+
+    try {
+      await serverAuth.verify(payload);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal(
+        "Login request nonce was not issued by the server or has already been used",
+      );
+    }
+  });
+
+  it("Should reject unknown and expired nonces", async () => {
+    const expiredNonce = await serverAuth.generateNonce({
+      expirationTime: new Date(Date.now() - 1000),
+    });
+
+    for (const nonce of ["unknown", expiredNonce]) {
+      const payload = await clientAuth.login({ nonce });
+      try {
+        await serverAuth.verify(payload);
+        expect.fail();
+      } catch (err: any) {
+        expect(err.message).to.contain("was not issued by the server");
+      }
+    }
+  });
+
+  it("Should use custom nonce validation instead of issued nonces", async () => {
+    const payload = await clientAuth.login({ nonce: "custom" });
+
+    const address = await serverAuth.verify(payload, {
+      validateNonce: (nonce: string) => {
+        if (nonce !== "custom") {
+          throw new Error("Invalid nonce");
+        }
+      },
+    });
+    expect(address).to.equal(await signerWallet.getAddress());
+  });
+
+  it("Should consume nonces from a key-value store", async () => {
+    const values = new Map<string, string>();
+    const ttls: number[] = [];
+    serverAuth = new ThirdwebAuth(adminWallet, "thirdweb.com", {
+      nonceStore: new KeyValueNonceStore({
+        get: async (key) => values.get(key),
+        set: async (key, value, ttl) => {
+          ttls.push(ttl as number);
+          return values.set(key, value);
+        },
+        delete: async (key) => values.delete(key),
+        take: async (key) => {
+          const value = values.get(key);
+          values.delete(key);
+          return value;
+        },
+      }),
+    });
+
+    const nonce = await serverAuth.generateNonce();
+    expect(values.has(`thirdweb_auth:nonce:${nonce}`)).to.equal(true);
+    expect(ttls).to.deep.equal([300]);
+
+    const payload = await clientAuth.login({ nonce });
+    const results = await Promise.allSettled([
+      serverAuth.verify(payload),
+      serverAuth.verify(payload),
+    ]);
+    // Only one of concurrent logins replaying the nonce goes through
+    expect(results.map((result) => result.status).sort()).to.deep.equal([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(values.size).to.equal(0);
+  });
+});
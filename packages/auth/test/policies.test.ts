@@ -0,0 +1,254 @@
+import { ThirdwebAuth as ThirdwebAuthSDK } from "../src/core";
+import { evaluatePolicies, SignerWallet } from "../src/evm";
+import { ThirdwebAuth } from "../src/fetch";
+import { expect } from "chai";
+import { Request, Response } from "cross-fetch";
+import { BigNumber, utils, Wallet } from "ethers";
+
+const NFT_ADDRESS = "0x0000000000000000000000000000000000000721";
+const TOKEN_ADDRESS = "0x0000000000000000000000000000000000000020";
+const ROLES_ADDRESS = "0x0000000000000000000000000000000000000001";
+
+// Emulates the contracts read through the SDK, without a network connection
+function createSDK(holder: string) {
+  const isHolder = (address: string) =>
+    address.toLowerCase() === holder.toLowerCase();
+
+  const contracts: Record<string, any> = {
+    [NFT_ADDRESS]: {
+      erc721: {
+        balanceOf: async (address: string) =>
+          BigNumber.from(isHolder(address) ? 2 : 0),
+      },
+    },
+    [TOKEN_ADDRESS]: {
+      erc20: {
+        balanceOf: async (address: string) => ({
+          value: utils.parseUnits(isHolder(address) ? "10" : "0.5", 6),
+          decimals: 6,
+        }),
+      },
+    },
+    [ROLES_ADDRESS]: {
+      roles: {
+        verify: async ([role]: string[], address: string) => {
+          if (!isHolder(address)) {
+            throw new Error(
+              `MISSING ROLE: ${address} does not have the '${role}' role`,
+            );
+          }
+        },
+      },
+    },
+  };
+
+  return {
+    getContract: async (address: string) => contracts[address],
+  } as any;
+}
+
+describe("Token Gated Policies", async () => {
+  let adminWallet: any, holderWallet: any, otherWallet: any;
+  let sdk: any;
+
+  const policies = {
+    holder: { type: "erc721", contractAddress: NFT_ADDRESS, chainId: 137 },
+    whale: {
+      type: "erc20",
+      contractAddress: TOKEN_ADDRESS,
+      chainId: 137,
+      minBalance: "1.5",
+    },
+    minter: [
+      { type: "erc721", contractAddress: NFT_ADDRESS, chainId: 137 },
+      {
+        type: "role",
+        contractAddress: ROLES_ADDRESS,
+        chainId: 137,
+        role: "minter",
+      },
+    ],
+  } as const;
+
+  before(async () => {
+    adminWallet = new SignerWallet(Wallet.createRandom());
+    holderWallet = new SignerWallet(Wallet.createRandom());
+    otherWallet = new SignerWallet(Wallet.createRandom());
+    sdk = createSDK(await holderWallet.getAddress());
+  });
+
+  it("Should evaluate ERC721, ERC20 and role policies", async () => {
+    const getSDK = () => sdk;
+
+    const holderResults = await evaluatePolicies(
+      await holderWallet.getAddress(),
+      policies as any,
+      { getSDK },
+    );
+    expect(holderResults).to.deep.equal({
+      holder: true,
+      whale: true,
+      minter: true,
+    });
+
+    const otherResults = await evaluatePolicies(
+      await otherWallet.getAddress(),
+      policies as any,
+      { getSDK },
+    );
+    expect(otherResults).to.deep.equal({
+      holder: false,
+      whale: false,
+      minter: false,
+    });
+  });
+
+  it("Should cache policy results in the session and require them", async () => {
+    const auth = ThirdwebAuth({
+      domain: "thirdweb.com",
+      wallet: adminWallet,
+      authOptions: { policies: policies as any, getSDK: () => sdk },
+      callbacks: { onLogin: () => ({ role: "user" }) },
+    });
+    const protectedHandler = auth.requirePolicy(
+      "holder",
+      async () => new Response("ok"),
+    );
+
+    for (const [wallet, status] of [
+      [holderWallet, 200],
+      [otherWallet, 403],
+    ]) {
+      const nonceRes = await auth.handler(
+        new Request("https://thirdweb.com/api/auth/nonce"),
+      );
+      const { nonce } = await nonceRes.json();
+      const client = new ThirdwebAuthSDK(wallet, "thirdweb.com");
+      const payload = await client.login({ nonce });
+
+      const loginRes = await auth.handler(
+        new Request("https://thirdweb.com/api/auth/login", {
+          method: "POST",
+          body: JSON.stringify({ payload }),
+        }),
+      );
+      const { token } = await loginRes.json();
+
+      const req = new Request("https://thirdweb.com/api/data", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const user = await auth.getUser(req);
+      expect((user?.session as any).role).to.equal("user");
+      expect((user?.session as any).policies.holder).to.equal(status === 200);
+
+      const res = await protectedHandler(req);
+      expect(res.status).to.equal(status);
+    }
+  });
+
+  it("Should evaluate cached policy results again once they expire", async () => {
+    // The holder sells their tokens after logging in
+    let currentSDK = sdk;
+    const getToken = async (auth: ReturnType<typeof ThirdwebAuth>) => {
+      const nonceRes = await auth.handler(
+        new Request("https://thirdweb.com/api/auth/nonce"),
+      );
+      const { nonce } = await nonceRes.json();
+      const client = new ThirdwebAuthSDK(holderWallet, "thirdweb.com");
+      const payload = await client.login({ nonce });
+
+      const loginRes = await auth.handler(
+        new Request("https://thirdweb.com/api/auth/login", {
+          method: "POST",
+          body: JSON.stringify({ payload }),
+        }),
+      );
+      return (await loginRes.json()).token;
+    };
+
+    for (const [policyDurationInSeconds, status] of [
+      [60, 200],
+      [0, 403],
+    ]) {
+      currentSDK = sdk;
+      const auth = ThirdwebAuth({
+        domain: "thirdweb.com",
+        wallet: adminWallet,
+        authOptions: {
+          policies: policies as any,
+          policyDurationInSeconds,
+          getSDK: () => currentSDK,
+        },
+      });
+      const token = await getToken(auth);
+      const req = new Request("https://thirdweb.com/api/data", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const user = await auth.getUser(req);
+      expect((user?.session as any).policiesEvaluatedAt).to.be.closeTo(
+        Date.now() / 1000,
+        5,
+      );
+
+      currentSDK = createSDK(await otherWallet.getAddress());
+      const res = await auth.requirePolicy(
+        "holder",
+        async () => new Response("ok"),
+      )(req);
+      expect(res.status).to.equal(status);
+    }
+  });
+
+  it("Should reject unauthenticated users and surface contract read errors", async () => {
+    const auth = ThirdwebAuth({
+      domain: "thirdweb.com",
+      wallet: adminWallet,
+    });
+
+    const res = await auth.requirePolicy(
+      "holder",
+      async () => new Response("ok"),
+    )(new Request("https://thirdweb.com/api/data"));
+    expect(res.status).to.equal(401);
+
+    try {
+      await evaluatePolicies(
+        await holderWallet.getAddress(),
+        {
+          invalid: {
+            type: "role",
+            contractAddress: ROLES_ADDRESS,
+            chainId: 137,
+            role: "minter",
+          },
+        },
+        {
+          getSDK: () =>
+            ({
+              getContract: async () => ({
+                roles: {
+                  verify: async () => {
+                    throw new Error("could not detect network");
+                  },
+                },
+              }),
+            } as any),
+        },
+      );
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal("could not detect network");
+    }
+  });
+
+  it("Should require getSDK to evaluate policies", async () => {
+    try {
+      await evaluatePolicies(await holderWallet.getAddress(), {
+        holder: policies.holder,
+      });
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("specify getSDK in authOptions");
+    }
+  });
+});
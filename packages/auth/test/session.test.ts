@@ -0,0 +1,222 @@
+import {
+  AuthSession,
+  KeyValueSessionStore,
+  MemorySessionStore,
+  SessionStore,
+  ThirdwebAuth,
+} from "../src/core";
+import { SignerWallet } from "../src/evm";
+import { expect } from "chai";
+import { Wallet } from "ethers";
+
+describe("Session Authentication", async () => {
+  let adminWallet: any, signerWallet: any;
+  let sessionStore: SessionStore;
+  let auth: ThirdwebAuth;
+
+  before(async () => {
+    adminWallet = new SignerWallet(Wallet.createRandom());
+    signerWallet = new SignerWallet(Wallet.createRandom());
+  });
+
+  beforeEach(async () => {
+    sessionStore = new MemorySessionStore();
+    auth = new ThirdwebAuth(signerWallet, "thirdweb.com", { sessionStore });
+  });
+
+  async function generateSession() {
+    const payload = await auth.login();
+    auth.updateWallet(adminWallet);
+    return auth.generateSession(payload, { session: { role: "admin" } });
+  }
+
+  it("Should generate an access token and refresh token", async () => {
+    const { accessToken, refreshToken, expiresAt } = await generateSession();
+
+    const user = await auth.authenticate(accessToken);
+    expect(user.address).to.equal(await signerWallet.getAddress());
+    expect(user.session).to.deep.equal({ role: "admin" });
+    expect(refreshToken.split(".").length).to.equal(2);
+    expect(expiresAt.getTime()).to.be.greaterThan(Date.now());
+  });
+
+  it("Should rotate refresh tokens and keep the session context", async () => {
+    const { refreshToken } = await generateSession();
+
+    const tokens = await auth.refresh(refreshToken);
+    expect(tokens.refreshToken).to.not.equal(refreshToken);
+
+    const user = await auth.authenticate(tokens.accessToken);
+    expect(user.session).to.deep.equal({ role: "admin" });
+
+    await auth.refresh(tokens.refreshToken);
+  });
+
+  it("Should revoke the session when a refresh token is reused", async () => {
+    const { accessToken, refreshToken } = await generateSession();
+    const tokens = await auth.refresh(refreshToken);
+    await auth.refresh(tokens.refreshToken);
+
+    try {
+      await auth.refresh(refreshToken);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("has already been used");
+    }
+
+    try {
+      await auth.authenticate(accessToken);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("has been revoked");
+    }
+  });
+
+  it("Should revoke the session when the last refresh token is reused later", async () => {
+    const { accessToken, refreshToken } = await generateSession();
+    await auth.refresh(refreshToken);
+
+    const sessionId = refreshToken.split(".")[0];
+    const session = await sessionStore.get(sessionId);
+    await sessionStore.set({
+      ...(session as AuthSession),
+      rotatedAt: Date.now() - 1000 * 60,
+    });
+
+    try {
+      await auth.refresh(refreshToken);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("has already been used");
+    }
+
+    try {
+      await auth.authenticate(accessToken);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("has been revoked");
+    }
+  });
+
+  it("Should not revoke the session for a refresh token that was never issued", async () => {
+    const { accessToken, refreshToken } = await generateSession();
+    const sessionId = refreshToken.split(".")[0];
+
+    for (const token of [`${sessionId}.garbage`, sessionId]) {
+      try {
+        await auth.refresh(token);
+        expect.fail();
+      } catch (err: any) {
+        expect(err.message).to.contain("Refresh token is invalid");
+      }
+      expect(await auth.revokeSession(token)).to.equal(false);
+    }
+
+    await auth.authenticate(accessToken);
+    await auth.refresh(refreshToken);
+  });
+
+  it("Should only rotate a refresh token once when it is used concurrently", async () => {
+    const values = new Map<string, string>();
+    const stores = [
+      new MemorySessionStore(),
+      new KeyValueSessionStore({
+        get: async (key) => values.get(key),
+        set: async (key, value) => values.set(key, value),
+        delete: async (key) => values.delete(key),
+        take: async (key) => {
+          const value = values.get(key);
+          values.delete(key);
+          return value;
+        },
+      }),
+    ];
+
+    for (const store of stores) {
+      sessionStore = store;
+      auth = new ThirdwebAuth(signerWallet, "thirdweb.com", { sessionStore });
+      const { refreshToken } = await generateSession();
+
+      const results = await Promise.allSettled([
+        auth.refresh(refreshToken),
+        auth.refresh(refreshToken),
+      ]);
+      expect(results.map((result) => result.status).sort()).to.deep.equal([
+        "fulfilled",
+        "rejected",
+      ]);
+      const rejected = results.find(
+        (result) => result.status === "rejected",
+      ) as PromiseRejectedResult;
+      expect(rejected.reason.message).to.contain("Refresh token is invalid");
+
+      // Concurrent requests don't revoke the session, so the winning token can still be used
+      const fulfilled = results.find(
+        (result) => result.status === "fulfilled",
+      ) as PromiseFulfilledResult<{ refreshToken: string }>;
+      await auth.refresh(fulfilled.value.refreshToken);
+    }
+  });
+
+  it("Should reject tokens of revoked sessions", async () => {
+    const { accessToken, refreshToken } = await generateSession();
+    expect(await auth.revokeSession(refreshToken)).to.equal(true);
+
+    try {
+      await auth.authenticate(accessToken);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("has been revoked");
+    }
+
+    try {
+      await auth.refresh(refreshToken);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("Refresh token is invalid");
+    }
+  });
+
+  it("Should revoke all sessions of a user with a key-value store", async () => {
+    const values = new Map<string, string>();
+    sessionStore = new KeyValueSessionStore({
+      get: async (key) => values.get(key),
+      set: async (key, value) => values.set(key, value),
+      delete: async (key) => values.delete(key),
+      take: async (key) => {
+        const value = values.get(key);
+        values.delete(key);
+        return value;
+      },
+    });
+    auth = new ThirdwebAuth(signerWallet, "thirdweb.com", { sessionStore });
+
+    const first = await generateSession();
+    auth.updateWallet(signerWallet);
+    const second = await generateSession();
+
+    await auth.authenticate(first.accessToken);
+    await auth.revokeAllSessions(await signerWallet.getAddress());
+
+    for (const { accessToken } of [first, second]) {
+      try {
+        await auth.authenticate(accessToken);
+        expect.fail();
+      } catch (err: any) {
+        expect(err.message).to.contain("has been revoked");
+      }
+    }
+  });
+
+  it("Should require a session store to generate sessions", async () => {
+    const payload = await auth.login();
+    const statelessAuth = new ThirdwebAuth(adminWallet, "thirdweb.com");
+
+    try {
+      await statelessAuth.generateSession(payload);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("A session store must be configured");
+    }
+  });
+});
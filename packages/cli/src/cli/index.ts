@@ -8,6 +8,7 @@ import { twCreate } from "../create/command";
 import { deploy } from "../deploy";
 import { findPackageInstallation } from "../helpers/detect-local-packages";
 import { upload } from "../storage/command";
+import { createAccount, listAccounts } from "../wallet/command";
 import { ThirdwebStorage } from "@thirdweb-dev/storage";
 import chalk from "chalk";
 import { exec, spawn } from "child_process";
@@ -282,6 +283,12 @@ const main = async () => {
     )
     .option("--app", "Deploy a web app to decentralized storage")
     .option("--contract", "Deploy a smart contract to blockchains")
+    .option(
+      "-k, --keystore [account]",
+      "Deploy directly with a keystore account instead of the dashboard",
+    )
+    .option("--keystore-dir <dir>", "Directory of the keystore accounts")
+    .option("--chain <chain>", "Chain to deploy to with a keystore account")
     .action(async (options) => {
       const url = await deploy(options);
       if (url) {
@@ -306,16 +313,53 @@ const main = async () => {
     .option("--dry-run", "dry run (skip actually publishing)")
     .option("-d, --debug", "show debug logs")
     .option("--ci", "Continuous Integration mode")
+    .option(
+      "-k, --keystore [account]",
+      "Release directly with a keystore account instead of the dashboard",
+    )
+    .option("--keystore-dir <dir>", "Directory of the keystore accounts")
     .action(async (options) => {
       const url = await processProject(options, "release");
       info(
-        `Open this link to release your contracts: ${chalk.blueBright(
-          url.toString(),
-        )}`,
+        `Open this link to ${
+          options.keystore ? "view your released" : "release your"
+        } contracts: ${chalk.blueBright(url.toString())}`,
       );
       open(url.toString());
     });
 
+  const wallet = program
+    .command("wallet")
+    .description(
+      "Manage the encrypted keystore accounts used to deploy and release",
+    );
+
+  wallet
+    .command("create")
+    .description("Create a new keystore account")
+    .argument("[name]", "name of the account", "default")
+    .option("--keystore-dir <dir>", "Directory of the keystore accounts")
+    .action(async (name, options) => {
+      await createAccount(name, options);
+    });
+
+  wallet
+    .command("import")
+    .description("Import a private key as a keystore account")
+    .argument("[name]", "name of the account", "default")
+    .option("--keystore-dir <dir>", "Directory of the keystore accounts")
+    .action(async (name, options) => {
+      await createAccount(name, { ...options, import: true });
+    });
+
+  wallet
+    .command("list")
+    .description("List the keystore accounts")
+    .option("--keystore-dir <dir>", "Directory of the keystore accounts")
+    .action(async (options) => {
+      await listAccounts(options);
+    });
+
   program
     .command("upload")
     .description("Upload any file or directory to decentralized storage (IPFS)")
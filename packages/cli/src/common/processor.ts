@@ -5,6 +5,7 @@ import { execute } from "../core/helpers/exec";
 import { error, info, logger, spinner } from "../core/helpers/logger";
 import { createContractsPrompt } from "../core/helpers/selector";
 import { ContractPayload } from "../core/interfaces/ContractPayload";
+import { submitWithKeystore } from "../wallet/submit";
 import { ThirdwebStorage } from "@thirdweb-dev/storage";
 import chalk from "chalk";
 import { readFileSync } from "fs";
@@ -172,6 +173,7 @@ export async function processProject(
 
   const soliditySDKPackage = "@thirdweb-dev/contracts";
   let usesSoliditySDK = false;
+  let combinedURIs: string[] = [];
 
   try {
     for (let i = 0; i < selectedContracts.length; i++) {
@@ -228,7 +230,6 @@ export async function processProject(
         analytics,
       };
     });
-    let combinedURIs: string[] = [];
     if (combinedContents.length === 1) {
       // use upload single if only one contract to get a clean IPFS hash
       const metadataUri = await storage.upload(combinedContents[0], {
@@ -241,12 +242,20 @@ export async function processProject(
     }
 
     loader.succeed("Upload successful");
-
-    return getUrl(combinedURIs, command);
   } catch (e) {
     loader.fail("Error uploading metadata");
     throw e;
   }
+
+  if (options.keystore) {
+    return await submitWithKeystore(
+      selectedContracts,
+      combinedURIs,
+      command,
+      options,
+    );
+  }
+  return getUrl(combinedURIs, command);
 }
 
 export function getUrl(hashes: string[], command: string) {
@@ -10,6 +10,9 @@ type DeployOptions = {
   app: boolean;
   path?: string;
   distPath?: string;
+  keystore?: string | true;
+  keystoreDir?: string;
+  chain?: string;
 };
 
 export async function deploy(options: DeployOptions) {
@@ -46,9 +49,9 @@ export async function deploy(options: DeployOptions) {
 
   const url = await processProject(options, "deploy");
   info(
-    `Open this link to deploy your contracts: ${chalk.blueBright(
-      url.toString(),
-    )}`,
+    `Open this link to ${
+      options.keystore ? "view your deployed" : "deploy your"
+    } contracts: ${chalk.blueBright(url.toString())}`,
   );
   return url.toString();
 }
@@ -0,0 +1,93 @@
+import { info, logger } from "../core/helpers/logger";
+import { KeystoreWallet } from "@thirdweb-dev/wallets/evm/wallets/keystore";
+import chalk from "chalk";
+import prompts from "prompts";
+
+export type KeystoreOptions = {
+  keystoreDir?: string;
+};
+
+async function promptPassword(message: string): Promise<string> {
+  const res = await prompts({
+    type: "password",
+    name: "password",
+    message,
+  });
+  if (typeof res.password !== "string") {
+    // the prompt was cancelled
+    process.exit(1);
+  }
+  return res.password;
+}
+
+/**
+ * Get the keystore account, the password is read from THIRDWEB_KEYSTORE_PASSWORD in CI or prompted
+ */
+export function getKeystoreWallet(
+  account: string | true,
+  options: KeystoreOptions,
+): KeystoreWallet {
+  return new KeystoreWallet({
+    directory: options.keystoreDir,
+    account: account === true ? undefined : account,
+    password: async ({ name, address }) =>
+      // eslint-disable-next-line turbo/no-undeclared-env-vars
+      process.env.THIRDWEB_KEYSTORE_PASSWORD ||
+      promptPassword(`Password for account '${name}' (${address})`),
+  });
+}
+
+export async function createAccount(
+  name: string,
+  options: KeystoreOptions & { import?: boolean },
+) {
+  let privateKey: string | undefined;
+  if (options.import) {
+    const res = await prompts({
+      type: "password",
+      name: "privateKey",
+      message: "Private key to import",
+    });
+    if (typeof res.privateKey !== "string") {
+      process.exit(1);
+    }
+    privateKey = res.privateKey;
+  }
+
+  const wallet = await KeystoreWallet.create({
+    directory: options.keystoreDir,
+    account: name,
+    privateKey,
+    password: async () => {
+      const password = await promptPassword(
+        `Password to encrypt account '${name}'`,
+      );
+      if ((await promptPassword("Confirm the password")) !== password) {
+        logger.error(chalk.red("Passwords don't match"));
+        process.exit(1);
+      }
+      return password;
+    },
+  });
+
+  info(
+    `Account '${name}' ${
+      options.import ? "imported" : "created"
+    }: ${chalk.blueBright(await wallet.getAddress())}`,
+  );
+}
+
+export async function listAccounts(options: KeystoreOptions) {
+  const accounts = await KeystoreWallet.listAccounts(options.keystoreDir);
+  if (accounts.length === 0) {
+    logger.info(
+      `No accounts found, create one with ${chalk.cyan(
+        "npx thirdweb@latest wallet create",
+      )}`,
+    );
+    return;
+  }
+  for (const account of accounts) {
+    logger.info(`${account.name}: ${chalk.blueBright(account.address)}`);
+  }
+}
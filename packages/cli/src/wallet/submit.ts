@@ -0,0 +1,90 @@
+import { THIRDWEB_URL } from "../constants/urls";
+import { error, info, spinner } from "../core/helpers/logger";
+import { ContractPayload } from "../core/interfaces/ContractPayload";
+import { getKeystoreWallet, KeystoreOptions } from "./command";
+import {
+  extractConstructorParamsFromAbi,
+  ThirdwebSDK,
+} from "@thirdweb-dev/sdk";
+import chalk from "chalk";
+import prompts from "prompts";
+
+export type SubmitOptions = KeystoreOptions & {
+  keystore: string | true;
+  chain?: string;
+};
+
+/**
+ * Deploy or release the uploaded contracts directly, signing with a keystore account instead of the dashboard
+ */
+export async function submitWithKeystore(
+  contracts: ContractPayload[],
+  uris: string[],
+  command: "deploy" | "release",
+  options: SubmitOptions,
+): Promise<URL> {
+  const wallet = getKeystoreWallet(options.keystore, options);
+  const address = await wallet.getAddress();
+  info(`Using account ${chalk.blueBright(address)}`);
+
+  if (command === "release") {
+    // releases are always registered on polygon
+    const sdk = await ThirdwebSDK.fromWallet(wallet, "polygon");
+    for (let i = 0; i < contracts.length; i++) {
+      const res = await prompts({
+        type: "text",
+        name: "version",
+        message: `Version to release ${contracts[i].name} as`,
+        initial: "1.0.0",
+      });
+      const loader = spinner(`Releasing ${contracts[i].name}...`);
+      try {
+        await sdk.getPublisher().publish(uris[i], { version: res.version });
+        loader.succeed(`Released ${contracts[i].name}`);
+      } catch (e) {
+        loader.fail(`Failed to release ${contracts[i].name}`);
+        throw e;
+      }
+    }
+    return new URL(`${THIRDWEB_URL}/${address}`);
+  }
+
+  if (!options.chain) {
+    error("Specify the chain to deploy to with --chain");
+    process.exit(1);
+  }
+  const sdk = await ThirdwebSDK.fromWallet(wallet, options.chain);
+  let contractAddress = "";
+  for (let i = 0; i < contracts.length; i++) {
+    const abi = JSON.parse(contracts[i].metadata)["output"]["abi"];
+    const params = extractConstructorParamsFromAbi(abi);
+    const values: string[] = [];
+    for (const param of params) {
+      const res = await prompts({
+        type: "text",
+        name: "value",
+        message: `${contracts[i].name} constructor parameter ${param.name} (${
+          param.type
+        })${param.type.endsWith("[]") ? " as JSON" : ""}`,
+      });
+      values.push(res.value);
+    }
+
+    const loader = spinner(
+      `Deploying ${contracts[i].name} to ${options.chain}...`,
+    );
+    try {
+      contractAddress = await sdk.deployer.deployContractFromUri(
+        uris[i],
+        values,
+      );
+      loader.succeed(
+        `Deployed ${contracts[i].name} at ${chalk.blueBright(contractAddress)}`,
+      );
+    } catch (e) {
+      loader.fail(`Failed to deploy ${contracts[i].name}`);
+      throw e;
+    }
+  }
+  return new URL(`${THIRDWEB_URL}/${options.chain}/${contractAddress}`);
+}
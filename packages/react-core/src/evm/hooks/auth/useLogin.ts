@@ -28,7 +28,19 @@ export function useLogin() {
         "Please specify an authUrl in the authConfig.",
       );
 
-      const payload = await authConfig.auth.login(options);
+      // Embed a nonce issued by the backend, so the login payload can only be used once
+      let nonce = options?.nonce;
+      if (!nonce) {
+        const nonceRes = await fetch(`${authConfig.authUrl}/nonce`);
+        if (!nonceRes.ok) {
+          throw new Error(
+            `Nonce request failed with status code ${nonceRes.status}`,
+          );
+        }
+        nonce = (await nonceRes.json()).nonce;
+      }
+
+      const payload = await authConfig.auth.login({ ...options, nonce });
       const res = await fetch(`${authConfig.authUrl}/login`, {
         method: "POST",
         headers: {
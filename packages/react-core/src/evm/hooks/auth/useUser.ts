@@ -1,7 +1,7 @@
 import { useThirdwebAuthContext } from "../../contexts/thirdweb-auth";
 import { cacheKeys } from "../../utils/cache-keys";
 import { useQuery } from "@tanstack/react-query";
-import { Json, User } from "@thirdweb-dev/auth";
+import { Json, LinkedAccount, User } from "@thirdweb-dev/auth";
 import invariant from "tiny-invariant";
 
 export interface UserWithData<
@@ -14,7 +14,7 @@ export interface UserWithData<
 /**
  * Hook to get the currently logged in user.
  *
- * @returns - The currently logged in user or null if not logged in, as well as a loading state.
+ * @returns - The currently logged in user or null if not logged in, the wallets linked to their account, as well as a loading state.
  *
  * @beta
  */
@@ -48,5 +48,10 @@ export function useUser<
     },
   );
 
-  return { user, isLoggedIn: !!user, isLoading };
+  // Accounts linked on the server are included in the session of the user
+  const linkedAccounts: LinkedAccount[] =
+    (user?.session as { linkedAccounts?: LinkedAccount[] } | undefined)
+      ?.linkedAccounts || [];
+
+  return { user, linkedAccounts, isLoggedIn: !!user, isLoading };
 }
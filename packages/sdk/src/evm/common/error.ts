@@ -1,7 +1,14 @@
 import { Feature } from "../constants/contract-features";
+import { KNOWN_ERROR_SIGNATURES, PANIC_CODES } from "../constants/errors";
 import { NATIVE_TOKENS, SUPPORTED_CHAIN_ID } from "../constants/index";
 import { ContractSource } from "../schema";
-import { BigNumber, BigNumberish, ethers, providers } from "ethers";
+import {
+  BigNumber,
+  BigNumberish,
+  ContractInterface,
+  ethers,
+  providers,
+} from "ethers";
 
 /**
  * Error that may get thrown if IPFS returns nothing for a given uri.
@@ -256,6 +263,42 @@ export class ExtensionNotImplementedError extends Error {
   }
 }
 
+/**
+ * Thrown when a transaction was cancelled with `TransactionTask.cancel()`
+ * @internal
+ */
+export class TransactionCancelledError extends Error {
+  constructor(transactionHash: string) {
+    super(
+      `Transaction was cancelled, its nonce was used by the cancellation transaction ${transactionHash}`,
+    );
+  }
+}
+
+/**
+ * Thrown when the nonce of a transaction was used by a transaction sent from somewhere else
+ * @internal
+ */
+export class TransactionDroppedError extends Error {
+  constructor(transactionHash: string) {
+    super(
+      `Transaction ${transactionHash} was dropped, its nonce was used by another transaction`,
+    );
+  }
+}
+
+/**
+ * Thrown when replacing a transaction would require fees above the max gas price of the SDK options
+ * @internal
+ */
+export class ReplacementFeeTooHighError extends Error {
+  constructor(maxPriceInGwei: number) {
+    super(
+      `Cannot replace the transaction, the required fee bump exceeds the max gas price of ${maxPriceInGwei} gwei set in gasSettings.maxPriceInGwei`,
+    );
+  }
+}
+
 /**
  * @internal
  */
@@ -277,6 +320,8 @@ export type TransactionErrorInfo = {
   hash?: string;
   contractName?: string;
   sources?: ContractSource[];
+  errorName?: string;
+  errorArgs?: ethers.utils.Result;
 };
 
 /**
@@ -330,8 +375,13 @@ export class TransactionError extends Error {
     }
 
     if (info.sources) {
+      // custom errors are reverted by name, with arguments computed at runtime
+      const revertStatement =
+        info.errorName && info.errorName !== "Error"
+          ? `revert ${info.errorName}(`
+          : info.reason;
       const revertFile = info.sources.find((file) =>
-        file.source.includes(info.reason),
+        file.source.includes(revertStatement),
       );
 
       if (revertFile) {
@@ -339,7 +389,7 @@ export class TransactionError extends Error {
           .split("\n")
           .map((line, index) => `${index + 1}  ${line}`);
         const revertLine = lines.findIndex((line) =>
-          line.includes(info.reason),
+          line.includes(revertStatement),
         );
         lines[revertLine] += "   <-- REVERT";
         const errorLines = lines.slice(revertLine - 8, revertLine + 4);
@@ -371,12 +421,146 @@ export class TransactionError extends Error {
   get info(): TransactionErrorInfo {
     return this.#info;
   }
+
+  /**
+   * The name of the Solidity error the transaction reverted with, `Error` for string reverts and `Panic` for failed assertions
+   */
+  get errorName(): string | undefined {
+    return this.#info.errorName;
+  }
+
+  /**
+   * The decoded arguments of the Solidity error the transaction reverted with
+   */
+  get errorArgs(): ethers.utils.Result | undefined {
+    return this.#info.errorArgs;
+  }
+}
+
+/**
+ * @internal
+ */
+export type DecodedRevert = {
+  reason: string;
+  errorName: string;
+  errorArgs: ethers.utils.Result;
+};
+
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+let knownErrorsInterface: ethers.utils.Interface | undefined;
+
+/**
+ * Find the data returned by a reverted call, nested in the errors of ethers, wallets and RPC providers
+ * @internal
+ */
+export function extractRevertData(error: any, depth = 0): string | undefined {
+  if (!error || typeof error !== "object" || depth > 5) {
+    return undefined;
+  }
+  if (
+    typeof error.data === "string" &&
+    /^0x[0-9a-f]{8}([0-9a-f]{64})*$/i.test(error.data)
+  ) {
+    return error.data;
+  }
+  let body: any;
+  try {
+    body = typeof error.body === "string" ? JSON.parse(error.body) : undefined;
+  } catch (e) {
+    // not a JSON-RPC response
+  }
+  for (const nested of [error.data, error.error, body]) {
+    const data = extractRevertData(nested, depth + 1);
+    if (data) {
+      return data;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode string reverts, Panic codes and custom errors against the contract ABI,
+ * falling back to the errors of widely used contracts
+ * @internal
+ */
+export function decodeRevertData(
+  data: string,
+  abi?: ContractInterface,
+): DecodedRevert | undefined {
+  if (!/^0x[0-9a-f]{8}/i.test(data)) {
+    return undefined;
+  }
+  const selector = data.slice(0, 10).toLowerCase();
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const errorArgs = ethers.utils.defaultAbiCoder.decode(
+        ["string"],
+        ethers.utils.hexDataSlice(data, 4),
+      );
+      return { reason: errorArgs[0], errorName: "Error", errorArgs };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const errorArgs = ethers.utils.defaultAbiCoder.decode(
+        ["uint256"],
+        ethers.utils.hexDataSlice(data, 4),
+      );
+      const code = BigNumber.from(errorArgs[0]);
+      return {
+        reason: `Panic(${code.toHexString()}): ${
+          PANIC_CODES[code.toNumber()] || "unknown panic code"
+        }`,
+        errorName: "Panic",
+        errorArgs,
+      };
+    }
+  } catch (e) {
+    // malformed revert data
+    return undefined;
+  }
+
+  if (!knownErrorsInterface) {
+    knownErrorsInterface = new ethers.utils.Interface(KNOWN_ERROR_SIGNATURES);
+  }
+  for (const contractInterface of [abi, knownErrorsInterface]) {
+    if (!contractInterface) {
+      continue;
+    }
+    try {
+      const description = ethers.utils.Interface.isInterface(contractInterface)
+        ? contractInterface.parseError(data)
+        : new ethers.utils.Interface(contractInterface).parseError(data);
+      return {
+        reason: `${description.name}(${description.args
+          .map(formatErrorArg)
+          .join(", ")})`,
+        errorName: description.name,
+        errorArgs: description.args,
+      };
+    } catch (e) {
+      // the error isn't declared in this ABI
+    }
+  }
+  return undefined;
+}
+
+function formatErrorArg(arg: any): string {
+  if (Array.isArray(arg)) {
+    return `[${arg.map(formatErrorArg).join(", ")}]`;
+  }
+  return BigNumber.isBigNumber(arg) ? arg.toString() : `${arg}`;
 }
 
 /**
  * @internal
  */
-export function parseRevertReason(error: any): string {
+export function parseRevertReason(error: any, abi?: ContractInterface): string {
+  const revertData = extractRevertData(error);
+  const decoded = revertData ? decodeRevertData(revertData, abi) : undefined;
+  if (decoded) {
+    return decoded.reason;
+  }
+
   if (error.reason) {
     return error.reason as string;
   }
@@ -0,0 +1,80 @@
+/**
+ * Reasons of the Panic(uint256) errors thrown by the Solidity compiler
+ * @internal
+ */
+export const PANIC_CODES: Record<number, string> = {
+  0x00: "generic compiler inserted panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic underflow or overflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array encoding",
+  0x31: "pop on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized function",
+};
+
+/**
+ * Custom errors of widely used contracts, to decode reverts from external contracts called during a transaction
+ * @internal
+ */
+export const KNOWN_ERROR_SIGNATURES = [
+  // ERC721A
+  "error ApprovalCallerNotOwnerNorApproved()",
+  "error ApprovalQueryForNonexistentToken()",
+  "error BalanceQueryForZeroAddress()",
+  "error MintERC2309QuantityExceedsLimit()",
+  "error MintToZeroAddress()",
+  "error MintZeroQuantity()",
+  "error OwnerQueryForNonexistentToken()",
+  "error OwnershipNotInitializedForExtraData()",
+  "error TransferCallerNotOwnerNorApproved()",
+  "error TransferFromIncorrectOwner()",
+  "error TransferToNonERC721ReceiverImplementer()",
+  "error TransferToZeroAddress()",
+  "error URIQueryForNonexistentToken()",
+  // OpenZeppelin draft ERC-6093 token errors
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidApprover(address approver)",
+  "error ERC20InvalidSpender(address spender)",
+  "error ERC721InvalidOwner(address owner)",
+  "error ERC721NonexistentToken(uint256 tokenId)",
+  "error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)",
+  "error ERC721InvalidSender(address sender)",
+  "error ERC721InvalidReceiver(address receiver)",
+  "error ERC721InsufficientApproval(address operator, uint256 tokenId)",
+  "error ERC721InvalidApprover(address approver)",
+  "error ERC721InvalidOperator(address operator)",
+  "error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)",
+  "error ERC1155InvalidSender(address sender)",
+  "error ERC1155InvalidReceiver(address receiver)",
+  "error ERC1155MissingApprovalForAll(address operator, address owner)",
+  "error ERC1155InvalidApprover(address approver)",
+  "error ERC1155InvalidOperator(address operator)",
+  "error ERC1155InvalidArrayLength(uint256 idsLength, uint256 valuesLength)",
+  // OpenZeppelin access control and utils
+  "error OwnableUnauthorizedAccount(address account)",
+  "error OwnableInvalidOwner(address owner)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AccessControlBadConfirmation()",
+  "error AddressInsufficientBalance(address account)",
+  "error AddressEmptyCode(address target)",
+  "error FailedInnerCall()",
+  "error SafeERC20FailedOperation(address token)",
+  "error ReentrancyGuardReentrantCall()",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  // Uniswap Permit2
+  "error AllowanceExpired(uint256 deadline)",
+  "error InsufficientAllowance(uint256 amount)",
+  "error InvalidNonce()",
+  "error SignatureExpired(uint256 signatureDeadline)",
+  // ERC-4337 EntryPoint
+  "error FailedOp(uint256 opIndex, string reason)",
+  "error SenderAddressResult(address sender)",
+  "error SignatureValidationFailed(address aggregator)",
+];
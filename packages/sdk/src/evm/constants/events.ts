@@ -6,9 +6,16 @@ export enum EventType {
    * The event is triggered when the transaction is submitted and completed.
    * The transaction is submitted when it is sent to the relayer or the blockchain.
    * The transaction is completed when it is confirmed by the blockchain.
+   * With a transaction queue, the transaction is queued when it is assigned a nonce.
+   * A pending transaction is replaced when it is sped up or cancelled, and dropped when the node no longer knows about it
+   * or its nonce was used by another transaction.
    *
-   * status: "submitted" | "completed"
-   * transactionHash: string of the transaction hash
+   * status: "queued" | "submitted" | "replaced" | "dropped" | "completed"
+   * transactionHash: string of the transaction hash (not available when status is "queued")
+   * replacedTransactionHash: the hash of the transaction that was replaced (only available when status is "replaced")
+   * reason: "repriced" | "cancelled" (only available when status is "replaced")
+   * nonce: the nonce assigned by the transaction queue (only available when status is "queued")
+   * pendingTransactions: the number of transactions of the queue awaiting confirmation (only available when status is "queued")
    */
   Transaction = "transaction",
 
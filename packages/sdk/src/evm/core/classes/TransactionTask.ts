@@ -2,11 +2,16 @@ import { TransactionResult } from "../types";
 import { ContractEncoder } from "./contract-encoder";
 import { ContractWrapper } from "./contract-wrapper";
 import { GasCostEstimator } from "./gas-cost-estimator";
+import {
+  StuckTransactionOptions,
+  TransactionWatcher,
+} from "./transaction-watcher";
 import {
   BigNumber,
   BigNumberish,
   CallOverrides,
   ContractTransaction,
+  providers,
 } from "ethers";
 
 /**
@@ -37,6 +42,7 @@ export class TransactionTask {
   private overrides: CallOverrides | undefined;
   private encoder: ContractEncoder<any>;
   private estimator: GasCostEstimator<any>;
+  private watcher: TransactionWatcher;
 
   private constructor(taskArgs: TransactionTaskArgs) {
     this.contractWrapper = taskArgs.contractWrapper;
@@ -45,6 +51,7 @@ export class TransactionTask {
     this.overrides = taskArgs.overrides;
     this.encoder = new ContractEncoder(this.contractWrapper);
     this.estimator = new GasCostEstimator(this.contractWrapper);
+    this.watcher = new TransactionWatcher(this.contractWrapper);
   }
 
   // ////////////// Overrides ////////////////
@@ -97,6 +104,16 @@ export class TransactionTask {
     return this;
   }
 
+  /**
+   * Speed up the transaction when it isn't mined after some time or blocks while executing it.
+   * The transaction is re-broadcast with the same nonce and bumped fees, up to the max gas price of the SDK options.
+   * @param options - when the transaction is considered stuck
+   */
+  public speedUpWhenStuck(options: StuckTransactionOptions): TransactionTask {
+    this.watcher.options = options;
+    return this;
+  }
+
   // ////////////// Estimates ////////////////
 
   /**
@@ -135,11 +152,13 @@ export class TransactionTask {
    * To wait for the transaction to be mined, you can call `.wait()` on the result of this function.
    */
   public async submit(): Promise<ContractTransaction> {
-    return await this.contractWrapper.sendTransactionByFunction(
+    const tx = await this.contractWrapper.sendTransactionByFunction(
       this.functionName,
       this.args,
       this.overrides || {},
     );
+    this.watcher.watch(tx);
+    return tx;
   }
 
   /**
@@ -150,9 +169,29 @@ export class TransactionTask {
       this.functionName,
       this.args,
       this.overrides || {},
+      // only polls for the transaction once it may get stuck, or it's sped up or cancelled
+      this.watcher,
     );
     return {
       receipt,
     };
   }
+
+  /**
+   * Re-broadcasts the submitted transaction with the same nonce and bumped fees, to get it mined faster.
+   * If the transaction is being executed, `execute()` resolves with the receipt of whichever transaction gets mined.
+   * @returns the replacement transaction
+   */
+  public async speedUp(): Promise<providers.TransactionResponse> {
+    return await this.watcher.speedUp();
+  }
+
+  /**
+   * Replaces the submitted transaction with an empty transaction using the same nonce, so it never gets executed.
+   * If the transaction is being executed, `execute()` throws a `TransactionCancelledError` once the cancellation is mined.
+   * @returns the cancellation transaction
+   */
+  public async cancel(): Promise<providers.TransactionResponse> {
+    return await this.watcher.cancel();
+  }
 }
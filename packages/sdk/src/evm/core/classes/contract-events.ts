@@ -1,8 +1,20 @@
 import { EventType } from "../../constants";
-import { ContractEvent, EventQueryOptions } from "../../types/index";
+import {
+  ContractEvent,
+  EventPage,
+  EventQueryOptions,
+  EventSubscriptionOptions,
+} from "../../types/index";
 import { ContractWrapper } from "./contract-wrapper";
 import { EventFragment } from "@ethersproject/abi";
-import { BaseContract, Event, providers } from "ethers";
+import {
+  BaseContract,
+  BigNumber,
+  ethers,
+  Event,
+  EventFilter,
+  providers,
+} from "ethers";
 import type { EventEmitter } from "eventemitter3";
 
 /**
@@ -11,6 +23,7 @@ import type { EventEmitter } from "eventemitter3";
  */
 export class ContractEvents<TContract extends BaseContract> {
   protected contractWrapper;
+  private subscriptions = new Set<() => void>();
 
   constructor(contractWrapper: ContractWrapper<TContract>) {
     this.contractWrapper = contractWrapper;
@@ -18,7 +31,9 @@ export class ContractEvents<TContract extends BaseContract> {
 
   /**
    * Subscribe to transactions in this contract.
-   * @remarks Will emit an "event" object containing the transaction status ('submitted' and 'completed') and hash
+   * @remarks Will emit an "event" object containing the transaction status ('submitted' and 'completed') and hash.
+   * When the SDK is configured with a `transactionQueue`, a 'queued' event with the assigned nonce and the number of pending transactions is emitted first.
+   * Transactions sped up or cancelled with a `TransactionTask` emit 'replaced' events, and 'dropped' when they disappear from the node
    * @example
    * ```javascript
    * contract.events.addTransactionListener((event) => {
@@ -58,15 +73,25 @@ export class ContractEvents<TContract extends BaseContract> {
    * contract.events.addEventListener("TokensMinted", (event) => {
    *   console.log(event);
    * });
+   *
+   * // only receive events 12 blocks deep, and get notified if they are reorged out
+   * contract.events.addEventListener("TokensMinted", (event) => {
+   *   console.log(event);
+   * }, {
+   *   confirmations: 12,
+   *   onRemoved: (event) => console.log("reorged out", event),
+   * });
    * ```
    * @public
    * @param eventName - the event name as defined in the contract
    * @param listener - the callback function that will be called on every new event
+   * @param options - only call the listener once events are confirmed, and recover the events missed while disconnected
    * @returns a function to un-subscribe from the event
    */
   public addEventListener<TEvent extends Record<string, any>>(
     eventName: keyof TContract["filters"] | (string & {}),
     listener: (event: ContractEvent<TEvent>) => void,
+    options?: EventSubscriptionOptions<TEvent>,
   ) {
     // validates event, throws error if not found
     const event = this.contractWrapper.readContract.interface.getEvent(
@@ -80,6 +105,9 @@ export class ContractEvents<TContract extends BaseContract> {
         this.contractWrapper.readContract.interface.getEventTopic(event),
       ],
     };
+    if (options) {
+      return this.subscribe(filter, listener, options);
+    }
 
     const wrappedListener = (log: providers.Log) => {
       const parsedLog =
@@ -111,13 +139,18 @@ export class ContractEvents<TContract extends BaseContract> {
    * ```
    * @public
    * @param listener - the callback function that will be called on every new event
+   * @param options - only call the listener once events are confirmed, and recover the events missed while disconnected
    * @returns A function that can be called to stop listening to events
    */
   public listenToAllEvents<TEvent extends Record<string, any>>(
     listener: (event: ContractEvent<TEvent>) => void,
+    options?: EventSubscriptionOptions<TEvent>,
   ) {
     const address = this.contractWrapper.readContract.address;
     const filter = { address };
+    if (options) {
+      return this.subscribe(filter, listener, options);
+    }
 
     const wrappedListener = (log: providers.Log) => {
       try {
@@ -177,6 +210,7 @@ export class ContractEvents<TContract extends BaseContract> {
    * @public
    */
   public removeAllListeners() {
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
     this.contractWrapper.readContract.removeAllListeners();
     const address = this.contractWrapper.readContract.address;
     const filter = { address };
@@ -208,19 +242,41 @@ export class ContractEvents<TContract extends BaseContract> {
       order: "desc",
     },
   ): Promise<ContractEvent<TEvent>[]> {
-    const events = await this.contractWrapper.readContract.queryFilter(
-      {},
-      filters.fromBlock,
-      filters.toBlock,
-    );
-
-    const orderedEvents = events.sort((a, b) => {
-      return filters.order === "desc"
-        ? b.blockNumber - a.blockNumber
-        : a.blockNumber - b.blockNumber;
-    });
+    const events: ContractEvent<TEvent>[] = [];
+    for await (const page of this.iterateAllEvents<TEvent>(filters)) {
+      events.push(...page.events);
+    }
+    return events;
+  }
 
-    return this.parseEvents(orderedEvents);
+  /**
+   * Iterate over All Events
+   * @remarks Page through all the events emitted from this contract, one block range at a time.
+   * Use this to backfill events on RPCs that limit the block range of log requests, and persist the cursor of each page to resume later.
+   * @example
+   * ```javascript
+   * const options = {
+   *   fromBlock: 0,
+   *   toBlock: "latest",
+   *   order: "asc",
+   *   blockRange: 5000, // the maximum number of blocks per request
+   *   concurrency: 3, // the number of requests sent in parallel
+   *   cursor: await loadCursor(), // resume from a previous backfill
+   *   onProgress: ({ fetchedBlocks, totalBlocks }) => console.log(`${fetchedBlocks} / ${totalBlocks} blocks`),
+   * }
+   * for await (const page of contract.events.iterateAllEvents(options)) {
+   *   await saveEvents(page.events);
+   *   await saveCursor(page.cursor);
+   * }
+   * ```
+   *
+   * @param options - Specify the block range, chunking and cursor of the query
+   * @returns An async iterator over the pages of events
+   */
+  public iterateAllEvents<TEvent extends Record<string, any>>(
+    options: Omit<EventQueryOptions, "filters"> = {},
+  ): AsyncGenerator<EventPage<TEvent>> {
+    return this.iterateLogs<TEvent>({}, options);
   }
 
   /**
@@ -263,32 +319,280 @@ export class ContractEvents<TContract extends BaseContract> {
       order: "desc",
     },
   ): Promise<ContractEvent<TEvent>[]> {
+    const events: ContractEvent<TEvent>[] = [];
+    for await (const page of this.iterateEvents<TEvent, TFilter>(
+      eventName,
+      options,
+    )) {
+      events.push(...page.events);
+    }
+    return events;
+  }
+
+  /**
+   * Iterate over Events
+   * @remarks Page through the events of a specific type emitted from this contract, one block range at a time.
+   * Use this to backfill events on RPCs that limit the block range of log requests, and persist the cursor of each page to resume later.
+   * @example
+   * ```javascript
+   * const options = {
+   *   fromBlock: 0,
+   *   order: "asc",
+   *   blockRange: 5000, // the maximum number of blocks per request
+   *   filters: {
+   *     to: "0x...",
+   *   },
+   * };
+   * for await (const page of contract.events.iterateEvents("Transfer", options)) {
+   *   console.log(page.events.length);
+   *   console.log(page.cursor); // pass it as the `cursor` option to resume from the next page
+   * }
+   * ```
+   *
+   * @param eventName - The name of the event to get logs for
+   * @param options - Specify the block range, chunking, cursor and filters of the query. @see EventQueryOptions
+   * @returns An async iterator over the pages of events
+   */
+  public iterateEvents<
+    TEvent extends Record<string, any> = Record<string, any>,
+    TFilter extends Record<string, any> = Record<string, any>,
+  >(
+    eventName: string,
+    options: EventQueryOptions<TFilter> = {},
+  ): AsyncGenerator<EventPage<TEvent>> {
     const event = this.contractWrapper.readContract.interface.getEvent(
       eventName as string,
     );
-
-    const eventInterface =
-      this.contractWrapper.readContract.interface.getEvent(eventName);
     const args = options.filters
-      ? eventInterface.inputs.map((e) => (options.filters as TFilter)[e.name])
+      ? event.inputs.map((e) => (options.filters as TFilter)[e.name])
       : [];
     const filter = this.contractWrapper.readContract.filters[event.name](
       ...args,
     );
+    return this.iterateLogs<TEvent>(filter, options);
+  }
 
-    const events = await this.contractWrapper.readContract.queryFilter(
-      filter,
-      options.fromBlock,
-      options.toBlock,
+  private async *iterateLogs<TEvent>(
+    filter: EventFilter,
+    options: EventQueryOptions,
+  ): AsyncGenerator<EventPage<TEvent>> {
+    const order = options.order || "asc";
+    const { fromBlock, toBlock } = options.cursor || {
+      fromBlock: await this.resolveBlockNumber(options.fromBlock ?? 0),
+      toBlock: await this.resolveBlockNumber(options.toBlock ?? "latest"),
+    };
+    const totalBlocks = Math.max(0, toBlock - fromBlock + 1);
+    const concurrency = Math.max(1, options.concurrency || 1);
+    // a single range for the whole query would leave nothing to fetch in parallel
+    let blockRange = Math.max(
+      1,
+      options.blockRange ||
+        (concurrency > 1
+          ? Math.min(totalBlocks, CONCURRENT_BLOCK_RANGE)
+          : totalBlocks),
     );
+    let fetchedBlocks = 0;
+    let eventCount = 0;
 
-    const orderedEvents = events.sort((a, b) => {
-      return options.order === "desc"
-        ? b.blockNumber - a.blockNumber
-        : a.blockNumber - b.blockNumber;
-    });
+    const fetchRange = async (start: number, end: number): Promise<Event[]> => {
+      try {
+        return await this.contractWrapper.readContract.queryFilter(
+          filter,
+          start,
+          end,
+        );
+      } catch (err) {
+        if (start === end || !isBlockRangeError(err)) {
+          throw err;
+        }
+        // split the range, and use smaller ranges from now on
+        const middle = start + Math.floor((end - start) / 2);
+        blockRange = Math.min(blockRange, middle - start + 1);
+        return [
+          ...(await fetchRange(start, middle)),
+          ...(await fetchRange(middle + 1, end)),
+        ];
+      }
+    };
 
-    return this.parseEvents<TEvent>(orderedEvents);
+    // fetch ranges ahead up to the concurrency limit, and yield them in order
+    const ranges: { start: number; end: number; events: Promise<Event[]> }[] =
+      [];
+    let nextBlock = order === "asc" ? fromBlock : toBlock;
+    const fetchAhead = () => {
+      while (
+        ranges.length < concurrency &&
+        nextBlock >= fromBlock &&
+        nextBlock <= toBlock
+      ) {
+        const start =
+          order === "asc"
+            ? nextBlock
+            : Math.max(fromBlock, nextBlock - blockRange + 1);
+        const end =
+          order === "asc"
+            ? Math.min(toBlock, nextBlock + blockRange - 1)
+            : nextBlock;
+        const events = fetchRange(start, end);
+        // rejections are thrown when the range is yielded
+        events.catch(() => undefined);
+        ranges.push({ start, end, events });
+        nextBlock = order === "asc" ? end + 1 : start - 1;
+      }
+    };
+
+    fetchAhead();
+    let range = ranges.shift();
+    while (range) {
+      const events = (await range.events).sort((a, b) => {
+        return order === "desc"
+          ? b.blockNumber - a.blockNumber
+          : a.blockNumber - b.blockNumber;
+      });
+      fetchAhead();
+
+      fetchedBlocks += range.end - range.start + 1;
+      eventCount += events.length;
+      const cursor =
+        order === "asc"
+          ? range.end < toBlock
+            ? { fromBlock: range.end + 1, toBlock }
+            : undefined
+          : range.start > fromBlock
+          ? { fromBlock, toBlock: range.start - 1 }
+          : undefined;
+      if (options.onProgress) {
+        options.onProgress({ fetchedBlocks, totalBlocks, eventCount, cursor });
+      }
+      yield { events: this.parseEvents<TEvent>(events), cursor };
+      range = ranges.shift();
+    }
+  }
+
+  /**
+   * Scan the logs of every new block instead of relying on the provider's log subscriptions,
+   * to wait for confirmations, detect reorgs, and backfill the blocks missed while disconnected
+   */
+  private subscribe<TEvent>(
+    filter: EventFilter,
+    listener: (event: ContractEvent<TEvent>) => void,
+    options: EventSubscriptionOptions<TEvent>,
+  ): () => void {
+    const provider = this.contractWrapper.getProvider();
+    const confirmations = Math.max(1, options.confirmations ?? 1);
+    // the events passed to the listener that could still be reorged out, by block hash and log index
+    const emitted = new Map<string, ContractEvent<TEvent>>();
+    let startBlock = options.fromBlock;
+    let scannedFrom: number | undefined;
+    let nextBlock: number | undefined;
+    let latestBlock = -1;
+    let scanning = false;
+    let stopped = false;
+
+    const scan = async (head: number) => {
+      if (startBlock === undefined) {
+        // the first block reported is the current one, listen from the next block on
+        startBlock = head + 1;
+      }
+      const scanFrom = scannedFrom ?? startBlock;
+      const newFrom = nextBlock ?? startBlock;
+      const confirmedBlock = head - confirmations + 1;
+      if (confirmedBlock < newFrom) {
+        return;
+      }
+
+      // scan the new blocks, and the recent ones again to find the events that were reorged out
+      const fromBlock = Math.max(
+        scanFrom,
+        Math.min(newFrom, confirmedBlock - REORG_TRACKING_BLOCKS + 1),
+      );
+      const found = new Map<string, ContractEvent<TEvent>>();
+      for await (const page of this.iterateLogs<TEvent>(filter, {
+        fromBlock,
+        toBlock: confirmedBlock,
+        order: "asc",
+      })) {
+        for (const event of page.events) {
+          found.set(getEventKey(event), event);
+        }
+      }
+      if (stopped) {
+        return;
+      }
+
+      emitted.forEach((event, key) => {
+        if (event.transaction.blockNumber < fromBlock) {
+          // deep enough to be final
+          emitted.delete(key);
+        } else if (!found.has(key)) {
+          emitted.delete(key);
+          if (options.onRemoved) {
+            options.onRemoved({
+              ...event,
+              transaction: { ...event.transaction, removed: true },
+            });
+          }
+        }
+      });
+      found.forEach((event, key) => {
+        if (!emitted.has(key)) {
+          emitted.set(key, event);
+          listener(event);
+        }
+      });
+      scannedFrom = fromBlock;
+      nextBlock = confirmedBlock + 1;
+    };
+
+    const onBlock = async (blockNumber: number) => {
+      latestBlock = Math.max(latestBlock, blockNumber);
+      if (scanning) {
+        // picked up by the running scan
+        return;
+      }
+      scanning = true;
+      try {
+        let head = -1;
+        while (!stopped && latestBlock > head) {
+          head = latestBlock;
+          await scan(head);
+        }
+      } catch (e) {
+        // the blocks are scanned again on the next block, from the last one scanned
+        if (options.onError) {
+          options.onError(e as Error);
+        } else {
+          console.error("Could not fetch events:", e);
+        }
+      } finally {
+        scanning = false;
+      }
+    };
+
+    provider.on("block", onBlock);
+    const unsubscribe = () => {
+      stopped = true;
+      provider.off("block", onBlock);
+      this.subscriptions.delete(unsubscribe);
+    };
+    this.subscriptions.add(unsubscribe);
+    return unsubscribe;
+  }
+
+  private async resolveBlockNumber(block: string | number): Promise<number> {
+    if (typeof block === "number") {
+      return block;
+    }
+    if (block === "earliest") {
+      return 0;
+    }
+    if (ethers.utils.isHexString(block) || /^\d+$/.test(block)) {
+      return BigNumber.from(block).toNumber();
+    }
+    const provider = this.contractWrapper.getProvider();
+    return block === "latest"
+      ? await provider.getBlockNumber()
+      : (await provider.getBlock(block)).number;
   }
 
   private parseEvents<TEvent = Record<string, any>>(
@@ -374,3 +678,41 @@ export class ContractEvents<TContract extends BaseContract> {
     };
   }
 }
+
+/**
+ * How many blocks deep confirmed events are checked for reorgs
+ */
+const REORG_TRACKING_BLOCKS = 64;
+
+/**
+ * The number of blocks per log request when ranges are fetched in parallel, unless a block range is specified
+ */
+const CONCURRENT_BLOCK_RANGE = 10000;
+
+function getEventKey(event: ContractEvent<any>): string {
+  return `${event.transaction.blockHash}:${event.transaction.logIndex}`;
+}
+
+// the errors RPCs return when a log request covers too many blocks or matches too many logs,
+// rate limits and timeouts aren't among them, as a smaller range doesn't help with those
+const BLOCK_RANGE_ERRORS = [
+  /range (is )?too (large|wide|big)/i,
+  /exceed(s|ed)? (the )?max(imum)? block range/i,
+  /block range (limit )?(exceeded|exceeds)/i,
+  /limited to a [\d,]+ (block )?range/i,
+  /up to a [\d,]+\w* block range/i,
+  /too many (results|blocks|logs)/i,
+  /more than [\d,]+ (results|logs)/i,
+  /response size (exceeded|is larger|too large)/i,
+];
+
+/**
+ * Whether the RPC rejected a log request for covering too many blocks or returning too many logs
+ * @internal
+ */
+export function isBlockRangeError(err: any): boolean {
+  const message = [err?.message, err?.error?.message, err?.body]
+    .filter((m) => typeof m === "string")
+    .join(" ");
+  return BLOCK_RANGE_ERRORS.some((pattern) => pattern.test(message));
+}
@@ -1,6 +1,11 @@
 import {
+  ReplacementFeeTooHighError,
+  TransactionCancelledError,
+  TransactionDroppedError,
   TransactionError,
+  decodeRevertData,
   extractFunctionsFromAbi,
+  extractRevertData,
   fetchContractMetadataFromAddress,
   fetchSourceFilesFromMetadata,
   parseRevertReason,
@@ -13,6 +18,7 @@ import {
 } from "../../common/forwarder";
 import { getPolygonGasPriorityFee } from "../../common/gas-price";
 import { signEIP2612Permit } from "../../common/permit";
+import { getCompositePluginABI } from "../../common/plugin";
 import { signTypedDataInternal } from "../../common/sign";
 import { isBrowser } from "../../common/utils";
 import { CONTRACT_ADDRESSES, ChainId } from "../../constants";
@@ -28,6 +34,12 @@ import {
   PermitRequestMessage,
 } from "../types";
 import { RPCConnectionHandler } from "./rpc-connection-handler";
+import {
+  getTransactionQueue,
+  TransactionQueue,
+  TransactionQueueStatus,
+} from "./transaction-queue";
+import type { TransactionWatcher } from "./transaction-watcher";
 import ForwarderABI from "@thirdweb-dev/contracts-js/dist/abis/Forwarder.json";
 import { ThirdwebStorage } from "@thirdweb-dev/storage";
 import fetch from "cross-fetch";
@@ -230,6 +242,52 @@ export class ContractWrapper<
     return txGasPrice;
   }
 
+  /**
+   * Calculates the fees to replace a pending transaction with, bumped enough for nodes to accept the replacement
+   * @param transaction - the pending transaction to replace
+   * @internal
+   */
+  public async getReplacementOverrides(
+    transaction: providers.TransactionResponse,
+  ): Promise<CallOverrides> {
+    const maxGasPrice = this.options.gasSettings.maxPriceInGwei;
+    const max = ethers.utils.parseUnits(maxGasPrice.toString(), "gwei");
+    // nodes only accept a replacement that pays at least 10% more
+    const bump = (fee: BigNumber) => fee.mul(110).div(100).add(1);
+    const current = await this.getCallOverrides();
+
+    if (transaction.maxFeePerGas && transaction.maxPriorityFeePerGas) {
+      let maxFeePerGas = bump(transaction.maxFeePerGas);
+      const maxPriorityFeePerGas = bump(transaction.maxPriorityFeePerGas);
+      if (maxFeePerGas.gt(max) || maxPriorityFeePerGas.gt(max)) {
+        throw new ReplacementFeeTooHighError(maxGasPrice);
+      }
+      // pay the current fees if they went up more than the bump
+      if (current.maxFeePerGas) {
+        const currentMaxFee = BigNumber.from(await current.maxFeePerGas);
+        maxFeePerGas = currentMaxFee.gt(maxFeePerGas)
+          ? currentMaxFee
+          : maxFeePerGas;
+      }
+      return {
+        maxFeePerGas: maxFeePerGas.gt(max) ? max : maxFeePerGas,
+        maxPriorityFeePerGas,
+      };
+    }
+
+    let gasPrice = bump(BigNumber.from(transaction.gasPrice || 0));
+    if (gasPrice.gt(max)) {
+      throw new ReplacementFeeTooHighError(maxGasPrice);
+    }
+    if (current.gasPrice) {
+      const currentGasPrice = BigNumber.from(await current.gasPrice);
+      gasPrice = currentGasPrice.gt(gasPrice) ? currentGasPrice : gasPrice;
+    }
+    return {
+      gasPrice: gasPrice.gt(max) ? max : gasPrice,
+    };
+  }
+
   /**
    * @internal
    */
@@ -243,6 +301,33 @@ export class ContractWrapper<
     });
   }
 
+  /**
+   * @internal
+   */
+  private emitQueuedEvent(status: TransactionQueueStatus) {
+    this.emit(EventType.Transaction, {
+      status: "queued",
+      ...status,
+    });
+  }
+
+  /**
+   * The nonce queue of the connected signer, if enabled in the SDK options
+   * @internal
+   */
+  private async getTransactionQueue(): Promise<TransactionQueue | undefined> {
+    if (!this.options.transactionQueue) {
+      return undefined;
+    }
+    return getTransactionQueue(
+      this.options.transactionQueue,
+      this.getSigner(),
+      this.getProvider(),
+      await this.getChainID(),
+      await this.getSignerAddress(),
+    );
+  }
+
   /**
    * @internal
    */
@@ -337,6 +422,7 @@ export class ContractWrapper<
     fn: keyof TContract["functions"] | (string & {}),
     args: any[],
     callOverrides?: CallOverrides,
+    watcher?: TransactionWatcher,
   ): Promise<providers.TransactionReceipt> {
     if (!callOverrides) {
       callOverrides = await this.getCallOverrides();
@@ -389,8 +475,22 @@ export class ContractWrapper<
       // tx.wait() can fail so we need to wrap it with a catch
       let receipt;
       try {
-        receipt = await tx.wait();
+        if (watcher) {
+          // follows the replacements of the transaction, and speeds it up when it gets stuck
+          watcher.watch(tx);
+          receipt = await watcher.wait();
+        } else {
+          receipt = await tx.wait();
+        }
       } catch (err) {
+        // the nonce is consumed even if the transaction reverted
+        await (await this.getTransactionQueue())?.complete(tx.nonce);
+        if (
+          err instanceof TransactionCancelledError ||
+          err instanceof TransactionDroppedError
+        ) {
+          throw err;
+        }
         try {
           // If tx.wait() fails, it just gives us a generic "transaction failed"
           // error. So instead, we need to call static to get an informative error message
@@ -405,7 +505,8 @@ export class ContractWrapper<
         throw await this.formatError(err, fn, args, callOverrides);
       }
 
-      this.emitTransactionEvent("completed", tx.hash);
+      await (await this.getTransactionQueue())?.complete(tx.nonce);
+      this.emitTransactionEvent("completed", receipt.transactionHash);
       return receipt;
     }
   }
@@ -446,6 +547,16 @@ export class ContractWrapper<
 
     // Now there should be no gas estimate errors
     try {
+      const queue =
+        callOverrides.nonce === undefined
+          ? await this.getTransactionQueue()
+          : undefined;
+      if (queue) {
+        return await queue.send(
+          (nonce) => func(...args, { ...callOverrides, nonce }),
+          (status) => this.emitQueuedEvent(status),
+        );
+      }
       return await func(...args, callOverrides);
     } catch (err) {
       const from = await (callOverrides.from || this.getSignerAddress());
@@ -512,8 +623,12 @@ export class ContractWrapper<
       error.transaction?.hash ||
       error.receipt?.transactionHash;
 
-    // Parse the revert reason from the error
-    const reason = parseRevertReason(error);
+    // Parse the revert reason from the error, decoding custom errors against the contract ABI
+    const revertData = extractRevertData(error);
+    const revert = revertData
+      ? decodeRevertData(revertData, await this.getRevertABI(revertData))
+      : undefined;
+    const reason = revert?.reason || parseRevertReason(error);
 
     // Get contract sources for stack trace
     let sources: ContractSource[] | undefined = undefined;
@@ -548,9 +663,39 @@ export class ContractWrapper<
       hash,
       contractName,
       sources,
+      errorName: revert?.errorName,
+      errorArgs: revert?.errorArgs,
     });
   }
 
+  /**
+   * Get the ABI declaring the error of some revert data, errors of plugins are only declared in the composite ABI of plugin routers
+   */
+  private async getRevertABI(revertData: string): Promise<ContractInterface> {
+    const contractInterface = this.readContract.interface;
+    const builtin = decodeRevertData(revertData)?.errorName;
+    if (builtin === "Error" || builtin === "Panic") {
+      return contractInterface;
+    }
+    try {
+      contractInterface.getError(ethers.utils.hexDataSlice(revertData, 0, 4));
+      return contractInterface;
+    } catch (e) {
+      // not declared by the contract itself
+    }
+    try {
+      return await getCompositePluginABI(
+        this.readContract.address,
+        AbiSchema.parse(JSON.parse(contractInterface.format("json") as string)),
+        this.getProvider(),
+        this.options,
+        this.#storage,
+      );
+    } catch (e) {
+      return contractInterface;
+    }
+  }
+
   /**
    * @internal
    */
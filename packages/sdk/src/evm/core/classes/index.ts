@@ -43,3 +43,10 @@ export * from "./contract-platform-fee";
 export * from "./contract-published-metadata";
 export * from "./contract-owner";
 export * from "./TransactionTask";
+export { MemoryTransactionQueueStore } from "./transaction-queue";
+export type {
+  TransactionQueueState,
+  TransactionQueueStatus,
+  TransactionQueueStore,
+} from "./transaction-queue";
+export type { StuckTransactionOptions } from "./transaction-watcher";
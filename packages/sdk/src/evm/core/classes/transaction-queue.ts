@@ -0,0 +1,308 @@
+import { ContractTransaction, providers, Signer } from "ethers";
+
+/**
+ * The persisted state of the transaction queue of a signer
+ * @public
+ */
+export type TransactionQueueState = {
+  /**
+   * The next nonce to assign
+   */
+  nonce: number;
+  /**
+   * The submitted transactions that haven't been confirmed yet
+   */
+  pending: { nonce: number; hash: string }[];
+};
+
+/**
+ * Where the transaction queue persists its state, keyed by `<chainId>:<signer address>`.
+ * Implement it with a database to keep the nonces in sync across restarts of your server.
+ *
+ * The queue reads and then writes the state without a compare-and-set, so a store must only be used
+ * by a single process at a time, processes sharing a store can assign the same nonce.
+ * @public
+ */
+export interface TransactionQueueStore {
+  get(
+    key: string,
+  ):
+    | Promise<TransactionQueueState | undefined>
+    | TransactionQueueState
+    | undefined;
+  set(key: string, state: TransactionQueueState): Promise<void> | void;
+}
+
+/**
+ * Keeps the transaction queue state in memory, the default store
+ * @public
+ */
+export class MemoryTransactionQueueStore implements TransactionQueueStore {
+  private states = new Map<string, TransactionQueueState>();
+
+  get(key: string) {
+    return this.states.get(key);
+  }
+
+  set(key: string, state: TransactionQueueState) {
+    this.states.set(key, state);
+  }
+}
+
+/**
+ * The status of a transaction that was assigned a nonce by the queue
+ * @public
+ */
+export type TransactionQueueStatus = {
+  nonce: number;
+  pendingTransactions: number;
+};
+
+/**
+ * @internal
+ */
+export type TransactionQueueOptions = {
+  mode: "serial" | "pipeline";
+  store?: TransactionQueueStore;
+};
+
+const defaultStore = new MemoryTransactionQueueStore();
+const queues = new WeakMap<
+  TransactionQueueStore,
+  Map<string, TransactionQueue>
+>();
+
+/**
+ * Get the queue of a signer, shared by every contract using the same store
+ * @internal
+ */
+export function getTransactionQueue(
+  options: TransactionQueueOptions,
+  signer: Signer | undefined,
+  provider: providers.Provider,
+  chainId: number,
+  address: string,
+): TransactionQueue {
+  const store = options.store || defaultStore;
+  let storeQueues = queues.get(store);
+  if (!storeQueues) {
+    storeQueues = new Map();
+    queues.set(store, storeQueues);
+  }
+  const key = `${chainId}:${address.toLowerCase()}`;
+  let queue = storeQueues.get(key);
+  if (!queue) {
+    queue = new TransactionQueue(key, address, provider, store);
+    storeQueues.set(key, queue);
+  }
+  queue.mode = options.mode;
+  queue.signer = signer;
+  queue.provider = provider;
+  return queue;
+}
+
+/**
+ * Assigns the nonces of a signer locally so concurrent transactions don't collide
+ * @internal
+ */
+export class TransactionQueue {
+  public mode: TransactionQueueOptions["mode"] = "serial";
+  public signer?: Signer;
+  public provider: providers.Provider;
+  private key: string;
+  private address: string;
+  private store: TransactionQueueStore;
+  private lock: Promise<unknown> = Promise.resolve();
+  private synced = false;
+
+  constructor(
+    key: string,
+    address: string,
+    provider: providers.Provider,
+    store: TransactionQueueStore,
+  ) {
+    this.key = key;
+    this.address = address;
+    this.provider = provider;
+    this.store = store;
+  }
+
+  /**
+   * Submit a transaction with the next nonce of the signer.
+   * In serial mode the next transaction waits for this one to be submitted, in pipeline mode it only waits for its nonce.
+   * @param submit - sends the transaction with the given nonce
+   * @param onQueued - called with the nonce assigned to the transaction
+   */
+  public async send(
+    submit: (nonce: number) => Promise<ContractTransaction>,
+    onQueued?: (status: TransactionQueueStatus) => void,
+  ): Promise<ContractTransaction> {
+    if (this.mode === "serial") {
+      return this.withLock(() => this.submitWithNonce(submit, onQueued));
+    }
+    return this.submitWithNonce(submit, onQueued);
+  }
+
+  /**
+   * Remove a confirmed transaction from the pending transactions
+   */
+  public async complete(nonce: number) {
+    await this.withLock(async () => {
+      const state = await this.getState();
+      await this.store.set(this.key, {
+        ...state,
+        pending: state.pending.filter((tx) => tx.nonce !== nonce),
+      });
+    });
+  }
+
+  private async submitWithNonce(
+    submit: (nonce: number) => Promise<ContractTransaction>,
+    onQueued?: (status: TransactionQueueStatus) => void,
+  ): Promise<ContractTransaction> {
+    let resynced = false;
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const status = await this.lockIfPipelined(() =>
+        this.assignNonce(resynced),
+      );
+      onQueued?.(status);
+      try {
+        const tx = await submit(status.nonce);
+        await this.lockIfPipelined(async () => {
+          const state = await this.getState();
+          await this.store.set(this.key, {
+            ...state,
+            pending: [...state.pending, { nonce: status.nonce, hash: tx.hash }],
+          });
+        });
+        return tx;
+      } catch (err) {
+        // our nonce is out of sync with the chain, likely sent from somewhere else
+        if (!resynced && isNonceError(err)) {
+          resynced = true;
+          continue;
+        }
+        // the nonce wasn't used, release it unless later ones were handed out already,
+        // in which case they can't be mined until the gap we left is filled
+        await this.lockIfPipelined(async () => {
+          const state = await this.getState();
+          if (state.nonce === status.nonce + 1) {
+            await this.store.set(this.key, { ...state, nonce: status.nonce });
+          } else {
+            await this.fillNonce(status.nonce);
+          }
+        });
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Use a nonce with an empty transaction to the signer itself, so the transactions sent with later nonces can be mined
+   */
+  private async fillNonce(nonce: number) {
+    if (!this.signer) {
+      return;
+    }
+    try {
+      const tx = await this.signer.sendTransaction({
+        to: this.address,
+        value: 0,
+        nonce,
+      });
+      const state = await this.getState();
+      await this.store.set(this.key, {
+        ...state,
+        pending: [...state.pending, { nonce, hash: tx.hash }],
+      });
+    } catch (err) {
+      // a nonce error means the nonce was used after all, otherwise the later transactions stay stuck
+      if (!isNonceError(err)) {
+        console.error(`Failed to fill the gap left at nonce ${nonce}`, err);
+      }
+    }
+  }
+
+  private async assignNonce(resync: boolean): Promise<TransactionQueueStatus> {
+    // the stored state can be behind the chain when the store is shared or was restored,
+    // the nonces it handed out can still be in flight though, so never go below it
+    const state =
+      resync || !this.synced
+        ? await this.resync(true)
+        : await this.pruneMined(await this.getState());
+    this.synced = true;
+    const nonce = state.nonce;
+    await this.store.set(this.key, { ...state, nonce: nonce + 1 });
+    return { nonce, pendingTransactions: state.pending.length };
+  }
+
+  /**
+   * Reset the next nonce to the pending transaction count of the signer, and drop the pending transactions that were mined
+   * @param keepAssignedNonces - only move the next nonce forward
+   */
+  private async resync(
+    keepAssignedNonces = false,
+  ): Promise<TransactionQueueState> {
+    const state = await this.store.get(this.key);
+    const [pendingCount, minedCount] = await Promise.all([
+      this.provider.getTransactionCount(this.address, "pending"),
+      this.provider.getTransactionCount(this.address, "latest"),
+    ]);
+    const resynced = {
+      nonce:
+        keepAssignedNonces && state
+          ? Math.max(state.nonce, pendingCount)
+          : pendingCount,
+      pending: (state?.pending || []).filter((tx) => tx.nonce >= minedCount),
+    };
+    await this.store.set(this.key, resynced);
+    return resynced;
+  }
+
+  /**
+   * Drop the pending transactions that were mined, as only the transactions sent by the SDK mark themselves complete
+   */
+  private async pruneMined(
+    state: TransactionQueueState,
+  ): Promise<TransactionQueueState> {
+    if (state.pending.length === 0) {
+      return state;
+    }
+    const minedCount = await this.provider.getTransactionCount(
+      this.address,
+      "latest",
+    );
+    return {
+      ...state,
+      pending: state.pending.filter((tx) => tx.nonce >= minedCount),
+    };
+  }
+
+  private async getState(): Promise<TransactionQueueState> {
+    return (await this.store.get(this.key)) || this.resync();
+  }
+
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn);
+    // keep the queue going when a transaction fails
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  private lockIfPipelined<T>(fn: () => Promise<T>): Promise<T> {
+    // the whole submission already holds the lock in serial mode
+    return this.mode === "serial" ? fn() : this.withLock(fn);
+  }
+}
+
+function isNonceError(err: any): boolean {
+  const message = `${err?.message || ""} ${err?.error?.message || ""}`;
+  return (
+    err?.code === "NONCE_EXPIRED" ||
+    err?.code === "REPLACEMENT_UNDERPRICED" ||
+    /nonce too low|nonce has already been used|replacement transaction underpriced/i.test(
+      message,
+    )
+  );
+}
@@ -0,0 +1,258 @@
+import {
+  ReplacementFeeTooHighError,
+  TransactionCancelledError,
+  TransactionDroppedError,
+} from "../../common/error";
+import { EventType } from "../../constants/events";
+import type { ContractWrapper } from "./contract-wrapper";
+import { providers } from "ethers";
+import invariant from "tiny-invariant";
+
+/**
+ * When to speed up a transaction that isn't getting mined
+ * @public
+ */
+export type StuckTransactionOptions = {
+  /**
+   * Speed up the transaction if it isn't mined after this many seconds
+   */
+  seconds?: number;
+  /**
+   * Speed up the transaction if it isn't mined after this many blocks
+   */
+  blocks?: number;
+  /**
+   * The maximum number of times to speed up the transaction (default: 3)
+   */
+  maxSpeedUps?: number;
+};
+
+// load balanced nodes can report the nonce as mined before they have the receipt
+const RECEIPT_CHECKS = 3;
+
+/**
+ * Follows a submitted transaction and the transactions replacing it until one of them is mined
+ * @internal
+ */
+export class TransactionWatcher {
+  public options: StuckTransactionOptions | undefined;
+  private contractWrapper: ContractWrapper<any>;
+  private transactions: providers.TransactionResponse[] = [];
+  private cancellation: providers.TransactionResponse | undefined;
+  private lastBroadcast = { time: 0, block: 0 };
+  private replacing = false;
+  private replaced: Promise<void> = Promise.resolve();
+  private onReplaced = () => {};
+
+  constructor(contractWrapper: ContractWrapper<any>) {
+    this.contractWrapper = contractWrapper;
+  }
+
+  /**
+   * Start following a newly submitted transaction
+   */
+  public watch(transaction: providers.TransactionResponse) {
+    this.transactions = [transaction];
+    this.cancellation = undefined;
+    this.lastBroadcast = { time: Date.now(), block: 0 };
+    this.replaced = new Promise((resolve) => {
+      this.onReplaced = resolve;
+    });
+  }
+
+  /**
+   * Re-broadcast the transaction with the same nonce and bumped fees
+   */
+  public async speedUp(): Promise<providers.TransactionResponse> {
+    const transaction = this.getLatestTransaction();
+    invariant(!this.cancellation, "Cannot speed up a cancelled transaction");
+    return this.replace(
+      {
+        to: transaction.to,
+        data: transaction.data,
+        value: transaction.value,
+        gasLimit: transaction.gasLimit,
+      },
+      "repriced",
+    );
+  }
+
+  /**
+   * Replace the transaction with an empty transfer to the sender, using the same nonce
+   */
+  public async cancel(): Promise<providers.TransactionResponse> {
+    const transaction = this.getLatestTransaction();
+    this.cancellation = await this.replace(
+      {
+        to: transaction.from,
+        data: "0x",
+        value: 0,
+        gasLimit: 21000,
+      },
+      "cancelled",
+    );
+    return this.cancellation;
+  }
+
+  /**
+   * Wait for the transaction or one of its replacements to be mined, speeding it up when it gets stuck
+   */
+  public async wait(): Promise<providers.TransactionReceipt> {
+    const original = this.getLatestTransaction();
+    if (!this.options && this.transactions.length === 1) {
+      // only poll for the transaction once it gets replaced, until then wait for it as usual
+      const receipt = await Promise.race([
+        original.wait(),
+        this.replaced.then(() => undefined),
+      ]);
+      if (receipt) {
+        return receipt;
+      }
+    }
+
+    const provider = this.contractWrapper.getProvider();
+    const maxSpeedUps = this.options?.maxSpeedUps ?? 3;
+    let speedUps = 0;
+    let receiptChecks = 0;
+    let reportedDropped = false;
+    if (this.options?.blocks) {
+      this.lastBroadcast.block = await provider.getBlockNumber();
+    }
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      // read the nonce first, so any of our transactions mined since shows up below
+      const minedNonce = await provider.getTransactionCount(
+        original.from,
+        "latest",
+      );
+      for (const transaction of [...this.transactions].reverse()) {
+        const receipt = await provider.getTransactionReceipt(transaction.hash);
+        if (receipt && receipt.blockNumber) {
+          if (transaction === this.cancellation) {
+            throw new TransactionCancelledError(transaction.hash);
+          }
+          // lets ethers throw the usual error if the transaction reverted
+          return await transaction.wait();
+        }
+      }
+      if (minedNonce > original.nonce) {
+        // none of our transactions were mined with the nonce, unless the receipts are lagging behind
+        if (++receiptChecks >= RECEIPT_CHECKS) {
+          this.emitDroppedEvent(original.hash);
+          throw new TransactionDroppedError(original.hash);
+        }
+      } else {
+        const latest = this.getLatestTransaction();
+        if (!reportedDropped) {
+          const pending = await provider.getTransaction(latest.hash);
+          // a replacement sent in the meantime evicts it from the mempool too
+          if (
+            !pending &&
+            !this.replacing &&
+            latest === this.getLatestTransaction()
+          ) {
+            // the node forgot about it, the next speed up broadcasts it again
+            reportedDropped = true;
+            this.emitDroppedEvent(latest.hash);
+          }
+        }
+
+        if (
+          this.options &&
+          !this.cancellation &&
+          speedUps < maxSpeedUps &&
+          (await this.isStuck())
+        ) {
+          try {
+            speedUps++;
+            await this.speedUp();
+          } catch (err) {
+            if (err instanceof ReplacementFeeTooHighError) {
+              // keep waiting at the max gas price
+              speedUps = maxSpeedUps;
+            }
+            // otherwise the transaction was likely mined in the meantime
+          }
+        }
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(
+          resolve,
+          provider instanceof providers.BaseProvider
+            ? provider.pollingInterval
+            : 4000,
+        ),
+      );
+    }
+  }
+
+  private async replace(
+    transaction: providers.TransactionRequest,
+    reason: "repriced" | "cancelled",
+  ): Promise<providers.TransactionResponse> {
+    const signer = this.contractWrapper.getSigner();
+    invariant(signer, "Cannot replace a transaction without a signer");
+    const replaced = this.getLatestTransaction();
+    const overrides = await this.contractWrapper.getReplacementOverrides(
+      replaced,
+    );
+    let replacement: providers.TransactionResponse;
+    this.replacing = true;
+    try {
+      replacement = await signer.sendTransaction({
+        ...transaction,
+        ...overrides,
+        nonce: replaced.nonce,
+        chainId: replaced.chainId,
+      });
+      this.transactions.push(replacement);
+      this.onReplaced();
+    } finally {
+      this.replacing = false;
+    }
+    this.lastBroadcast = {
+      time: Date.now(),
+      block: this.options?.blocks
+        ? await this.contractWrapper.getProvider().getBlockNumber()
+        : 0,
+    };
+    this.contractWrapper.emit(EventType.Transaction, {
+      status: "replaced",
+      transactionHash: replacement.hash,
+      replacedTransactionHash: replaced.hash,
+      reason,
+    });
+    return replacement;
+  }
+
+  private async isStuck(): Promise<boolean> {
+    if (
+      this.options?.seconds &&
+      Date.now() - this.lastBroadcast.time >= this.options.seconds * 1000
+    ) {
+      return true;
+    }
+    if (this.options?.blocks) {
+      const block = await this.contractWrapper.getProvider().getBlockNumber();
+      return block - this.lastBroadcast.block >= this.options.blocks;
+    }
+    return false;
+  }
+
+  private getLatestTransaction(): providers.TransactionResponse {
+    invariant(
+      this.transactions.length,
+      "The transaction hasn't been submitted yet",
+    );
+    return this.transactions[this.transactions.length - 1];
+  }
+
+  private emitDroppedEvent(transactionHash: string) {
+    this.contractWrapper.emit(EventType.Transaction, {
+      status: "dropped",
+      transactionHash,
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { DEFAULT_API_KEY } from "../../core/constants/urls";
+import type { TransactionQueueStore } from "../core/classes/transaction-queue";
 import { ChainInfoInputSchema } from "./shared";
 import { defaultChains } from "@thirdweb-dev/chains";
 import { z } from "zod";
@@ -50,6 +51,12 @@ export const SDKOptionsSchema = z
         }),
       ])
       .optional(),
+    transactionQueue: z
+      .object({
+        mode: z.enum(["serial", "pipeline"]).default("serial"),
+        store: z.custom<TransactionQueueStore>().optional(),
+      })
+      .optional(),
   })
   .default({
     gasSettings: { maxPriceInGwei: 300, speed: "fastest" },
@@ -81,6 +88,11 @@ export const SDKOptionsSchema = z
  *       deadlineSeconds, // your Biconomy timeout preference
  *     },
  *   },
+ *   transactionQueue: {
+ *     // By specifying a transaction queue - the SDK assigns the nonces of your backend wallet itself, so concurrent transactions don't collide
+ *     mode, // 'serial' waits for each transaction to be submitted before sending the next one, 'pipeline' only waits for its nonce (default: 'serial')
+ *     store, // where the nonces and pending transactions are persisted (defaults to memory)
+ *   },
  * }
  * ```
  */
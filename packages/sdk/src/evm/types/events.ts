@@ -34,6 +34,28 @@ export type ContractEvent<TEvent = Record<string, any>> = {
   };
 };
 
+/**
+ * Options to only receive events once they are confirmed, and be notified when they are reorged out
+ */
+export type EventSubscriptionOptions<TEvent = Record<string, any>> = {
+  /**
+   * The number of blocks an event must be deep before the listener is called, 1 calls it as soon as it is mined (default: 1)
+   */
+  confirmations?: number;
+  /**
+   * Called when an event that was passed to the listener is no longer part of the chain after a reorg
+   */
+  onRemoved?: (event: ContractEvent<TEvent>) => void;
+  /**
+   * The block to start listening from, pass the last block you processed to receive the events missed while offline
+   */
+  fromBlock?: number;
+  /**
+   * Called when the logs of new blocks can't be fetched, they are fetched again when the next block is mined
+   */
+  onError?: (error: Error) => void;
+};
+
 /**
  * Filters for querying past events
  */
@@ -44,4 +66,54 @@ export interface EventQueryOptions<
   toBlock?: string | number;
   order?: "asc" | "desc";
   filters?: TFilter;
+  /**
+   * The maximum number of blocks to fetch logs for in a single request, defaults to 10,000 blocks when
+   * ranges are fetched in parallel, and to the whole range otherwise.
+   * Ranges rejected by the RPC for being too large or returning too many results are split automatically
+   */
+  blockRange?: number;
+  /**
+   * The number of block ranges to fetch in parallel (default: 1)
+   */
+  concurrency?: number;
+  /**
+   * Resume fetching events from a cursor returned by a previous query, instead of `fromBlock` and `toBlock`
+   */
+  cursor?: EventQueryCursor;
+  /**
+   * Called every time the events of a block range were fetched
+   */
+  onProgress?: (progress: EventQueryProgress) => void;
 }
+
+/**
+ * The blocks left to fetch events for, persist it to resume a query later
+ */
+export type EventQueryCursor = {
+  fromBlock: number;
+  toBlock: number;
+};
+
+/**
+ * Progress of a query of past events
+ */
+export type EventQueryProgress = {
+  fetchedBlocks: number;
+  totalBlocks: number;
+  eventCount: number;
+  /**
+   * The blocks left to fetch events for, undefined once all events were fetched
+   */
+  cursor: EventQueryCursor | undefined;
+};
+
+/**
+ * A page of past events, covering one block range
+ */
+export type EventPage<TEvent = Record<string, any>> = {
+  events: ContractEvent<TEvent>[];
+  /**
+   * The blocks left to fetch events for, undefined on the last page
+   */
+  cursor: EventQueryCursor | undefined;
+};
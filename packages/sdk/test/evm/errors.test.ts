@@ -1,4 +1,8 @@
-import { ThirdwebSDK } from "../../src/evm";
+import {
+  decodeRevertData,
+  parseRevertReason,
+  ThirdwebSDK,
+} from "../../src/evm";
 import { expectError, sdk } from "./before-setup";
 import { expect } from "chai";
 import { ethers } from "ethers";
@@ -101,4 +105,43 @@ describe("Error Handling", async () => {
       );
     }
   });
+
+  it("should decode custom errors and panics from revert data", async () => {
+    const abi = new ethers.utils.Interface([
+      "error NotAllowed(address account, uint256[] tokenIds)",
+    ]);
+    const account = ethers.Wallet.createRandom().address;
+    const custom = decodeRevertData(
+      abi.encodeErrorResult("NotAllowed", [account, [1, 2]]),
+      abi,
+    );
+    expect(custom?.errorName).to.eq("NotAllowed");
+    expect(custom?.errorArgs?.account).to.eq(account);
+    expect(custom?.reason).to.eq(`NotAllowed(${account}, [1, 2])`);
+
+    const panic = decodeRevertData(
+      "0x4e487b71" +
+        ethers.utils.defaultAbiCoder.encode(["uint256"], [0x11]).slice(2),
+    );
+    expect(panic?.errorName).to.eq("Panic");
+    expect(panic?.reason).to.eq(
+      "Panic(0x11): arithmetic underflow or overflow",
+    );
+
+    // errors of widely used contracts are decoded without their ABI, even nested in RPC errors
+    const data = new ethers.utils.Interface([
+      "error ERC20InsufficientBalance(address,uint256,uint256)",
+    ]).encodeErrorResult("ERC20InsufficientBalance", [account, 1, 2]);
+    const rpcError = {
+      code: "UNPREDICTABLE_GAS_LIMIT",
+      error: {
+        body: JSON.stringify({
+          error: { code: 3, message: "execution reverted", data },
+        }),
+      },
+    };
+    expect(parseRevertReason(rpcError)).to.eq(
+      `ERC20InsufficientBalance(${account}, 1, 2)`,
+    );
+  });
 });
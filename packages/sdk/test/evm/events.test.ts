@@ -5,7 +5,8 @@ import {
   NFTDrop,
   NFTDropInitializer,
 } from "../../src/evm";
-import { sdk, signers } from "./before-setup";
+import { isBlockRangeError } from "../../src/evm/core/classes/contract-events";
+import { defaultProvider, sdk, signers } from "./before-setup";
 import { AddressZero } from "@ethersproject/constants";
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import {
@@ -185,4 +186,141 @@ describe("Events", async () => {
       events.filter((e) => e.eventName === "TokensMinted").length,
     ).to.be.equal(1);
   });
+
+  it("should page through events in block ranges and resume from a cursor", async () => {
+    for (let i = 0; i < 3; i++) {
+      await nftContract.mint({
+        name: `Test${i}`,
+      });
+    }
+    const firstMintBlock = (
+      await nftContract.events.getEvents("TokensMinted", {
+        order: "asc",
+      })
+    )[0].transaction.blockNumber;
+
+    const progress: number[] = [];
+    const pages: ContractEvent[][] = [];
+    let cursor;
+    for await (const page of nftContract.events.iterateEvents("TokensMinted", {
+      fromBlock: firstMintBlock,
+      order: "asc",
+      blockRange: 1,
+      onProgress: (p) => progress.push(p.eventCount),
+    })) {
+      pages.push(page.events);
+      cursor = page.cursor;
+      if (pages.length === 2) {
+        break;
+      }
+    }
+    expect(
+      pages.flat().map((e) => e.data.tokenIdMinted.toNumber()),
+    ).to.deep.equal([0, 1]);
+    expect(progress).to.deep.equal([1, 2]);
+
+    const rest = await nftContract.events.getEvents("TokensMinted", {
+      cursor,
+    });
+    expect(rest.length).to.be.equal(1);
+  });
+
+  it("should only split log requests for block range errors", async () => {
+    for (const message of [
+      "query returned more than 10000 results",
+      "Log response size exceeded. You can make eth_getLogs requests with up to a 2K block range",
+      "block range is too wide",
+      "exceed maximum block range: 5000",
+    ]) {
+      expect(isBlockRangeError(new Error(message)), message).to.be.equal(true);
+    }
+    expect(
+      isBlockRangeError({ error: { message: "block range too large" } }),
+    ).to.be.equal(true);
+
+    // rate limits and timeouts are thrown, as a smaller range doesn't help
+    for (const message of [
+      "daily request count limit exceeded",
+      "rate limit exceeded",
+      "query timeout exceeded",
+      "Too Many Requests",
+    ]) {
+      expect(isBlockRangeError(new Error(message)), message).to.be.equal(false);
+    }
+  });
+
+  it("should only emit confirmed events and report the ones reorged out", async () => {
+    const confirmed: ContractEvent[] = [];
+    const removed: ContractEvent[] = [];
+    const remove = nftContract.events.addEventListener(
+      "TokensMinted",
+      (event) => {
+        confirmed.push(event);
+      },
+      {
+        confirmations: 3,
+        onRemoved: (event) => {
+          removed.push(event);
+        },
+      },
+    );
+    const snapshot = await defaultProvider.send("evm_snapshot", []);
+    await nftContract.mint({
+      name: "Test1",
+    });
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    expect(confirmed.length).to.be.equal(0);
+
+    await defaultProvider.send("hardhat_mine", ["0x2"]);
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    expect(confirmed.length).to.be.equal(1);
+
+    // drop the mint from the chain, then grow the new chain past the old one
+    await defaultProvider.send("evm_revert", [snapshot]);
+    await defaultProvider.send("hardhat_mine", ["0x5"]);
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    remove();
+    expect(removed.length).to.be.equal(1);
+    expect(removed[0].transaction.removed).to.be.equal(true);
+    expect(removed[0].transaction.transactionHash).to.be.equal(
+      confirmed[0].transaction.transactionHash,
+    );
+  });
+
+  it("should report failed log requests and scan the blocks again", async () => {
+    const provider = sdk.getProvider();
+    const getLogs = provider.getLogs;
+    provider.getLogs = async () => {
+      provider.getLogs = getLogs;
+      throw new Error("connection refused");
+    };
+    const errors: Error[] = [];
+    const events: ContractEvent[] = [];
+    const remove = nftContract.events.addEventListener(
+      "TokensMinted",
+      (event) => {
+        events.push(event);
+      },
+      {
+        fromBlock: await provider.getBlockNumber(),
+        onError: (error) => {
+          errors.push(error);
+        },
+      },
+    );
+    try {
+      await nftContract.mint({
+        name: "Test1",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+      await defaultProvider.send("hardhat_mine", ["0x1"]);
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+    } finally {
+      remove();
+      provider.getLogs = getLogs;
+    }
+    expect(errors.length).to.be.equal(1);
+    expect(errors[0].message).to.be.equal("connection refused");
+    expect(events.length).to.be.equal(1);
+  });
 });
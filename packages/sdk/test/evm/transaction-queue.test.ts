@@ -0,0 +1,184 @@
+import {
+  MemoryTransactionQueueStore,
+  NFTCollection,
+  NFTCollectionInitializer,
+  ThirdwebSDK,
+} from "../../src/evm";
+import { getTransactionQueue } from "../../src/evm/core/classes/transaction-queue";
+import { defaultProvider, sdk, signers, storage } from "./before-setup";
+import { AddressZero } from "@ethersproject/constants";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+
+global.fetch = require("cross-fetch");
+
+describe("Transaction Queue", async () => {
+  let adminWallet: SignerWithAddress, samWallet: SignerWithAddress;
+  let nftAddress: string;
+
+  before(() => {
+    [adminWallet, samWallet] = signers;
+  });
+
+  beforeEach(async () => {
+    sdk.updateSignerOrProvider(adminWallet);
+    nftAddress = await sdk.deployer.deployBuiltInContract(
+      NFTCollectionInitializer.contractType,
+      {
+        name: "NFT Contract",
+        primary_sale_recipient: adminWallet.address,
+        fee_recipient: AddressZero,
+        platform_fee_recipient: AddressZero,
+      },
+    );
+    const nftContract = await sdk.getNFTCollection(nftAddress);
+    await nftContract.roles.grant("minter", samWallet.address);
+  });
+
+  async function getQueuedContract(
+    mode: "serial" | "pipeline",
+    store = new MemoryTransactionQueueStore(),
+  ): Promise<NFTCollection> {
+    const queuedSdk = new ThirdwebSDK(
+      samWallet,
+      { transactionQueue: { mode, store } },
+      storage,
+    );
+    return queuedSdk.getNFTCollection(nftAddress);
+  }
+
+  for (const mode of ["serial", "pipeline"] as const) {
+    it(`should send concurrent transactions with consecutive nonces in ${mode} mode`, async () => {
+      const nftContract = await getQueuedContract(mode);
+      const startNonce = await samWallet.getTransactionCount();
+      const events: any[] = [];
+      nftContract.events.addTransactionListener((event) => events.push(event));
+
+      const results = await Promise.all(
+        [1, 2, 3, 4, 5].map((i) =>
+          nftContract.mintTo(samWallet.address, { name: `Test${i}` }),
+        ),
+      );
+
+      const nonces = await Promise.all(
+        results.map(
+          async (result) =>
+            (
+              await defaultProvider.getTransaction(
+                result.receipt.transactionHash,
+              )
+            ).nonce,
+        ),
+      );
+      nonces.sort((a, b) => a - b);
+      expect(nonces).to.deep.equal([0, 1, 2, 3, 4].map((i) => startNonce + i));
+      expect(await nftContract.getAll()).to.have.length(5);
+
+      const queued = events
+        .filter((e) => e.status === "queued")
+        .map((e) => e.nonce)
+        .sort((a, b) => a - b);
+      expect(queued).to.deep.equal(nonces);
+      expect(events.filter((e) => e.status === "completed")).to.have.length(5);
+    });
+  }
+
+  it("should resync the nonce when transactions are sent outside of the queue", async () => {
+    const store = new MemoryTransactionQueueStore();
+    const nftContract = await getQueuedContract("serial", store);
+    await nftContract.mintTo(samWallet.address, { name: "Test1" });
+
+    // a transaction the queue doesn't know about
+    await samWallet.sendTransaction({ to: adminWallet.address, value: 1 });
+
+    const result = await nftContract.mintTo(samWallet.address, {
+      name: "Test2",
+    });
+    const tx = await defaultProvider.getTransaction(
+      result.receipt.transactionHash,
+    );
+    const chainId = (await defaultProvider.getNetwork()).chainId;
+    const state = await store.get(
+      `${chainId}:${samWallet.address.toLowerCase()}`,
+    );
+    expect(state?.nonce).to.equal(tx.nonce + 1);
+    expect(state?.pending).to.deep.equal([]);
+  });
+
+  it("should fill the nonce of a failed transaction when later nonces were sent in pipeline mode", async () => {
+    const store = new MemoryTransactionQueueStore();
+    const chainId = (await defaultProvider.getNetwork()).chainId;
+    const queue = getTransactionQueue(
+      { mode: "pipeline", store },
+      samWallet,
+      defaultProvider,
+      chainId,
+      samWallet.address,
+    );
+    const startNonce = await samWallet.getTransactionCount();
+
+    let failFirst = () => {};
+    const first = queue.send(async () => {
+      await new Promise<void>((resolve) => (failFirst = resolve));
+      throw new Error("failed to send");
+    });
+    const second = queue.send((nonce) =>
+      samWallet.sendTransaction({ to: adminWallet.address, value: 1, nonce }),
+    );
+    const secondTx = await second;
+    expect(secondTx.nonce).to.equal(startNonce + 1);
+
+    failFirst();
+    try {
+      await first;
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal("failed to send");
+    }
+
+    // the gap is filled with an empty transaction, so the later one is mined
+    await secondTx.wait();
+    expect(await samWallet.getTransactionCount()).to.equal(startNonce + 2);
+    const state = await store.get(
+      `${chainId}:${samWallet.address.toLowerCase()}`,
+    );
+    const fill = state?.pending.find((tx) => tx.nonce === startNonce);
+    const filled = await defaultProvider.getTransaction(fill?.hash as string);
+    expect(filled.to).to.equal(samWallet.address);
+    expect(filled.value.toNumber()).to.equal(0);
+
+    // the next transaction doesn't reuse a nonce that was handed out
+    const third = await queue.send((nonce) =>
+      samWallet.sendTransaction({ to: adminWallet.address, value: 1, nonce }),
+    );
+    expect(third.nonce).to.equal(startNonce + 2);
+  });
+
+  it("should drop mined transactions that were never marked complete", async () => {
+    const store = new MemoryTransactionQueueStore();
+    const chainId = (await defaultProvider.getNetwork()).chainId;
+    const queue = getTransactionQueue(
+      { mode: "serial", store },
+      samWallet,
+      defaultProvider,
+      chainId,
+      samWallet.address,
+    );
+    const key = `${chainId}:${samWallet.address.toLowerCase()}`;
+
+    // transactions sent directly through the queue aren't completed by the contract wrapper
+    const first = await queue.send((nonce) =>
+      samWallet.sendTransaction({ to: adminWallet.address, value: 1, nonce }),
+    );
+    await first.wait();
+    expect((await store.get(key))?.pending).to.have.length(1);
+
+    const second = await queue.send((nonce) =>
+      samWallet.sendTransaction({ to: adminWallet.address, value: 1, nonce }),
+    );
+    await second.wait();
+    expect((await store.get(key))?.pending).to.deep.equal([
+      { nonce: second.nonce, hash: second.hash },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { NFTDrop, NFTDropInitializer } from "../../src/evm";
+import { defaultProvider, expectError, sdk, signers } from "./before-setup";
+import { AddressZero } from "@ethersproject/constants";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+
+global.fetch = require("cross-fetch");
+
+describe("Transaction Watcher", async () => {
+  let dropContract: NFTDrop;
+  let adminWallet: SignerWithAddress;
+
+  before(() => {
+    [adminWallet] = signers;
+  });
+
+  beforeEach(async () => {
+    sdk.updateSignerOrProvider(adminWallet);
+    const address = await sdk.deployer.deployBuiltInContract(
+      NFTDropInitializer.contractType,
+      {
+        name: "NFT Drop",
+        primary_sale_recipient: adminWallet.address,
+        fee_recipient: AddressZero,
+        platform_fee_recipient: AddressZero,
+      },
+    );
+    dropContract = await sdk.getNFTDrop(address);
+    await dropContract.createBatch([{ name: "Test1" }]);
+    await dropContract.claimConditions.set([{}]);
+  });
+
+  async function waitForEvent(events: any[], status: string) {
+    while (!events.find((e) => e.status === status)) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    return events.find((e) => e.status === status);
+  }
+
+  it("should speed up a stuck transaction task", async () => {
+    const events: any[] = [];
+    dropContract.events.addTransactionListener((event) => events.push(event));
+    const task = await dropContract.getClaimTransaction(adminWallet.address, 1);
+
+    await defaultProvider.send("evm_setAutomine", [false]);
+    try {
+      const execution = task.speedUpWhenStuck({ seconds: 1 }).execute();
+      const replaced = await waitForEvent(events, "replaced");
+      await defaultProvider.send("evm_mine", []);
+      const { receipt } = await execution;
+
+      const submitted = events.find((e) => e.status === "submitted");
+      expect(replaced.reason).to.eq("repriced");
+      expect(replaced.replacedTransactionHash).to.eq(submitted.transactionHash);
+      expect(receipt.transactionHash).to.eq(replaced.transactionHash);
+    } finally {
+      await defaultProvider.send("evm_setAutomine", [true]);
+    }
+    const nft = await dropContract.get(0);
+    expect(nft.owner).to.eq(adminWallet.address);
+  });
+
+  it("should follow a transaction task sped up while it's executed", async () => {
+    const events: any[] = [];
+    dropContract.events.addTransactionListener((event) => events.push(event));
+    const task = await dropContract.getClaimTransaction(adminWallet.address, 1);
+
+    await defaultProvider.send("evm_setAutomine", [false]);
+    try {
+      const execution = task.execute();
+      await waitForEvent(events, "submitted");
+      const replacement = await task.speedUp();
+      await defaultProvider.send("evm_mine", []);
+      const { receipt } = await execution;
+      expect(receipt.transactionHash).to.eq(replacement.hash);
+    } finally {
+      await defaultProvider.send("evm_setAutomine", [true]);
+    }
+    const nft = await dropContract.get(0);
+    expect(nft.owner).to.eq(adminWallet.address);
+  });
+
+  it("should cancel a pending transaction task", async () => {
+    const task = await dropContract.getClaimTransaction(adminWallet.address, 1);
+
+    await defaultProvider.send("evm_setAutomine", [false]);
+    try {
+      const tx = await task.submit();
+      const cancellation = await task.cancel();
+      expect(cancellation.nonce).to.eq(tx.nonce);
+      await defaultProvider.send("evm_mine", []);
+      const receipt = await cancellation.wait();
+      expect(receipt.to).to.eq(adminWallet.address);
+      try {
+        await task.speedUp();
+        expect.fail();
+      } catch (e) {
+        expectError(e, "Cannot speed up a cancelled transaction");
+      }
+    } finally {
+      await defaultProvider.send("evm_setAutomine", [true]);
+    }
+    expect((await dropContract.totalClaimedSupply()).toNumber()).to.eq(0);
+  });
+});
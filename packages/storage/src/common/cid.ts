@@ -0,0 +1,705 @@
+import { FileOrBufferOrString, IpfsUploadBatchOptions } from "../types";
+import { murmur3X64Hash64, sha256 } from "./crypto";
+import { fileOrBufferOrStringToBytes, prepareUploadFiles } from "./utils";
+
+// Defaults used by IPFS nodes (and Pinata) when importing files
+const CHUNK_SIZE = 262144;
+const MAX_CHILDREN_PER_NODE = 174;
+// Directories bigger than this are sharded into a HAMT
+const MAX_DIRECTORY_BLOCK_SIZE = 262144;
+const HAMT_FANOUT = 256;
+const HAMT_HASH_MURMUR3 = 0x22;
+
+const CODEC_DAG_PB = 0x70;
+const CODEC_RAW = 0x55;
+const MULTIHASH_SHA2_256 = 0x12;
+
+const UNIXFS_TYPE_DIRECTORY = 1;
+const UNIXFS_TYPE_FILE = 2;
+const UNIXFS_TYPE_HAMT_SHARD = 5;
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/**
+ * @internal
+ */
+export type Cid = {
+  version: 0 | 1;
+  codec: number;
+  multihash: Uint8Array;
+};
+
+/**
+ * @internal
+ */
+export type DagPbLink = {
+  cid: Cid;
+  name: string;
+  size: number;
+};
+
+type DagNode = {
+  cid: Cid;
+  // The number of bytes of file data under this node
+  fileSize: number;
+  // The number of bytes of all blocks under this node, used for link sizes
+  cumulativeSize: number;
+};
+
+function concatBytes(arrays: Uint8Array[]): Uint8Array {
+  const length = arrays.reduce((total, array) => total + array.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function encodeVarint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push(value % 0x80 | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return new Uint8Array(bytes);
+}
+
+function decodeVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  let multiplier = 1;
+  let position = offset;
+  while (position < bytes.length) {
+    const byte = bytes[position++];
+    value += (byte & 0x7f) * multiplier;
+    if (byte < 0x80) {
+      return [value, position];
+    }
+    multiplier *= 0x80;
+  }
+  throw new Error("[CID_DECODE_ERROR] Unexpected end of varint.");
+}
+
+function encodeVarintField(field: number, value: number): Uint8Array {
+  return concatBytes([encodeVarint(field << 3), encodeVarint(value)]);
+}
+
+function encodeBytesField(field: number, value: Uint8Array): Uint8Array {
+  return concatBytes([
+    encodeVarint((field << 3) | 2),
+    encodeVarint(value.length),
+    value,
+  ]);
+}
+
+// Iterates over the fields of a protobuf message, only supporting the wire types used by dag-pb and UnixFS
+function decodeFields(
+  bytes: Uint8Array,
+): { field: number; value: number | Uint8Array }[] {
+  const fields: { field: number; value: number | Uint8Array }[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const [key, keyEnd] = decodeVarint(bytes, offset);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (wireType === 0) {
+      const [value, end] = decodeVarint(bytes, keyEnd);
+      fields.push({ field, value });
+      offset = end;
+    } else if (wireType === 2) {
+      const [length, start] = decodeVarint(bytes, keyEnd);
+      fields.push({ field, value: bytes.subarray(start, start + length) });
+      offset = start + length;
+    } else {
+      throw new Error(
+        `[CID_DECODE_ERROR] Unsupported protobuf wire type ${wireType}.`,
+      );
+    }
+  }
+  return fields;
+}
+
+function encodeBase58(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (let j = 0; j < bytes.length; j++) {
+    let carry = bytes[j];
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let result = "";
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result += BASE58_ALPHABET[0];
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58_ALPHABET[digits[i]];
+  }
+  return result;
+}
+
+function decodeBase58(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let j = 0; j < value.length; j++) {
+    const char = value[j];
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) {
+      throw new Error(`[CID_DECODE_ERROR] Invalid base58 character ${char}.`);
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  for (let i = 0; i < value.length && value[i] === BASE58_ALPHABET[0]; i++) {
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let result = "";
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    buffer = ((buffer << 8) | bytes[i]) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      result += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    result += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return result;
+}
+
+function decodeBase32(value: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  const lowercase = value.toLowerCase();
+  for (let i = 0; i < lowercase.length; i++) {
+    const char = lowercase[i];
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error(`[CID_DECODE_ERROR] Invalid base32 character ${char}.`);
+    }
+    buffer = ((buffer << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+async function hashBlock(
+  block: Uint8Array,
+  codec: number,
+  version: 0 | 1,
+): Promise<Cid> {
+  const digest = await sha256(block);
+  return {
+    version,
+    codec,
+    multihash: concatBytes([
+      new Uint8Array([MULTIHASH_SHA2_256, digest.length]),
+      digest,
+    ]),
+  };
+}
+
+function encodeUnixFs(
+  type: number,
+  data?: Uint8Array,
+  fileSize?: number,
+  blockSizes: number[] = [],
+): Uint8Array {
+  return concatBytes([
+    encodeVarintField(1, type),
+    ...(data && data.length ? [encodeBytesField(2, data)] : []),
+    ...(fileSize !== undefined ? [encodeVarintField(3, fileSize)] : []),
+    ...blockSizes.map((size) => encodeVarintField(4, size)),
+  ]);
+}
+
+function encodeDagPb(
+  data: Uint8Array,
+  links: { cid: Cid; name: string; size: number }[],
+): Uint8Array {
+  // The dag-pb spec requires links to be serialized before data
+  return concatBytes([
+    ...links.map((link) =>
+      encodeBytesField(
+        2,
+        concatBytes([
+          encodeBytesField(1, cidToBytes(link.cid)),
+          encodeBytesField(2, new TextEncoder().encode(link.name)),
+          encodeVarintField(3, link.size),
+        ]),
+      ),
+    ),
+    encodeBytesField(1, data),
+  ]);
+}
+
+async function buildDagPbNode(
+  data: Uint8Array,
+  links: { cid: Cid; name: string; size: number }[],
+  version: 0 | 1,
+): Promise<{ cid: Cid; cumulativeSize: number }> {
+  const block = encodeDagPb(data, links);
+  return {
+    cid: await hashBlock(block, CODEC_DAG_PB, version),
+    cumulativeSize:
+      block.length + links.reduce((total, link) => total + link.size, 0),
+  };
+}
+
+async function buildLeaf(chunk: Uint8Array, version: 0 | 1): Promise<DagNode> {
+  // CIDv1 imports use raw leaves, CIDv0 can only address dag-pb blocks
+  if (version === 1) {
+    return {
+      cid: await hashBlock(chunk, CODEC_RAW, version),
+      fileSize: chunk.length,
+      cumulativeSize: chunk.length,
+    };
+  }
+
+  const node = await buildDagPbNode(
+    encodeUnixFs(UNIXFS_TYPE_FILE, chunk, chunk.length),
+    [],
+    version,
+  );
+  return { ...node, fileSize: chunk.length };
+}
+
+async function buildParent(
+  children: DagNode[],
+  version: 0 | 1,
+): Promise<DagNode> {
+  const blockSizes = children.map((child) => child.fileSize);
+  const fileSize = blockSizes.reduce((total, size) => total + size, 0);
+  const node = await buildDagPbNode(
+    encodeUnixFs(UNIXFS_TYPE_FILE, undefined, fileSize, blockSizes),
+    children.map((child) => ({
+      cid: child.cid,
+      name: "",
+      size: child.cumulativeSize,
+    })),
+    version,
+  );
+  return { ...node, fileSize };
+}
+
+async function buildFile(data: Uint8Array, version: 0 | 1): Promise<DagNode> {
+  let nodes: DagNode[] = [];
+  for (let offset = 0; offset < data.length || !nodes.length; ) {
+    nodes.push(
+      await buildLeaf(data.subarray(offset, offset + CHUNK_SIZE), version),
+    );
+    offset += CHUNK_SIZE;
+  }
+
+  if (nodes.length === 1) {
+    return nodes[0];
+  }
+
+  // Build a balanced tree, grouping nodes into parents until there is a single root
+  while (nodes.length > 1) {
+    const parents: DagNode[] = [];
+    for (let i = 0; i < nodes.length; i += MAX_CHILDREN_PER_NODE) {
+      parents.push(
+        await buildParent(nodes.slice(i, i + MAX_CHILDREN_PER_NODE), version),
+      );
+    }
+    nodes = parents;
+  }
+
+  return nodes[0];
+}
+
+/**
+ * @internal
+ */
+export function cidToBytes(cid: Cid): Uint8Array {
+  if (cid.version === 0) {
+    return cid.multihash;
+  }
+
+  return concatBytes([
+    encodeVarint(cid.version),
+    encodeVarint(cid.codec),
+    cid.multihash,
+  ]);
+}
+
+/**
+ * @internal
+ */
+export function cidToString(cid: Cid): string {
+  if (cid.version === 0) {
+    return encodeBase58(cid.multihash);
+  }
+
+  return `b${encodeBase32(cidToBytes(cid))}`;
+}
+
+/**
+ * @internal
+ */
+export function cidEquals(a: Cid, b: Cid): boolean {
+  return (
+    a.version === b.version &&
+    a.codec === b.codec &&
+    bytesEqual(a.multihash, b.multihash)
+  );
+}
+
+function decodeCidBytes(bytes: Uint8Array): Cid {
+  if (bytes[0] === MULTIHASH_SHA2_256) {
+    return { version: 0, codec: CODEC_DAG_PB, multihash: bytes };
+  }
+
+  const [version, versionEnd] = decodeVarint(bytes, 0);
+  const [codec, codecEnd] = decodeVarint(bytes, versionEnd);
+  if (version !== 1) {
+    throw new Error(`[CID_DECODE_ERROR] Unsupported CID version ${version}.`);
+  }
+
+  return { version, codec, multihash: bytes.subarray(codecEnd) };
+}
+
+/**
+ * @internal
+ */
+export function parseCid(cid: string): Cid {
+  if (cid.startsWith("Qm")) {
+    return decodeCidBytes(decodeBase58(cid));
+  }
+
+  // Multibase prefixes for base32 and base58btc respectively
+  if (cid.startsWith("b")) {
+    return decodeCidBytes(decodeBase32(cid.slice(1)));
+  }
+  if (cid.startsWith("z")) {
+    return decodeCidBytes(decodeBase58(cid.slice(1)));
+  }
+
+  throw new Error(`[CID_DECODE_ERROR] Unsupported CID encoding for ${cid}.`);
+}
+
+/**
+ * @internal
+ */
+export async function verifyBlock(block: Uint8Array, cid: Cid) {
+  const computed = await hashBlock(block, cid.codec, cid.version);
+  return cidEquals(computed, cid);
+}
+
+/**
+ * @internal
+ */
+export function decodeDirectoryLinks(block: Uint8Array): DagPbLink[] {
+  const links: DagPbLink[] = [];
+  let data: Uint8Array | undefined;
+
+  for (const { field, value } of decodeFields(block)) {
+    if (field === 1 && typeof value !== "number") {
+      data = value;
+    } else if (field === 2 && typeof value !== "number") {
+      const link: Partial<DagPbLink> = { name: "", size: 0 };
+      for (const linkField of decodeFields(value)) {
+        if (linkField.field === 1 && typeof linkField.value !== "number") {
+          link.cid = decodeCidBytes(linkField.value);
+        } else if (
+          linkField.field === 2 &&
+          typeof linkField.value !== "number"
+        ) {
+          link.name = new TextDecoder().decode(linkField.value);
+        } else if (
+          linkField.field === 3 &&
+          typeof linkField.value === "number"
+        ) {
+          link.size = linkField.value;
+        }
+      }
+      links.push(link as DagPbLink);
+    }
+  }
+
+  const type = data
+    ? decodeFields(data).find(({ field }) => field === 1)?.value
+    : undefined;
+  if (type === UNIXFS_TYPE_HAMT_SHARD) {
+    throw new Error(
+      "[CID_DECODE_ERROR] Sharded directories are not supported.",
+    );
+  }
+  if (type !== UNIXFS_TYPE_DIRECTORY) {
+    throw new Error("[CID_DECODE_ERROR] Block is not a UnixFS directory.");
+  }
+
+  return links;
+}
+
+/**
+ * Computes the CID that IPFS assigns to a file with the default importer settings
+ *
+ * @internal
+ */
+export async function computeFileCid(
+  data: Uint8Array,
+  version: 0 | 1 = 0,
+): Promise<Cid> {
+  return (await buildFile(data, version)).cid;
+}
+
+/**
+ * Computes the links that a directory of files has to each of them with the default importer settings
+ *
+ * @internal
+ */
+export async function computeDirectoryLinks(
+  files: { name: string; data: Uint8Array }[],
+  version: 0 | 1 = 0,
+): Promise<DagPbLink[]> {
+  const links: DagPbLink[] = [];
+  for (const file of files) {
+    const node = await buildFile(file.data, version);
+    links.push({
+      cid: node.cid,
+      name: file.name,
+      size: node.cumulativeSize,
+    });
+  }
+  return links;
+}
+
+/**
+ * Builds the block of a directory with the given links, as IPFS imports it with the default importer settings
+ *
+ * @internal
+ */
+export async function buildDirectoryBlock(
+  links: DagPbLink[],
+  version: 0 | 1 = 0,
+): Promise<{ cid: Cid; block: Uint8Array }> {
+  // dag-pb requires links to be sorted by the bytes of their names
+  const sorted = [...links].sort((a, b) => {
+    const nameA = new TextEncoder().encode(a.name);
+    const nameB = new TextEncoder().encode(b.name);
+    for (let i = 0; i < Math.min(nameA.length, nameB.length); i++) {
+      if (nameA[i] !== nameB[i]) {
+        return nameA[i] - nameB[i];
+      }
+    }
+    return nameA.length - nameB.length;
+  });
+
+  const block = encodeDagPb(encodeUnixFs(UNIXFS_TYPE_DIRECTORY), sorted);
+  if (block.length > MAX_DIRECTORY_BLOCK_SIZE) {
+    throw new Error(
+      "[CID_COMPUTATION_ERROR] Directory is too large to compute its CID locally, as it would be sharded.",
+    );
+  }
+
+  return { cid: await hashBlock(block, CODEC_DAG_PB, version), block };
+}
+
+type ShardEntry = { link: DagPbLink; hash: Uint8Array };
+
+async function buildShard(
+  entries: ShardEntry[],
+  depth: number,
+  version: 0 | 1,
+  blocks: { cid: Cid; block: Uint8Array }[],
+): Promise<{ cid: Cid; cumulativeSize: number }> {
+  // Each level of the HAMT is indexed by the next byte of the hash of the names
+  const slots = new Map<number, ShardEntry[]>();
+  for (const entry of entries) {
+    const index = entry.hash[depth];
+    slots.set(index, [...(slots.get(index) || []), entry]);
+  }
+
+  const bitfield = new Uint8Array(HAMT_FANOUT / 8);
+  const links: DagPbLink[] = [];
+  for (const index of Array.from(slots.keys()).sort((a, b) => a - b)) {
+    const slot = slots.get(index) as ShardEntry[];
+    const prefix = index.toString(16).toUpperCase().padStart(2, "0");
+    bitfield[bitfield.length - 1 - Math.floor(index / 8)] |= 1 << index % 8;
+
+    if (slot.length === 1) {
+      links.push({ ...slot[0].link, name: `${prefix}${slot[0].link.name}` });
+    } else {
+      if (depth + 1 >= slot[0].hash.length) {
+        throw new Error(
+          "[CID_COMPUTATION_ERROR] Directory has names with colliding hashes.",
+        );
+      }
+      const child = await buildShard(slot, depth + 1, version, blocks);
+      links.push({ cid: child.cid, name: prefix, size: child.cumulativeSize });
+    }
+  }
+
+  const data = concatBytes([
+    encodeVarintField(1, UNIXFS_TYPE_HAMT_SHARD),
+    // The bitfield is big-endian, without its leading zero bytes
+    encodeBytesField(
+      2,
+      bitfield.subarray(bitfield.findIndex((byte) => byte !== 0)),
+    ),
+    encodeVarintField(5, HAMT_HASH_MURMUR3),
+    encodeVarintField(6, HAMT_FANOUT),
+  ]);
+  const block = encodeDagPb(data, links);
+  const cid = await hashBlock(block, CODEC_DAG_PB, version);
+  blocks.push({ cid, block });
+  return {
+    cid,
+    cumulativeSize:
+      block.length + links.reduce((total, link) => total + link.size, 0),
+  };
+}
+
+/**
+ * Builds the blocks of a directory with the given links, sharding it into a HAMT when it's too large for a single block.
+ * Sharded directories can't be compared with the CIDs of IPFS uploads, but are read the same way by IPFS.
+ *
+ * @internal
+ */
+export async function buildDirectory(
+  links: DagPbLink[],
+  version: 0 | 1 = 0,
+): Promise<{ cid: Cid; blocks: { cid: Cid; block: Uint8Array }[] }> {
+  try {
+    const directory = await buildDirectoryBlock(links, version);
+    return { cid: directory.cid, blocks: [directory] };
+  } catch (err) {
+    if (
+      !(err instanceof Error) ||
+      !err.message.startsWith("[CID_COMPUTATION_ERROR]")
+    ) {
+      throw err;
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const blocks: { cid: Cid; block: Uint8Array }[] = [];
+  const root = await buildShard(
+    links.map((link) => ({
+      link,
+      hash: murmur3X64Hash64(encoder.encode(link.name)),
+    })),
+    0,
+    version,
+    blocks,
+  );
+  // Child shards are built first, so the root is the last block
+  return { cid: root.cid, blocks: blocks.reverse() };
+}
+
+/**
+ * Computes the CID that IPFS assigns to a directory of files with the default importer settings
+ *
+ * @internal
+ */
+export async function computeDirectoryCid(
+  files: { name: string; data: Uint8Array }[],
+  version: 0 | 1 = 0,
+): Promise<Cid> {
+  const links = await computeDirectoryLinks(files, version);
+  return (await buildDirectoryBlock(links, version)).cid;
+}
+
+/**
+ * Encodes blocks into a CARv1 archive with the given root, to import them into IPFS as they are
+ *
+ * @internal
+ */
+export function encodeCar(
+  root: Cid,
+  blocks: { cid: Cid; block: Uint8Array }[],
+): Uint8Array {
+  const encoder = new TextEncoder();
+  // The CID link is a CBOR byte string of the CID bytes prefixed with a zero byte, under tag 42
+  const rootBytes = concatBytes([new Uint8Array([0]), cidToBytes(root)]);
+  const header = concatBytes([
+    // map of 2 entries, with the keys sorted by length
+    new Uint8Array([0xa2, 0x65]),
+    encoder.encode("roots"),
+    new Uint8Array([0x81, 0xd8, 0x2a]),
+    rootBytes.length < 24
+      ? new Uint8Array([0x40 + rootBytes.length])
+      : new Uint8Array([0x58, rootBytes.length]),
+    rootBytes,
+    new Uint8Array([0x67]),
+    encoder.encode("version"),
+    new Uint8Array([0x01]),
+  ]);
+
+  return concatBytes([
+    encodeVarint(header.length),
+    header,
+    ...blocks.flatMap(({ cid, block }) => {
+      const cidBytes = cidToBytes(cid);
+      return [encodeVarint(cidBytes.length + block.length), cidBytes, block];
+    }),
+  ]);
+}
+
+/**
+ * Computes the URIs that uploading files to IPFS will produce, matching the upload behavior of the IpfsUploader
+ *
+ * @internal
+ */
+export async function computeIpfsUris(
+  files: FileOrBufferOrString[],
+  options?: IpfsUploadBatchOptions,
+): Promise<string[]> {
+  if (options?.uploadWithoutDirectory && files.length > 1) {
+    throw new Error(
+      "[UPLOAD_WITHOUT_DIRECTORY_ERROR] Cannot upload more than one file or object without directory!",
+    );
+  }
+
+  const version = options?.cidVersion || 0;
+  const { uploads, fileNames } = prepareUploadFiles(files, options);
+  const entries = await Promise.all(
+    uploads.map(async ({ fileName, fileData }) => ({
+      name: fileName,
+      data: await fileOrBufferOrStringToBytes(fileData),
+    })),
+  );
+
+  if (options?.uploadWithoutDirectory) {
+    const cid = await computeFileCid(entries[0].data, version);
+    return [`ipfs://${cidToString(cid)}`];
+  }
+
+  const cid = cidToString(await computeDirectoryCid(entries, version));
+  return fileNames.map((name) => `ipfs://${cid}/${encodeURIComponent(name)}`);
+}
@@ -0,0 +1,173 @@
+import { isBrowser } from "./utils";
+
+/**
+ * @internal
+ */
+export async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  if (isBrowser()) {
+    return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  }
+
+  const { createHash } = await import("crypto");
+  return new Uint8Array(createHash("sha256").update(data).digest());
+}
+
+/**
+ * @internal
+ */
+export async function hmacSha256(
+  key: Uint8Array,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  if (isBrowser()) {
+    const cryptoKey = await crypto.subtle.importKey(
+      "raw",
+      key,
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    return new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, data));
+  }
+
+  const { createHmac } = await import("crypto");
+  return new Uint8Array(createHmac("sha256", key).update(data).digest());
+}
+
+/**
+ * @internal
+ */
+export function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+// 64-bit integers as [high, low] 32-bit halves, as the targeted runtimes may not support BigInt
+type Uint64 = [number, number];
+
+function add64(a: Uint64, b: Uint64): Uint64 {
+  const low = a[1] + b[1];
+  return [(a[0] + b[0] + (low > 0xffffffff ? 1 : 0)) >>> 0, low >>> 0];
+}
+
+function multiply64(a: Uint64, b: Uint64): Uint64 {
+  // Multiply 16-bit limbs, so no partial product exceeds the safe integer range
+  const x = [a[0] >>> 16, a[0] & 0xffff, a[1] >>> 16, a[1] & 0xffff];
+  const y = [b[0] >>> 16, b[0] & 0xffff, b[1] >>> 16, b[1] & 0xffff];
+  const z = [0, 0, 0, 0];
+  z[3] += x[3] * y[3];
+  z[2] += z[3] >>> 16;
+  z[3] &= 0xffff;
+  z[2] += x[2] * y[3];
+  z[1] += z[2] >>> 16;
+  z[2] &= 0xffff;
+  z[2] += x[3] * y[2];
+  z[1] += z[2] >>> 16;
+  z[2] &= 0xffff;
+  z[1] += x[1] * y[3];
+  z[0] += z[1] >>> 16;
+  z[1] &= 0xffff;
+  z[1] += x[2] * y[2];
+  z[0] += z[1] >>> 16;
+  z[1] &= 0xffff;
+  z[1] += x[3] * y[1];
+  z[0] += z[1] >>> 16;
+  z[1] &= 0xffff;
+  z[0] += x[0] * y[3] + x[1] * y[2] + x[2] * y[1] + x[3] * y[0];
+  z[0] &= 0xffff;
+  return [((z[0] << 16) | z[1]) >>> 0, ((z[2] << 16) | z[3]) >>> 0];
+}
+
+function rotateLeft64(a: Uint64, bits: number): Uint64 {
+  const [high, low] = bits >= 32 ? [a[1], a[0]] : a;
+  const shift = bits % 32;
+  if (shift === 0) {
+    return [high, low];
+  }
+  return [
+    ((high << shift) | (low >>> (32 - shift))) >>> 0,
+    ((low << shift) | (high >>> (32 - shift))) >>> 0,
+  ];
+}
+
+function xor64(a: Uint64, b: Uint64): Uint64 {
+  return [(a[0] ^ b[0]) >>> 0, (a[1] ^ b[1]) >>> 0];
+}
+
+function finalizeMix64(k: Uint64): Uint64 {
+  k = xor64(k, [0, k[0] >>> 1]);
+  k = multiply64(k, [0xff51afd7, 0xed558ccd]);
+  k = xor64(k, [0, k[0] >>> 1]);
+  k = multiply64(k, [0xc4ceb9fe, 0x1a85ec53]);
+  return xor64(k, [0, k[0] >>> 1]);
+}
+
+// Reads up to 8 bytes as a little-endian 64-bit integer
+function readUint64(bytes: Uint8Array, offset: number, length = 8): Uint64 {
+  const value: Uint64 = [0, 0];
+  for (let i = Math.min(length, 8) - 1; i >= 0; i--) {
+    const half = i < 4 ? 1 : 0;
+    value[half] = (value[half] | (bytes[offset + i] << ((i % 4) * 8))) >>> 0;
+  }
+  return value;
+}
+
+/**
+ * The first 64 bits of the x64 128-bit MurmurHash3 of the data, which IPFS uses to shard directories
+ *
+ * @internal
+ */
+export function murmur3X64Hash64(data: Uint8Array): Uint8Array {
+  const c1: Uint64 = [0x87c37b91, 0x114253d5];
+  const c2: Uint64 = [0x4cf5ad43, 0x2745937f];
+  let h1: Uint64 = [0, 0];
+  let h2: Uint64 = [0, 0];
+  const blocks = data.length - (data.length % 16);
+
+  for (let i = 0; i < blocks; i += 16) {
+    let k1 = readUint64(data, i);
+    let k2 = readUint64(data, i + 8);
+
+    k1 = multiply64(rotateLeft64(multiply64(k1, c1), 31), c2);
+    h1 = xor64(h1, k1);
+    h1 = add64(rotateLeft64(h1, 27), h2);
+    h1 = add64(multiply64(h1, [0, 5]), [0, 0x52dce729]);
+
+    k2 = multiply64(rotateLeft64(multiply64(k2, c2), 33), c1);
+    h2 = xor64(h2, k2);
+    h2 = add64(rotateLeft64(h2, 31), h1);
+    h2 = add64(multiply64(h2, [0, 5]), [0, 0x38495ab5]);
+  }
+
+  const tail = data.length - blocks;
+  if (tail > 8) {
+    const k2 = readUint64(data, blocks + 8, tail - 8);
+    h2 = xor64(h2, multiply64(rotateLeft64(multiply64(k2, c2), 33), c1));
+  }
+  if (tail > 0) {
+    const k1 = readUint64(data, blocks, tail);
+    h1 = xor64(h1, multiply64(rotateLeft64(multiply64(k1, c1), 31), c2));
+  }
+
+  h1 = xor64(h1, [0, data.length]);
+  h2 = xor64(h2, [0, data.length]);
+  h1 = add64(h1, h2);
+  h2 = add64(h2, h1);
+  h1 = finalizeMix64(h1);
+  h2 = finalizeMix64(h2);
+  h1 = add64(h1, h2);
+
+  return new Uint8Array([
+    h1[0] >>> 24,
+    (h1[0] >>> 16) & 0xff,
+    (h1[0] >>> 8) & 0xff,
+    h1[0] & 0xff,
+    h1[1] >>> 24,
+    (h1[1] >>> 16) & 0xff,
+    (h1[1] >>> 8) & 0xff,
+    h1[1] & 0xff,
+  ]);
+}
@@ -1,2 +1,4 @@
 export * from "./urls";
 export * from "./utils";
+export * from "./cid";
+export * from "./crypto";
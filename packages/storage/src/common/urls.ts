@@ -22,6 +22,31 @@ export const TW_IPFS_SERVER_URL = "https://upload.nftlabs.co";
  */
 export const PINATA_IPFS_URL = `https://api.pinata.cloud/pinning/pinFileToIPFS`;
 
+/**
+ * @internal
+ */
+export const PINATA_API_URL = "https://api.pinata.cloud";
+
+/**
+ * @internal
+ */
+export const PINATA_UPLOADS_URL = "https://uploads.pinata.cloud/v3";
+
+/**
+ * @internal
+ */
+export const KUBO_API_URL = "http://127.0.0.1:5001";
+
+/**
+ * @internal
+ */
+export const BUNDLR_NODE_URL = "https://node1.bundlr.network";
+
+/**
+ * @internal
+ */
+export const ARWEAVE_GATEWAY_URL = "https://arweave.net";
+
 /**
  * @internal
  */
@@ -1,4 +1,12 @@
-import { BufferOrStringWithName, FileOrBuffer, GatewayUrls } from "../types";
+import {
+  BufferOrStringWithName,
+  FileOrBuffer,
+  FileOrBufferOrString,
+  GatewayUrls,
+  IpfsUploadBatchOptions,
+  StorageCacheEntry,
+} from "../types";
+import { Response } from "cross-fetch";
 
 /**
  * @internal
@@ -46,6 +54,21 @@ export function isFileOrBuffer(
   );
 }
 
+/**
+ * @internal
+ */
+export async function fileOrBufferOrStringToBytes(
+  file: File | Buffer | string,
+): Promise<Uint8Array> {
+  if (isFileInstance(file)) {
+    return new Uint8Array(await file.arrayBuffer());
+  }
+  if (isBufferInstance(file)) {
+    return new Uint8Array(file);
+  }
+  return new TextEncoder().encode(file);
+}
+
 /**
  * @internal
  */
@@ -85,6 +108,78 @@ export function isFileBufferOrStringEqual(input1: any, input2: any): boolean {
   return false;
 }
 
+/**
+ * @internal
+ */
+export function prepareUploadFiles(
+  files: FileOrBufferOrString[],
+  options?: IpfsUploadBatchOptions,
+) {
+  const fileNameToFileMap = new Map<string, FileOrBufferOrString>();
+  const fileNames: string[] = [];
+  const uploads: {
+    fileName: string;
+    fileData: File | Buffer | string;
+  }[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    let fileName = "";
+    let fileData = file;
+
+    if (isFileInstance(file)) {
+      if (options?.rewriteFileNames) {
+        let extensions = "";
+        if (file.name) {
+          const extensionStartIndex = file.name.lastIndexOf(".");
+          if (extensionStartIndex > -1) {
+            extensions = file.name.substring(extensionStartIndex);
+          }
+        }
+        fileName = `${
+          i + options.rewriteFileNames.fileStartNumber
+        }${extensions}`;
+      } else {
+        fileName = `${file.name}`;
+      }
+    } else if (isBufferOrStringWithName(file)) {
+      fileData = file.data;
+      if (options?.rewriteFileNames) {
+        fileName = `${i + options.rewriteFileNames.fileStartNumber}`;
+      } else {
+        fileName = `${file.name}`;
+      }
+    } else {
+      if (options?.rewriteFileNames) {
+        fileName = `${i + options.rewriteFileNames.fileStartNumber}`;
+      } else {
+        fileName = `${i}`;
+      }
+    }
+
+    if (fileNameToFileMap.has(fileName)) {
+      // if the file in the map is the same as the file we are already looking at then just skip and continue
+      if (isFileBufferOrStringEqual(fileNameToFileMap.get(fileName), file)) {
+        // we add it to the filenames array so that we can return the correct number of urls,
+        fileNames.push(fileName);
+        // but then we skip because we don't need to upload it multiple times
+        continue;
+      }
+      // otherwise if file names are the same but they are not the same file then we should throw an error (trying to upload to differnt files but with the same names)
+      throw new Error(
+        `[DUPLICATE_FILE_NAME_ERROR] File name ${fileName} was passed for more than one different file.`,
+      );
+    }
+
+    // add it to the map so that we can check for duplicates
+    fileNameToFileMap.set(fileName, file);
+    // add it to the filenames array so that we can return the correct number of urls
+    fileNames.push(fileName);
+    uploads.push({ fileName, fileData: fileData as File | Buffer | string });
+  }
+
+  return { uploads, fileNames };
+}
+
 /**
  * @internal
  */
@@ -125,6 +220,44 @@ export function replaceSchemeWithGatewayUrl(
   return uri.replace(scheme, schemeGatewayUrls[index]);
 }
 
+/**
+ * @internal
+ */
+export function getCacheKeyFromUri(
+  uri: string,
+  gatewayUrls: GatewayUrls,
+): string | undefined {
+  const cleaned = replaceGatewayUrlWithScheme(uri, gatewayUrls);
+
+  // Only IPFS content is addressed by its hash, so other schemes can change and are never cached
+  if (!cleaned.startsWith("ipfs://")) {
+    return undefined;
+  }
+
+  return cleaned.replace("ipfs://", "").split(/[?#]/)[0].replace(/\/$/, "");
+}
+
+/**
+ * @internal
+ */
+export function extractCidFromUri(uri: string): string {
+  return uri.replace("ipfs://", "").split(/[/?#]/)[0];
+}
+
+/**
+ * @internal
+ */
+export function createResponseFromCacheEntry(
+  entry: StorageCacheEntry,
+): Response {
+  const headers: Record<string, string> = {};
+  if (entry.contentType) {
+    headers["content-type"] = entry.contentType;
+  }
+
+  return new Response(entry.data, { status: 200, headers });
+}
+
 /**
  * @internal
  */
@@ -259,3 +392,137 @@ export function replaceObjectFilesWithUris(
 
   return data;
 }
+
+/**
+ * Get the full size of the content behind a response, including for partial content responses
+ *
+ * @internal
+ */
+export function getContentSize(res: Response): number | undefined {
+  const contentRange = res.headers.get("content-range");
+  if (res.status === 206 && contentRange) {
+    const size = parseInt(contentRange.split("/")[1], 10);
+    return isNaN(size) ? undefined : size;
+  }
+
+  const contentLength = res.headers.get("content-length");
+  return contentLength ? parseInt(contentLength, 10) : undefined;
+}
+
+/**
+ * @internal
+ */
+export type ResponseBodyReader = {
+  read(): Promise<{ done: boolean; value?: Uint8Array }>;
+  cancel(): void;
+};
+
+/**
+ * Reads a response body chunk by chunk, works with both web and node streams
+ *
+ * @internal
+ */
+export function getResponseBodyReader(res: Response): ResponseBodyReader {
+  const body: any = res.body;
+  if (body && typeof body.getReader === "function") {
+    const reader = body.getReader();
+    return {
+      read: () => reader.read(),
+      cancel: () => {
+        reader.cancel().catch(() => undefined);
+      },
+    };
+  }
+
+  if (body && typeof body.on === "function") {
+    return {
+      read: () =>
+        new Promise((resolve, reject) => {
+          if (body.readableEnded) {
+            return resolve({ done: true });
+          }
+
+          const onReadable = () => {
+            const chunk: Buffer | null = body.read();
+            if (chunk !== null) {
+              cleanup();
+              resolve({
+                done: false,
+                value: new Uint8Array(
+                  chunk.buffer,
+                  chunk.byteOffset,
+                  chunk.byteLength,
+                ),
+              });
+            }
+          };
+          const onEnd = () => {
+            cleanup();
+            resolve({ done: true });
+          };
+          const onError = (err: Error) => {
+            cleanup();
+            reject(err);
+          };
+          const cleanup = () => {
+            body.removeListener("readable", onReadable);
+            body.removeListener("end", onEnd);
+            body.removeListener("error", onError);
+          };
+
+          body.on("readable", onReadable);
+          body.on("end", onEnd);
+          body.on("error", onError);
+          onReadable();
+        }),
+      cancel: () => body.destroy(),
+    };
+  }
+
+  // Fall back to reading the whole body at once
+  let read = false;
+  return {
+    read: async () => {
+      if (read) {
+        return { done: true };
+      }
+      read = true;
+      return { done: false, value: new Uint8Array(await res.arrayBuffer()) };
+    },
+    cancel: () => undefined,
+  };
+}
+
+/**
+ * Reads a newline delimited JSON response as it streams in, works with both web and node streams
+ *
+ * @internal
+ */
+export async function readJsonLines(
+  res: Response,
+  onLine: (line: any) => void,
+): Promise<void> {
+  let buffered = "";
+  const processText = (text: string) => {
+    buffered += text;
+    const lines = buffered.split("\n");
+    buffered = lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) {
+        onLine(JSON.parse(line));
+      }
+    }
+  };
+
+  const reader = getResponseBodyReader(res);
+  const decoder = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    processText(decoder.decode(value, { stream: true }));
+  }
+
+  processText("\n");
+}
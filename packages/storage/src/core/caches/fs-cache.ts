@@ -0,0 +1,236 @@
+import {
+  FileSystemCacheOptions,
+  IStorageCache,
+  StorageCacheEntry,
+  StorageCacheStats,
+} from "../../types";
+
+type FileSystemCacheRecord = {
+  file: string;
+  size: number;
+  lastAccessed: number;
+};
+
+// Entries are named by the sha256 hash of their key, other files in the directory aren't ours
+const ENTRY_FILE_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Node only - caches downloaded storage content in a directory on disk,
+ * evicting the least recently accessed files once the configured limits are reached.
+ *
+ * @example
+ * ```jsx
+ * const cache = new FileSystemCache({
+ *   directory: "./.thirdweb-cache",
+ *   maxSize: 1024 * 1024 * 1024,
+ * });
+ * const storage = new ThirdwebStorage({ cache });
+ * ```
+ *
+ * @public
+ */
+export class FileSystemCache implements IStorageCache {
+  private options: FileSystemCacheOptions;
+  // Map iteration order is insertion order, so the first file is always the least recently used
+  private records?: Promise<Map<string, FileSystemCacheRecord>>;
+  private size = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: FileSystemCacheOptions) {
+    this.options = options;
+  }
+
+  async get(key: string): Promise<StorageCacheEntry | undefined> {
+    const fs = await import("fs/promises");
+    const file = await this.getFilePath(key);
+
+    let data: Buffer;
+    let contentType: string | undefined;
+    try {
+      data = await fs.readFile(file);
+      contentType = JSON.parse(
+        await fs.readFile(`${file}.json`, "utf-8"),
+      ).contentType;
+    } catch (err) {
+      this.misses += 1;
+      return undefined;
+    }
+
+    // Touch the file so that it is treated as recently used during eviction
+    const now = new Date();
+    await fs.utimes(file, now, now).catch(() => undefined);
+    this.addRecord(await this.getRecords(), {
+      file,
+      size: data.byteLength,
+      lastAccessed: now.getTime(),
+    });
+
+    this.hits += 1;
+    return { data: new Uint8Array(data), contentType };
+  }
+
+  async set(key: string, entry: StorageCacheEntry): Promise<void> {
+    if (
+      this.options.maxEntrySize !== undefined &&
+      entry.data.byteLength > this.options.maxEntrySize
+    ) {
+      return;
+    }
+
+    const fs = await import("fs/promises");
+    const file = await this.getFilePath(key);
+    const records = await this.getRecords();
+
+    // Files are written under a temporary name and renamed, so readers never see a partial file
+    await fs.mkdir(this.options.directory, { recursive: true });
+    await this.writeFile(
+      `${file}.json`,
+      JSON.stringify({ key, contentType: entry.contentType }),
+    );
+    await this.writeFile(file, entry.data);
+
+    this.addRecord(records, {
+      file,
+      size: entry.data.byteLength,
+      lastAccessed: Date.now(),
+    });
+    await this.evict(records);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.removeFile(await this.getRecords(), await this.getFilePath(key));
+  }
+
+  async clear(): Promise<void> {
+    // Read the directory again, so entries written by other processes are removed too
+    this.records = this.readRecords();
+    const records = await this.records;
+    await Promise.all(
+      Array.from(records.keys()).map((file) => this.removeFile(records, file)),
+    );
+  }
+
+  async stats(): Promise<StorageCacheStats> {
+    const records = await this.getRecords();
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: records.size,
+      size: this.size,
+    };
+  }
+
+  private async getFilePath(key: string): Promise<string> {
+    const { createHash } = await import("crypto");
+    const path = await import("path");
+
+    // Keys contain slashes and arbitrary file names, so we hash them to get a safe file name
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.join(this.options.directory, hash);
+  }
+
+  private async writeFile(file: string, data: string | Uint8Array) {
+    const fs = await import("fs/promises");
+    const { randomBytes } = await import("crypto");
+
+    const tempFile = `${file}.${randomBytes(8).toString("hex")}.tmp`;
+    try {
+      await fs.writeFile(tempFile, data);
+      await fs.rename(tempFile, file);
+    } catch (err) {
+      await fs.rm(tempFile, { force: true });
+      throw err;
+    }
+  }
+
+  /**
+   * The directory is only read once, then the records and their total size are kept up to date as files change
+   */
+  private getRecords(): Promise<Map<string, FileSystemCacheRecord>> {
+    if (!this.records) {
+      this.records = this.readRecords();
+    }
+    return this.records;
+  }
+
+  private async readRecords(): Promise<Map<string, FileSystemCacheRecord>> {
+    const fs = await import("fs/promises");
+    const path = await import("path");
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.options.directory);
+    } catch (err) {
+      files = [];
+    }
+
+    const records: FileSystemCacheRecord[] = [];
+    for (const name of files) {
+      if (!ENTRY_FILE_PATTERN.test(name)) {
+        continue;
+      }
+
+      const file = path.join(this.options.directory, name);
+      try {
+        const stat = await fs.stat(file);
+        records.push({
+          file,
+          size: stat.size,
+          lastAccessed: stat.mtimeMs,
+        });
+      } catch (err) {
+        // The file was removed while we were reading the directory
+      }
+    }
+
+    this.size = 0;
+    const sorted = new Map<string, FileSystemCacheRecord>();
+    for (const record of records.sort(
+      (a, b) => a.lastAccessed - b.lastAccessed,
+    )) {
+      this.addRecord(sorted, record);
+    }
+    return sorted;
+  }
+
+  private addRecord(
+    records: Map<string, FileSystemCacheRecord>,
+    record: FileSystemCacheRecord,
+  ) {
+    // Move the record to the back of the map to mark it as most recently used
+    this.size -= records.get(record.file)?.size || 0;
+    records.delete(record.file);
+    records.set(record.file, record);
+    this.size += record.size;
+  }
+
+  private async removeFile(
+    records: Map<string, FileSystemCacheRecord>,
+    file: string,
+  ) {
+    const fs = await import("fs/promises");
+    this.size -= records.get(file)?.size || 0;
+    records.delete(file);
+    await fs.rm(file, { force: true });
+    await fs.rm(`${file}.json`, { force: true });
+  }
+
+  private async evict(records: Map<string, FileSystemCacheRecord>) {
+    const { maxSize, maxEntries } = this.options;
+
+    for (const file of Array.from(records.keys())) {
+      if (
+        (maxSize === undefined || this.size <= maxSize) &&
+        (maxEntries === undefined || records.size <= maxEntries)
+      ) {
+        return;
+      }
+
+      await this.removeFile(records, file);
+      this.evictions += 1;
+    }
+  }
+}
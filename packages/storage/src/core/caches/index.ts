@@ -0,0 +1,3 @@
+export { MemoryCache } from "./memory-cache";
+export { FileSystemCache } from "./fs-cache";
+export { IndexedDbCache } from "./indexeddb-cache";
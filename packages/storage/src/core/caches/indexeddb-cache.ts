@@ -0,0 +1,178 @@
+import {
+  IndexedDbCacheOptions,
+  IStorageCache,
+  StorageCacheEntry,
+  StorageCacheStats,
+} from "../../types";
+
+const STORE_NAME = "entries";
+const LAST_ACCESSED_INDEX = "lastAccessed";
+
+type IndexedDbCacheRecord = StorageCacheEntry & {
+  key: string;
+  size: number;
+  lastAccessed: number;
+};
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser only - caches downloaded storage content in IndexedDB so it persists across page loads,
+ * evicting the least recently accessed entries once the configured limits are reached.
+ *
+ * @example
+ * ```jsx
+ * const cache = new IndexedDbCache({ maxSize: 100 * 1024 * 1024 });
+ * const storage = new ThirdwebStorage({ cache });
+ * ```
+ *
+ * @public
+ */
+export class IndexedDbCache implements IStorageCache {
+  private options: IndexedDbCacheOptions;
+  private database?: Promise<IDBDatabase>;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options?: IndexedDbCacheOptions) {
+    this.options = options || {};
+  }
+
+  async get(key: string): Promise<StorageCacheEntry | undefined> {
+    const store = await this.getStore("readwrite");
+    const record: IndexedDbCacheRecord | undefined = await promisifyRequest(
+      store.get(key),
+    );
+
+    if (!record) {
+      this.misses += 1;
+      return undefined;
+    }
+
+    record.lastAccessed = Date.now();
+    await promisifyRequest(store.put(record));
+
+    this.hits += 1;
+    return { data: record.data, contentType: record.contentType };
+  }
+
+  async set(key: string, entry: StorageCacheEntry): Promise<void> {
+    if (
+      this.options.maxEntrySize !== undefined &&
+      entry.data.byteLength > this.options.maxEntrySize
+    ) {
+      return;
+    }
+
+    const store = await this.getStore("readwrite");
+    const record: IndexedDbCacheRecord = {
+      key,
+      data: entry.data,
+      contentType: entry.contentType,
+      size: entry.data.byteLength,
+      lastAccessed: Date.now(),
+    };
+    await promisifyRequest(store.put(record));
+
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.getStore("readwrite");
+    await promisifyRequest(store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.getStore("readwrite");
+    await promisifyRequest(store.clear());
+  }
+
+  async stats(): Promise<StorageCacheStats> {
+    const records = await this.getRecords();
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: records.length,
+      size: records.reduce((total, record) => total + record.size, 0),
+    };
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.database) {
+      if (typeof indexedDB === "undefined") {
+        throw new Error(
+          "[INDEXEDDB_CACHE_ERROR] IndexedDB is not available in this environment.",
+        );
+      }
+
+      const request = indexedDB.open(
+        this.options.databaseName || "thirdweb-storage-cache",
+        1,
+      );
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: "key",
+        });
+        store.createIndex(LAST_ACCESSED_INDEX, LAST_ACCESSED_INDEX);
+      };
+      this.database = promisifyRequest(request);
+    }
+
+    const database = await this.database;
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private async getRecords(): Promise<Omit<IndexedDbCacheRecord, "data">[]> {
+    const store = await this.getStore("readonly");
+    const index = store.index(LAST_ACCESSED_INDEX);
+
+    // Iterate with a cursor in least recently accessed order, without keeping all data in memory
+    return new Promise((resolve, reject) => {
+      const records: Omit<IndexedDbCacheRecord, "data">[] = [];
+      const request = index.openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          return resolve(records);
+        }
+
+        const { key, size, lastAccessed, contentType } = cursor.value;
+        records.push({ key, size, lastAccessed, contentType });
+        cursor.continue();
+      };
+    });
+  }
+
+  private async evict() {
+    const { maxSize, maxEntries } = this.options;
+    if (maxSize === undefined && maxEntries === undefined) {
+      return;
+    }
+
+    const records = await this.getRecords();
+    let size = records.reduce((total, record) => total + record.size, 0);
+    let entries = records.length;
+
+    for (const record of records) {
+      if (
+        (maxSize === undefined || size <= maxSize) &&
+        (maxEntries === undefined || entries <= maxEntries)
+      ) {
+        return;
+      }
+
+      await this.delete(record.key);
+      size -= record.size;
+      entries -= 1;
+      this.evictions += 1;
+    }
+  }
+}
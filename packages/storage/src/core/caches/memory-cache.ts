@@ -0,0 +1,101 @@
+import {
+  IStorageCache,
+  StorageCacheEntry,
+  StorageCacheOptions,
+  StorageCacheStats,
+} from "../../types";
+
+/**
+ * In-memory least-recently-used cache for downloaded storage content
+ *
+ * @example
+ * ```jsx
+ * // Keep up to 50MB of downloaded content in memory
+ * const cache = new MemoryCache({ maxSize: 50 * 1024 * 1024 });
+ * const storage = new ThirdwebStorage({ cache });
+ * ```
+ *
+ * @public
+ */
+export class MemoryCache implements IStorageCache {
+  private options: StorageCacheOptions;
+  // Map iteration order is insertion order, so the first key is always the least recently used
+  private entries = new Map<string, StorageCacheEntry>();
+  private size = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options?: StorageCacheOptions) {
+    this.options = options || {};
+  }
+
+  async get(key: string): Promise<StorageCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses += 1;
+      return undefined;
+    }
+
+    // Move the entry to the back of the map to mark it as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits += 1;
+    return entry;
+  }
+
+  async set(key: string, entry: StorageCacheEntry): Promise<void> {
+    if (
+      this.options.maxEntrySize !== undefined &&
+      entry.data.byteLength > this.options.maxEntrySize
+    ) {
+      return;
+    }
+
+    await this.delete(key);
+    this.entries.set(key, entry);
+    this.size += entry.data.byteLength;
+    this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.size -= entry.data.byteLength;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.size = 0;
+  }
+
+  async stats(): Promise<StorageCacheStats> {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      size: this.size,
+    };
+  }
+
+  private evict() {
+    const { maxSize, maxEntries } = this.options;
+    while (
+      (maxSize !== undefined && this.size > maxSize) ||
+      (maxEntries !== undefined && this.entries.size > maxEntries)
+    ) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) {
+        return;
+      }
+
+      const entry = this.entries.get(oldest.value) as StorageCacheEntry;
+      this.entries.delete(oldest.value);
+      this.size -= entry.data.byteLength;
+      this.evictions += 1;
+    }
+  }
+}
@@ -1,7 +1,19 @@
 import { replaceSchemeWithGatewayUrl } from "../../common/utils";
-import { GatewayUrls, IStorageDownloader } from "../../types";
+import {
+  DownloadRequestOptions,
+  GatewayHealth,
+  GatewayUrls,
+  IStorageDownloader,
+  StorageDownloaderOptions,
+} from "../../types";
 import fetch from "cross-fetch";
 
+const MAX_ATTEMPTS = 4;
+// Score given to gateways we haven't heard from yet, so that measured fast gateways are preferred
+const UNKNOWN_GATEWAY_LATENCY = 1000;
+const LATENCY_SMOOTHING = 0.3;
+const FAILURE_HALF_LIFE = 60000;
+
 /**
  * Default downloader used - handles downloading from all schemes specified in the gateway URLs configuration.
  *
@@ -10,41 +22,196 @@ import fetch from "cross-fetch";
  * // Can instantiate the downloader with the default gateway URLs
  * const downloader = new StorageDownloader();
  * const storage = new ThirdwebStorage({ downloader });
+ *
+ * // Or race the 2 healthiest gateways, giving up on each after 5 seconds
+ * const downloader = new StorageDownloader({ raceCount: 2, timeout: 5000 });
  * ```
  *
  * @public
  */
 export class StorageDownloader implements IStorageDownloader {
+  private options: StorageDownloaderOptions;
+  private health: Record<string, GatewayHealth> = {};
+
+  constructor(options?: StorageDownloaderOptions) {
+    this.options = options || {};
+  }
+
   async download(
     uri: string,
     gatewayUrls: GatewayUrls,
-    attempts = 0,
+    options?: DownloadRequestOptions,
   ): Promise<Response> {
-    if (attempts > 3) {
-      throw new Error(
-        "[FAILED_TO_DOWNLOAD_ERROR] Failed to download from URI - too many attempts failed.",
-      );
+    const scheme = Object.keys(gatewayUrls).find((s) => uri.startsWith(s));
+    // URLs without a recognized scheme can be requested directly
+    if (!scheme) {
+      return this.fetchWithTimeout(uri, new AbortController(), options);
     }
 
-    // Replace recognized scheme with the highest priority gateway URL that hasn't already been attempted
-    const resolvedUri = replaceSchemeWithGatewayUrl(uri, gatewayUrls, attempts);
-    // If every gateway URL we know about for the designated scheme has been tried (via recursion) and failed, throw an error
-    if (!resolvedUri) {
+    // Replace recognized scheme with the healthiest gateway URLs
+    const resolvedUris = this.rankGateways(gatewayUrls[scheme])
+      .slice(0, MAX_ATTEMPTS)
+      .map((gatewayUrl) =>
+        replaceSchemeWithGatewayUrl(uri, { [scheme]: [gatewayUrl] }),
+      ) as string[];
+
+    // If every gateway URL we know about for the designated scheme has been tried and failed, throw an error
+    if (!resolvedUris.length) {
       throw new Error(
         "[FAILED_TO_DOWNLOAD_ERROR] Unable to download from URI - all gateway URLs failed to respond.",
       );
     }
 
-    const res = await fetch(resolvedUri);
-
-    // If request to the current gateway fails, recursively try the next one we know about
-    if (res.status >= 500 || res.status === 403 || res.status === 408) {
-      console.warn(
-        `Request to ${resolvedUri} failed with status ${res.status} - ${res.statusText}`,
+    const raceCount = Math.max(this.options.raceCount || 1, 1);
+    for (let i = 0; i < resolvedUris.length; i += raceCount) {
+      const res = await this.race(
+        resolvedUris.slice(i, i + raceCount),
+        gatewayUrls[scheme],
+        options,
       );
-      return this.download(uri, gatewayUrls, attempts + 1);
+      if (res) {
+        return res;
+      }
+    }
+
+    throw new Error(
+      resolvedUris.length < gatewayUrls[scheme].length
+        ? "[FAILED_TO_DOWNLOAD_ERROR] Failed to download from URI - too many attempts failed."
+        : "[FAILED_TO_DOWNLOAD_ERROR] Unable to download from URI - all gateway URLs failed to respond.",
+    );
+  }
+
+  /**
+   * Get the recorded health of every gateway this downloader has requested from
+   *
+   * @returns The latency and failures recorded for each gateway URL
+   */
+  getGatewayHealth(): Record<string, GatewayHealth> {
+    return { ...this.health };
+  }
+
+  private rankGateways(gatewayUrls: string[]): string[] {
+    if (this.options.scoreGateways === false) {
+      return gatewayUrls;
+    }
+
+    const scores = gatewayUrls.map((gatewayUrl) => this.score(gatewayUrl));
+    return gatewayUrls
+      .map((gatewayUrl, index) => ({ gatewayUrl, index }))
+      .sort((a, b) => scores[a.index] - scores[b.index] || a.index - b.index)
+      .map(({ gatewayUrl }) => gatewayUrl);
+  }
+
+  private score(gatewayUrl: string): number {
+    const health = this.health[gatewayUrl];
+    if (!health) {
+      return UNKNOWN_GATEWAY_LATENCY;
     }
 
-    return res;
+    // Every recent failure doubles the score, with failures being forgotten over time
+    const elapsed = Date.now() - health.lastFailureAt;
+    const failures = health.failures * 0.5 ** (elapsed / FAILURE_HALF_LIFE);
+    return health.latency * 2 ** failures;
+  }
+
+  private record(gatewayUrl: string, latency: number, failed: boolean) {
+    const health = this.health[gatewayUrl] || {
+      latency,
+      failures: 0,
+      lastFailureAt: 0,
+    };
+
+    health.latency =
+      health.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING;
+    if (failed) {
+      const elapsed = Date.now() - health.lastFailureAt;
+      health.failures =
+        health.failures * 0.5 ** (elapsed / FAILURE_HALF_LIFE) + 1;
+      health.lastFailureAt = Date.now();
+    }
+
+    this.health[gatewayUrl] = health;
+  }
+
+  // Requests all URIs at once and resolves with the first valid response, or undefined if they all fail
+  private async race(
+    resolvedUris: string[],
+    gatewayUrls: string[],
+    options?: DownloadRequestOptions,
+  ): Promise<Response | undefined> {
+    const controllers = resolvedUris.map(() => new AbortController());
+
+    return new Promise((resolve) => {
+      let pending = resolvedUris.length;
+      let settled = false;
+
+      resolvedUris.forEach(async (resolvedUri, index) => {
+        const gatewayUrl = gatewayUrls.find((url) =>
+          resolvedUri.startsWith(url),
+        ) as string;
+        const start = Date.now();
+
+        let res: Response | undefined;
+        try {
+          res = await this.fetchWithTimeout(
+            resolvedUri,
+            controllers[index],
+            options,
+          );
+        } catch (err) {
+          if (!settled) {
+            console.warn(`Request to ${resolvedUri} failed - ${err}`);
+            this.record(gatewayUrl, Date.now() - start, true);
+          }
+        }
+
+        // If request to the current gateway fails, we fall through to the other gateways
+        if (
+          res &&
+          (res.status >= 500 || res.status === 403 || res.status === 408)
+        ) {
+          console.warn(
+            `Request to ${resolvedUri} failed with status ${res.status} - ${res.statusText}`,
+          );
+          this.record(gatewayUrl, Date.now() - start, true);
+          res = undefined;
+        }
+
+        if (res && !settled) {
+          settled = true;
+          this.record(gatewayUrl, Date.now() - start, false);
+          // Cancel the slower requests now that we have a response
+          controllers.forEach(
+            (controller, i) => i !== index && controller.abort(),
+          );
+          return resolve(res);
+        }
+
+        pending -= 1;
+        if (!pending && !settled) {
+          resolve(undefined);
+        }
+      });
+    });
+  }
+
+  private async fetchWithTimeout(
+    resolvedUri: string,
+    controller: AbortController,
+    options?: DownloadRequestOptions,
+  ): Promise<Response> {
+    const timer = this.options.timeout
+      ? setTimeout(() => controller.abort(), this.options.timeout)
+      : undefined;
+
+    try {
+      return await fetch(resolvedUri, {
+        headers: options?.headers,
+        signal: controller.signal as any,
+      });
+    } finally {
+      // Only time out waiting for the response headers, not reading the body
+      clearTimeout(timer);
+    }
   }
 }
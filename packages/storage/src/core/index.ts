@@ -1,3 +1,6 @@
 export { ThirdwebStorage } from "./storage";
 export * from "./downloaders";
 export * from "./uploaders";
+export * from "./caches";
+export * from "./upload-manifests";
+export * from "./pin-managers";
@@ -0,0 +1,2 @@
+export { PinataPinManager } from "./pinata-pin-manager";
+export { KuboPinManager } from "./kubo-pin-manager";
@@ -0,0 +1,117 @@
+import { KUBO_API_URL } from "../../common/urls";
+import { extractCidFromUri } from "../../common/utils";
+import {
+  IStoragePinManager,
+  KuboPinManagerOptions,
+  ListPinsOptions,
+  Pin,
+  PinOptions,
+  PinStatus,
+} from "../../types";
+import fetch from "cross-fetch";
+
+/**
+ * Manages content pinned on a self-hosted IPFS node, using the Kubo HTTP RPC API.
+ *
+ * Kubo only records a name for each pin, so pins can't be listed by date or metadata.
+ *
+ * @example
+ * ```jsx
+ * const pinManager = new KuboPinManager({ apiUrl: "http://127.0.0.1:5001" });
+ *
+ * await pinManager.pin("ipfs://QmHash");
+ * const status = await pinManager.status("ipfs://QmHash");
+ * ```
+ *
+ * @public
+ */
+export class KuboPinManager implements IStoragePinManager {
+  private apiUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(options?: KuboPinManagerOptions) {
+    this.apiUrl = (options?.apiUrl || KUBO_API_URL).replace(/\/$/, "");
+    this.headers = options?.headers || {};
+  }
+
+  async pin(cid: string, options?: PinOptions): Promise<void> {
+    if (options?.metadata) {
+      throw new Error(
+        "[KUBO_PIN_ERROR] Kubo does not support pinning content with metadata",
+      );
+    }
+
+    const params = new URLSearchParams({ arg: extractCidFromUri(cid) });
+    if (options?.name) {
+      params.set("name", options.name);
+    }
+    await this.request("pin/add", params);
+  }
+
+  async unpin(cid: string): Promise<void> {
+    await this.request(
+      "pin/rm",
+      new URLSearchParams({ arg: extractCidFromUri(cid) }),
+    );
+  }
+
+  async list(options?: ListPinsOptions): Promise<Pin[]> {
+    if (options?.since || options?.metadata) {
+      throw new Error(
+        "[KUBO_PIN_ERROR] Kubo does not support listing pins by date or metadata",
+      );
+    }
+
+    const res = await this.request(
+      "pin/ls",
+      new URLSearchParams({ type: "recursive", names: "true" }),
+    );
+    const { Keys } = await res.json();
+    return Object.keys(Keys || {}).map((cid) => ({
+      cid,
+      name: Keys[cid].Name || undefined,
+      metadata: {},
+    }));
+  }
+
+  async status(cid: string): Promise<PinStatus> {
+    const res = await fetch(
+      `${this.apiUrl}/api/v0/pin/ls?${new URLSearchParams({
+        arg: extractCidFromUri(cid),
+        type: "recursive",
+      })}`,
+      { method: "POST", headers: this.headers },
+    );
+    if (res.ok) {
+      return "pinned";
+    }
+
+    // Kubo responds with an error when asked about content that isn't pinned
+    const body = await res.text();
+    if (body.includes("not pinned")) {
+      return "unpinned";
+    }
+    throw new Error(
+      `[KUBO_PIN_ERROR] Request failed with status ${res.status} - ${body}`,
+    );
+  }
+
+  private async request(
+    command: string,
+    params: URLSearchParams,
+  ): Promise<Response> {
+    // The Kubo RPC API only accepts POST requests
+    const res = await fetch(`${this.apiUrl}/api/v0/${command}?${params}`, {
+      method: "POST",
+      headers: this.headers,
+    });
+    if (!res.ok) {
+      throw new Error(
+        `[KUBO_PIN_ERROR] Request failed with status ${
+          res.status
+        } - ${await res.text()}`,
+      );
+    }
+    return res;
+  }
+}
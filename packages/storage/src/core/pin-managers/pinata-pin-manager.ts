@@ -0,0 +1,140 @@
+import { PINATA_API_URL } from "../../common/urls";
+import { extractCidFromUri } from "../../common/utils";
+import {
+  IStoragePinManager,
+  ListPinsOptions,
+  Pin,
+  PinataPinManagerOptions,
+  PinOptions,
+  PinStatus,
+} from "../../types";
+import fetch from "cross-fetch";
+
+const PAGE_LIMIT = 1000;
+
+/**
+ * Manages content pinned to a Pinata account.
+ *
+ * @example
+ * ```jsx
+ * const pinManager = new PinataPinManager({ jwt: process.env.PINATA_JWT });
+ *
+ * // Find and unpin metadata from a drop that was never deployed
+ * const pins = await pinManager.list({ metadata: { drop: "abandoned-drop" } });
+ * for (const pin of pins) {
+ *   await pinManager.unpin(pin.cid);
+ * }
+ * ```
+ *
+ * @public
+ */
+export class PinataPinManager implements IStoragePinManager {
+  private jwt: string;
+  private apiUrl: string;
+
+  constructor(options: PinataPinManagerOptions) {
+    this.jwt = options.jwt;
+    this.apiUrl = (options.apiUrl || PINATA_API_URL).replace(/\/$/, "");
+  }
+
+  async pin(cid: string, options?: PinOptions): Promise<void> {
+    await this.request("/pinning/pinByHash", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        hashToPin: extractCidFromUri(cid),
+        pinataMetadata: {
+          name: options?.name,
+          keyvalues: options?.metadata || {},
+        },
+      }),
+    });
+  }
+
+  async unpin(cid: string): Promise<void> {
+    await this.request(`/pinning/unpin/${extractCidFromUri(cid)}`, {
+      method: "DELETE",
+    });
+  }
+
+  async list(options?: ListPinsOptions): Promise<Pin[]> {
+    const params = new URLSearchParams({
+      status: "pinned",
+      pageLimit: `${PAGE_LIMIT}`,
+    });
+    if (options?.since) {
+      params.set("pinStart", options.since.toISOString());
+    }
+    if (options?.metadata) {
+      const keyvalues: Record<string, { value: string; op: string }> = {};
+      for (const key of Object.keys(options.metadata)) {
+        keyvalues[key] = { value: options.metadata[key], op: "eq" };
+      }
+      params.set("metadata[keyvalues]", JSON.stringify(keyvalues));
+    }
+
+    // Pinata paginates pins, so keep fetching until we get a partial page
+    const pins: Pin[] = [];
+    while (true) {
+      params.set("pageOffset", `${pins.length}`);
+      const res = await this.request(`/data/pinList?${params}`);
+      const { rows } = await res.json();
+
+      for (const row of rows) {
+        pins.push({
+          cid: row.ipfs_pin_hash,
+          name: row.metadata?.name || undefined,
+          size: row.size,
+          createdAt: row.date_pinned ? new Date(row.date_pinned) : undefined,
+          metadata: row.metadata?.keyvalues || {},
+        });
+      }
+
+      if (rows.length < PAGE_LIMIT) {
+        return pins;
+      }
+    }
+  }
+
+  async status(cid: string): Promise<PinStatus> {
+    const hash = extractCidFromUri(cid);
+
+    const pinned = await this.request(
+      `/data/pinList?${new URLSearchParams({
+        hashContains: hash,
+        status: "pinned",
+      })}`,
+    );
+    const { rows } = await pinned.json();
+    if (rows.some((row: any) => row.ipfs_pin_hash === hash)) {
+      return "pinned";
+    }
+
+    // Content pinned by hash is retrieved from the network before it shows up as pinned
+    const jobs = await this.request(
+      `/pinning/pinJobs?${new URLSearchParams({ ipfs_pin_hash: hash })}`,
+    );
+    const [job] = (await jobs.json()).rows || [];
+    if (!job) {
+      return "unpinned";
+    }
+    return job.status === "expired" || job.status === "over_free_limit"
+      ? "failed"
+      : "pinning";
+  }
+
+  private async request(path: string, init?: RequestInit): Promise<Response> {
+    const res = await fetch(`${this.apiUrl}${path}`, {
+      ...init,
+      headers: { ...init?.headers, Authorization: `Bearer ${this.jwt}` },
+    });
+    if (!res.ok) {
+      throw new Error(
+        `[PINATA_PIN_ERROR] Request failed with status ${
+          res.status
+        } - ${await res.text()}`,
+      );
+    }
+    return res;
+  }
+}
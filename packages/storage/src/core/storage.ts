@@ -1,16 +1,34 @@
 import { prepareGatewayUrls } from "../common";
 import {
+  cidEquals,
+  cidToString,
+  computeFileCid,
+  computeIpfsUris,
+  decodeDirectoryLinks,
+  parseCid,
+  verifyBlock,
+} from "../common/cid";
+import {
+  createResponseFromCacheEntry,
   extractObjectFiles,
+  getCacheKeyFromUri,
+  getContentSize,
+  getResponseBodyReader,
   isFileOrBuffer,
   replaceObjectFilesWithUris,
   replaceObjectGatewayUrlsWithSchemes,
+  replaceGatewayUrlWithScheme,
   replaceObjectSchemesWithGatewayUrls,
   replaceSchemeWithGatewayUrl,
+  ResponseBodyReader,
 } from "../common/utils";
 import {
+  DownloadOptions,
+  DownloadStreamOptions,
   FileOrBufferOrString,
   GatewayUrls,
   IpfsUploadBatchOptions,
+  IStorageCache,
   IStorageDownloader,
   ThirdwebStorageOptions,
   IStorageUploader,
@@ -18,6 +36,7 @@ import {
 } from "../types";
 import { StorageDownloader } from "./downloaders/storage-downloader";
 import { IpfsUploader } from "./uploaders/ipfs-uploader";
+import type { Readable } from "stream";
 
 /**
  * Upload and download files from decentralized storage systems.
@@ -43,6 +62,13 @@ import { IpfsUploader } from "./uploaders/ipfs-uploader";
  * const downloader = new StorageDownloader();
  * const uploader = new IpfsUploader();
  * const storage = new ThirdwebStorage({ uploader, downloader, gatewayUrls });
+ *
+ * // Stream large files without loading them into memory
+ * const stream = await storage.downloadStream(uri);
+ *
+ * // Optionally cache downloaded IPFS content, which never changes for a given hash
+ * const cache = new MemoryCache({ maxSize: 50 * 1024 * 1024 });
+ * const cachedStorage = new ThirdwebStorage({ cache });
  * ```
  *
  * @public
@@ -50,11 +76,13 @@ import { IpfsUploader } from "./uploaders/ipfs-uploader";
 export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
   private uploader: IStorageUploader<T>;
   private downloader: IStorageDownloader;
+  private cache?: IStorageCache;
   public gatewayUrls: GatewayUrls;
 
   constructor(options?: ThirdwebStorageOptions<T>) {
     this.uploader = options?.uploader || new IpfsUploader();
     this.downloader = options?.downloader || new StorageDownloader();
+    this.cache = options?.cache;
     this.gatewayUrls = prepareGatewayUrls(options?.gatewayUrls);
   }
 
@@ -77,18 +105,62 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
 
   /**
    * Downloads arbitrary data from any URL scheme.
+   * If a cache is configured, IPFS content is served from the cache when available.
    *
    * @param url - The URL of the data to download
+   * @param options - Options to verify the downloaded content
    * @returns The response object fetched from the resolved URL
    *
    * @example
    * ```jsx
    * const uri = "ipfs://example";
    * const data = await storage.download(uri);
+   *
+   * // Optionally verify that the gateway returned content matching the CID
+   * const verified = await storage.download(uri, { verify: true });
    * ```
    */
-  async download(url: string): Promise<Response> {
-    return this.downloader.download(url, this.gatewayUrls);
+  async download(url: string, options?: DownloadOptions): Promise<Response> {
+    const cacheKey = this.cache
+      ? getCacheKeyFromUri(url, this.gatewayUrls)
+      : undefined;
+    if (this.cache && cacheKey) {
+      const cached = await this.cache.get(cacheKey);
+      if (cached) {
+        if (!options?.verify) {
+          return createResponseFromCacheEntry(cached);
+        }
+        // The cache may have been filled without verification, so check it like a gateway response
+        try {
+          await this.verifyContent(url, cached.data);
+          return createResponseFromCacheEntry(cached);
+        } catch {
+          // Drop the stale or tampered entry and download the content again
+          await this.cache.delete(cacheKey);
+        }
+      }
+    }
+
+    const res = await this.downloader.download(url, this.gatewayUrls);
+    // Never cache or verify error responses, the content may still be retrievable later
+    if (!res.ok || (!options?.verify && !(this.cache && cacheKey))) {
+      return res;
+    }
+
+    // The response body can only be consumed once, so we return a new response from the downloaded data
+    const entry = {
+      data: new Uint8Array(await res.arrayBuffer()),
+      contentType: res.headers.get("content-type") || undefined,
+    };
+
+    if (options?.verify) {
+      await this.verifyContent(url, entry.data);
+    }
+    if (this.cache && cacheKey) {
+      await this.cache.set(cacheKey, entry);
+    }
+
+    return createResponseFromCacheEntry(entry);
   }
 
   /**
@@ -96,6 +168,7 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
    * Resolves any URLs with schemes to retrievable gateway URLs.
    *
    * @param url - The URL of the JSON data to download
+   * @param options - Options to verify the downloaded content
    * @returns The JSON data fetched from the resolved URL
    *
    * @example
@@ -104,14 +177,202 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
    * const json = await storage.downloadJSON(uri);
    * ```
    */
-  async downloadJSON<TJSON = any>(url: string): Promise<TJSON> {
-    const res = await this.download(url);
+  async downloadJSON<TJSON = any>(
+    url: string,
+    options?: DownloadOptions,
+  ): Promise<TJSON> {
+    const res = await this.download(url, options);
 
     // If we get a JSON object, recursively replace any schemes with gatewayUrls
     const json = await res.json();
     return replaceObjectSchemesWithGatewayUrls(json, this.gatewayUrls) as TJSON;
   }
 
+  /**
+   * Downloads data from any URL scheme as a stream, without loading it all into memory.
+   * If the connection to a gateway drops, the download resumes from the next healthiest gateway.
+   * Streamed content is not verified or added to the cache.
+   *
+   * @param url - The URL of the data to download
+   * @param options - Options to download a byte range and track progress
+   * @returns A web stream of the downloaded bytes
+   *
+   * @example
+   * ```jsx
+   * const uri = "ipfs://example";
+   * const stream = await storage.downloadStream(uri, {
+   *   // Only download the first megabyte
+   *   range: { start: 0, end: 1024 * 1024 - 1 },
+   *   onProgress: (event) => console.log(event.progress, event.total),
+   * });
+   * ```
+   */
+  async downloadStream(
+    url: string,
+    options?: DownloadStreamOptions,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const start = options?.range?.start || 0;
+    const end = options?.range?.end;
+    const onProgress = options?.onProgress;
+
+    const cacheKey = this.cache
+      ? getCacheKeyFromUri(url, this.gatewayUrls)
+      : undefined;
+    const cached =
+      this.cache && cacheKey ? await this.cache.get(cacheKey) : undefined;
+    if (cached) {
+      const data = cached.data.slice(
+        start,
+        end === undefined ? undefined : end + 1,
+      );
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+          onProgress?.({ progress: data.byteLength, total: data.byteLength });
+        },
+      });
+    }
+
+    let offset = 0;
+    let retries = options?.retries ?? 3;
+    let skip = 0;
+    let total: number | undefined;
+
+    const open = async () => {
+      const first = start + offset;
+      const headers =
+        first > 0 || end !== undefined
+          ? { Range: `bytes=${first}-${end === undefined ? "" : end}` }
+          : undefined;
+
+      const res = await this.downloader.download(url, this.gatewayUrls, {
+        headers,
+      });
+      if (!res.ok) {
+        throw new Error(
+          `[FAILED_TO_DOWNLOAD_ERROR] Failed to download from URI - gateway responded with status ${res.status}.`,
+        );
+      }
+
+      // Gateways that don't support ranges respond with the whole content, so we skip to the offset ourselves
+      skip = headers && res.status !== 206 ? first : 0;
+      if (total === undefined) {
+        const size = getContentSize(res);
+        if (size !== undefined) {
+          total = (end === undefined ? size : Math.min(end + 1, size)) - start;
+        } else if (end !== undefined) {
+          total = end + 1 - start;
+        }
+      }
+
+      return getResponseBodyReader(res);
+    };
+
+    // Open the first connection eagerly, so missing content rejects instead of erroring the stream
+    let reader: ResponseBodyReader | undefined = await open();
+
+    const read = async (): Promise<Uint8Array | undefined> => {
+      while (true) {
+        if (total !== undefined && offset >= total) {
+          reader?.cancel();
+          return undefined;
+        }
+
+        try {
+          const current: ResponseBodyReader = reader || (reader = await open());
+          const { done, value } = await current.read();
+          if (done || !value) {
+            if (total !== undefined && offset < total) {
+              throw new Error(
+                `Connection closed after ${offset} of ${total} bytes`,
+              );
+            }
+            return undefined;
+          }
+
+          let chunk = value;
+          if (skip) {
+            const skipped = Math.min(skip, chunk.byteLength);
+            skip -= skipped;
+            chunk = chunk.subarray(skipped);
+          }
+          if (end !== undefined) {
+            chunk = chunk.subarray(0, Math.max(end + 1 - start - offset, 0));
+          }
+          if (chunk.byteLength) {
+            return chunk;
+          }
+        } catch (err) {
+          reader = undefined;
+          if (retries <= 0) {
+            throw err;
+          }
+          retries -= 1;
+          console.warn(
+            `Download of ${url} failed after ${offset} bytes, resuming - ${err}`,
+          );
+        }
+      }
+    };
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const chunk = await read();
+        if (!chunk) {
+          controller.close();
+          return;
+        }
+
+        offset += chunk.byteLength;
+        controller.enqueue(chunk);
+        onProgress?.({ progress: offset, total });
+      },
+      cancel() {
+        reader?.cancel();
+      },
+    });
+  }
+
+  /**
+   * Downloads data from any URL scheme as a Node.js readable stream.
+   * Accepts the same options as downloadStream, and can only be used in Node.js.
+   *
+   * @param url - The URL of the data to download
+   * @param options - Options to download a byte range and track progress
+   * @returns A Node.js readable stream of the downloaded bytes
+   *
+   * @example
+   * ```jsx
+   * const stream = await storage.downloadNodeStream("ipfs://example");
+   * stream.pipe(createWriteStream("video.mp4"));
+   * ```
+   */
+  async downloadNodeStream(
+    url: string,
+    options?: DownloadStreamOptions,
+  ): Promise<Readable> {
+    const reader = (await this.downloadStream(url, options)).getReader();
+    const stream = await import("stream");
+
+    return new stream.Readable({
+      read() {
+        reader.read().then(
+          ({ done, value }) => {
+            this.push(done ? null : value);
+          },
+          (err) => this.destroy(err),
+        );
+      },
+      destroy(err, callback) {
+        reader.cancel().then(
+          () => callback(err),
+          () => callback(err),
+        );
+      },
+    });
+  }
+
   /**
    * Upload arbitrary file or JSON data using the configured decentralized storage system.
    * Automatically uploads any file data within JSON objects and replaces them with hashes.
@@ -162,6 +423,61 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
    * ```
    */
   async uploadBatch(data: unknown[], options?: T): Promise<string[]> {
+    return this.processBatch(data, options, (files) =>
+      this.uploader.uploadBatch(files, options),
+    );
+  }
+
+  /**
+   * Compute the IPFS URI that uploading arbitrary file or JSON data will produce, without any network calls.
+   * Matches the directory structure and file names used by the default IPFS uploader.
+   *
+   * @param data - Arbitrary file or JSON data to compute the URI of
+   * @param options - The upload options that will be used to upload the data
+   * @returns - The URI that the data will be uploaded to
+   *
+   * @example
+   * ```jsx
+   * const uri = await storage.computeUri(data);
+   * // The uploaded data will have the same URI
+   * const uploadedUri = await storage.upload(data);
+   * ```
+   */
+  async computeUri(
+    data: unknown,
+    options?: IpfsUploadBatchOptions,
+  ): Promise<string> {
+    const [uri] = await this.computeUriBatch([data], options);
+    return uri;
+  }
+
+  /**
+   * Compute the IPFS URIs that batch uploading arbitrary file or JSON data will produce, without any network calls.
+   * Matches the directory structure and file names used by the default IPFS uploader.
+   *
+   * @param data - Array of arbitrary file or JSON data to compute the URIs of
+   * @param options - The upload options that will be used to upload the data
+   * @returns - The URIs that the data will be uploaded to
+   *
+   * @example
+   * ```jsx
+   * const uris = await storage.computeUriBatch(objects);
+   * ```
+   */
+  async computeUriBatch(
+    data: unknown[],
+    options?: IpfsUploadBatchOptions,
+  ): Promise<string[]> {
+    return this.processBatch(data, options as T | undefined, (files) =>
+      computeIpfsUris(files, options),
+    );
+  }
+
+  private async processBatch(
+    data: unknown[],
+    options: T | undefined,
+    uploadFiles: (files: FileOrBufferOrString[]) => Promise<string[]>,
+  ): Promise<string[]> {
     data = data.filter((item) => item !== undefined);
 
     if (!data.length) {
@@ -176,14 +492,11 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
 
     // If data is an array of files, pass it through to upload directly
     if (isFileArray) {
-      uris = await this.uploader.uploadBatch(
-        data as FileOrBufferOrString[],
-        options,
-      );
+      uris = await uploadFiles(data as FileOrBufferOrString[]);
     } else {
       // Otherwise it is an array of JSON objects, so we have to prepare it first
       const metadata = (
-        await this.uploadAndReplaceFilesWithHashes(data, options)
+        await this.uploadAndReplaceFilesWithHashes(data, options, uploadFiles)
       ).map((item) => {
         if (typeof item === "string") {
           return item;
@@ -191,7 +504,7 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
         return JSON.stringify(item);
       });
 
-      uris = await this.uploader.uploadBatch(metadata, options);
+      uris = await uploadFiles(metadata);
     }
 
     if (options?.uploadWithGatewayUrl || this.uploader.uploadWithGatewayUrl) {
@@ -203,7 +516,8 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
 
   private async uploadAndReplaceFilesWithHashes(
     data: unknown[],
-    options?: T,
+    options: T | undefined,
+    uploadFiles: (files: FileOrBufferOrString[]) => Promise<string[]>,
   ): Promise<unknown[]> {
     let cleaned = data;
     // Replace any gateway URLs with their hashes
@@ -217,7 +531,7 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
 
     if (files.length) {
       // Upload all files that came from the object
-      const uris = await this.uploader.uploadBatch(files, options);
+      const uris = await uploadFiles(files);
 
       // Recurse through data and replace files with hashes
       cleaned = replaceObjectFilesWithUris(cleaned, uris) as unknown[];
@@ -234,4 +548,50 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
 
     return cleaned;
   }
+
+  private async verifyContent(url: string, data: Uint8Array) {
+    const uri = replaceGatewayUrlWithScheme(url, this.gatewayUrls);
+    if (!uri.startsWith("ipfs://")) {
+      throw new Error(
+        `[CID_VERIFICATION_ERROR] Only IPFS URIs can be verified, received ${url}.`,
+      );
+    }
+
+    const [root, ...path] = uri
+      .replace("ipfs://", "")
+      .split(/[?#]/)[0]
+      .split("/")
+      .filter((segment) => !!segment);
+
+    // Walk down the directory blocks from the root to find the CID of the requested file
+    let cid = parseCid(root);
+    for (const segment of path) {
+      const res = await this.downloader.download(
+        `ipfs://${cidToString(cid)}?format=raw`,
+        this.gatewayUrls,
+      );
+      const block = new Uint8Array(await res.arrayBuffer());
+      if (!res.ok || !(await verifyBlock(block, cid))) {
+        throw new Error(
+          `[CID_VERIFICATION_ERROR] Gateway returned an invalid directory block for ${url}.`,
+        );
+      }
+
+      const link = decodeDirectoryLinks(block).find(
+        ({ name }) => name === decodeURIComponent(segment),
+      );
+      if (!link) {
+        throw new Error(
+          `[CID_VERIFICATION_ERROR] Directory does not contain ${segment} for ${url}.`,
+        );
+      }
+      cid = link.cid;
+    }
+
+    if (!cidEquals(await computeFileCid(data, cid.version), cid)) {
+      throw new Error(
+        `[CID_VERIFICATION_ERROR] Downloaded content does not match the CID for ${url}.`,
+      );
+    }
+  }
 }
@@ -0,0 +1,52 @@
+import { IUploadManifestStore, UploadManifest } from "../../types";
+
+/**
+ * Node only - saves upload manifests as JSON files in a directory,
+ * so an upload interrupted by a crash can be resumed by the next process.
+ *
+ * @example
+ * ```jsx
+ * const manifestStore = new FileSystemUploadManifestStore({
+ *   directory: "./.thirdweb-uploads",
+ * });
+ * const uploader = new IpfsUploader({ manifestStore });
+ * ```
+ *
+ * @public
+ */
+export class FileSystemUploadManifestStore implements IUploadManifestStore {
+  private directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  async get(id: string): Promise<UploadManifest | undefined> {
+    const fs = await import("fs/promises");
+    try {
+      return JSON.parse(await fs.readFile(await this.getFilePath(id), "utf-8"));
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  async set(manifest: UploadManifest): Promise<void> {
+    const fs = await import("fs/promises");
+    const file = await this.getFilePath(manifest.id);
+
+    // Write to a temporary file first so a crash never leaves a partially written manifest
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(manifest));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async delete(id: string): Promise<void> {
+    const fs = await import("fs/promises");
+    await fs.rm(await this.getFilePath(id), { force: true });
+  }
+
+  private async getFilePath(id: string): Promise<string> {
+    const path = await import("path");
+    return path.join(this.directory, `${id}.json`);
+  }
+}
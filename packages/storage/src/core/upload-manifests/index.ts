@@ -0,0 +1,2 @@
+export { FileSystemUploadManifestStore } from "./fs-manifest-store";
+export { LocalStorageUploadManifestStore } from "./local-storage-manifest-store";
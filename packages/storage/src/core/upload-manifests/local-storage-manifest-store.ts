@@ -0,0 +1,37 @@
+import { IUploadManifestStore, UploadManifest } from "../../types";
+
+/**
+ * Browser only - saves upload manifests in local storage,
+ * so an upload interrupted by a page reload can be resumed.
+ *
+ * @example
+ * ```jsx
+ * const manifestStore = new LocalStorageUploadManifestStore();
+ * const uploader = new IpfsUploader({ manifestStore });
+ * ```
+ *
+ * @public
+ */
+export class LocalStorageUploadManifestStore implements IUploadManifestStore {
+  private prefix: string;
+
+  constructor(options?: { prefix?: string }) {
+    this.prefix = options?.prefix || "thirdweb-upload-manifest";
+  }
+
+  async get(id: string): Promise<UploadManifest | undefined> {
+    const manifest = localStorage.getItem(`${this.prefix}:${id}`);
+    return manifest ? JSON.parse(manifest) : undefined;
+  }
+
+  async set(manifest: UploadManifest): Promise<void> {
+    localStorage.setItem(
+      `${this.prefix}:${manifest.id}`,
+      JSON.stringify(manifest),
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    localStorage.removeItem(`${this.prefix}:${id}`);
+  }
+}
@@ -0,0 +1,135 @@
+import { ARWEAVE_GATEWAY_URL, BUNDLR_NODE_URL } from "../../common/urls";
+import {
+  fileOrBufferOrStringToBytes,
+  isFileInstance,
+  prepareUploadFiles,
+} from "../../common/utils";
+import {
+  ArweaveTag,
+  ArweaveUploaderOptions,
+  FileOrBufferOrString,
+  IpfsUploadBatchOptions,
+  IStorageUploader,
+} from "../../types";
+import fetch from "cross-fetch";
+
+/**
+ * Uploader for Arweave through an ANS-104 bundler node (ex: Bundlr).
+ * Batches are grouped under an Arweave path manifest, so files can be referenced by name like an IPFS directory.
+ *
+ * @example
+ * ```jsx
+ * // Data items can be signed with any ANS-104 library, ex: arbundles
+ * const signer = new EthereumSigner(privateKey);
+ * const uploader = new ArweaveUploader({
+ *   currency: "matic",
+ *   signDataItem: async (data, tags) => {
+ *     const item = createData(data, signer, { tags });
+ *     await item.sign(signer);
+ *     return item.getRaw();
+ *   },
+ * });
+ * const storage = new ThirdwebStorage({ uploader });
+ * ```
+ *
+ * @public
+ */
+export class ArweaveUploader
+  implements IStorageUploader<IpfsUploadBatchOptions>
+{
+  private options: ArweaveUploaderOptions;
+  private bundlerUrl: string;
+  private gatewayUrl: string;
+
+  constructor(options: ArweaveUploaderOptions) {
+    this.options = options;
+    this.bundlerUrl = (options.bundlerUrl || BUNDLR_NODE_URL).replace(
+      /\/$/,
+      "",
+    );
+    this.gatewayUrl = (options.gatewayUrl || ARWEAVE_GATEWAY_URL).replace(
+      /\/$/,
+      "",
+    );
+  }
+
+  async uploadBatch(
+    data: FileOrBufferOrString[],
+    options?: IpfsUploadBatchOptions,
+  ): Promise<string[]> {
+    if (options?.uploadWithoutDirectory && data.length > 1) {
+      throw new Error(
+        "[UPLOAD_WITHOUT_DIRECTORY_ERROR] Cannot upload more than one file or object without directory!",
+      );
+    }
+
+    const { uploads, fileNames } = prepareUploadFiles(data, options);
+    const files = await Promise.all(
+      uploads.map(async ({ fileName, fileData }) => ({
+        name: fileName,
+        data: await fileOrBufferOrStringToBytes(fileData),
+        contentType: isFileInstance(fileData) ? fileData.type : undefined,
+      })),
+    );
+
+    const total = files.reduce((sum, file) => sum + file.data.length, 0);
+    let progress = 0;
+    const paths: Record<string, { id: string }> = {};
+    for (const file of files) {
+      const tags = file.contentType
+        ? [{ name: "Content-Type", value: file.contentType }]
+        : [];
+      paths[file.name] = { id: await this.uploadDataItem(file.data, tags) };
+
+      progress += file.data.length;
+      if (options?.onProgress) {
+        options.onProgress({ progress, total });
+      }
+    }
+
+    if (options?.uploadWithoutDirectory) {
+      return [`${this.gatewayUrl}/${paths[files[0].name].id}`];
+    }
+
+    const manifest = {
+      manifest: "arweave/paths",
+      version: "0.1.0",
+      paths,
+    };
+    const manifestId = await this.uploadDataItem(
+      new TextEncoder().encode(JSON.stringify(manifest)),
+      [{ name: "Content-Type", value: "application/x.arweave-manifest+json" }],
+    );
+
+    return fileNames.map(
+      (name) => `${this.gatewayUrl}/${manifestId}/${encodeURIComponent(name)}`,
+    );
+  }
+
+  private async uploadDataItem(
+    data: Uint8Array,
+    tags: ArweaveTag[],
+  ): Promise<string> {
+    const dataItem = await this.options.signDataItem(data, tags);
+    const res = await fetch(`${this.bundlerUrl}/tx/${this.options.currency}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: dataItem as any,
+    });
+    if (!res.ok) {
+      throw new Error(
+        `[ARWEAVE_UPLOAD_ERROR] Upload failed with status ${
+          res.status
+        } - ${await res.text()}`,
+      );
+    }
+
+    const body = await res.json();
+    if (!body.id) {
+      throw new Error(
+        "[ARWEAVE_UPLOAD_ERROR] Failed to get transaction ID from upload response",
+      );
+    }
+    return body.id;
+  }
+}
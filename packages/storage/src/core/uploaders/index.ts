@@ -1,2 +1,5 @@
 export { IpfsUploader } from "./ipfs-uploader";
+export { KuboUploader } from "./kubo-uploader";
+export { S3Uploader } from "./s3-uploader";
+export { ArweaveUploader } from "./arweave-uploader";
 export { MockUploader } from "./mock-uploader";
@@ -1,19 +1,48 @@
-import { PINATA_IPFS_URL, TW_IPFS_SERVER_URL } from "../../common/urls";
 import {
+  buildDirectory,
+  buildDirectoryBlock,
+  Cid,
+  cidEquals,
+  cidToString,
+  computeDirectoryLinks,
+  DagPbLink,
+  encodeCar,
+  parseCid,
+} from "../../common/cid";
+import { sha256, toHex } from "../../common/crypto";
+import {
+  PINATA_API_URL,
+  PINATA_UPLOADS_URL,
+  TW_IPFS_SERVER_URL,
+} from "../../common/urls";
+import {
+  fileOrBufferOrStringToBytes,
   isBrowser,
-  isBufferOrStringWithName,
-  isFileBufferOrStringEqual,
+  isBufferInstance,
   isFileInstance,
+  prepareUploadFiles,
 } from "../../common/utils";
 import {
   FileOrBufferOrString,
   IpfsUploadBatchOptions,
   IpfsUploaderOptions,
+  IStoragePinManager,
   IStorageUploader,
+  IUploadManifestStore,
+  ListPinsOptions,
+  Pin,
+  PinOptions,
+  PinStatus,
+  UploadManifest,
 } from "../../types";
+import { PinataPinManager } from "../pin-managers/pinata-pin-manager";
 import fetch from "cross-fetch";
 import FormData from "form-data";
 
+const DEFAULT_MAX_CHUNK_SIZE = 25 * 1024 * 1024;
+
+type UploadFile = ReturnType<typeof prepareUploadFiles>["uploads"][number];
+
 /**
  * Default uploader used - handles uploading arbitrary data to IPFS
  *
@@ -30,15 +59,84 @@ import FormData from "form-data";
  * }
  * const uploader = new StorageUploader(options);
  * const storage = new ThirdwebStorage({ uploader });
+ *
+ * // Large batches are split into chunks that are uploaded concurrently,
+ * // and saving a manifest lets an interrupted upload continue where it stopped
+ * const uploader = new StorageUploader({
+ *   maxChunkSize: 50 * 1024 * 1024,
+ *   concurrency: 4,
+ *   manifestStore: new FileSystemUploadManifestStore({ directory: "./.uploads" }),
+ * });
+ *
+ * // Upload to your own Pinata account to manage the uploaded content later
+ * const uploader = new StorageUploader({ pinataJwt: process.env.PINATA_JWT });
+ * const uri = await new ThirdwebStorage({ uploader }).upload(data, {
+ *   metadata: { drop: "summer-drop" },
+ * });
+ * await uploader.unpin(uri);
  * ```
  *
+ * When a batch is split into chunks, a directory linking to the files of every chunk is imported into Pinata once
+ * they are uploaded, so the whole batch still shares a single base URI. Directories of more files than fit in a single
+ * block are sharded, as IPFS does. With a pinataJwt, the chunks are unpinned once the directory pins all of their files.
+ *
  * @public
  */
-export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
+export class IpfsUploader
+  implements IStorageUploader<IpfsUploadBatchOptions>, IStoragePinManager
+{
   public uploadWithGatewayUrl: boolean;
+  private maxChunkSize: number;
+  private maxChunkFiles?: number;
+  private concurrency: number;
+  private retries: number;
+  private manifestStore?: IUploadManifestStore;
+  private pinataJwt?: string;
+  private apiUrl: string;
+  private uploadsUrl: string;
+  private pinManager?: PinataPinManager;
 
   constructor(options?: IpfsUploaderOptions) {
     this.uploadWithGatewayUrl = options?.uploadWithGatewayUrl || false;
+    this.maxChunkSize = options?.maxChunkSize || DEFAULT_MAX_CHUNK_SIZE;
+    this.maxChunkFiles = options?.maxChunkFiles;
+    this.concurrency = options?.concurrency || 3;
+    this.retries = options?.retries ?? 3;
+    this.manifestStore = options?.manifestStore;
+    this.pinataJwt = options?.pinataJwt;
+    this.apiUrl = (options?.apiUrl || PINATA_API_URL).replace(/\/$/, "");
+    this.uploadsUrl = (options?.uploadsUrl || PINATA_UPLOADS_URL).replace(
+      /\/$/,
+      "",
+    );
+    this.pinManager = options?.pinataJwt
+      ? new PinataPinManager({ jwt: options.pinataJwt, apiUrl: this.apiUrl })
+      : undefined;
+  }
+
+  async pin(cid: string, options?: PinOptions): Promise<void> {
+    return this.getPinManager().pin(cid, options);
+  }
+
+  async unpin(cid: string): Promise<void> {
+    return this.getPinManager().unpin(cid);
+  }
+
+  async list(options?: ListPinsOptions): Promise<Pin[]> {
+    return this.getPinManager().list(options);
+  }
+
+  async status(cid: string): Promise<PinStatus> {
+    return this.getPinManager().status(cid);
+  }
+
+  private getPinManager(): PinataPinManager {
+    if (!this.pinManager) {
+      throw new Error(
+        "[PINATA_PIN_ERROR] Managing pins requires the pinataJwt option, as content is otherwise pinned to the shared thirdweb account.",
+      );
+    }
+    return this.pinManager;
   }
 
   async uploadBatch(
@@ -51,13 +149,217 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
       );
     }
 
-    const formData = new FormData();
-    const { form, fileNames } = this.buildFormData(formData, data, options);
+    const { uploads, fileNames } = prepareUploadFiles(data, options);
+    const chunks = this.splitIntoChunks(uploads);
+
+    const version = options?.cidVersion || 0;
+    const chunkLinks: DagPbLink[][] = [];
+    for (const chunk of chunks) {
+      chunkLinks.push(
+        await computeDirectoryLinks(
+          await Promise.all(
+            chunk.map(async ({ fileName, fileData }) => ({
+              name: fileName,
+              data: await fileOrBufferOrStringToBytes(fileData),
+            })),
+          ),
+          version,
+        ),
+      );
+    }
+    const directory =
+      chunks.length > 1 && !options?.uploadWithoutDirectory
+        ? await buildDirectory(chunkLinks.flat(), version)
+        : undefined;
+
+    const manifest = await this.getManifest(chunks, version);
+    let savingManifest = Promise.resolve();
+
+    const total = uploads.reduce((sum, upload) => sum + getSize(upload), 0);
+    const progressByChunk = chunks.map((chunk, index) =>
+      manifest?.chunks[index] ? getChunkSize(chunk) : 0,
+    );
+    const onChunkProgress = (index: number, progress: number) => {
+      progressByChunk[index] = progress;
+      if (options?.onProgress) {
+        options.onProgress({
+          progress: progressByChunk.reduce((sum, value) => sum + value, 0),
+          total,
+        });
+      }
+    };
 
-    if (isBrowser()) {
-      return this.uploadBatchBrowser(form, fileNames, options);
-    } else {
-      return this.uploadBatchNode(form, fileNames, options);
+    const cids: string[] = [];
+    let nextChunk = 0;
+    let failure: { error: unknown } | undefined;
+    const uploadChunks = async () => {
+      // Stop picking up new chunks after a failure, but let in-flight chunks finish so their progress is saved
+      while (!failure && nextChunk < chunks.length) {
+        const index = nextChunk++;
+        if (manifest?.chunks[index]) {
+          cids[index] = manifest.chunks[index];
+          continue;
+        }
+
+        try {
+          cids[index] = await this.uploadChunkWithRetries(
+            chunks[index],
+            await getExpectedCid(chunkLinks[index], version, options),
+            options,
+            (progress) => onChunkProgress(index, progress),
+          );
+        } catch (error) {
+          failure = failure || { error };
+          return;
+        }
+        onChunkProgress(index, getChunkSize(chunks[index]));
+
+        if (manifest && this.manifestStore) {
+          const store = this.manifestStore;
+          manifest.chunks[index] = cids[index];
+          // Serialize writes so concurrent chunks never save the manifest at the same time
+          savingManifest = savingManifest.then(() => store.set(manifest));
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, chunks.length) }, () =>
+        uploadChunks(),
+      ),
+    );
+    await savingManifest;
+
+    if (failure) {
+      throw failure.error;
+    }
+
+    // The chunks hold the blocks of the files already, so only the blocks of the directory are left to upload
+    const cid = directory
+      ? await this.withRetries(async () => {
+          const uploaded = await this.uploadCar(
+            encodeCar(directory.cid, directory.blocks),
+            options,
+          );
+          verifyUploadedCid(uploaded, directory.cid);
+          return uploaded;
+        })
+      : cids[0];
+
+    if (directory && this.pinManager) {
+      await this.unpinChunks(cids);
+    }
+
+    if (manifest && this.manifestStore) {
+      await this.manifestStore.delete(manifest.id);
+    }
+
+    if (options?.uploadWithoutDirectory) {
+      return [`ipfs://${cid}`];
+    }
+
+    // encode the file names on the way out (which is what the upload backend expects)
+    return fileNames.map((name) => `ipfs://${cid}/${encodeURIComponent(name)}`);
+  }
+
+  private splitIntoChunks(uploads: UploadFile[]): UploadFile[][] {
+    const chunks: UploadFile[][] = [];
+    let chunk: UploadFile[] = [];
+    let chunkSize = 0;
+
+    for (const upload of uploads) {
+      const size = getSize(upload);
+      if (
+        chunk.length &&
+        (chunkSize + size > this.maxChunkSize ||
+          (this.maxChunkFiles !== undefined &&
+            chunk.length >= this.maxChunkFiles))
+      ) {
+        chunks.push(chunk);
+        chunk = [];
+        chunkSize = 0;
+      }
+
+      chunk.push(upload);
+      chunkSize += size;
+    }
+
+    if (chunk.length) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  private async getManifest(
+    chunks: UploadFile[][],
+    version: 0 | 1,
+  ): Promise<UploadManifest | undefined> {
+    if (!this.manifestStore) {
+      return undefined;
+    }
+
+    // Identify the upload by the names and contents of its files, how they are chunked and the CID version
+    const encoder = new TextEncoder();
+    const hashes: string[][] = [];
+    for (const chunk of chunks) {
+      const chunkHashes: string[] = [];
+      for (const { fileName, fileData } of chunk) {
+        const hash = await sha256(await fileOrBufferOrStringToBytes(fileData));
+        chunkHashes.push(`${fileName}:${toHex(hash)}`);
+      }
+      hashes.push(chunkHashes);
+    }
+    const id = toHex(
+      await sha256(encoder.encode(JSON.stringify({ version, hashes }))),
+    );
+
+    return (await this.manifestStore.get(id)) || { id, chunks: {} };
+  }
+
+  private async uploadChunkWithRetries(
+    chunk: UploadFile[],
+    expectedCid: Cid | undefined,
+    options: IpfsUploadBatchOptions | undefined,
+    onProgress: (progress: number) => void,
+  ): Promise<string> {
+    return this.withRetries(
+      async () => {
+        const { form } = this.buildFormData(new FormData(), chunk, options);
+
+        const cid = isBrowser()
+          ? await this.uploadBatchBrowser(form, (loaded, total) =>
+              onProgress(Math.floor((loaded / total) * getChunkSize(chunk))),
+            )
+          : await this.uploadBatchNode(form);
+        if (expectedCid) {
+          verifyUploadedCid(cid, expectedCid);
+        }
+        return cid;
+      },
+      () => onProgress(0),
+    );
+  }
+
+  private async withRetries<T>(
+    fn: () => Promise<T>,
+    onRetry?: () => void,
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn();
+      } catch (err) {
+        if (attempt >= this.retries || isCidMismatchError(err)) {
+          throw err;
+        }
+
+        onRetry?.();
+        const delay = 1000 * 2 ** attempt;
+        console.warn(
+          `[IPFS] Upload attempt ${attempt + 1} failed, retrying in ${delay}ms`,
+          err,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
     }
   }
 
@@ -68,6 +370,10 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
    * @returns - The one time use token that can be passed to the Pinata API.
    */
   private async getUploadToken(): Promise<string> {
+    if (this.pinataJwt) {
+      return this.pinataJwt;
+    }
+
     const res = await fetch(`${TW_IPFS_SERVER_URL}/grant`, {
       method: "GET",
       headers: {
@@ -87,69 +393,15 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
 
   private buildFormData(
     form: FormData,
-    files: FileOrBufferOrString[],
+    uploads: UploadFile[],
     options?: IpfsUploadBatchOptions,
   ) {
-    const fileNameToFileMap = new Map<string, FileOrBufferOrString>();
-    const fileNames: string[] = [];
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      let fileName = "";
-      let fileData = file;
-
-      if (isFileInstance(file)) {
-        if (options?.rewriteFileNames) {
-          let extensions = "";
-          if (file.name) {
-            const extensionStartIndex = file.name.lastIndexOf(".");
-            if (extensionStartIndex > -1) {
-              extensions = file.name.substring(extensionStartIndex);
-            }
-          }
-          fileName = `${
-            i + options.rewriteFileNames.fileStartNumber
-          }${extensions}`;
-        } else {
-          fileName = `${file.name}`;
-        }
-      } else if (isBufferOrStringWithName(file)) {
-        fileData = file.data;
-        if (options?.rewriteFileNames) {
-          fileName = `${i + options.rewriteFileNames.fileStartNumber}`;
-        } else {
-          fileName = `${file.name}`;
-        }
-      } else {
-        if (options?.rewriteFileNames) {
-          fileName = `${i + options.rewriteFileNames.fileStartNumber}`;
-        } else {
-          fileName = `${i}`;
-        }
-      }
-
+    for (const { fileName, fileData } of uploads) {
       // If we don't want to wrap with directory, adjust the filepath
       const filepath = options?.uploadWithoutDirectory
         ? `files`
         : `files/${fileName}`;
 
-      if (fileNameToFileMap.has(fileName)) {
-        // if the file in the map is the same as the file we are already looking at then just skip and continue
-        if (isFileBufferOrStringEqual(fileNameToFileMap.get(fileName), file)) {
-          // we add it to the filenames array so that we can return the correct number of urls,
-          fileNames.push(fileName);
-          // but then we skip because we don't need to upload it multiple times
-          continue;
-        }
-        // otherwise if file names are the same but they are not the same file then we should throw an error (trying to upload to differnt files but with the same names)
-        throw new Error(
-          `[DUPLICATE_FILE_NAME_ERROR] File name ${fileName} was passed for more than one different file.`,
-        );
-      }
-
-      // add it to the map so that we can check for duplicates
-      fileNameToFileMap.set(fileName, file);
-      // add it to the filenames array so that we can return the correct number of urls
-      fileNames.push(fileName);
       if (!isBrowser()) {
         form.append("file", fileData as any, { filepath } as any);
       } else {
@@ -159,30 +411,97 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
       }
     }
 
-    const metadata = { name: `Storage SDK`, keyvalues: {} };
+    const metadata = {
+      name: `Storage SDK`,
+      keyvalues: options?.metadata || {},
+    };
     form.append("pinataMetadata", JSON.stringify(metadata));
 
+    const pinataOptions: Record<string, unknown> = {};
     if (options?.uploadWithoutDirectory) {
+      pinataOptions.wrapWithDirectory = false;
+    }
+    if (options?.cidVersion !== undefined) {
+      pinataOptions.cidVersion = options.cidVersion;
+    }
+
+    if (Object.keys(pinataOptions).length) {
+      form.append("pinataOptions", JSON.stringify(pinataOptions));
+    }
+
+    return { form };
+  }
+
+  /**
+   * Imports a CAR into Pinata as it is, which the pinFileToIPFS endpoint would pin as a single file instead
+   */
+  private async uploadCar(
+    car: Uint8Array,
+    options?: IpfsUploadBatchOptions,
+  ): Promise<string> {
+    const token = await this.getUploadToken();
+
+    const form = new FormData();
+    if (!isBrowser()) {
+      form.append("file", Buffer.from(car), {
+        filepath: "directory.car",
+        contentType: "application/vnd.ipld.car",
+      } as any);
+    } else {
       form.append(
-        "pinataOptions",
-        JSON.stringify({
-          wrapWithDirectory: false,
-        }),
+        "file",
+        new Blob([car], { type: "application/vnd.ipld.car" }) as any,
+        "directory.car",
       );
     }
+    form.append("network", "public");
+    form.append("name", "Storage SDK");
+    form.append("keyvalues", JSON.stringify(options?.metadata || {}));
+    form.append("car", "true");
 
-    return {
-      form,
-      // encode the file names on the way out (which is what the upload backend expects)
-      fileNames: fileNames.map((fName) => encodeURIComponent(fName)),
-    };
+    const res = await fetch(`${this.uploadsUrl}/files`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(isBrowser() ? {} : form.getHeaders()),
+      },
+      body: isBrowser() ? (form as any) : form.getBuffer(),
+    });
+    const body = await res.json();
+    if (!res.ok) {
+      console.warn(body);
+      throw new Error("Failed to upload directory to IPFS");
+    }
+
+    const cid = body.data?.cid;
+    if (!cid) {
+      throw new Error("Failed to upload directory to IPFS");
+    }
+
+    return cid;
+  }
+
+  /**
+   * Unpins the chunks of a batch once its directory is pinned, so unpinning the directory removes the whole batch
+   */
+  private async unpinChunks(cids: string[]) {
+    const pinManager = this.getPinManager();
+    await Promise.all(
+      cids.map(async (cid) => {
+        try {
+          await pinManager.unpin(cid);
+        } catch (err) {
+          // The directory pins the files of the chunk anyway
+          console.warn(`[IPFS] Failed to unpin chunk ${cid}`, err);
+        }
+      }),
+    );
   }
 
   private async uploadBatchBrowser(
     form: FormData,
-    fileNames: string[],
-    options?: IpfsUploadBatchOptions,
-  ): Promise<string[]> {
+    onProgress: (loaded: number, total: number) => void,
+  ): Promise<string> {
     const token = await this.getUploadToken();
 
     return new Promise((resolve, reject) => {
@@ -221,11 +540,8 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
           );
         }
 
-        if (event.lengthComputable && options?.onProgress) {
-          options?.onProgress({
-            progress: event.loaded,
-            total: event.total,
-          });
+        if (event.lengthComputable) {
+          onProgress(event.loaded, event.total);
         }
       });
 
@@ -245,14 +561,12 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
 
           const cid = body.IpfsHash;
           if (!cid) {
-            throw new Error("Failed to get IPFS hash from upload response");
+            return reject(
+              new Error("Failed to get IPFS hash from upload response"),
+            );
           }
 
-          if (options?.uploadWithoutDirectory) {
-            return resolve([`ipfs://${cid}`]);
-          } else {
-            return resolve(fileNames.map((name) => `ipfs://${cid}/${name}`));
-          }
+          return resolve(cid);
         }
 
         return reject(
@@ -280,24 +594,17 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
         return reject(new Error("Unknown upload error occured"));
       });
 
-      xhr.open("POST", PINATA_IPFS_URL);
+      xhr.open("POST", `${this.apiUrl}/pinning/pinFileToIPFS`);
       xhr.setRequestHeader("Authorization", `Bearer ${token}`);
 
       xhr.send(form as any);
     });
   }
 
-  private async uploadBatchNode(
-    form: FormData,
-    fileNames: string[],
-    options?: IpfsUploadBatchOptions,
-  ) {
+  private async uploadBatchNode(form: FormData): Promise<string> {
     const token = await this.getUploadToken();
 
-    if (options?.onProgress) {
-      console.warn("The onProgress option is only supported in the browser");
-    }
-    const res = await fetch(PINATA_IPFS_URL, {
+    const res = await fetch(`${this.apiUrl}/pinning/pinFileToIPFS`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${token}`,
@@ -316,10 +623,61 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
       throw new Error("Failed to upload files to IPFS");
     }
 
-    if (options?.uploadWithoutDirectory) {
-      return [`ipfs://${cid}`];
-    } else {
-      return fileNames.map((name) => `ipfs://${cid}/${name}`);
+    return cid;
+  }
+}
+
+function getSize({ fileData }: UploadFile): number {
+  if (isFileInstance(fileData)) {
+    return fileData.size;
+  }
+  if (isBufferInstance(fileData)) {
+    return fileData.length;
+  }
+  return new TextEncoder().encode(fileData).length;
+}
+
+function getChunkSize(chunk: UploadFile[]): number {
+  return chunk.reduce((sum, upload) => sum + getSize(upload), 0);
+}
+
+/**
+ * The CID a chunk must be uploaded as, unless its directory is large enough to be sharded, which can't be computed locally
+ */
+async function getExpectedCid(
+  links: DagPbLink[],
+  version: 0 | 1,
+  options?: IpfsUploadBatchOptions,
+): Promise<Cid | undefined> {
+  if (options?.uploadWithoutDirectory) {
+    return links[0].cid;
+  }
+  try {
+    return (await buildDirectoryBlock(links, version)).cid;
+  } catch (err) {
+    if (
+      err instanceof Error &&
+      err.message.startsWith("[CID_COMPUTATION_ERROR]")
+    ) {
+      return undefined;
     }
+    throw err;
   }
 }
+
+/**
+ * Check the hash returned by the upload against the CID computed from the uploaded files
+ */
+function verifyUploadedCid(cid: string, expected: Cid) {
+  if (!cidEquals(parseCid(cid), expected)) {
+    throw new Error(
+      `[CID_MISMATCH_ERROR] Upload returned ${cid}, but the uploaded files have the CID ${cidToString(
+        expected,
+      )}.`,
+    );
+  }
+}
+
+function isCidMismatchError(err: unknown): boolean {
+  return err instanceof Error && err.message.startsWith("[CID_MISMATCH_ERROR]");
+}
@@ -0,0 +1,163 @@
+import { KUBO_API_URL } from "../../common/urls";
+import {
+  fileOrBufferOrStringToBytes,
+  isBrowser,
+  prepareUploadFiles,
+  readJsonLines,
+} from "../../common/utils";
+import {
+  FileOrBufferOrString,
+  IpfsUploadBatchOptions,
+  IStoragePinManager,
+  IStorageUploader,
+  KuboUploaderOptions,
+  ListPinsOptions,
+  Pin,
+  PinOptions,
+  PinStatus,
+} from "../../types";
+import { KuboPinManager } from "../pin-managers/kubo-pin-manager";
+import fetch from "cross-fetch";
+import FormData from "form-data";
+
+/**
+ * Uploader for a self-hosted IPFS node, using the Kubo HTTP RPC API.
+ *
+ * @example
+ * ```jsx
+ * // Upload to a node running locally with the default API port
+ * const uploader = new KuboUploader();
+ * const storage = new ThirdwebStorage({ uploader });
+ *
+ * // Or point the uploader at a node on your own infrastructure
+ * const uploader = new KuboUploader({
+ *   apiUrl: "https://ipfs.internal.example.com",
+ *   headers: { Authorization: "Basic ..." },
+ * });
+ *
+ * // Uploaded content can be unpinned from the node once it is no longer needed
+ * await uploader.unpin(uri);
+ * ```
+ *
+ * @public
+ */
+export class KuboUploader
+  implements IStorageUploader<IpfsUploadBatchOptions>, IStoragePinManager
+{
+  public uploadWithGatewayUrl: boolean;
+  private apiUrl: string;
+  private headers: Record<string, string>;
+  private shouldPin: boolean;
+  private pinManager: KuboPinManager;
+
+  constructor(options?: KuboUploaderOptions) {
+    this.uploadWithGatewayUrl = options?.uploadWithGatewayUrl || false;
+    this.apiUrl = (options?.apiUrl || KUBO_API_URL).replace(/\/$/, "");
+    this.headers = options?.headers || {};
+    this.shouldPin = options?.pin ?? true;
+    this.pinManager = new KuboPinManager({
+      apiUrl: this.apiUrl,
+      headers: this.headers,
+    });
+  }
+
+  async pin(cid: string, options?: PinOptions): Promise<void> {
+    return this.pinManager.pin(cid, options);
+  }
+
+  async unpin(cid: string): Promise<void> {
+    return this.pinManager.unpin(cid);
+  }
+
+  async list(options?: ListPinsOptions): Promise<Pin[]> {
+    return this.pinManager.list(options);
+  }
+
+  async status(cid: string): Promise<PinStatus> {
+    return this.pinManager.status(cid);
+  }
+
+  async uploadBatch(
+    data: FileOrBufferOrString[],
+    options?: IpfsUploadBatchOptions,
+  ): Promise<string[]> {
+    if (options?.uploadWithoutDirectory && data.length > 1) {
+      throw new Error(
+        "[UPLOAD_WITHOUT_DIRECTORY_ERROR] Cannot upload more than one file or object without directory!",
+      );
+    }
+
+    const { uploads, fileNames } = prepareUploadFiles(data, options);
+    const files = await Promise.all(
+      uploads.map(async ({ fileName, fileData }) => ({
+        name: fileName,
+        data: await fileOrBufferOrStringToBytes(fileData),
+      })),
+    );
+
+    const form = new FormData();
+    for (const file of files) {
+      // Kubo expects file names to be URL encoded
+      const filename = encodeURIComponent(file.name);
+      if (!isBrowser()) {
+        form.append("file", Buffer.from(file.data), { filename } as any);
+      } else {
+        form.append("file", new Blob([file.data]) as any, filename);
+      }
+    }
+
+    const params = new URLSearchParams({
+      "wrap-with-directory": `${!options?.uploadWithoutDirectory}`,
+      "cid-version": `${options?.cidVersion || 0}`,
+      pin: `${this.shouldPin}`,
+      progress: `${!!options?.onProgress}`,
+    });
+    const res = await fetch(`${this.apiUrl}/api/v0/add?${params}`, {
+      method: "POST",
+      headers: isBrowser()
+        ? this.headers
+        : { ...this.headers, ...form.getHeaders() },
+      body: isBrowser() ? (form as any) : form.getBuffer(),
+    });
+    if (!res.ok) {
+      throw new Error(
+        `[KUBO_UPLOAD_ERROR] Upload failed with status ${
+          res.status
+        } - ${await res.text()}`,
+      );
+    }
+
+    const total = files.reduce((sum, file) => sum + file.data.length, 0);
+    const progressByName: Record<string, number> = {};
+    const hashesByName: Record<string, string> = {};
+    await readJsonLines(res, (line) => {
+      if (line.Hash !== undefined) {
+        hashesByName[line.Name] = line.Hash;
+      } else if (line.Bytes !== undefined && options?.onProgress) {
+        progressByName[line.Name] = line.Bytes;
+        options.onProgress({
+          progress: Object.values(progressByName).reduce((a, b) => a + b, 0),
+          total,
+        });
+      }
+    });
+
+    // When wrapping with a directory, the directory is returned with an empty name
+    const cid = options?.uploadWithoutDirectory
+      ? hashesByName[files[0].name]
+      : hashesByName[""];
+    if (!cid) {
+      throw new Error(
+        "[KUBO_UPLOAD_ERROR] Failed to get IPFS hash from upload response",
+      );
+    }
+
+    if (options?.uploadWithoutDirectory) {
+      return [`ipfs://${cid}`];
+    } else {
+      return fileNames.map(
+        (name) => `ipfs://${cid}/${encodeURIComponent(name)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { hmacSha256, sha256, toHex } from "../../common/crypto";
+import {
+  fileOrBufferOrStringToBytes,
+  isFileInstance,
+  prepareUploadFiles,
+} from "../../common/utils";
+import {
+  FileOrBufferOrString,
+  IpfsUploadBatchOptions,
+  IStorageUploader,
+  S3UploaderOptions,
+} from "../../types";
+import fetch from "cross-fetch";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Uploader for any S3-compatible bucket (AWS S3, Cloudflare R2, MinIO, etc).
+ * Each batch is uploaded under its own directory key, and the URIs returned are public URLs of the objects.
+ *
+ * @example
+ * ```jsx
+ * const uploader = new S3Uploader({
+ *   endpoint: "https://s3.us-east-1.amazonaws.com",
+ *   bucket: "my-nft-assets",
+ *   accessKeyId: process.env.S3_ACCESS_KEY_ID,
+ *   secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+ * });
+ * const storage = new ThirdwebStorage({ uploader });
+ * ```
+ *
+ * @public
+ */
+export class S3Uploader implements IStorageUploader<IpfsUploadBatchOptions> {
+  private options: S3UploaderOptions;
+
+  constructor(options: S3UploaderOptions) {
+    this.options = options;
+  }
+
+  async uploadBatch(
+    data: FileOrBufferOrString[],
+    options?: IpfsUploadBatchOptions,
+  ): Promise<string[]> {
+    if (options?.uploadWithoutDirectory && data.length > 1) {
+      throw new Error(
+        "[UPLOAD_WITHOUT_DIRECTORY_ERROR] Cannot upload more than one file or object without directory!",
+      );
+    }
+
+    const { uploads, fileNames } = prepareUploadFiles(data, options);
+    const files = await Promise.all(
+      uploads.map(async ({ fileName, fileData }) => ({
+        name: fileName,
+        data: await fileOrBufferOrStringToBytes(fileData),
+        contentType: isFileInstance(fileData) ? fileData.type : undefined,
+      })),
+    );
+
+    const prefix = this.options.prefix
+      ? `${this.options.prefix.replace(/\/$/, "")}/`
+      : "";
+    const directory = `${prefix}${uuidv4()}`;
+    const getKey = (name: string) =>
+      options?.uploadWithoutDirectory ? directory : `${directory}/${name}`;
+
+    const total = files.reduce((sum, file) => sum + file.data.length, 0);
+    let progress = 0;
+    for (const file of files) {
+      await this.putObject(getKey(file.name), file.data, file.contentType);
+
+      progress += file.data.length;
+      if (options?.onProgress) {
+        options.onProgress({ progress, total });
+      }
+    }
+
+    const publicUrl = (
+      this.options.publicUrl ||
+      `${this.options.endpoint.replace(/\/$/, "")}/${this.options.bucket}`
+    ).replace(/\/$/, "");
+    return fileNames.map(
+      (name) => `${publicUrl}/${encodeObjectKey(getKey(name))}`,
+    );
+  }
+
+  private async putObject(key: string, data: Uint8Array, contentType?: string) {
+    const endpoint = new URL(this.options.endpoint);
+    const path = `${endpoint.pathname.replace(/\/$/, "")}/${
+      this.options.bucket
+    }/${encodeObjectKey(key)}`;
+    const headers = await this.signRequest("PUT", endpoint.host, path);
+    if (contentType) {
+      headers["content-type"] = contentType;
+    }
+
+    const res = await fetch(`${endpoint.origin}${path}`, {
+      method: "PUT",
+      headers,
+      body: data as any,
+    });
+    if (!res.ok) {
+      throw new Error(
+        `[S3_UPLOAD_ERROR] Upload of ${key} failed with status ${
+          res.status
+        } - ${await res.text()}`,
+      );
+    }
+  }
+
+  // Signs a request with AWS Signature Version 4, without hashing the payload
+  private async signRequest(
+    method: string,
+    host: string,
+    path: string,
+  ): Promise<Record<string, string>> {
+    const encoder = new TextEncoder();
+    const region = this.options.region || "us-east-1";
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host,
+      "x-amz-content-sha256": "UNSIGNED-PAYLOAD",
+      "x-amz-date": amzDate,
+    };
+    const signedHeaders = Object.keys(headers).join(";");
+    const canonicalRequest = [
+      method,
+      path,
+      "",
+      ...Object.entries(headers).map(([name, value]) => `${name}:${value}`),
+      "",
+      signedHeaders,
+      "UNSIGNED-PAYLOAD",
+    ].join("\n");
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      toHex(await sha256(encoder.encode(canonicalRequest))),
+    ].join("\n");
+
+    let signingKey = encoder.encode(`AWS4${this.options.secretAccessKey}`);
+    for (const part of [date, region, "s3", "aws4_request"]) {
+      signingKey = await hmacSha256(signingKey, encoder.encode(part));
+    }
+    const signature = toHex(
+      await hmacSha256(signingKey, encoder.encode(stringToSign)),
+    );
+
+    return {
+      "x-amz-content-sha256": headers["x-amz-content-sha256"],
+      "x-amz-date": amzDate,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+}
+
+function encodeObjectKey(key: string): string {
+  // S3 expects each path segment to be URI encoded, including characters that encodeURIComponent skips
+  return key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+      ),
+    )
+    .join("/");
+}
@@ -0,0 +1,111 @@
+/**
+ * @public
+ */
+export type StorageCacheEntry = {
+  /**
+   * The raw bytes of the cached content
+   */
+  data: Uint8Array;
+  /**
+   * The content type returned by the gateway when the content was first downloaded
+   */
+  contentType?: string;
+};
+
+/**
+ * @public
+ */
+export type StorageCacheStats = {
+  /**
+   * The number of lookups that were served from the cache
+   */
+  hits: number;
+  /**
+   * The number of lookups that were not found in the cache
+   */
+  misses: number;
+  /**
+   * The number of entries removed to stay within the configured limits
+   */
+  evictions: number;
+  /**
+   * The number of entries currently held in the cache
+   */
+  entries: number;
+  /**
+   * The total number of bytes currently held in the cache
+   */
+  size: number;
+};
+
+/**
+ * @public
+ */
+export type StorageCacheOptions = {
+  /**
+   * The maximum number of bytes to keep in the cache before evicting entries
+   */
+  maxSize?: number;
+  /**
+   * The maximum number of entries to keep in the cache before evicting entries
+   */
+  maxEntries?: number;
+  /**
+   * The maximum size in bytes of a single entry, larger entries are never cached
+   */
+  maxEntrySize?: number;
+};
+
+/**
+ * @public
+ */
+export type FileSystemCacheOptions = StorageCacheOptions & {
+  /**
+   * The directory to store cached files in
+   */
+  directory: string;
+};
+
+/**
+ * @public
+ */
+export type IndexedDbCacheOptions = StorageCacheOptions & {
+  /**
+   * The name of the IndexedDB database to store cached entries in
+   */
+  databaseName?: string;
+};
+
+/**
+ * @public
+ */
+export interface IStorageCache {
+  /**
+   * Get a cached entry
+   *
+   * @param key - The content-addressed key of the entry (CID and path)
+   * @returns The cached entry, or undefined if it is not in the cache
+   */
+  get(key: string): Promise<StorageCacheEntry | undefined>;
+  /**
+   * Add an entry to the cache, evicting older entries if necessary
+   *
+   * @param key - The content-addressed key of the entry (CID and path)
+   * @param entry - The entry to cache
+   */
+  set(key: string, entry: StorageCacheEntry): Promise<void>;
+  /**
+   * Remove an entry from the cache
+   *
+   * @param key - The content-addressed key of the entry (CID and path)
+   */
+  delete(key: string): Promise<void>;
+  /**
+   * Remove all entries from the cache
+   */
+  clear(): Promise<void>;
+  /**
+   * Get hit, miss and size statistics for the cache
+   */
+  stats(): Promise<StorageCacheStats>;
+}
@@ -7,11 +7,121 @@ export interface IStorageDownloader {
    *
    * @param url - The URL to download data from
    * @param gatewayUrls - The gateway URLs to use for this download
+   * @param options - Headers to send with the request, like a byte range
    * @returns The response object of the fetch
    */
-  download(url: string, gatewayUrls?: GatewayUrls): Promise<Response>;
+  download(
+    url: string,
+    gatewayUrls?: GatewayUrls,
+    options?: DownloadRequestOptions,
+  ): Promise<Response>;
 }
 
+/**
+ * @public
+ */
+export type DownloadRequestOptions = {
+  /**
+   * Additional headers to send to the gateway
+   */
+  headers?: Record<string, string>;
+};
+
+/**
+ * @public
+ */
+export type StorageDownloaderOptions = {
+  /**
+   * The number of gateways to request from at the same time, taking the first valid response.
+   * Defaults to 1, which tries gateways one after another.
+   */
+  raceCount?: number;
+  /**
+   * The number of milliseconds to wait for a gateway to respond before trying the next one
+   */
+  timeout?: number;
+  /**
+   * Whether or not to reorder gateways based on their recent latency and failures, defaults to true
+   */
+  scoreGateways?: boolean;
+};
+
+/**
+ * @public
+ */
+export type GatewayHealth = {
+  /**
+   * Moving average of the response time of the gateway in milliseconds
+   */
+  latency: number;
+  /**
+   * Number of recent failures, decaying over time
+   */
+  failures: number;
+  /**
+   * Timestamp of the last recorded failure
+   */
+  lastFailureAt: number;
+};
+
+/**
+ * @public
+ */
+export type DownloadOptions = {
+  /**
+   * If specified, IPFS content will be hashed after download and rejected if it doesn't match its CID.
+   * Only supports content imported with the default IPFS settings, and requires gateways that can serve raw blocks.
+   */
+  verify?: boolean;
+};
+
+/**
+ * @public
+ */
+export type ByteRange = {
+  /**
+   * The offset of the first byte to download
+   */
+  start: number;
+  /**
+   * The offset of the last byte to download (inclusive), defaults to the end of the content
+   */
+  end?: number;
+};
+
+/**
+ * @public
+ */
+export type DownloadProgressEvent = {
+  /**
+   * The number of bytes downloaded.
+   */
+  progress: number;
+
+  /**
+   * The total number of bytes to be downloaded, if reported by the gateway.
+   */
+  total?: number;
+};
+
+/**
+ * @public
+ */
+export type DownloadStreamOptions = {
+  /**
+   * If specified, will only download the given range of bytes
+   */
+  range?: ByteRange;
+  /**
+   * Callback that gets triggered as bytes are downloaded
+   */
+  onProgress?: (event: DownloadProgressEvent) => void;
+  /**
+   * The number of times to resume the download from another gateway if the connection drops, defaults to 3
+   */
+  retries?: number;
+};
+
 /**
  * @public
  */
@@ -1,3 +1,4 @@
+import { IStorageCache } from "./cache";
 import { GatewayUrls, IStorageDownloader } from "./download";
 import { IStorageUploader, UploadOptions } from "./upload";
 
@@ -5,8 +6,11 @@ export type ThirdwebStorageOptions<T extends UploadOptions> = {
   uploader?: IStorageUploader<T>;
   downloader?: IStorageDownloader;
   gatewayUrls?: GatewayUrls;
+  cache?: IStorageCache;
 };
 
 export * from "./upload";
 export * from "./download";
 export * from "./data";
+export * from "./cache";
+export * from "./pin";
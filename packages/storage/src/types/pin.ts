@@ -0,0 +1,119 @@
+/**
+ * @public
+ */
+export type PinStatus = "pinned" | "pinning" | "failed" | "unpinned";
+
+/**
+ * @public
+ */
+export type Pin = {
+  /**
+   * The CID of the pinned content
+   */
+  cid: string;
+  /**
+   * The name the content was pinned with, if any
+   */
+  name?: string;
+  /**
+   * The size of the pinned content in bytes, if reported by the pinning service
+   */
+  size?: number;
+  /**
+   * When the content was pinned, if reported by the pinning service
+   */
+  createdAt?: Date;
+  /**
+   * Key-value metadata the content was pinned with
+   */
+  metadata: Record<string, string>;
+};
+
+/**
+ * @public
+ */
+export type PinOptions = {
+  /**
+   * The name to pin the content with
+   */
+  name?: string;
+  /**
+   * Key-value metadata to pin the content with, which can be used to filter pins when listing them
+   */
+  metadata?: Record<string, string>;
+};
+
+/**
+ * @public
+ */
+export type ListPinsOptions = {
+  /**
+   * If specified, only lists content pinned after this date
+   */
+  since?: Date;
+  /**
+   * If specified, only lists content pinned with all of these metadata values
+   */
+  metadata?: Record<string, string>;
+};
+
+/**
+ * @public
+ */
+export interface IStoragePinManager {
+  /**
+   * Pin content that is already available on IPFS
+   *
+   * @param cid - The CID or IPFS URI of the content to pin
+   * @param options - The name and metadata to pin the content with
+   */
+  pin(cid: string, options?: PinOptions): Promise<void>;
+  /**
+   * Unpin content, allowing it to be garbage collected
+   *
+   * @param cid - The CID or IPFS URI of the content to unpin
+   */
+  unpin(cid: string): Promise<void>;
+  /**
+   * List pinned content
+   *
+   * @param options - Filters to apply to the listed pins
+   * @returns The pinned content
+   */
+  list(options?: ListPinsOptions): Promise<Pin[]>;
+  /**
+   * Get the pinning status of content
+   *
+   * @param cid - The CID or IPFS URI of the content
+   * @returns Whether the content is pinned, still being pinned, or not pinned
+   */
+  status(cid: string): Promise<PinStatus>;
+}
+
+/**
+ * @public
+ */
+export type PinataPinManagerOptions = {
+  /**
+   * The JWT of a Pinata API key with pinning and data permissions
+   */
+  jwt: string;
+  /**
+   * The URL of the Pinata API, defaults to https://api.pinata.cloud
+   */
+  apiUrl?: string;
+};
+
+/**
+ * @public
+ */
+export type KuboPinManagerOptions = {
+  /**
+   * The URL of the Kubo HTTP RPC API, defaults to http://127.0.0.1:5001
+   */
+  apiUrl?: string;
+  /**
+   * Headers to send with every request, ex: for basic auth on a proxied node
+   */
+  headers?: Record<string, string>;
+};
@@ -46,8 +46,82 @@ export type IpfsUploaderOptions = {
    * Whether or not to replace any URLs with schemes with resolved URLs before upload
    */
   uploadWithGatewayUrl?: boolean;
+  /**
+   * The maximum number of bytes to upload in a single request, larger batches are split into chunks.
+   * Defaults to 25MB
+   */
+  maxChunkSize?: number;
+  /**
+   * The maximum number of files to upload in a single request, unlimited by default
+   */
+  maxChunkFiles?: number;
+  /**
+   * The number of chunks to upload at the same time, defaults to 3
+   */
+  concurrency?: number;
+  /**
+   * The number of times to retry a chunk that failed to upload, defaults to 3
+   */
+  retries?: number;
+  /**
+   * If specified, the progress of chunked uploads is saved so an interrupted upload can be resumed
+   */
+  manifestStore?: IUploadManifestStore;
+  /**
+   * If specified, uploads to your own Pinata account with this JWT instead of the shared thirdweb account,
+   * which allows the uploaded content to be managed with the pin, unpin, list and status methods
+   */
+  pinataJwt?: string;
+  /**
+   * The URL of the Pinata API, defaults to https://api.pinata.cloud
+   */
+  apiUrl?: string;
+  /**
+   * The URL of the Pinata uploads API, which imports the directory of a batch uploaded in chunks.
+   * Defaults to https://uploads.pinata.cloud/v3
+   */
+  uploadsUrl?: string;
+};
+
+/**
+ * @public
+ */
+export type UploadManifest = {
+  /**
+   * Identifier derived from the names and contents of the uploaded files
+   */
+  id: string;
+  /**
+   * The CIDs of the chunks that have already been uploaded, by chunk index
+   */
+  chunks: Record<number, string>;
 };
 
+/**
+ * @public
+ */
+export interface IUploadManifestStore {
+  /**
+   * Get a saved upload manifest
+   *
+   * @param id - The identifier of the upload
+   * @returns The saved manifest, or undefined if the upload has not been started
+   */
+  get(id: string): Promise<UploadManifest | undefined>;
+  /**
+   * Save the progress of an upload
+   *
+   * @param manifest - The manifest to save
+   */
+  set(manifest: UploadManifest): Promise<void>;
+  /**
+   * Remove the manifest of a completed upload
+   *
+   * @param id - The identifier of the upload
+   */
+  delete(id: string): Promise<void>;
+}
+
 /**
  * @public
  */
@@ -74,4 +148,98 @@ export type IpfsUploadBatchOptions = {
    * If specified, will upload a single file without wrapping it in a directory
    */
   uploadWithoutDirectory?: boolean;
+  /**
+   * The CID version to generate for uploaded content, defaults to 0
+   */
+  cidVersion?: 0 | 1;
+  /**
+   * Key-value metadata to pin uploaded content with on Pinata, which can be used to find it again when listing pins
+   */
+  metadata?: Record<string, string>;
+};
+
+/**
+ * @public
+ */
+export type KuboUploaderOptions = {
+  /**
+   * The URL of the Kubo HTTP RPC API, defaults to http://127.0.0.1:5001
+   */
+  apiUrl?: string;
+  /**
+   * Headers to send with every request, ex: for basic auth on a proxied node
+   */
+  headers?: Record<string, string>;
+  /**
+   * Whether or not to pin uploaded files on the node, defaults to true
+   */
+  pin?: boolean;
+  /**
+   * Whether or not to replace any URLs with schemes with resolved URLs before upload
+   */
+  uploadWithGatewayUrl?: boolean;
+};
+
+/**
+ * @public
+ */
+export type S3UploaderOptions = {
+  /**
+   * The endpoint of the S3-compatible API, ex: https://s3.us-east-1.amazonaws.com
+   */
+  endpoint: string;
+  /**
+   * The bucket to upload files to
+   */
+  bucket: string;
+  /**
+   * The region of the bucket, defaults to us-east-1
+   */
+  region?: string;
+  /**
+   * The access key ID used to sign requests
+   */
+  accessKeyId: string;
+  /**
+   * The secret access key used to sign requests
+   */
+  secretAccessKey: string;
+  /**
+   * Optional prefix to add to all uploaded object keys
+   */
+  prefix?: string;
+  /**
+   * The public base URL that uploaded objects can be downloaded from, defaults to the bucket URL on the endpoint
+   */
+  publicUrl?: string;
+};
+
+/**
+ * @public
+ */
+export type ArweaveTag = {
+  name: string;
+  value: string;
+};
+
+/**
+ * @public
+ */
+export type ArweaveUploaderOptions = {
+  /**
+   * The URL of the bundler node to upload data items to, defaults to https://node1.bundlr.network
+   */
+  bundlerUrl?: string;
+  /**
+   * The currency used to pay the bundler, which must match the signer
+   */
+  currency: string;
+  /**
+   * Creates a signed ANS-104 data item from the given data and tags
+   */
+  signDataItem: (data: Uint8Array, tags: ArweaveTag[]) => Promise<Uint8Array>;
+  /**
+   * The Arweave gateway used for the returned URLs, defaults to https://arweave.net
+   */
+  gatewayUrl?: string;
 };
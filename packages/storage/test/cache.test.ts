@@ -0,0 +1,149 @@
+/* eslint-disable no-unused-expressions */
+import {
+  FileSystemCache,
+  GatewayUrls,
+  IStorageDownloader,
+  MemoryCache,
+  ThirdwebStorage,
+} from "../src";
+import { expect } from "chai";
+import { Response } from "cross-fetch";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+class CountingDownloader implements IStorageDownloader {
+  downloads: string[] = [];
+
+  async download(url: string, _gatewayUrls?: GatewayUrls): Promise<Response> {
+    this.downloads.push(url);
+    if (url.includes("missing")) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    return new Response(JSON.stringify({ url }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  }
+}
+
+describe("Cache", async () => {
+  it("Should only download IPFS content once", async () => {
+    const downloader = new CountingDownloader();
+    const cache = new MemoryCache();
+    const storage = new ThirdwebStorage({ downloader, cache });
+
+    const first = await storage.downloadJSON("ipfs://QmHash/0");
+    const second = await storage.downloadJSON("ipfs://QmHash/0");
+
+    expect(first.url).to.equal(storage.resolveScheme("ipfs://QmHash/0"));
+    expect(second).to.deep.equal(first);
+    expect(downloader.downloads.length).to.equal(1);
+
+    const stats = await cache.stats();
+    expect(stats.hits).to.equal(1);
+    expect(stats.misses).to.equal(1);
+    expect(stats.entries).to.equal(1);
+  });
+
+  it("Should use the same cache key for gateway URLs and schemes", async () => {
+    const downloader = new CountingDownloader();
+    const storage = new ThirdwebStorage({
+      downloader,
+      cache: new MemoryCache(),
+    });
+
+    await storage.download("ipfs://QmHash/0");
+    await storage.download(`${storage.gatewayUrls["ipfs://"][1]}QmHash/0`);
+
+    expect(downloader.downloads.length).to.equal(1);
+  });
+
+  it("Should not cache failed responses or non IPFS URLs", async () => {
+    const downloader = new CountingDownloader();
+    const cache = new MemoryCache();
+    const storage = new ThirdwebStorage({ downloader, cache });
+
+    await storage.download("ipfs://missing/0");
+    await storage.download("ipfs://missing/0");
+    await storage.download("https://example.com/metadata.json");
+    await storage.download("https://example.com/metadata.json");
+
+    expect(downloader.downloads.length).to.equal(4);
+    expect((await cache.stats()).entries).to.equal(0);
+  });
+
+  it("Should evict least recently used entries from memory cache", async () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+    const data = new Uint8Array([1, 2, 3]);
+
+    await cache.set("a", { data });
+    await cache.set("b", { data });
+    await cache.get("a");
+    await cache.set("c", { data });
+
+    expect(await cache.get("a")).to.not.be.undefined;
+    expect(await cache.get("b")).to.be.undefined;
+    expect(await cache.get("c")).to.not.be.undefined;
+
+    const stats = await cache.stats();
+    expect(stats.evictions).to.equal(1);
+    expect(stats.size).to.equal(6);
+  });
+
+  it("Should persist entries to the file system", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "thirdweb-storage-cache-"));
+
+    try {
+      const cache = new FileSystemCache({ directory, maxEntrySize: 4 });
+      await cache.set("QmHash/0", {
+        data: new Uint8Array([1, 2, 3]),
+        contentType: "image/png",
+      });
+      await cache.set("QmHash/1", { data: new Uint8Array([1, 2, 3, 4, 5]) });
+
+      const entry = await new FileSystemCache({ directory }).get("QmHash/0");
+      expect(Array.from(entry?.data || [])).to.deep.equal([1, 2, 3]);
+      expect(entry?.contentType).to.equal("image/png");
+
+      const stats = await cache.stats();
+      expect(stats.entries).to.equal(1);
+      expect(stats.size).to.equal(3);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("Should evict and clear only the entries of the file system cache", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "thirdweb-storage-cache-"));
+    const data = new Uint8Array([1, 2, 3]);
+
+    try {
+      writeFileSync(join(directory, "notes.txt"), "not a cache entry");
+      const cache = new FileSystemCache({ directory, maxEntries: 2 });
+
+      await cache.set("a", { data });
+      await cache.set("b", { data });
+      await cache.get("a");
+      await cache.set("c", { data });
+      await cache.set("c", { data: new Uint8Array([1, 2]) });
+
+      expect(await cache.get("a")).to.not.be.undefined;
+      expect(await cache.get("b")).to.be.undefined;
+      expect(await cache.get("c")).to.not.be.undefined;
+
+      const stats = await cache.stats();
+      expect(stats.evictions).to.equal(1);
+      expect(stats.entries).to.equal(2);
+      expect(stats.size).to.equal(5);
+      // entries are renamed into place, so no temporary files are left behind
+      expect(readdirSync(directory).length).to.equal(5);
+
+      await new FileSystemCache({ directory }).clear();
+      expect(readdirSync(directory)).to.deep.equal(["notes.txt"]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,168 @@
+/* eslint-disable no-unused-expressions */
+import {
+  GatewayUrls,
+  IStorageDownloader,
+  MemoryCache,
+  ThirdwebStorage,
+} from "../src";
+import {
+  buildDirectory,
+  cidToString,
+  computeDirectoryLinks,
+  computeFileCid,
+  parseCid,
+} from "../src/common/cid";
+import { expect } from "chai";
+import { Response } from "cross-fetch";
+import { readFileSync } from "fs";
+
+class StaticDownloader implements IStorageDownloader {
+  files: Record<string, Uint8Array | string>;
+
+  constructor(files: Record<string, Uint8Array | string>) {
+    this.files = files;
+  }
+
+  async download(url: string, _gatewayUrls?: GatewayUrls): Promise<Response> {
+    const file = this.files[url];
+    if (file === undefined) {
+      return new Response("Not found", { status: 404 });
+    }
+    return new Response(file, { status: 200 });
+  }
+}
+
+describe("CID", async () => {
+  const storage = new ThirdwebStorage();
+
+  it("Should compute CIDv0 of files", async () => {
+    const cid = await computeFileCid(new TextEncoder().encode("hello world\n"));
+    expect(cidToString(cid)).to.equal(
+      "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o",
+    );
+  });
+
+  it("Should compute CIDv1 of files with raw leaves", async () => {
+    const cid = await computeFileCid(
+      new TextEncoder().encode("hello world"),
+      1,
+    );
+    expect(cidToString(cid)).to.equal(
+      "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e",
+    );
+  });
+
+  it("Should parse and re-encode CIDs", async () => {
+    for (const cid of [
+      "QmcCJC4T37rykDjR6oorM8hpB9GQWHKWbAi2YR1uTabUZu",
+      "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e",
+    ]) {
+      expect(cidToString(parseCid(cid))).to.equal(cid);
+    }
+  });
+
+  it("Should shard large directories into a HAMT like IPFS", async () => {
+    const links = await computeDirectoryLinks(
+      Array.from({ length: 12000 }, (_, i) => ({
+        name: `${i}`,
+        data: new TextEncoder().encode(`hello${i}`),
+      })),
+      1,
+    );
+
+    // Matches the CID of the same directory imported with sharding by ipfs-unixfs-importer
+    const directory = await buildDirectory(links, 1);
+    expect(cidToString(directory.cid)).to.equal(
+      "bafybeieqk4k4jpdr5duxlmii5qrdbaluogj47btpyj4twj6au2rksfkwpe",
+    );
+    expect(directory.blocks.length).to.be.greaterThan(1);
+  });
+
+  it("Should compute URI of a file in a directory", async () => {
+    const uri = await storage.computeUri(readFileSync("test/files/0.jpg"));
+    expect(uri).to.equal(
+      "ipfs://QmcCJC4T37rykDjR6oorM8hpB9GQWHKWbAi2YR1uTabUZu/0",
+    );
+  });
+
+  it("Should compute URI of JSON with chunked files", async () => {
+    const uri = await storage.computeUri({
+      animation_url: readFileSync("test/files/test.mp4"),
+    });
+    expect(uri).to.equal(
+      "ipfs://QmbaNzUcv7KPgdwq9u2qegcptktpUK6CdRZF72eSjSa6iJ/0",
+    );
+  });
+
+  it("Should compute URI without directory", async () => {
+    const uri = await storage.computeUri(
+      {
+        name: "Upload Without Directory",
+        description: "Uploading alone without a directory...",
+      },
+      { uploadWithoutDirectory: true },
+    );
+    expect(uri).to.equal(
+      "ipfs://QmdnBEP9UFcRfbuAyXFefNccNbuKWTscHrpWZatvqz9VcV",
+    );
+  });
+
+  it("Should compute URIs with rewritten and encoded file names", async () => {
+    const uris = await storage.computeUriBatch(
+      [
+        { name: "first.jpg", data: "first" },
+        { name: "#second.jpg", data: "second" },
+      ],
+      { rewriteFileNames: { fileStartNumber: 5 } },
+    );
+    expect(uris[0].endsWith("/5")).to.be.true;
+    expect(uris[1].endsWith("/6")).to.be.true;
+
+    const [encoded] = await storage.computeUriBatch([
+      { name: "#second.jpg", data: "second" },
+    ]);
+    expect(encoded.endsWith(`/${encodeURIComponent("#second.jpg")}`)).to.be
+      .true;
+  });
+
+  it("Should verify downloaded content", async () => {
+    const data = "hello world\n";
+    const downloader = new StaticDownloader({
+      "ipfs://QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o": data,
+      "ipfs://QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5p": data,
+    });
+    const verifiedStorage = new ThirdwebStorage({ downloader });
+
+    const res = await verifiedStorage.download(
+      "ipfs://QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o",
+      { verify: true },
+    );
+    expect(await res.text()).to.equal(data);
+
+    try {
+      await verifiedStorage.download(
+        "ipfs://QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5p",
+        { verify: true },
+      );
+      expect.fail("Verifying tampered content did not throw an error.");
+    } catch (err: any) {
+      expect(err.message).to.contain("[CID_VERIFICATION_ERROR]");
+    }
+  });
+
+  it("Should verify cached content", async () => {
+    const uri = "ipfs://QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+    const downloader = new StaticDownloader({ [uri]: "tampered\n" });
+    const cache = new MemoryCache();
+    const cachedStorage = new ThirdwebStorage({ downloader, cache });
+
+    // Fill the cache without verification
+    await cachedStorage.download(uri);
+    downloader.files[uri] = "hello world\n";
+
+    const res = await cachedStorage.download(uri, { verify: true });
+    expect(await res.text()).to.equal("hello world\n");
+    const cached = await cachedStorage.download(uri);
+    expect(await cached.text()).to.equal("hello world\n");
+  });
+});
@@ -0,0 +1,97 @@
+/* eslint-disable no-unused-expressions */
+import { StorageDownloader } from "../src";
+import { expect } from "chai";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+
+describe("Downloader", async () => {
+  let server: Server;
+  let url: string;
+  let requests: string[] = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests.push(req.url || "");
+      if (req.url?.startsWith("/slow/")) {
+        const timer = setTimeout(() => res.end("slow"), 2000);
+        res.on("close", () => clearTimeout(timer));
+      } else if (req.url?.startsWith("/broken/")) {
+        res.statusCode = 500;
+        res.end();
+      } else {
+        res.end("fast");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("Should race gateways and take the first valid response", async () => {
+    const downloader = new StorageDownloader({ raceCount: 2 });
+    const gatewayUrls = {
+      "ipfs://": [`${url}/slow/`, `${url}/fast/`],
+    };
+
+    const start = Date.now();
+    const res = await downloader.download("ipfs://QmHash/0", gatewayUrls);
+
+    expect(await res.text()).to.equal("fast");
+    expect(Date.now() - start).to.be.lessThan(1000);
+    expect(requests.length).to.equal(2);
+  });
+
+  it("Should time out slow gateways and fall through to the next one", async () => {
+    const downloader = new StorageDownloader({ timeout: 200 });
+    const gatewayUrls = {
+      "ipfs://": [`${url}/slow/`, `${url}/broken/`, `${url}/fast/`],
+    };
+
+    const res = await downloader.download("ipfs://QmHash/0", gatewayUrls);
+
+    expect(await res.text()).to.equal("fast");
+    expect(requests).to.deep.equal([
+      "/slow/QmHash/0",
+      "/broken/QmHash/0",
+      "/fast/QmHash/0",
+    ]);
+
+    const health = downloader.getGatewayHealth();
+    expect(health[`${url}/slow/`].failures).to.equal(1);
+    expect(health[`${url}/broken/`].failures).to.equal(1);
+    expect(health[`${url}/fast/`].failures).to.equal(0);
+  });
+
+  it("Should prefer healthy gateways on later downloads", async () => {
+    const downloader = new StorageDownloader({ timeout: 200 });
+    const gatewayUrls = {
+      "ipfs://": [`${url}/slow/`, `${url}/broken/`, `${url}/fast/`],
+    };
+
+    await downloader.download("ipfs://QmHash/0", gatewayUrls);
+    requests = [];
+    await downloader.download("ipfs://QmHash/1", gatewayUrls);
+
+    expect(requests).to.deep.equal(["/fast/QmHash/1"]);
+  });
+
+  it("Should throw once all gateways fail", async () => {
+    const downloader = new StorageDownloader();
+
+    try {
+      await downloader.download("ipfs://QmHash/0", {
+        "ipfs://": [`${url}/broken/`],
+      });
+      expect.fail("Downloading from broken gateways did not throw an error.");
+    } catch (err: any) {
+      expect(err.message).to.contain("[FAILED_TO_DOWNLOAD_ERROR]");
+    }
+  });
+});
@@ -448,4 +448,30 @@ describe("IPFS", async () => {
 
     expect(res.status).to.equal(200);
   });
+
+  it("Should upload large batches in chunks", async () => {
+    const uploader = new IpfsUploader({ maxChunkSize: 20000, concurrency: 2 });
+    const chunkedStorage = new ThirdwebStorage({ uploader });
+    const progress: number[] = [];
+
+    const uris = await chunkedStorage.uploadBatch(
+      [
+        readFileSync("test/files/1.jpg"),
+        readFileSync("test/files/2.jpg"),
+        readFileSync("test/files/3.jpg"),
+      ],
+      { onProgress: (event) => progress.push(event.progress) },
+    );
+
+    expect(uris.map((uri) => uri.split("/").at(-1))).to.deep.equal([
+      "0",
+      "1",
+      "2",
+    ]);
+    expect(uris[0].split("/")[2]).to.equal(uris[1].split("/")[2]);
+    expect(progress.at(-1)).to.equal(13874 + 17406 + 10523);
+
+    const res = await chunkedStorage.download(uris[2]);
+    expect(res.status).to.equal(200);
+  });
 });
@@ -0,0 +1,180 @@
+/* eslint-disable no-unused-expressions */
+import { IpfsUploader, KuboUploader, PinataPinManager } from "../src";
+import { expect } from "chai";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+
+type ReceivedRequest = {
+  method?: string;
+  url: URL;
+  headers: IncomingMessage["headers"];
+  body: string;
+};
+
+describe("Pin Managers", async () => {
+  let server: Server;
+  let url: string;
+  let requests: ReceivedRequest[] = [];
+  let pinned: Record<string, { name: string; keyvalues: any }> = {};
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const requestUrl = new URL(req.url || "", "http://localhost");
+        requests.push({
+          method: req.method,
+          url: requestUrl,
+          headers: req.headers,
+          body,
+        });
+
+        const path = requestUrl.pathname;
+        const arg = requestUrl.searchParams.get("arg") || "";
+        res.setHeader("content-type", "application/json");
+
+        // Emulate the Pinata API
+        if (path === "/pinning/pinByHash") {
+          const { hashToPin, pinataMetadata } = JSON.parse(body);
+          pinned[hashToPin] = pinataMetadata;
+          res.end(JSON.stringify({ ipfsHash: hashToPin, status: "queued" }));
+        } else if (path.startsWith("/pinning/unpin/")) {
+          delete pinned[path.replace("/pinning/unpin/", "")];
+          res.end("OK");
+        } else if (path === "/data/pinList") {
+          const filter = JSON.parse(
+            requestUrl.searchParams.get("metadata[keyvalues]") || "{}",
+          );
+          const rows = Object.keys(pinned)
+            .filter((cid) =>
+              Object.keys(filter).every(
+                (key) => pinned[cid].keyvalues[key] === filter[key].value,
+              ),
+            )
+            .map((cid) => ({
+              ipfs_pin_hash: cid,
+              size: 10,
+              date_pinned: "2023-01-01T00:00:00.000Z",
+              metadata: pinned[cid],
+            }));
+          res.end(JSON.stringify({ count: rows.length, rows }));
+        } else if (path === "/pinning/pinJobs") {
+          res.end(JSON.stringify({ count: 0, rows: [] }));
+        } else if (path === "/api/v0/pin/ls" && arg) {
+          // Emulate the Kubo RPC API
+          if (pinned[arg]) {
+            res.end(JSON.stringify({ Keys: { [arg]: { Type: "recursive" } } }));
+          } else {
+            res.statusCode = 500;
+            res.end(JSON.stringify({ Message: `path '${arg}' is not pinned` }));
+          }
+        } else if (path === "/api/v0/pin/ls") {
+          const Keys: Record<string, { Type: string; Name: string }> = {};
+          for (const cid of Object.keys(pinned)) {
+            Keys[cid] = { Type: "recursive", Name: pinned[cid].name };
+          }
+          res.end(JSON.stringify({ Keys }));
+        } else if (path === "/api/v0/pin/add") {
+          pinned[arg] = {
+            name: requestUrl.searchParams.get("name") || "",
+            keyvalues: {},
+          };
+          res.end(JSON.stringify({ Pins: [arg] }));
+        } else if (path === "/api/v0/pin/rm") {
+          delete pinned[arg];
+          res.end(JSON.stringify({ Pins: [arg] }));
+        } else {
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    requests = [];
+    pinned = {};
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("Should pin, list and unpin content on Pinata", async () => {
+    const pinManager = new PinataPinManager({ jwt: "secret", apiUrl: url });
+
+    await pinManager.pin("ipfs://QmFirst/0", {
+      name: "first",
+      metadata: { drop: "abandoned" },
+    });
+    await pinManager.pin("QmSecond", { metadata: { drop: "live" } });
+
+    expect(requests[0].headers.authorization).to.equal("Bearer secret");
+    expect(JSON.parse(requests[0].body).hashToPin).to.equal("QmFirst");
+
+    const since = new Date("2022-01-01");
+    const pins = await pinManager.list({
+      since,
+      metadata: { drop: "abandoned" },
+    });
+    expect(pins).to.deep.equal([
+      {
+        cid: "QmFirst",
+        name: "first",
+        size: 10,
+        createdAt: new Date("2023-01-01T00:00:00.000Z"),
+        metadata: { drop: "abandoned" },
+      },
+    ]);
+    expect(requests[2].url.searchParams.get("pinStart")).to.equal(
+      since.toISOString(),
+    );
+
+    expect(await pinManager.status("QmFirst")).to.equal("pinned");
+    await pinManager.unpin("ipfs://QmFirst");
+    expect(requests[requests.length - 1].method).to.equal("DELETE");
+    expect(await pinManager.status("QmFirst")).to.equal("unpinned");
+  });
+
+  it("Should require a Pinata JWT to manage pins from the IPFS uploader", async () => {
+    try {
+      await new IpfsUploader().list();
+      expect.fail("Listing pins without a JWT did not throw an error.");
+    } catch (err: any) {
+      expect(err.message).to.contain("[PINATA_PIN_ERROR]");
+    }
+  });
+
+  it("Should pin, list and unpin content on a Kubo node", async () => {
+    const uploader = new KuboUploader({
+      apiUrl: url,
+      headers: { Authorization: "Basic auth" },
+    });
+
+    await uploader.pin("ipfs://QmFirst", { name: "first" });
+    expect(requests[0].method).to.equal("POST");
+    expect(requests[0].headers.authorization).to.equal("Basic auth");
+
+    expect(await uploader.list()).to.deep.equal([
+      { cid: "QmFirst", name: "first", metadata: {} },
+    ]);
+    expect(await uploader.status("QmFirst")).to.equal("pinned");
+
+    await uploader.unpin("QmFirst");
+    expect(await uploader.status("QmFirst")).to.equal("unpinned");
+  });
+
+  it("Should reject filters that Kubo does not support", async () => {
+    const uploader = new KuboUploader({ apiUrl: url });
+
+    try {
+      await uploader.list({ since: new Date() });
+      expect.fail("Listing pins by date did not throw an error.");
+    } catch (err: any) {
+      expect(err.message).to.contain("[KUBO_PIN_ERROR]");
+    }
+  });
+});
@@ -0,0 +1,152 @@
+/* eslint-disable no-unused-expressions */
+import {
+  DownloadProgressEvent,
+  MemoryCache,
+  StorageDownloader,
+  ThirdwebStorage,
+} from "../src";
+import { expect } from "chai";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+
+const content = Buffer.from("0123456789".repeat(10000));
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const reader = stream.getReader();
+  const chunks: Buffer[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done || !value) {
+      return Buffer.concat(chunks);
+    }
+    chunks.push(Buffer.from(value));
+  }
+}
+
+describe("Stream", async () => {
+  let server: Server;
+  let url: string;
+  let ranges: (string | undefined)[] = [];
+  let drops = 0;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      ranges.push(req.headers.range);
+      const match = req.headers.range?.match(/^bytes=(\d+)-(\d*)$/);
+
+      if (req.url?.startsWith("/missing/")) {
+        res.statusCode = 404;
+        res.end();
+      } else if (req.url?.startsWith("/norange/") || !match) {
+        res.setHeader("content-length", content.length);
+        res.end(content);
+      } else {
+        const start = parseInt(match[1]);
+        const end = match[2] ? parseInt(match[2]) : content.length - 1;
+        res.statusCode = 206;
+        res.setHeader(
+          "content-range",
+          `bytes ${start}-${end}/${content.length}`,
+        );
+
+        // Emulate a gateway cutting the response short part way through
+        if (req.url?.startsWith("/flaky/") && drops > 0) {
+          drops -= 1;
+          res.end(content.subarray(start, start + 1000));
+          return;
+        }
+        res.end(content.subarray(start, end + 1));
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    ranges = [];
+    drops = 0;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  function createStorage(path: string) {
+    return new ThirdwebStorage({
+      downloader: new StorageDownloader(),
+      gatewayUrls: { "ipfs://": [`${url}/${path}/`] },
+    });
+  }
+
+  it("Should stream a byte range with progress", async () => {
+    const events: DownloadProgressEvent[] = [];
+    const storage = createStorage("gateway");
+
+    const stream = await storage.downloadStream("ipfs://QmHash/0", {
+      range: { start: 10, end: 19999 },
+      onProgress: (event) => events.push(event),
+    });
+    const data = await readAll(stream);
+
+    expect(data.equals(content.subarray(10, 20000))).to.be.true;
+    expect(ranges).to.deep.equal(["bytes=10-19999"]);
+    expect(events[events.length - 1]).to.deep.equal({
+      progress: 19990,
+      total: 19990,
+    });
+  });
+
+  it("Should slice ranges from gateways that ignore them", async () => {
+    const storage = createStorage("norange");
+
+    const stream = await storage.downloadStream("ipfs://QmHash/0", {
+      range: { start: 5, end: 14 },
+    });
+
+    expect((await readAll(stream)).toString()).to.equal("5678901234");
+  });
+
+  it("Should resume from the last byte when a response is cut short", async () => {
+    drops = 1;
+    const storage = createStorage("flaky");
+
+    const stream = await storage.downloadStream("ipfs://QmHash/0", {
+      range: { start: 100 },
+    });
+    const data = await readAll(stream);
+
+    expect(data.equals(content.subarray(100))).to.be.true;
+    expect(ranges).to.deep.equal(["bytes=100-", "bytes=1100-"]);
+  });
+
+  it("Should stream from the cache and to node streams", async () => {
+    const cache = new MemoryCache();
+    await cache.set("QmHash/0", { data: new Uint8Array(content) });
+    const storage = new ThirdwebStorage({
+      cache,
+      gatewayUrls: { "ipfs://": [`${url}/missing/`] },
+    });
+
+    const stream = await storage.downloadNodeStream("ipfs://QmHash/0", {
+      range: { start: 0, end: 9 },
+    });
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(Buffer.concat(chunks).toString()).to.equal("0123456789");
+    expect(ranges.length).to.equal(0);
+  });
+
+  it("Should reject when the content is missing", async () => {
+    const storage = createStorage("missing");
+
+    try {
+      await storage.downloadStream("ipfs://QmHash/0");
+      expect.fail("Streaming missing content did not throw an error.");
+    } catch (err: any) {
+      expect(err.message).to.contain("[FAILED_TO_DOWNLOAD_ERROR]");
+    }
+  });
+});
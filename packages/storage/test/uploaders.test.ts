@@ -0,0 +1,427 @@
+/* eslint-disable no-unused-expressions */
+import {
+  ArweaveUploader,
+  IpfsUploader,
+  IUploadManifestStore,
+  KuboUploader,
+  S3Uploader,
+  ThirdwebStorage,
+  UploadManifest,
+  UploadProgressEvent,
+} from "../src";
+import {
+  cidToString,
+  computeDirectoryCid,
+  computeIpfsUris,
+} from "../src/common/cid";
+import { expect } from "chai";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+
+type ReceivedRequest = {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage["headers"];
+  body: Buffer;
+};
+
+type FormPart = { name: string; filename?: string; data: Buffer };
+
+function parseMultipart(body: Buffer, contentType = ""): FormPart[] {
+  const boundary = `--${contentType.split("boundary=")[1]}`;
+  const parts: FormPart[] = [];
+  let start = body.indexOf(boundary) + boundary.length + 2;
+  for (
+    let end = body.indexOf(boundary, start);
+    end !== -1;
+    end = body.indexOf(boundary, start)
+  ) {
+    const part = body.subarray(start, end - 2);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    const headers = part.subarray(0, headerEnd).toString();
+    parts.push({
+      name: headers.match(/ name="([^"]*)"/)?.[1] || "",
+      filename: headers.match(/filename="([^"]*)"/)?.[1],
+      data: part.subarray(headerEnd + 4),
+    });
+    start = end + boundary.length + 2;
+  }
+  return parts;
+}
+
+// The root of a CAR is the only CID link in its header
+function getCarRoot(car: Buffer): string {
+  const link = car.indexOf(Buffer.from([0xd8, 0x2a]));
+  const [length, offset] =
+    car[link + 2] === 0x58
+      ? [car[link + 3], link + 4]
+      : [car[link + 2] - 0x40, link + 3];
+  // CID links are prefixed with a zero byte
+  const cid = car.subarray(offset + 1, offset + length);
+  return cidToString(
+    cid[0] === 0x12
+      ? { version: 0, codec: 0x70, multihash: cid }
+      : { version: 1, codec: cid[1], multihash: cid.subarray(2) },
+  );
+}
+
+class MemoryUploadManifestStore implements IUploadManifestStore {
+  manifests: Record<string, UploadManifest> = {};
+
+  async get(id: string) {
+    const manifest = this.manifests[id];
+    return manifest && { ...manifest, chunks: { ...manifest.chunks } };
+  }
+
+  async set(manifest: UploadManifest) {
+    this.manifests[manifest.id] = {
+      ...manifest,
+      chunks: { ...manifest.chunks },
+    };
+  }
+
+  async delete(id: string) {
+    delete this.manifests[id];
+  }
+}
+
+describe("Uploaders", async () => {
+  let server: Server;
+  let url: string;
+  let requests: ReceivedRequest[] = [];
+  // Fails uploads by the number of the request
+  let failUpload = (_request: number) => false;
+  let wrongHash = false;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk) => chunks.push(chunk));
+      req.on("end", () => {
+        const body = Buffer.concat(chunks);
+        requests.push({
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body,
+        });
+
+        if (req.url === "/pinning/pinFileToIPFS") {
+          // Emulate Pinata, which hashes the uploaded files into a directory, even if they are CARs
+          res.setHeader("content-type", "application/json");
+          if (failUpload(requests.length)) {
+            res.statusCode = 500;
+            res.end(JSON.stringify({ error: "Internal server error" }));
+            return;
+          }
+
+          const parts = parseMultipart(body, req.headers["content-type"]);
+          const files = parts.filter((part) => part.name === "file");
+          const pinataOptions = parts.find(
+            (part) => part.name === "pinataOptions",
+          );
+          const hash = computeDirectoryCid(
+            files.map((file) => ({
+              name: (file.filename || "").replace("files/", ""),
+              data: new Uint8Array(file.data),
+            })),
+            pinataOptions &&
+              JSON.parse(pinataOptions.data.toString()).cidVersion,
+          )
+            .then(cidToString)
+            .then((cid) => (wrongHash ? `${cid.slice(0, -1)}x` : cid));
+          hash.then((IpfsHash) => res.end(JSON.stringify({ IpfsHash })));
+        } else if (req.url === "/v3/files") {
+          // Emulate the Pinata uploads API, which imports CARs as they are
+          res.setHeader("content-type", "application/json");
+          const parts = parseMultipart(body, req.headers["content-type"]);
+          const file = parts.find((part) => part.name === "file") as FormPart;
+          const car = parts.some(
+            (part) => part.name === "car" && part.data.toString() === "true",
+          );
+          res.end(
+            JSON.stringify({
+              data: { cid: car ? getCarRoot(file.data) : "QmNotImported" },
+            }),
+          );
+        } else if (req.url?.startsWith("/api/v0/add")) {
+          // Emulate the newline delimited JSON response of Kubo
+          const wrap = req.url.includes("wrap-with-directory=true");
+          const lines = [
+            { Name: "0", Bytes: 5 },
+            { Name: "0", Hash: "QmFile", Size: "13" },
+            ...(wrap ? [{ Name: "", Hash: "QmDirectory", Size: "60" }] : []),
+          ];
+          res.end(lines.map((line) => JSON.stringify(line)).join("\n"));
+        } else if (req.url?.startsWith("/tx/")) {
+          res.setHeader("content-type", "application/json");
+          res.end(JSON.stringify({ id: `tx${requests.length}` }));
+        } else {
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    requests = [];
+    failUpload = () => false;
+    wrongHash = false;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("Should upload to a Kubo node with a wrapping directory", async () => {
+    const events: UploadProgressEvent[] = [];
+    const storage = new ThirdwebStorage({
+      uploader: new KuboUploader({ apiUrl: url }),
+    });
+
+    const uri = await storage.upload("hello", {
+      onProgress: (event) => events.push(event),
+    });
+
+    expect(uri).to.equal("ipfs://QmDirectory/0");
+    expect(requests[0].url).to.contain("wrap-with-directory=true");
+    expect(requests[0].url).to.contain("progress=true");
+    expect(events).to.deep.equal([{ progress: 5, total: 5 }]);
+  });
+
+  it("Should upload to a Kubo node without a directory", async () => {
+    const storage = new ThirdwebStorage({
+      uploader: new KuboUploader({ apiUrl: url, pin: false }),
+    });
+
+    const uri = await storage.upload("hello", {
+      uploadWithoutDirectory: true,
+    });
+
+    expect(uri).to.equal("ipfs://QmFile");
+    expect(requests[0].url).to.contain("wrap-with-directory=false");
+    expect(requests[0].url).to.contain("pin=false");
+  });
+
+  it("Should upload signed objects to an S3-compatible bucket", async () => {
+    const events: UploadProgressEvent[] = [];
+    const storage = new ThirdwebStorage({
+      uploader: new S3Uploader({
+        endpoint: url,
+        bucket: "assets",
+        prefix: "drops",
+        accessKeyId: "access",
+        secretAccessKey: "secret",
+      }),
+    });
+
+    const uris = await storage.uploadBatch(
+      [
+        { name: "first file.json", data: "first" },
+        { name: "second.json", data: "second" },
+      ],
+      { onProgress: (event) => events.push(event) },
+    );
+
+    expect(requests.length).to.equal(2);
+    expect(requests[0].method).to.equal("PUT");
+    expect(requests[0].url).to.match(
+      /^\/assets\/drops\/[^/]+\/first%20file.json$/,
+    );
+    expect(requests[0].headers.authorization).to.match(
+      /^AWS4-HMAC-SHA256 Credential=access\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/,
+    );
+    expect(requests[1].body.toString()).to.equal("second");
+    expect(uris[0]).to.equal(`${url}${requests[0].url}`);
+    expect(events).to.deep.equal([
+      { progress: 5, total: 11 },
+      { progress: 11, total: 11 },
+    ]);
+  });
+
+  it("Should upload data items and a path manifest to an Arweave bundler", async () => {
+    const storage = new ThirdwebStorage({
+      uploader: new ArweaveUploader({
+        bundlerUrl: url,
+        currency: "matic",
+        signDataItem: async (data) => data,
+      }),
+    });
+
+    const uris = await storage.uploadBatch(["first", "second"]);
+
+    expect(requests.length).to.equal(3);
+    expect(requests[0].url).to.equal("/tx/matic");
+    expect(JSON.parse(requests[2].body.toString())).to.deep.equal({
+      manifest: "arweave/paths",
+      version: "0.1.0",
+      paths: { 0: { id: "tx1" }, 1: { id: "tx2" } },
+    });
+    expect(uris).to.deep.equal([
+      "https://arweave.net/tx3/0",
+      "https://arweave.net/tx3/1",
+    ]);
+  });
+
+  it("Should upload chunks to Pinata under a single directory", async () => {
+    const uploader = new IpfsUploader({
+      apiUrl: url,
+      uploadsUrl: `${url}/v3`,
+      pinataJwt: "jwt",
+      maxChunkSize: 10,
+    });
+    const files = ["hello0", "hello1", "hello2"];
+
+    const uris = await uploader.uploadBatch(files);
+
+    // One request per chunk, one to import the directory, then the chunks are unpinned
+    const chunkCids = await Promise.all(
+      files.map(async (file, i) =>
+        cidToString(
+          await computeDirectoryCid([
+            { name: `${i}`, data: new TextEncoder().encode(file) },
+          ]),
+        ),
+      ),
+    );
+    expect(requests.slice(0, 4).map((request) => request.url)).to.deep.equal([
+      "/pinning/pinFileToIPFS",
+      "/pinning/pinFileToIPFS",
+      "/pinning/pinFileToIPFS",
+      "/v3/files",
+    ]);
+    expect(
+      requests
+        .slice(4)
+        .map((request) => `${request.method} ${request.url}`)
+        .sort(),
+    ).to.deep.equal(
+      chunkCids.map((cid) => `DELETE /pinning/unpin/${cid}`).sort(),
+    );
+    expect(requests[0].headers.authorization).to.equal("Bearer jwt");
+    expect(requests[3].headers.authorization).to.equal("Bearer jwt");
+    expect(uris).to.deep.equal(await computeIpfsUris(files));
+  });
+
+  it("Should shard the directory of a large batch uploaded in chunks", async () => {
+    const uploader = new IpfsUploader({
+      apiUrl: url,
+      uploadsUrl: `${url}/v3`,
+      pinataJwt: "jwt",
+      maxChunkFiles: 2500,
+      concurrency: 4,
+    });
+    const files = Array.from({ length: 10000 }, (_, i) => `hello${i}`);
+
+    const uris = await uploader.uploadBatch(files);
+
+    // Four chunks, the directory, and the chunks being unpinned
+    expect(requests.length).to.equal(9);
+    const cid = uris[0].split("/")[2];
+    expect(uris).to.deep.equal(files.map((_, i) => `ipfs://${cid}/${i}`));
+
+    const car = parseMultipart(
+      requests[4].body,
+      requests[4].headers["content-type"],
+    ).find((part) => part.name === "file") as FormPart;
+    expect(getCarRoot(car.data)).to.equal(cid);
+  });
+
+  it("Should retry failed chunks with an exponential backoff", async () => {
+    const uploader = new IpfsUploader({
+      apiUrl: url,
+      pinataJwt: "jwt",
+      retries: 2,
+    });
+    failUpload = (request) => request <= 2;
+
+    const started = Date.now();
+    const uris = await uploader.uploadBatch(["hello"]);
+
+    expect(requests.length).to.equal(3);
+    // Waits 1s after the first failure, and 2s after the second one
+    expect(Date.now() - started).to.be.gte(3000);
+    expect(uris).to.deep.equal(await computeIpfsUris(["hello"]));
+  });
+
+  it("Should resume an interrupted upload from its manifest", async () => {
+    const manifestStore = new MemoryUploadManifestStore();
+    const uploader = new IpfsUploader({
+      apiUrl: url,
+      uploadsUrl: `${url}/v3`,
+      pinataJwt: "jwt",
+      maxChunkSize: 10,
+      concurrency: 1,
+      retries: 0,
+      manifestStore,
+    });
+    const files = ["hello0", "hello1", "hello2"];
+
+    // The first chunk goes through, then the upload fails
+    failUpload = (request) => request === 2;
+    try {
+      await uploader.uploadBatch(files);
+      expect.fail("Upload did not fail.");
+    } catch (err: any) {
+      expect(err.message).to.equal("Failed to upload files to IPFS");
+    }
+    const [manifest] = Object.values(manifestStore.manifests);
+    expect(Object.keys(manifest.chunks)).to.deep.equal(["0"]);
+
+    requests = [];
+    failUpload = () => false;
+    const uris = await uploader.uploadBatch(files);
+
+    // Only the remaining chunks and the directory are uploaded, then every chunk is unpinned
+    expect(requests.length).to.equal(6);
+    expect(uris).to.deep.equal(await computeIpfsUris(files));
+    expect(manifestStore.manifests).to.deep.equal({});
+  });
+
+  it("Should not resume an upload with a different CID version", async () => {
+    const manifestStore = new MemoryUploadManifestStore();
+    const uploader = new IpfsUploader({
+      apiUrl: url,
+      uploadsUrl: `${url}/v3`,
+      pinataJwt: "jwt",
+      maxChunkSize: 10,
+      concurrency: 1,
+      retries: 0,
+      manifestStore,
+    });
+    const files = ["hello0", "hello1"];
+
+    failUpload = (request) => request === 2;
+    try {
+      await uploader.uploadBatch(files);
+      expect.fail("Upload did not fail.");
+    } catch (err: any) {
+      expect(err.message).to.equal("Failed to upload files to IPFS");
+    }
+
+    requests = [];
+    failUpload = () => false;
+    const uris = await uploader.uploadBatch(files, { cidVersion: 1 });
+
+    // Every chunk is uploaded again, and the manifest of the CIDv0 upload is kept
+    expect(requests.length).to.equal(5);
+    expect(uris).to.deep.equal(await computeIpfsUris(files, { cidVersion: 1 }));
+    expect(Object.keys(manifestStore.manifests).length).to.equal(1);
+  });
+
+  it("Should reject a hash that doesn't match the uploaded files", async () => {
+    const uploader = new IpfsUploader({ apiUrl: url, pinataJwt: "jwt" });
+    wrongHash = true;
+
+    try {
+      await uploader.uploadBatch(["hello"]);
+      expect.fail("Upload did not fail.");
+    } catch (err: any) {
+      expect(err.message).to.contain("[CID_MISMATCH_ERROR]");
+    }
+    // Not retried, as the upload backend is returning wrong hashes
+    expect(requests.length).to.equal(1);
+  });
+});
@@ -39,14 +39,20 @@ export class DeviceWalletConnector extends TWConnector<DeviceWalletConnectionArg
     if (args.chainId) {
       this.chainId = args.chainId;
     }
-    await this.initializeDeviceWallet(args.password);
+    await this.initializeDeviceWallet(args.password, args.mnemonic);
     const signer = await this.getSigner();
     const address = await signer.getAddress();
     return address;
   }
 
-  async initializeDeviceWallet(password: string) {
+  async initializeDeviceWallet(password: string, mnemonic?: string) {
     // TODO this should be a UI flow prior to calling connect instead
+    if (mnemonic) {
+      // restoring from a backup replaces the saved wallet
+      await this.#wallet.importMnemonic(mnemonic);
+      await this.#wallet.save(password);
+      return;
+    }
     const savedAddr = await this.#wallet.getSavedWalletAddress();
     if (!savedAddr) {
       await this.#wallet.generateNewWallet();
@@ -102,6 +108,26 @@ export class DeviceWalletConnector extends TWConnector<DeviceWalletConnectionArg
     return this.#signer;
   }
 
+  async getAccounts(): Promise<string[]> {
+    return this.#wallet.getAccounts();
+  }
+
+  async addAccount(): Promise<string> {
+    return this.#wallet.addAccount();
+  }
+
+  async switchAccount(index: number): Promise<string> {
+    const address = await this.#wallet.switchAccount(index);
+    // the signer is derived again for the new account
+    this.#signer = undefined;
+    this.emit("change", { account: address });
+    return address;
+  }
+
+  async exportMnemonic(password: string): Promise<string> {
+    return this.#wallet.exportMnemonic(password);
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   async switchChain(chainId: number): Promise<void> {
     // TODO
@@ -4,10 +4,14 @@ export * from "./wallets/wallet-connect";
 export * from "./wallets/injected";
 export * from "./wallets/aws-kms";
 export * from "./wallets/aws-secrets-manager";
+export * from "./wallets/gcp-kms";
+export * from "./wallets/azure-key-vault";
+export * from "./wallets/hashicorp-vault";
 export * from "./wallets/magic-auth";
 export * from "./wallets/private-key";
 export * from "./wallets/ethers";
 export * from "./wallets/device-wallet";
+export * from "./wallets/smart-wallet";
 // just the types
 export type { AbstractBrowserWallet, WalletOptions } from "./wallets/base";
 export type { WalletData, WalletEvents } from "./wallets/abstract";
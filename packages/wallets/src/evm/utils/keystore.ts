@@ -0,0 +1,188 @@
+import { ethers } from "ethers";
+
+export type ScryptParams = {
+  name: "scrypt";
+  N: number;
+  r: number;
+  p: number;
+};
+
+export type Pbkdf2Params = {
+  name: "pbkdf2";
+  iterations: number;
+};
+
+export type KdfParams = ScryptParams | Pbkdf2Params;
+
+/**
+ * The version of the keystore records, records without a version are scrypt keystores saved before versioning
+ */
+export const KEYSTORE_VERSION = 2;
+
+// the ethers defaults, used for standard keystore files
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = {
+  name: "scrypt",
+  N: 1 << 17,
+  r: 8,
+  p: 1,
+};
+
+// uses the native WebCrypto implementation, which is much faster than scrypt on low-end devices
+export const DEFAULT_PBKDF2_PARAMS: Pbkdf2Params = {
+  name: "pbkdf2",
+  iterations: 600000,
+};
+
+type Pbkdf2Keystore = {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+};
+
+type WalletSecret = {
+  privateKey: string;
+  mnemonic?: {
+    phrase: string;
+    path: string;
+  };
+};
+
+async function getSubtleCrypto(): Promise<SubtleCrypto> {
+  if (globalThis.crypto?.subtle) {
+    return globalThis.crypto.subtle;
+  }
+
+  // Node versions before 19 only expose WebCrypto on the crypto module
+  const subtle = await import("crypto")
+    .then((crypto) => crypto.webcrypto?.subtle as SubtleCrypto | undefined)
+    .catch(() => undefined);
+  if (!subtle) {
+    throw new Error("WebCrypto is not available to encrypt the wallet");
+  }
+  return subtle;
+}
+
+async function derivePbkdf2Key(
+  password: string,
+  salt: Uint8Array,
+  params: Pbkdf2Params,
+): Promise<CryptoKey> {
+  const subtle = await getSubtleCrypto();
+  const baseKey = await subtle.importKey(
+    "raw",
+    ethers.utils.toUtf8Bytes(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: params.iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/**
+ * Encrypts the wallet, including its mnemonic, with the given key derivation parameters
+ */
+export async function encryptWallet(
+  wallet: ethers.Wallet,
+  password: string,
+  kdf: KdfParams,
+): Promise<string> {
+  if (kdf.name === "scrypt") {
+    return wallet.encrypt(password, {
+      scrypt: { N: kdf.N, r: kdf.r, p: kdf.p },
+    });
+  }
+
+  const secret: WalletSecret = {
+    privateKey: wallet.privateKey,
+    mnemonic: wallet.mnemonic?.phrase
+      ? { phrase: wallet.mnemonic.phrase, path: wallet.mnemonic.path }
+      : undefined,
+  };
+  const salt = ethers.utils.randomBytes(16);
+  const iv = ethers.utils.randomBytes(12);
+  const key = await derivePbkdf2Key(password, salt, kdf);
+  const subtle = await getSubtleCrypto();
+  const ciphertext = await subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    ethers.utils.toUtf8Bytes(JSON.stringify(secret)),
+  );
+
+  const keystore: Pbkdf2Keystore = {
+    salt: ethers.utils.hexlify(salt),
+    iv: ethers.utils.hexlify(iv),
+    ciphertext: ethers.utils.hexlify(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(keystore);
+}
+
+/**
+ * Decrypts a wallet encrypted with the given key derivation parameters, records without parameters are scrypt keystores
+ */
+export async function decryptWallet(
+  encryptedData: string,
+  password: string,
+  kdf?: KdfParams,
+): Promise<ethers.Wallet> {
+  if (!kdf || kdf.name === "scrypt") {
+    return ethers.Wallet.fromEncryptedJson(encryptedData, password);
+  }
+
+  const keystore: Pbkdf2Keystore = JSON.parse(encryptedData);
+  const key = await derivePbkdf2Key(
+    password,
+    ethers.utils.arrayify(keystore.salt),
+    kdf,
+  );
+
+  const subtle = await getSubtleCrypto();
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await subtle.decrypt(
+      { name: "AES-GCM", iv: ethers.utils.arrayify(keystore.iv) },
+      key,
+      ethers.utils.arrayify(keystore.ciphertext),
+    );
+  } catch {
+    throw new Error("invalid password");
+  }
+
+  const secret: WalletSecret = JSON.parse(
+    ethers.utils.toUtf8String(new Uint8Array(plaintext)),
+  );
+  if (secret.mnemonic) {
+    return ethers.Wallet.fromMnemonic(
+      secret.mnemonic.phrase,
+      secret.mnemonic.path,
+    );
+  }
+  return new ethers.Wallet(secret.privateKey);
+}
+
+/**
+ * Whether a record was encrypted with an older keystore version or different parameters than the given ones
+ */
+export function isKeystoreOutdated(
+  version: number | undefined,
+  recordKdf: KdfParams | undefined,
+  kdf: KdfParams,
+): boolean {
+  if (
+    version !== KEYSTORE_VERSION ||
+    !recordKdf ||
+    recordKdf.name !== kdf.name
+  ) {
+    return true;
+  }
+  if (kdf.name === "scrypt") {
+    const { N, r, p } = recordKdf as ScryptParams;
+    return N !== kdf.N || r !== kdf.r || p !== kdf.p;
+  }
+  return (recordKdf as Pbkdf2Params).iterations !== kdf.iterations;
+}
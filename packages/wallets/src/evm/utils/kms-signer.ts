@@ -0,0 +1,191 @@
+import {
+  TypedDataDomain,
+  TypedDataField,
+  TypedDataSigner,
+} from "@ethersproject/abstract-signer";
+import { ethers } from "ethers";
+
+const SECP256K1_N = ethers.BigNumber.from(
+  "0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141",
+);
+const SECP256K1_HALF_N = SECP256K1_N.div(2);
+
+export type RawSignature = {
+  r: string;
+  s: string;
+};
+
+/**
+ * Base signer for secp256k1 keys held in a key management service, which only returns (r, s) signatures
+ * of digests. The recovery parameter is found by recovering the address of the key.
+ */
+export abstract class KmsSigner
+  extends ethers.Signer
+  implements TypedDataSigner
+{
+  readonly provider?: ethers.providers.Provider;
+  #address?: string;
+
+  constructor(provider?: ethers.providers.Provider) {
+    super();
+    this.provider = provider;
+  }
+
+  /**
+   * Get the uncompressed public key of the key
+   */
+  protected abstract getPublicKey(): Promise<string>;
+
+  /**
+   * Sign the 32 byte digest with the key
+   */
+  protected abstract signRawDigest(digest: Uint8Array): Promise<RawSignature>;
+
+  abstract connect(provider: ethers.providers.Provider): KmsSigner;
+
+  async getAddress(): Promise<string> {
+    if (!this.#address) {
+      this.#address = ethers.utils.computeAddress(await this.getPublicKey());
+    }
+    return this.#address;
+  }
+
+  async signMessage(message: string | ethers.utils.Bytes): Promise<string> {
+    return this._signDigest(ethers.utils.hashMessage(message));
+  }
+
+  async _signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, Array<TypedDataField>>,
+    value: Record<string, any>,
+  ): Promise<string> {
+    // resolve ENS names the same way as ethers wallets
+    const populated = await ethers.utils._TypedDataEncoder.resolveNames(
+      domain,
+      types,
+      value,
+      async (name: string) => {
+        if (!this.provider) {
+          throw new Error("A provider is required to resolve ENS names");
+        }
+        return (await this.provider.resolveName(name)) as string;
+      },
+    );
+    return this._signDigest(
+      ethers.utils._TypedDataEncoder.hash(
+        populated.domain,
+        types,
+        populated.value,
+      ),
+    );
+  }
+
+  async signTransaction(
+    transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>,
+  ): Promise<string> {
+    const tx = await ethers.utils.resolveProperties(transaction);
+    const address = await this.getAddress();
+    if (tx.from && ethers.utils.getAddress(tx.from) !== address) {
+      throw new Error(
+        `Transaction from address mismatch, expected ${address} but got ${tx.from}`,
+      );
+    }
+    delete tx.from;
+
+    const unsigned = tx as ethers.utils.UnsignedTransaction;
+    const signature = await this._signDigest(
+      ethers.utils.keccak256(ethers.utils.serializeTransaction(unsigned)),
+    );
+    return ethers.utils.serializeTransaction(unsigned, signature);
+  }
+
+  async _signDigest(digest: ethers.BytesLike): Promise<string> {
+    const { r, s } = await this.signRawDigest(ethers.utils.arrayify(digest));
+
+    // only signatures with a low s value are valid on ethereum (EIP-2)
+    let sValue = ethers.BigNumber.from(s);
+    if (sValue.gt(SECP256K1_HALF_N)) {
+      sValue = SECP256K1_N.sub(sValue);
+    }
+
+    const address = await this.getAddress();
+    for (const v of [27, 28]) {
+      const signature = ethers.utils.joinSignature({
+        r: ethers.utils.hexZeroPad(r, 32),
+        s: ethers.utils.hexZeroPad(sValue.toHexString(), 32),
+        v,
+      });
+      if (ethers.utils.recoverAddress(digest, signature) === address) {
+        return signature;
+      }
+    }
+    throw new Error("The signature doesn't match the address of the key");
+  }
+}
+
+function readDerLength(
+  der: Uint8Array,
+  offset: number,
+): { length: number; offset: number } {
+  const first = der[offset];
+  if (first < 0x80) {
+    return { length: first, offset: offset + 1 };
+  }
+  const bytes = first & 0x7f;
+  let length = 0;
+  for (let i = 0; i < bytes; i++) {
+    length = (length << 8) | der[offset + 1 + i];
+  }
+  return { length, offset: offset + 1 + bytes };
+}
+
+/**
+ * Parse a DER encoded ECDSA signature into its (r, s) values
+ */
+export function parseDerSignature(signature: ethers.BytesLike): RawSignature {
+  const der = ethers.utils.arrayify(signature);
+  if (der[0] !== 0x30) {
+    throw new Error("Invalid DER signature");
+  }
+  let { offset } = readDerLength(der, 1);
+
+  const values: string[] = [];
+  for (let i = 0; i < 2; i++) {
+    if (der[offset] !== 0x02) {
+      throw new Error("Invalid DER signature");
+    }
+    const integer = readDerLength(der, offset + 1);
+    values.push(
+      ethers.utils.hexlify(
+        der.slice(integer.offset, integer.offset + integer.length),
+      ),
+    );
+    offset = integer.offset + integer.length;
+  }
+
+  return {
+    r: ethers.BigNumber.from(values[0]).toHexString(),
+    s: ethers.BigNumber.from(values[1]).toHexString(),
+  };
+}
+
+/**
+ * Get the uncompressed public key from a PEM or DER encoded secp256k1 SubjectPublicKeyInfo
+ */
+export function parseSpkiPublicKey(publicKey: string | Uint8Array): string {
+  const der =
+    typeof publicKey === "string"
+      ? ethers.utils.base64.decode(
+          publicKey
+            .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, "")
+            .replace(/\s/g, ""),
+        )
+      : publicKey;
+
+  // the uncompressed point is the last field of the key info
+  const key = der.slice(der.length - 65);
+  if (key[0] !== 0x04) {
+    throw new Error("Expected an uncompressed secp256k1 public key");
+  }
+  return ethers.utils.hexlify(key);
+}
@@ -0,0 +1,120 @@
+import { ethers } from "ethers";
+
+/**
+ * The address of the ERC-4337 v0.6 EntryPoint, deployed at the same address on every chain
+ */
+export const DEFAULT_ENTRYPOINT_ADDRESS =
+  "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
+
+/**
+ * An ERC-4337 v0.6 user operation, with every value hex encoded as sent to bundlers
+ */
+export type UserOperation = {
+  sender: string;
+  nonce: string;
+  initCode: string;
+  callData: string;
+  callGasLimit: string;
+  verificationGasLimit: string;
+  preVerificationGas: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  paymasterAndData: string;
+  signature: string;
+};
+
+export type UserOperationReceipt = {
+  userOpHash: string;
+  success: boolean;
+  reason?: string;
+  receipt: {
+    transactionHash: string;
+  };
+};
+
+export type UserOperationGasEstimate = {
+  callGasLimit: ethers.BigNumberish;
+  verificationGasLimit: ethers.BigNumberish;
+  preVerificationGas: ethers.BigNumberish;
+};
+
+/**
+ * Compute the hash of a user operation that is signed by the account owner, as computed by the EntryPoint
+ */
+export function getUserOperationHash(
+  userOp: UserOperation,
+  entryPointAddress: string,
+  chainId: number,
+): string {
+  const packed = ethers.utils.defaultAbiCoder.encode(
+    [
+      "address",
+      "uint256",
+      "bytes32",
+      "bytes32",
+      "uint256",
+      "uint256",
+      "uint256",
+      "uint256",
+      "uint256",
+      "bytes32",
+    ],
+    [
+      userOp.sender,
+      userOp.nonce,
+      ethers.utils.keccak256(userOp.initCode),
+      ethers.utils.keccak256(userOp.callData),
+      userOp.callGasLimit,
+      userOp.verificationGasLimit,
+      userOp.preVerificationGas,
+      userOp.maxFeePerGas,
+      userOp.maxPriorityFeePerGas,
+      ethers.utils.keccak256(userOp.paymasterAndData),
+    ],
+  );
+
+  return ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(
+      ["bytes32", "address", "uint256"],
+      [ethers.utils.keccak256(packed), entryPointAddress, chainId],
+    ),
+  );
+}
+
+/**
+ * Client for the ERC-4337 bundler JSON-RPC methods
+ */
+export class BundlerClient {
+  private provider: ethers.providers.StaticJsonRpcProvider;
+  private entryPointAddress: string;
+
+  constructor(bundlerUrl: string, entryPointAddress: string, chainId: number) {
+    this.provider = new ethers.providers.StaticJsonRpcProvider(
+      bundlerUrl,
+      chainId,
+    );
+    this.entryPointAddress = entryPointAddress;
+  }
+
+  async estimateUserOperationGas(
+    userOp: UserOperation,
+  ): Promise<UserOperationGasEstimate> {
+    return this.provider.send("eth_estimateUserOperationGas", [
+      userOp,
+      this.entryPointAddress,
+    ]);
+  }
+
+  async sendUserOperation(userOp: UserOperation): Promise<string> {
+    return this.provider.send("eth_sendUserOperation", [
+      userOp,
+      this.entryPointAddress,
+    ]);
+  }
+
+  async getUserOperationReceipt(
+    userOpHash: string,
+  ): Promise<UserOperationReceipt | null> {
+    return this.provider.send("eth_getUserOperationReceipt", [userOpHash]);
+  }
+}
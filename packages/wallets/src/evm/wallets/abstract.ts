@@ -50,7 +50,26 @@ export abstract class AbstractWallet
   implements GenericAuthWallet, EVMWallet
 {
   public type: Ecosystem = "evm";
-  protected signer: ethers.Signer | undefined;
+  /**
+   * Sign a raw 32 byte digest, only available when the signer holds a local private key
+   */
+  public signDigest?: (digest: Uint8Array) => Promise<string>;
+  #signer: ethers.Signer | undefined;
+
+  protected get signer(): ethers.Signer | undefined {
+    return this.#signer;
+  }
+
+  protected set signer(signer: ethers.Signer | undefined) {
+    this.#signer = signer;
+
+    // Signers with a local private key can produce standard ES256K authentication tokens
+    this.signDigest =
+      signer instanceof ethers.Wallet
+        ? async (digest: Uint8Array) =>
+            ethers.utils.joinSignature(signer._signingKey().signDigest(digest))
+        : undefined;
+  }
 
   public abstract getSigner(): Promise<ethers.Signer>;
 
@@ -0,0 +1,97 @@
+import { KmsSigner, RawSignature } from "../utils/kms-signer";
+import { AbstractWallet } from "./abstract";
+import { DefaultAzureCredential } from "@azure/identity";
+import { CryptographyClient, KeyClient } from "@azure/keyvault-keys";
+import { ethers } from "ethers";
+
+export type AzureKeyVaultWalletOptions = {
+  vaultUrl: string;
+  keyName: string;
+  keyVersion?: string;
+  /**
+   * Defaults to the credentials of the environment, using `DefaultAzureCredential`
+   */
+  credential?: ConstructorParameters<typeof KeyClient>[1];
+};
+
+/**
+ * Create a wallet instance using a secp256k1 key stored in Azure Key Vault.
+ *
+ * The key must be an `EC` or `EC-HSM` key with the `P-256K` curve.
+ *
+ *  @example
+ * ```javascript
+ * import { ThirdwebSDK } from "@thirdweb-dev/sdk"
+ * import { AzureKeyVaultWallet } from "@thirdweb-dev/wallets/evm/wallets/azure-key-vault"
+ *
+ * const wallet = new AzureKeyVaultWallet({
+ *   vaultUrl: "https://my-vault.vault.azure.net",
+ *   keyName: "my-key",
+ * });
+ *
+ * const sdk = await ThirdwebSDK.fromWallet(wallet, "mainnet");
+ * ```
+ */
+export class AzureKeyVaultWallet extends AbstractWallet {
+  constructor(options: AzureKeyVaultWalletOptions) {
+    super();
+    this.signer = new AzureKeyVaultSigner({
+      ...options,
+      credential: options.credential || new DefaultAzureCredential(),
+    });
+  }
+
+  async getSigner(): Promise<ethers.Signer> {
+    return this.signer as ethers.Signer;
+  }
+}
+
+type AzureKeyVaultSignerOptions = AzureKeyVaultWalletOptions &
+  Required<Pick<AzureKeyVaultWalletOptions, "credential">>;
+
+class AzureKeyVaultSigner extends KmsSigner {
+  private options: AzureKeyVaultSignerOptions;
+  private keyClient: KeyClient;
+  private cryptographyClient: CryptographyClient;
+
+  constructor(
+    options: AzureKeyVaultSignerOptions,
+    provider?: ethers.providers.Provider,
+  ) {
+    super(provider);
+    this.options = options;
+    this.keyClient = new KeyClient(options.vaultUrl, options.credential);
+    this.cryptographyClient = new CryptographyClient(
+      new URL(
+        `/keys/${options.keyName}${
+          options.keyVersion ? `/${options.keyVersion}` : ""
+        }`,
+        options.vaultUrl,
+      ).toString(),
+      options.credential,
+    );
+  }
+
+  protected async getPublicKey(): Promise<string> {
+    const key = await this.keyClient.getKey(this.options.keyName, {
+      version: this.options.keyVersion,
+    });
+    if (key.key?.crv !== "P-256K" || !key.key.x || !key.key.y) {
+      throw new Error(`Key ${this.options.keyName} is not a P-256K key`);
+    }
+    return ethers.utils.hexConcat(["0x04", key.key.x, key.key.y]);
+  }
+
+  protected async signRawDigest(digest: Uint8Array): Promise<RawSignature> {
+    // the signature is the concatenated (r, s) values
+    const { result } = await this.cryptographyClient.sign("ES256K", digest);
+    return {
+      r: ethers.utils.hexlify(result.slice(0, 32)),
+      s: ethers.utils.hexlify(result.slice(32, 64)),
+    };
+  }
+
+  connect(provider: ethers.providers.Provider): AzureKeyVaultSigner {
+    return new AzureKeyVaultSigner(this.options, provider);
+  }
+}
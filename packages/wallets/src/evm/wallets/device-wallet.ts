@@ -1,4 +1,13 @@
-import { TWConnector } from "../interfaces/tw-connector";
+import type { DeviceWalletConnector } from "../connectors/device-wallet";
+import {
+  decryptWallet,
+  DEFAULT_SCRYPT_PARAMS,
+  encryptWallet,
+  isKeystoreOutdated,
+  KdfParams,
+  KEYSTORE_VERSION,
+  ScryptParams,
+} from "../utils/keystore";
 import { AbstractWallet } from "./abstract";
 import { AbstractBrowserWallet, WalletOptions } from "./base";
 import type { Chain } from "@thirdweb-dev/chains";
@@ -12,17 +21,38 @@ export type DeviceWalletOptions = {
       }
     | Chain;
   storage?: "localStore" | "credentialStore";
+  /**
+   * The BIP-44 path accounts are derived along, the account index is appended to it
+   */
+  derivationPath?: string;
+  /**
+   * The key derivation used to encrypt the saved wallet, saved wallets are re-encrypted when it changes.
+   * Use `DEFAULT_PBKDF2_PARAMS` for faster encryption with WebCrypto on low-end devices.
+   */
+  kdf?: KdfParams;
 };
 
 export type DeviceWalletConnectionArgs = {
   password: string;
+  /**
+   * Restore the wallet from a backed up mnemonic, replacing the saved wallet
+   */
+  mnemonic?: string;
 };
 
+const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0";
+
+export {
+  DEFAULT_PBKDF2_PARAMS,
+  DEFAULT_SCRYPT_PARAMS,
+} from "../utils/keystore";
+export type { KdfParams, Pbkdf2Params, ScryptParams } from "../utils/keystore";
+
 export class DeviceBrowserWallet extends AbstractBrowserWallet<
   DeviceWalletOptions,
   DeviceWalletConnectionArgs
 > {
-  #connector?: TWConnector;
+  #connector?: DeviceWalletConnector;
 
   static id = "deviceWallet" as const;
   public get walletName() {
@@ -36,23 +66,27 @@ export class DeviceBrowserWallet extends AbstractBrowserWallet<
     });
   }
 
-  protected async getConnector(): Promise<TWConnector> {
+  protected async getConnector(): Promise<DeviceWalletConnector> {
     if (!this.#connector) {
       // import the connector dynamically
       const { DeviceWalletConnector } = await import(
         "../connectors/device-wallet"
       );
+      const implOptions = {
+        derivationPath: this.options.derivationPath,
+        kdf: this.options.kdf,
+      };
       let wallet: DeviceWalletImpl;
       switch (this.options.storage) {
         case "localStore":
-          wallet = await DeviceWalletImpl.fromBrowserStorage();
+          wallet = await DeviceWalletImpl.fromBrowserStorage(implOptions);
           break;
         case "credentialStore":
-          wallet = await DeviceWalletImpl.fromCredentialStore();
+          wallet = await DeviceWalletImpl.fromCredentialStore(implOptions);
           break;
         default:
           // default to local storage
-          wallet = await DeviceWalletImpl.fromBrowserStorage();
+          wallet = await DeviceWalletImpl.fromBrowserStorage(implOptions);
       }
       this.#connector = new DeviceWalletConnector({
         chain: this.options.chain,
@@ -61,23 +95,76 @@ export class DeviceBrowserWallet extends AbstractBrowserWallet<
     }
     return this.#connector;
   }
+
+  /**
+   * Get the addresses of the accounts derived from the wallet mnemonic
+   */
+  async getAccounts(): Promise<string[]> {
+    const connector = await this.getConnector();
+    return connector.getAccounts();
+  }
+
+  /**
+   * Derive the next account from the wallet mnemonic
+   *
+   * @returns The address of the new account
+   */
+  async addAccount(): Promise<string> {
+    const connector = await this.getConnector();
+    return connector.addAccount();
+  }
+
+  /**
+   * Switch to another derived account, emitting a `change` event
+   *
+   * @param index - The index of the account to switch to
+   * @returns The address of the account
+   */
+  async switchAccount(index: number): Promise<string> {
+    const connector = await this.getConnector();
+    const address = await connector.switchAccount(index);
+    // the cached signer belongs to the previous account
+    this.signer = undefined;
+    return address;
+  }
+
+  /**
+   * Export the mnemonic of the saved wallet, so it can be backed up and restored on another device
+   *
+   * @param password - The password the wallet was saved with
+   */
+  async exportMnemonic(password: string): Promise<string> {
+    const connector = await this.getConnector();
+    return connector.exportMnemonic(password);
+  }
 }
 
 export class DeviceWalletImpl extends AbstractWallet {
-  static async fromBrowserStorage() {
+  static async fromBrowserStorage(
+    options?: Omit<DeviceWalletImplOptions, "storage">,
+  ) {
     return new DeviceWalletImpl({
+      ...options,
       storage: new BrowserStorage(window.localStorage),
     });
   }
 
-  static async fromCredentialStore() {
+  static async fromCredentialStore(
+    options?: Omit<DeviceWalletImplOptions, "storage">,
+  ) {
     return new DeviceWalletImpl({
-      storage: new CredentialsStorage(navigator.credentials),
+      ...options,
+      storage: new CredentialsStorage(
+        navigator.credentials,
+        window.localStorage,
+      ),
     });
   }
 
   private options: DeviceWalletImplOptions;
-  #wallet?: ethers.Wallet;
+  #mnemonic?: string;
+  #accounts: ethers.Wallet[] = [];
+  #accountIndex = 0;
 
   constructor(options: DeviceWalletImplOptions) {
     super();
@@ -87,10 +174,10 @@ export class DeviceWalletImpl extends AbstractWallet {
   async getSigner(
     provider?: ethers.providers.Provider,
   ): Promise<ethers.Signer> {
-    if (!this.#wallet) {
+    let wallet = this.#accounts[this.#accountIndex];
+    if (!wallet) {
       throw new Error("Wallet not initialized");
     }
-    let wallet = this.#wallet;
     if (provider) {
       wallet = wallet.connect(provider);
     }
@@ -106,9 +193,63 @@ export class DeviceWalletImpl extends AbstractWallet {
   }
 
   async generateNewWallet(): Promise<string> {
-    const wallet = ethers.Wallet.createRandom();
-    this.#wallet = wallet;
-    return wallet.address;
+    const mnemonic = ethers.utils.entropyToMnemonic(
+      ethers.utils.randomBytes(16),
+    );
+    return this.importMnemonic(mnemonic);
+  }
+
+  /**
+   * Import a BIP-39 mnemonic, deriving the given number of accounts from it
+   *
+   * @returns The address of the first account
+   */
+  async importMnemonic(mnemonic: string, accountCount = 1): Promise<string> {
+    const phrase = mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+    if (!ethers.utils.isValidMnemonic(phrase)) {
+      throw new Error("Invalid mnemonic");
+    }
+
+    this.#mnemonic = phrase;
+    this.#accounts = [];
+    this.#accountIndex = 0;
+    this.signer = undefined;
+    for (let i = 0; i < Math.max(accountCount, 1); i++) {
+      this.#accounts.push(this.deriveAccount(i));
+    }
+    return this.#accounts[0].address;
+  }
+
+  async getAccounts(): Promise<string[]> {
+    return this.#accounts.map((account) => account.address);
+  }
+
+  async getAccountIndex(): Promise<number> {
+    return this.#accountIndex;
+  }
+
+  /**
+   * Derive the next account from the mnemonic
+   *
+   * @returns The address of the new account
+   */
+  async addAccount(): Promise<string> {
+    const account = this.deriveAccount(this.#accounts.length);
+    this.#accounts.push(account);
+    await this.saveAccounts();
+    return account.address;
+  }
+
+  async switchAccount(index: number): Promise<string> {
+    const account = this.#accounts[index];
+    if (!account) {
+      throw new Error(`No account at index ${index}`);
+    }
+
+    this.#accountIndex = index;
+    this.signer = undefined;
+    await this.saveAccounts();
+    return account.address;
   }
 
   async loadSavedWallet(password: string): Promise<string> {
@@ -116,43 +257,132 @@ export class DeviceWalletImpl extends AbstractWallet {
     if (!data) {
       throw new Error("No saved wallet");
     }
-    const wallet = await ethers.Wallet.fromEncryptedJson(
-      data.encryptedData,
-      password,
-    );
-    this.#wallet = wallet;
-    return wallet.address;
+    const wallet = await decryptWallet(data.encryptedData, password, data.kdf);
+
+    if (wallet.mnemonic?.phrase) {
+      await this.importMnemonic(wallet.mnemonic.phrase, data.accountCount);
+      this.#accountIndex = Math.min(
+        data.accountIndex || 0,
+        this.#accounts.length - 1,
+      );
+    } else {
+      // wallets saved before mnemonic support hold a single random key
+      this.#mnemonic = undefined;
+      this.#accounts = [wallet];
+      this.#accountIndex = 0;
+    }
+    this.signer = undefined;
+
+    // re-encrypt records saved with an older format or different parameters, now that we have the password
+    if (isKeystoreOutdated(data.keystoreVersion, data.kdf, this.getKdf())) {
+      await this.save(password);
+    }
+
+    return this.#accounts[this.#accountIndex].address;
   }
 
   async save(password: string): Promise<void> {
-    const wallet = (await this.getSigner()) as ethers.Wallet;
-    // reduce the scrypt cost to make it faster
-    const options = {
-      scrypt: {
-        N: 1 << 32,
-      },
-    };
-    const encryptedData = await wallet.encrypt(password, options);
+    const current = (await this.getSigner()) as ethers.Wallet;
+    // the first account holds the mnemonic, the other accounts are derived again when loading
+    const wallet = this.#accounts[0];
+    const kdf = this.getKdf();
+    const encryptedData = await encryptWallet(wallet, password, kdf);
     await this.options.storage.storeWalletData({
-      address: wallet.address,
+      address: current.address,
       encryptedData,
+      accountIndex: this.#accountIndex,
+      accountCount: this.#accounts.length,
+      keystoreVersion: KEYSTORE_VERSION,
+      kdf,
     });
   }
 
-  async export(password: string): Promise<string> {
+  /**
+   * Encrypt the saved wallet with a new password
+   */
+  async changePassword(oldPassword: string, newPassword: string) {
+    await this.loadSavedWallet(oldPassword);
+    await this.save(newPassword);
+  }
+
+  /**
+   * Export the current account as a standard encrypted JSON keystore
+   */
+  async export(
+    password: string,
+    scrypt: ScryptParams = DEFAULT_SCRYPT_PARAMS,
+  ): Promise<string> {
     const wallet = (await this.getSigner()) as ethers.Wallet;
-    return wallet.encrypt(password);
+    return encryptWallet(wallet, password, scrypt);
+  }
+
+  /**
+   * Export the mnemonic of the saved wallet, checking the password against the saved data
+   */
+  async exportMnemonic(password: string): Promise<string> {
+    const data = await this.options.storage.getWalletData();
+    if (!data) {
+      throw new Error("No saved wallet");
+    }
+    const wallet = await decryptWallet(data.encryptedData, password, data.kdf);
+    if (!wallet.mnemonic?.phrase) {
+      throw new Error("This wallet was not created from a mnemonic");
+    }
+    return wallet.mnemonic.phrase;
+  }
+
+  private getKdf(): KdfParams {
+    return this.options.kdf || DEFAULT_SCRYPT_PARAMS;
+  }
+
+  private deriveAccount(index: number): ethers.Wallet {
+    if (!this.#mnemonic) {
+      throw new Error(
+        "Accounts can only be derived from wallets created from a mnemonic",
+      );
+    }
+    const path = this.options.derivationPath || DEFAULT_DERIVATION_PATH;
+    return ethers.Wallet.fromMnemonic(this.#mnemonic, `${path}/${index}`);
+  }
+
+  // keeps the saved account list in sync, without needing the password to encrypt the wallet again
+  private async saveAccounts(): Promise<void> {
+    const data = await this.options.storage.getWalletData();
+    // only update the saved wallet if it's this wallet, an imported mnemonic isn't saved until save() is called
+    if (
+      !data ||
+      !this.#accounts.some((account) => account.address === data.address)
+    ) {
+      return;
+    }
+    await this.options.storage.storeAccountData({
+      address: this.#accounts[this.#accountIndex].address,
+      accountIndex: this.#accountIndex,
+      accountCount: this.#accounts.length,
+    });
   }
 }
 
 type WalletData = {
   address: string;
   encryptedData: string;
+  accountIndex?: number;
+  accountCount?: number;
+  // missing on records saved before the keystore was versioned
+  keystoreVersion?: number;
+  kdf?: KdfParams;
 };
 
+type AccountData = Pick<
+  WalletData,
+  "address" | "accountIndex" | "accountCount"
+>;
+
 interface IWalletStore {
   getWalletData(): Promise<WalletData | null>;
   storeWalletData(data: WalletData): Promise<void>;
+  // saves the derived accounts of the stored wallet, without storing the encrypted wallet again
+  storeAccountData(data: AccountData): Promise<void>;
 }
 
 interface IDeviceStorage {
@@ -162,12 +392,34 @@ interface IDeviceStorage {
 
 type DeviceWalletImplOptions = {
   storage: IWalletStore;
+  derivationPath?: string;
+  kdf?: KdfParams;
 };
 
+type WalletMetadata = Omit<WalletData, "address" | "encryptedData">;
+
+function getWalletMetadata(data: WalletData): WalletMetadata {
+  return {
+    accountIndex: data.accountIndex,
+    accountCount: data.accountCount,
+    keystoreVersion: data.keystoreVersion,
+    kdf: data.kdf,
+  };
+}
+
+function parseWalletMetadata(value: string | null | undefined): WalletMetadata {
+  try {
+    return getWalletMetadata(JSON.parse(value || "{}"));
+  } catch {
+    return {};
+  }
+}
+
 class BrowserStorage implements IWalletStore {
   private storage: IDeviceStorage;
   private STORAGE_KEY_DATA = "tw_wallet_data";
   private STORAGE_KEY_ADDR = "tw_wallet_address";
+  private STORAGE_KEY_META = "tw_wallet_meta";
   constructor(storage: IDeviceStorage) {
     this.storage = storage;
   }
@@ -180,33 +432,68 @@ class BrowserStorage implements IWalletStore {
     return {
       address,
       encryptedData,
+      ...parseWalletMetadata(this.storage.getItem(this.STORAGE_KEY_META)),
     };
   }
 
   async storeWalletData(data: WalletData): Promise<void> {
     this.storage.setItem(this.STORAGE_KEY_ADDR, data.address);
     this.storage.setItem(this.STORAGE_KEY_DATA, data.encryptedData);
+    this.storage.setItem(
+      this.STORAGE_KEY_META,
+      JSON.stringify(getWalletMetadata(data)),
+    );
+  }
+
+  async storeAccountData(data: AccountData): Promise<void> {
+    const metadata = parseWalletMetadata(
+      this.storage.getItem(this.STORAGE_KEY_META),
+    );
+    this.storage.setItem(this.STORAGE_KEY_ADDR, data.address);
+    this.storage.setItem(
+      this.STORAGE_KEY_META,
+      JSON.stringify({
+        ...metadata,
+        accountIndex: data.accountIndex,
+        accountCount: data.accountCount,
+      }),
+    );
   }
 }
 
+// PasswordCredential is only implemented by Chromium browsers, so it isn't in the TypeScript DOM types
+interface PasswordCredential extends Credential {
+  readonly type: "password";
+  readonly password: string;
+  readonly name: string;
+}
+
+function isPasswordCredential(
+  credential: Credential | null,
+): credential is PasswordCredential {
+  return credential?.type === "password";
+}
+
 class CredentialsStorage implements IWalletStore {
   private container: CredentialsContainer;
-  constructor(container: CredentialsContainer) {
+  // storing a credential prompts the user, so account changes are kept in device storage instead
+  private storage: IDeviceStorage;
+  private STORAGE_KEY_ACCOUNTS = "tw_wallet_credential_accounts";
+  constructor(container: CredentialsContainer, storage: IDeviceStorage) {
     this.container = container;
+    this.storage = storage;
   }
   async getWalletData(): Promise<WalletData | null> {
-    const credential = await this.container.get({
-      password: true,
-      unmediated: true,
-    } as CredentialRequestOptions);
-    console.log(credential);
-    if (credential && "password" in credential) {
-      return {
-        address: credential.id,
-        encryptedData: credential.password as string,
-      };
+    const credential = await this.getCredential();
+    if (!credential) {
+      return null;
     }
-    return null;
+    return {
+      address: credential.id,
+      encryptedData: credential.password,
+      ...parseWalletMetadata(credential.name),
+      ...this.getAccountData(credential.id),
+    };
   }
 
   async storeWalletData(data: WalletData): Promise<void> {
@@ -214,6 +501,8 @@ class CredentialsStorage implements IWalletStore {
       let credentialData = {
         id: data.address,
         password: data.encryptedData,
+        // the credential name holds the metadata, as it isn't secret
+        name: JSON.stringify(getWalletMetadata(data)),
       };
       const credential = await this.container.create({
         password: credentialData,
@@ -222,8 +511,40 @@ class CredentialsStorage implements IWalletStore {
         throw new Error("Credential not created");
       }
       await this.container.store(credential);
+      this.storage.setItem(this.STORAGE_KEY_ACCOUNTS, "");
     } else {
       throw new Error("PasswordCredential not supported");
     }
   }
+
+  async storeAccountData(data: AccountData): Promise<void> {
+    const credential = await this.getCredential();
+    if (!credential) {
+      throw new Error("No saved wallet");
+    }
+    this.storage.setItem(
+      this.STORAGE_KEY_ACCOUNTS,
+      JSON.stringify({ ...data, credentialId: credential.id }),
+    );
+  }
+
+  private async getCredential(): Promise<PasswordCredential | null> {
+    const credential = await this.container.get({
+      password: true,
+      unmediated: true,
+    } as CredentialRequestOptions);
+    return isPasswordCredential(credential) ? credential : null;
+  }
+
+  // the account data only applies to the credential it was saved for
+  private getAccountData(credentialId: string): Partial<AccountData> {
+    try {
+      const { credentialId: id, ...data } = JSON.parse(
+        this.storage.getItem(this.STORAGE_KEY_ACCOUNTS) || "{}",
+      );
+      return id === credentialId ? data : {};
+    } catch {
+      return {};
+    }
+  }
 }
@@ -0,0 +1,103 @@
+import {
+  KmsSigner,
+  parseDerSignature,
+  parseSpkiPublicKey,
+  RawSignature,
+} from "../utils/kms-signer";
+import { AbstractWallet } from "./abstract";
+import { KeyManagementServiceClient } from "@google-cloud/kms";
+import { ethers } from "ethers";
+
+export type GcpKmsWalletOptions = {
+  projectId: string;
+  locationId: string;
+  keyRingId: string;
+  keyId: string;
+  keyVersion: string;
+  clientOptions?: ConstructorParameters<typeof KeyManagementServiceClient>[0];
+};
+
+/**
+ * Create a wallet instance using a secp256k1 key stored in Google Cloud KMS.
+ *
+ * The key must be an asymmetric signing key with the `EC_SIGN_SECP256K1_SHA256` algorithm.
+ *
+ *  @example
+ * ```javascript
+ * import { ThirdwebSDK } from "@thirdweb-dev/sdk"
+ * import { GcpKmsWallet } from "@thirdweb-dev/wallets/evm/wallets/gcp-kms"
+ *
+ * const wallet = new GcpKmsWallet({
+ *   projectId: "my-project",
+ *   locationId: "us-east1",
+ *   keyRingId: "my-key-ring",
+ *   keyId: "my-key",
+ *   keyVersion: "1",
+ * });
+ *
+ * const sdk = await ThirdwebSDK.fromWallet(wallet, "mainnet");
+ * ```
+ */
+export class GcpKmsWallet extends AbstractWallet {
+  constructor(options: GcpKmsWalletOptions) {
+    super();
+    const client = new KeyManagementServiceClient(options.clientOptions);
+    this.signer = new GcpKmsSigner(
+      client,
+      client.cryptoKeyVersionPath(
+        options.projectId,
+        options.locationId,
+        options.keyRingId,
+        options.keyId,
+        options.keyVersion,
+      ),
+    );
+  }
+
+  async getSigner(): Promise<ethers.Signer> {
+    return this.signer as ethers.Signer;
+  }
+}
+
+class GcpKmsSigner extends KmsSigner {
+  private client: KeyManagementServiceClient;
+  private name: string;
+
+  constructor(
+    client: KeyManagementServiceClient,
+    name: string,
+    provider?: ethers.providers.Provider,
+  ) {
+    super(provider);
+    this.client = client;
+    this.name = name;
+  }
+
+  protected async getPublicKey(): Promise<string> {
+    const [publicKey] = await this.client.getPublicKey({ name: this.name });
+    if (!publicKey.pem) {
+      throw new Error(`No public key found for ${this.name}`);
+    }
+    return parseSpkiPublicKey(publicKey.pem);
+  }
+
+  protected async signRawDigest(digest: Uint8Array): Promise<RawSignature> {
+    // KMS signs the given digest as is, so the keccak256 digest is passed as the sha256 one
+    const [response] = await this.client.asymmetricSign({
+      name: this.name,
+      digest: { sha256: digest },
+    });
+    if (!response.signature) {
+      throw new Error(`No signature returned by ${this.name}`);
+    }
+    return parseDerSignature(
+      typeof response.signature === "string"
+        ? ethers.utils.base64.decode(response.signature)
+        : response.signature,
+    );
+  }
+
+  connect(provider: ethers.providers.Provider): GcpKmsSigner {
+    return new GcpKmsSigner(this.client, this.name, provider);
+  }
+}
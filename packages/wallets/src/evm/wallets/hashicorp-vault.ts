@@ -0,0 +1,123 @@
+import {
+  KmsSigner,
+  parseDerSignature,
+  parseSpkiPublicKey,
+  RawSignature,
+} from "../utils/kms-signer";
+import { AbstractWallet } from "./abstract";
+import fetch from "cross-fetch";
+import { ethers } from "ethers";
+
+export type HashicorpVaultWalletOptions = {
+  /**
+   * The address of the Vault server, ex: https://vault.example.com:8200
+   */
+  vaultUrl: string;
+  token: string;
+  keyName: string;
+  /**
+   * The path the transit secrets engine is mounted at, defaults to `transit`
+   */
+  mountPath?: string;
+  namespace?: string;
+};
+
+/**
+ * Create a wallet instance using a secp256k1 key stored in a HashiCorp Vault secrets engine with the transit API.
+ *
+ * The built-in transit engine has no secp256k1 key type, in the community or enterprise editions, so this
+ * targets a secrets engine plugin that serves secp256k1 keys through the same API, mounted at `mountPath`:
+ * `GET keys/:name` returns the PEM public key of each version, and `POST sign/:name` signs a `prehashed`
+ * digest with `marshaling_algorithm: "asn1"`. Vault never exposes the private key.
+ *
+ *  @example
+ * ```javascript
+ * import { ThirdwebSDK } from "@thirdweb-dev/sdk"
+ * import { HashicorpVaultWallet } from "@thirdweb-dev/wallets/evm/wallets/hashicorp-vault"
+ *
+ * const wallet = new HashicorpVaultWallet({
+ *   vaultUrl: "https://vault.example.com:8200",
+ *   token: process.env.VAULT_TOKEN,
+ *   keyName: "my-key",
+ * });
+ *
+ * const sdk = await ThirdwebSDK.fromWallet(wallet, "mainnet");
+ * ```
+ */
+export class HashicorpVaultWallet extends AbstractWallet {
+  constructor(options: HashicorpVaultWalletOptions) {
+    super();
+    this.signer = new HashicorpVaultSigner(options);
+  }
+
+  async getSigner(): Promise<ethers.Signer> {
+    return this.signer as ethers.Signer;
+  }
+}
+
+class HashicorpVaultSigner extends KmsSigner {
+  private options: HashicorpVaultWalletOptions;
+
+  constructor(
+    options: HashicorpVaultWalletOptions,
+    provider?: ethers.providers.Provider,
+  ) {
+    super(provider);
+    this.options = options;
+  }
+
+  protected async getPublicKey(): Promise<string> {
+    const { data } = await this.request(`keys/${this.options.keyName}`);
+    const key = data.keys[data.latest_version];
+    if (!key?.public_key) {
+      throw new Error(`Key ${this.options.keyName} has no public key`);
+    }
+    return parseSpkiPublicKey(key.public_key);
+  }
+
+  protected async signRawDigest(digest: Uint8Array): Promise<RawSignature> {
+    const { data } = await this.request(`sign/${this.options.keyName}`, {
+      input: ethers.utils.base64.encode(digest),
+      prehashed: true,
+      marshaling_algorithm: "asn1",
+    });
+
+    // signatures are prefixed with the key version, ex: vault:v1:<signature>
+    const signature = data.signature.split(":").pop();
+    return parseDerSignature(ethers.utils.base64.decode(signature));
+  }
+
+  connect(provider: ethers.providers.Provider): HashicorpVaultSigner {
+    return new HashicorpVaultSigner(this.options, provider);
+  }
+
+  private async request(path: string, body?: Record<string, unknown>) {
+    const url = `${this.options.vaultUrl.replace(/\/$/, "")}/v1/${
+      this.options.mountPath || "transit"
+    }/${path}`;
+    const headers: Record<string, string> = {
+      "X-Vault-Token": this.options.token,
+    };
+    if (this.options.namespace) {
+      headers["X-Vault-Namespace"] = this.options.namespace;
+    }
+    if (body) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const res = await fetch(url, {
+      method: body ? "POST" : "GET",
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const json = await res.json();
+    if (!res.ok) {
+      throw new Error(
+        `Vault request to ${path} failed: ${
+          json.errors?.join(", ") || res.statusText
+        }`,
+      );
+    }
+    return json;
+  }
+}
@@ -0,0 +1,185 @@
+import { AbstractWallet } from "./abstract";
+import { ethers } from "ethers";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { homedir } from "os";
+import path from "path";
+
+export type KeystoreAccount = {
+  name: string;
+  address: string;
+  path: string;
+};
+
+/**
+ * Get the password of an account, called when the account is created or first used
+ */
+export type KeystorePasswordProvider = (account: {
+  name: string;
+  address?: string;
+}) => string | Promise<string>;
+
+export type KeystoreWalletOptions = {
+  /**
+   * The directory of the keystore files, defaults to `~/.thirdweb/keystore`
+   */
+  directory?: string;
+  /**
+   * The name of the account, stored in the `<name>.json` file of the directory. Defaults to `default`
+   */
+  account?: string;
+  password: string | KeystorePasswordProvider;
+};
+
+export type CreateKeystoreOptions = KeystoreWalletOptions & {
+  /**
+   * Import an existing private key instead of generating a new one
+   */
+  privateKey?: string;
+};
+
+const DEFAULT_ACCOUNT = "default";
+
+/**
+ * Create a wallet instance using an encrypted keystore file, in the standard Web3 Secret Storage format
+ * used by geth and foundry.
+ *
+ *  @example
+ * ```javascript
+ * import { ThirdwebSDK } from "@thirdweb-dev/sdk"
+ * import { KeystoreWallet } from "@thirdweb-dev/wallets/evm/wallets/keystore"
+ *
+ * // create the account once
+ * await KeystoreWallet.create({ account: "deployer", password: process.env.KEYSTORE_PASSWORD });
+ *
+ * const wallet = new KeystoreWallet({
+ *   account: "deployer",
+ *   password: async ({ name }) => promptPassword(`Password for ${name}`),
+ * });
+ *
+ * const sdk = await ThirdwebSDK.fromWallet(wallet, "mainnet");
+ * ```
+ */
+export class KeystoreWallet extends AbstractWallet {
+  private options: KeystoreWalletOptions;
+
+  constructor(options: KeystoreWalletOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Create a new account in the keystore directory, the password is only used to encrypt the file
+   */
+  static async create(options: CreateKeystoreOptions): Promise<KeystoreWallet> {
+    const name = options.account || DEFAULT_ACCOUNT;
+    const directory = getKeystoreDirectory(options.directory);
+    const filePath = getKeystorePath(directory, name);
+    const wallet = options.privateKey
+      ? new ethers.Wallet(options.privateKey)
+      : ethers.Wallet.createRandom();
+
+    const password = await getPassword(options.password, { name });
+    const keystore = await wallet.encrypt(password);
+
+    await mkdir(directory, { recursive: true, mode: 0o700 });
+    try {
+      // never overwrite an existing account
+      await writeFile(filePath, keystore, {
+        flag: "wx",
+        mode: 0o600,
+      });
+    } catch (err: any) {
+      if (err.code === "EEXIST") {
+        throw new Error(`Account '${name}' already exists in ${directory}`);
+      }
+      throw err;
+    }
+
+    const keystoreWallet = new KeystoreWallet(options);
+    keystoreWallet.signer = wallet;
+    return keystoreWallet;
+  }
+
+  /**
+   * List the accounts of the keystore directory, without decrypting them
+   */
+  static async listAccounts(directory?: string): Promise<KeystoreAccount[]> {
+    const dir = getKeystoreDirectory(directory);
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch (err: any) {
+      if (err.code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+
+    const accounts: KeystoreAccount[] = [];
+    for (const file of files.filter((f) => f.endsWith(".json")).sort()) {
+      const filePath = path.join(dir, file);
+      try {
+        const { address } = JSON.parse(await readFile(filePath, "utf8"));
+        if (address) {
+          accounts.push({
+            name: file.slice(0, -".json".length),
+            address: ethers.utils.getAddress(address),
+            path: filePath,
+          });
+        }
+      } catch {
+        // skip files that aren't keystores
+      }
+    }
+    return accounts;
+  }
+
+  async getSigner(): Promise<ethers.Signer> {
+    if (!this.signer) {
+      const name = this.options.account || DEFAULT_ACCOUNT;
+      const directory = getKeystoreDirectory(this.options.directory);
+
+      let keystore: string;
+      try {
+        keystore = await readFile(getKeystorePath(directory, name), "utf8");
+      } catch (err: any) {
+        if (err.code === "ENOENT") {
+          throw new Error(
+            `No account named '${name}' in ${directory}, create one with KeystoreWallet.create()`,
+          );
+        }
+        throw err;
+      }
+
+      const address = JSON.parse(keystore).address;
+      const password = await getPassword(this.options.password, {
+        name,
+        address: address ? ethers.utils.getAddress(address) : undefined,
+      });
+      this.signer = await ethers.Wallet.fromEncryptedJson(keystore, password);
+    }
+    return this.signer;
+  }
+}
+
+function getKeystoreDirectory(directory?: string): string {
+  return path.resolve(
+    directory || path.join(homedir(), ".thirdweb", "keystore"),
+  );
+}
+
+function getKeystorePath(directory: string, name: string): string {
+  if (!/^[\w.-]+$/.test(name) || name.startsWith(".")) {
+    throw new Error(
+      `Invalid account name '${name}', use letters, numbers, '.', '_' and '-'`,
+    );
+  }
+  return path.join(directory, `${name}.json`);
+}
+
+async function getPassword(
+  password: string | KeystorePasswordProvider,
+  account: { name: string; address?: string },
+): Promise<string> {
+  return typeof password === "string" ? password : password(account);
+}
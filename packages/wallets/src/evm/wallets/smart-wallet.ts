@@ -0,0 +1,343 @@
+import { EVMWallet } from "../interfaces";
+import {
+  BundlerClient,
+  DEFAULT_ENTRYPOINT_ADDRESS,
+  getUserOperationHash,
+  UserOperation,
+  UserOperationReceipt,
+} from "../utils/user-operation";
+import { AbstractWallet } from "./abstract";
+import {
+  TypedDataDomain,
+  TypedDataField,
+  TypedDataSigner,
+} from "@ethersproject/abstract-signer";
+import type { Chain } from "@thirdweb-dev/chains";
+import { ethers } from "ethers";
+
+export type {
+  UserOperation,
+  UserOperationReceipt,
+} from "../utils/user-operation";
+
+export type SmartWalletOptions = {
+  /**
+   * The wallet that owns the smart account and signs its user operations
+   */
+  owner: EVMWallet;
+  chain:
+    | {
+        chainId: number;
+        rpc: string[];
+      }
+    | Chain;
+  bundlerUrl: string;
+  /**
+   * The factory that deploys the account on its first user operation, with a `createAccount(owner, salt)` function
+   */
+  factoryAddress: string;
+  entryPointAddress?: string;
+  /**
+   * Used to derive the account address, so a wallet can own multiple accounts from the same factory
+   */
+  accountSalt?: ethers.BigNumberish;
+  /**
+   * Get the paymaster data of a user operation, to sponsor its gas
+   */
+  getPaymasterAndData?: (userOp: UserOperation) => Promise<string>;
+};
+
+const ACCOUNT_ABI = [
+  "function execute(address dest, uint256 value, bytes func)",
+];
+const FACTORY_ABI = [
+  "function createAccount(address owner, uint256 salt) returns (address)",
+  "function getAddress(address owner, uint256 salt) view returns (address)",
+];
+const ENTRYPOINT_ABI = [
+  "function getNonce(address sender, uint192 key) view returns (uint256)",
+];
+
+// a well-formed signature, so bundlers can simulate the validation of the user operation before it's signed
+const DUMMY_SIGNATURE =
+  "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c";
+
+const USER_OPERATION_TIMEOUT = 1000 * 60 * 2;
+const USER_OPERATION_POLLING_INTERVAL = 1000;
+
+/**
+ * Wrap any wallet as the owner of an ERC-4337 smart account. Transactions sent by the signer are
+ * sent to the bundler as user operations, and the account is deployed with the first one.
+ *
+ * @example
+ * ```javascript
+ * import { ThirdwebSDK } from "@thirdweb-dev/sdk"
+ * import { PrivateKeyWallet, SmartWallet } from "@thirdweb-dev/wallets"
+ *
+ * const wallet = new SmartWallet({
+ *   owner: new PrivateKeyWallet(process.env.PRIVATE_KEY),
+ *   chain: { chainId: 137, rpc: ["https://polygon-rpc.com"] },
+ *   bundlerUrl: process.env.BUNDLER_URL,
+ *   factoryAddress: "0x...",
+ * });
+ *
+ * const sdk = await ThirdwebSDK.fromWallet(wallet, "polygon");
+ * ```
+ */
+export class SmartWallet extends AbstractWallet {
+  private options: SmartWalletOptions;
+  private provider: ethers.providers.Provider;
+  private bundler: BundlerClient;
+  #accountAddress?: string;
+
+  constructor(options: SmartWalletOptions) {
+    super();
+    this.options = options;
+    this.provider = new ethers.providers.StaticJsonRpcProvider(
+      options.chain.rpc[0],
+      options.chain.chainId,
+    );
+    this.bundler = new BundlerClient(
+      options.bundlerUrl,
+      this.getEntryPointAddress(),
+      options.chain.chainId,
+    );
+  }
+
+  async getSigner(): Promise<ethers.Signer> {
+    return new SmartAccountSigner(this, this.provider);
+  }
+
+  /**
+   * Get the owner of the smart account
+   */
+  async getOwner(): Promise<ethers.Signer> {
+    return this.options.owner.getSigner();
+  }
+
+  /**
+   * Get the address of the smart account, which is known before it's deployed
+   */
+  async getAccountAddress(): Promise<string> {
+    if (!this.#accountAddress) {
+      const owner = await (await this.getOwner()).getAddress();
+      this.#accountAddress = await this.getFactory()[
+        "getAddress(address,uint256)"
+      ](owner, this.options.accountSalt || 0);
+    }
+    return this.#accountAddress as string;
+  }
+
+  async isDeployed(): Promise<boolean> {
+    const code = await this.provider.getCode(await this.getAccountAddress());
+    return code !== "0x";
+  }
+
+  /**
+   * Build a user operation that executes the transaction from the smart account, signed by the owner
+   */
+  async buildUserOperation(
+    transaction: ethers.providers.TransactionRequest,
+  ): Promise<UserOperation> {
+    const tx = await ethers.utils.resolveProperties(transaction);
+    if (!tx.to) {
+      throw new Error(
+        "Smart accounts can only send transactions to an address, deploy contracts through a factory instead",
+      );
+    }
+
+    const owner = await this.getOwner();
+    const sender = await this.getAccountAddress();
+    const salt = this.options.accountSalt || 0;
+    const deployed = await this.isDeployed();
+
+    const initCode = deployed
+      ? "0x"
+      : ethers.utils.hexConcat([
+          this.options.factoryAddress,
+          this.getFactory().interface.encodeFunctionData("createAccount", [
+            await owner.getAddress(),
+            salt,
+          ]),
+        ]);
+    const nonce = deployed
+      ? await new ethers.Contract(
+          this.getEntryPointAddress(),
+          ENTRYPOINT_ABI,
+          this.provider,
+        ).getNonce(sender, 0)
+      : 0;
+    const callData = new ethers.utils.Interface(ACCOUNT_ABI).encodeFunctionData(
+      "execute",
+      [await this.provider.resolveName(tx.to), tx.value || 0, tx.data || "0x"],
+    );
+
+    const feeData = await this.provider.getFeeData();
+    const maxFeePerGas =
+      tx.maxFeePerGas ||
+      tx.gasPrice ||
+      feeData.maxFeePerGas ||
+      feeData.gasPrice ||
+      0;
+    const maxPriorityFeePerGas =
+      tx.maxPriorityFeePerGas || feeData.maxPriorityFeePerGas || maxFeePerGas;
+
+    const userOp: UserOperation = {
+      sender,
+      nonce: ethers.utils.hexValue(ethers.BigNumber.from(nonce)),
+      initCode,
+      callData,
+      callGasLimit: "0x0",
+      verificationGasLimit: "0x0",
+      preVerificationGas: "0x0",
+      maxFeePerGas: ethers.utils.hexValue(ethers.BigNumber.from(maxFeePerGas)),
+      maxPriorityFeePerGas: ethers.utils.hexValue(
+        ethers.BigNumber.from(maxPriorityFeePerGas),
+      ),
+      paymasterAndData: "0x",
+      signature: DUMMY_SIGNATURE,
+    };
+
+    if (this.options.getPaymasterAndData) {
+      userOp.paymasterAndData = await this.options.getPaymasterAndData(userOp);
+    }
+
+    const gas = await this.bundler.estimateUserOperationGas(userOp);
+    userOp.callGasLimit = ethers.utils.hexValue(
+      ethers.BigNumber.from(gas.callGasLimit),
+    );
+    userOp.verificationGasLimit = ethers.utils.hexValue(
+      ethers.BigNumber.from(gas.verificationGasLimit),
+    );
+    userOp.preVerificationGas = ethers.utils.hexValue(
+      ethers.BigNumber.from(gas.preVerificationGas),
+    );
+
+    // the paymaster signs over the final gas limits
+    if (this.options.getPaymasterAndData) {
+      userOp.paymasterAndData = await this.options.getPaymasterAndData(userOp);
+    }
+
+    const userOpHash = getUserOperationHash(
+      userOp,
+      this.getEntryPointAddress(),
+      this.options.chain.chainId,
+    );
+    userOp.signature = await owner.signMessage(
+      ethers.utils.arrayify(userOpHash),
+    );
+
+    return userOp;
+  }
+
+  /**
+   * Send the transaction to the bundler as a user operation
+   *
+   * @returns The hash of the user operation
+   */
+  async sendUserOperation(
+    transaction: ethers.providers.TransactionRequest,
+  ): Promise<string> {
+    const userOp = await this.buildUserOperation(transaction);
+    return this.bundler.sendUserOperation(userOp);
+  }
+
+  /**
+   * Wait for the user operation to be included in a transaction by the bundler
+   */
+  async waitForUserOperation(
+    userOpHash: string,
+    timeout = USER_OPERATION_TIMEOUT,
+  ): Promise<UserOperationReceipt> {
+    const end = Date.now() + timeout;
+    while (Date.now() < end) {
+      const receipt = await this.bundler.getUserOperationReceipt(userOpHash);
+      if (receipt) {
+        return receipt;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, USER_OPERATION_POLLING_INTERVAL),
+      );
+    }
+    throw new Error(
+      `Timed out waiting for user operation ${userOpHash} to be included`,
+    );
+  }
+
+  private getEntryPointAddress(): string {
+    return this.options.entryPointAddress || DEFAULT_ENTRYPOINT_ADDRESS;
+  }
+
+  private getFactory(): ethers.Contract {
+    return new ethers.Contract(
+      this.options.factoryAddress,
+      FACTORY_ABI,
+      this.provider,
+    );
+  }
+}
+
+/**
+ * Signer for the smart account, which sends every transaction as a user operation
+ */
+class SmartAccountSigner extends ethers.Signer implements TypedDataSigner {
+  readonly provider: ethers.providers.Provider;
+  private wallet: SmartWallet;
+
+  constructor(wallet: SmartWallet, provider: ethers.providers.Provider) {
+    super();
+    this.wallet = wallet;
+    this.provider = provider;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.getAccountAddress();
+  }
+
+  // the account validates signatures of its owner
+  async signMessage(message: string | ethers.utils.Bytes): Promise<string> {
+    const owner = await this.wallet.getOwner();
+    return owner.signMessage(message);
+  }
+
+  async _signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, Array<TypedDataField>>,
+    value: Record<string, any>,
+  ): Promise<string> {
+    const owner = await this.wallet.getOwner();
+    return (owner as ethers.Signer & TypedDataSigner)._signTypedData(
+      domain,
+      types,
+      value,
+    );
+  }
+
+  async signTransaction(): Promise<string> {
+    throw new Error(
+      "Smart accounts can't sign transactions, use sendTransaction to send a user operation",
+    );
+  }
+
+  async sendTransaction(
+    transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>,
+  ): Promise<ethers.providers.TransactionResponse> {
+    const tx = await ethers.utils.resolveProperties(transaction);
+    const userOpHash = await this.wallet.sendUserOperation(tx);
+    const receipt = await this.wallet.waitForUserOperation(userOpHash);
+    if (!receipt.success) {
+      throw new Error(
+        `User operation ${userOpHash} reverted${
+          receipt.reason ? `: ${receipt.reason}` : ""
+        }`,
+      );
+    }
+
+    // the transaction that included the user operation is already mined
+    return this.provider.getTransaction(receipt.receipt.transactionHash);
+  }
+
+  connect(provider: ethers.providers.Provider): SmartAccountSigner {
+    return new SmartAccountSigner(this.wallet, provider);
+  }
+}
@@ -0,0 +1,90 @@
+import { AzureKeyVaultWallet } from "../src/evm/wallets/azure-key-vault";
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+const SECP256K1_N = ethers.BigNumber.from(
+  "0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141",
+);
+
+/**
+ * Stand-in for the Key Vault clients, which return raw r and s signatures with high s values
+ * half of the time like a generic ECDSA implementation
+ */
+function createClients(key: ethers.utils.SigningKey, crv = "P-256K") {
+  const publicKey = ethers.utils.arrayify(key.publicKey);
+  let signatures = 0;
+
+  return {
+    keyClient: {
+      getKey: async () => ({
+        key: { crv, x: publicKey.slice(1, 33), y: publicKey.slice(33, 65) },
+      }),
+    },
+    cryptographyClient: {
+      sign: async (algorithm: string, digest: Uint8Array) => {
+        expect(algorithm).to.equal("ES256K");
+        const signature = key.signDigest(digest);
+        let s = ethers.BigNumber.from(signature.s);
+        if (signatures++ % 2 === 0) {
+          s = SECP256K1_N.sub(s);
+        }
+        return {
+          result: ethers.utils.concat([
+            signature.r,
+            ethers.utils.hexZeroPad(s.toHexString(), 32),
+          ]),
+        };
+      },
+    },
+  };
+}
+
+describe("Azure Key Vault Wallet", async () => {
+  const key = new ethers.utils.SigningKey(ethers.utils.randomBytes(32));
+  const address = ethers.utils.computeAddress(key.publicKey);
+
+  function createWallet(crv?: string) {
+    const wallet = new AzureKeyVaultWallet({
+      vaultUrl: "https://my-vault.vault.azure.net",
+      keyName: "my-key",
+      credential: { getToken: async () => null },
+    });
+    Object.assign((wallet as any).signer, createClients(key, crv));
+    return wallet;
+  }
+
+  it("Should derive the address from the public key", async () => {
+    expect(await createWallet().getAddress()).to.equal(address);
+  });
+
+  it("Should sign messages and typed data with low s values", async () => {
+    const wallet = createWallet();
+    for (const message of ["first", "second"]) {
+      const signature = await wallet.signMessage(message);
+      expect(ethers.utils.verifyMessage(message, signature)).to.equal(address);
+      expect(
+        ethers.BigNumber.from(ethers.utils.splitSignature(signature).s).lte(
+          SECP256K1_N.div(2),
+        ),
+      ).to.equal(true);
+    }
+
+    const domain = { name: "Test", version: "1", chainId: 1 };
+    const types = { Mail: [{ name: "contents", type: "string" }] };
+    const value = { contents: "hello" };
+    const signer = (await wallet.getSigner()) as any;
+    const signature = await signer._signTypedData(domain, types, value);
+    expect(
+      ethers.utils.verifyTypedData(domain, types, value, signature),
+    ).to.equal(address);
+  });
+
+  it("Should reject keys on other curves", async () => {
+    try {
+      await createWallet("P-256").getAddress();
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("is not a P-256K key");
+    }
+  });
+});
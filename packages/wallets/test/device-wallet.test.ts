@@ -0,0 +1,293 @@
+import { DeviceWalletConnector } from "../src/evm/connectors/device-wallet";
+import {
+  DEFAULT_PBKDF2_PARAMS,
+  DeviceWalletImpl,
+} from "../src/evm/wallets/device-wallet";
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+// Low cost parameters, so the tests don't spend their time deriving keys
+const SCRYPT_PARAMS = { name: "scrypt", N: 1 << 10, r: 8, p: 1 } as const;
+const PBKDF2_PARAMS = { ...DEFAULT_PBKDF2_PARAMS, iterations: 1000 };
+
+function createStorage(initialData: any = null) {
+  const storage = {
+    data: initialData,
+    getWalletData: async () => storage.data,
+    storeWalletData: async (data: any) => {
+      storage.data = data;
+    },
+    storeAccountData: async (data: any) => {
+      storage.data = { ...storage.data, ...data };
+    },
+  };
+  return storage;
+}
+
+function createCredentialsContainer() {
+  const container = {
+    credential: null as any,
+    storeCount: 0,
+    get: async () => container.credential,
+    create: async ({ password }: any) => ({ type: "password", ...password }),
+    store: async (credential: any) => {
+      container.credential = credential;
+      container.storeCount++;
+    },
+  };
+  return container;
+}
+
+function createDeviceStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key),
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+  };
+}
+
+function deriveAddress(mnemonic: string, index: number) {
+  return ethers.Wallet.fromMnemonic(mnemonic, `m/44'/60'/0'/0/${index}`)
+    .address;
+}
+
+describe("Device Wallet", async () => {
+  it("Should decrypt records saved before versioning", async () => {
+    // Records were ethers keystores encrypted with the scrypt parameters hard-coded in save()
+    const wallet = ethers.Wallet.createRandom();
+    const storage = createStorage({
+      address: wallet.address,
+      encryptedData: await wallet.encrypt("password", {
+        scrypt: { N: 1 << 32 },
+      }),
+    });
+
+    const deviceWallet = new DeviceWalletImpl({ storage, kdf: SCRYPT_PARAMS });
+    expect(await deviceWallet.loadSavedWallet("password")).to.equal(
+      wallet.address,
+    );
+    expect(await deviceWallet.exportMnemonic("password")).to.equal(
+      wallet.mnemonic.phrase,
+    );
+  });
+
+  it("Should re-encrypt outdated records when they're loaded", async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const legacyData = await wallet.encrypt("password", {
+      scrypt: { N: 1 << 32 },
+    });
+    const storage = createStorage({
+      address: wallet.address,
+      encryptedData: legacyData,
+    });
+
+    await new DeviceWalletImpl({ storage, kdf: SCRYPT_PARAMS }).loadSavedWallet(
+      "password",
+    );
+    expect(storage.data.keystoreVersion).to.equal(2);
+    expect(storage.data.kdf).to.deep.equal(SCRYPT_PARAMS);
+    expect(storage.data.encryptedData).to.not.equal(legacyData);
+
+    // Switching to PBKDF2 upgrades the record again
+    const deviceWallet = new DeviceWalletImpl({ storage, kdf: PBKDF2_PARAMS });
+    expect(await deviceWallet.loadSavedWallet("password")).to.equal(
+      wallet.address,
+    );
+    expect(storage.data.kdf).to.deep.equal(PBKDF2_PARAMS);
+
+    const reloaded = new DeviceWalletImpl({ storage, kdf: PBKDF2_PARAMS });
+    expect(await reloaded.loadSavedWallet("password")).to.equal(wallet.address);
+    expect(await reloaded.exportMnemonic("password")).to.equal(
+      wallet.mnemonic.phrase,
+    );
+  });
+
+  it("Should decrypt wallets without a mnemonic with PBKDF2", async () => {
+    const wallet = new ethers.Wallet(ethers.utils.randomBytes(32));
+    const storage = createStorage({
+      address: wallet.address,
+      encryptedData: await wallet.encrypt("password", {
+        scrypt: { N: 1 << 32 },
+      }),
+    });
+
+    await new DeviceWalletImpl({ storage, kdf: PBKDF2_PARAMS }).loadSavedWallet(
+      "password",
+    );
+    const deviceWallet = new DeviceWalletImpl({ storage, kdf: PBKDF2_PARAMS });
+    expect(await deviceWallet.loadSavedWallet("password")).to.equal(
+      wallet.address,
+    );
+    expect(
+      ((await deviceWallet.getSigner()) as ethers.Wallet).privateKey,
+    ).to.equal(wallet.privateKey);
+  });
+
+  it("Should change the password", async () => {
+    const storage = createStorage();
+    const deviceWallet = new DeviceWalletImpl({ storage, kdf: PBKDF2_PARAMS });
+    const address = await deviceWallet.generateNewWallet();
+    await deviceWallet.save("old");
+
+    await deviceWallet.changePassword("old", "new");
+
+    for (const password of ["old", "wrong"]) {
+      try {
+        await deviceWallet.loadSavedWallet(password);
+        expect.fail();
+      } catch (err: any) {
+        expect(err.message).to.equal("invalid password");
+      }
+    }
+    expect(await deviceWallet.loadSavedWallet("new")).to.equal(address);
+  });
+
+  it("Should keep derived accounts across re-encryption", async () => {
+    const storage = createStorage();
+    const deviceWallet = new DeviceWalletImpl({ storage, kdf: SCRYPT_PARAMS });
+    await deviceWallet.generateNewWallet();
+    await deviceWallet.save("password");
+    await deviceWallet.addAccount();
+    const address = await deviceWallet.switchAccount(1);
+
+    const reloaded = new DeviceWalletImpl({ storage, kdf: PBKDF2_PARAMS });
+    expect(await reloaded.loadSavedWallet("password")).to.equal(address);
+    expect(await reloaded.getAccounts()).to.deep.equal(
+      await deviceWallet.getAccounts(),
+    );
+  });
+
+  it("Should export standard keystores", async () => {
+    const deviceWallet = new DeviceWalletImpl({
+      storage: createStorage(),
+      kdf: PBKDF2_PARAMS,
+    });
+    const address = await deviceWallet.generateNewWallet();
+
+    const keystore = await deviceWallet.export("password", SCRYPT_PARAMS);
+    expect(JSON.parse(keystore).crypto.kdfparams.n).to.equal(1 << 10);
+    expect(
+      (await ethers.Wallet.fromEncryptedJson(keystore, "password")).address,
+    ).to.equal(address);
+  });
+
+  it("Should import and export mnemonics", async () => {
+    const mnemonic = ethers.Wallet.createRandom().mnemonic.phrase;
+    const storage = createStorage();
+    const deviceWallet = new DeviceWalletImpl({ storage, kdf: PBKDF2_PARAMS });
+
+    try {
+      await deviceWallet.importMnemonic("not a valid mnemonic");
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal("Invalid mnemonic");
+    }
+
+    // Mnemonics are normalized, as they're often pasted with extra spaces or capitals
+    const address = await deviceWallet.importMnemonic(
+      `  ${mnemonic.toUpperCase().split(" ").join("   ")}\n`,
+      2,
+    );
+    expect(address).to.equal(deriveAddress(mnemonic, 0));
+    expect(await deviceWallet.getAccounts()).to.deep.equal([
+      deriveAddress(mnemonic, 0),
+      deriveAddress(mnemonic, 1),
+    ]);
+
+    await deviceWallet.save("password");
+    expect(await deviceWallet.exportMnemonic("password")).to.equal(mnemonic);
+    try {
+      await deviceWallet.exportMnemonic("wrong");
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal("invalid password");
+    }
+  });
+
+  it("Should add and switch accounts without encrypting the wallet again", async () => {
+    const storage = createStorage();
+    const deviceWallet = new DeviceWalletImpl({ storage, kdf: PBKDF2_PARAMS });
+    await deviceWallet.generateNewWallet();
+    await deviceWallet.save("password");
+    const { encryptedData } = storage.data;
+    const mnemonic = await deviceWallet.exportMnemonic("password");
+
+    const added = await deviceWallet.addAccount();
+    expect(added).to.equal(deriveAddress(mnemonic, 1));
+    expect(storage.data.accountCount).to.equal(2);
+
+    expect(await deviceWallet.switchAccount(1)).to.equal(added);
+    expect(await (await deviceWallet.getSigner()).getAddress()).to.equal(added);
+    expect(await deviceWallet.getAccountIndex()).to.equal(1);
+    expect(storage.data.address).to.equal(added);
+    expect(storage.data.accountIndex).to.equal(1);
+    expect(storage.data.encryptedData).to.equal(encryptedData);
+
+    try {
+      await deviceWallet.switchAccount(2);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.equal("No account at index 2");
+    }
+  });
+
+  it("Should emit a change event when switching accounts", async () => {
+    const mnemonic = ethers.Wallet.createRandom().mnemonic.phrase;
+    const connector = new DeviceWalletConnector({
+      chain: { chainId: 1, rpc: ["http://127.0.0.1:8545"] },
+      wallet: new DeviceWalletImpl({
+        storage: createStorage(),
+        kdf: PBKDF2_PARAMS,
+      }),
+    });
+    expect(
+      await connector.connect({ password: "password", mnemonic }),
+    ).to.equal(deriveAddress(mnemonic, 0));
+
+    const changes: any[] = [];
+    connector.on("change", (data) => changes.push(data));
+    const address = await connector.addAccount();
+    expect(changes).to.deep.equal([]);
+
+    await connector.switchAccount(1);
+    expect(changes).to.deep.equal([{ account: address }]);
+    expect(await connector.getAddress()).to.equal(address);
+  });
+
+  it("Should not store the credential again when switching accounts", async () => {
+    const container = createCredentialsContainer();
+    const globals = globalThis as any;
+    const { window, navigator } = globals;
+    globals.window = {
+      localStorage: createDeviceStorage(),
+      PasswordCredential: class {},
+    };
+    globals.navigator = { credentials: container };
+
+    try {
+      const deviceWallet = await DeviceWalletImpl.fromCredentialStore({
+        kdf: PBKDF2_PARAMS,
+      });
+      const address = await deviceWallet.generateNewWallet();
+      await deviceWallet.save("password");
+      expect(container.storeCount).to.equal(1);
+      expect(container.credential.id).to.equal(address);
+
+      const added = await deviceWallet.addAccount();
+      await deviceWallet.switchAccount(1);
+      expect(container.storeCount).to.equal(1);
+
+      const reloaded = await DeviceWalletImpl.fromCredentialStore({
+        kdf: PBKDF2_PARAMS,
+      });
+      expect(await reloaded.getSavedWalletAddress()).to.equal(added);
+      expect(await reloaded.loadSavedWallet("password")).to.equal(added);
+      expect(await reloaded.getAccounts()).to.deep.equal([address, added]);
+    } finally {
+      globals.window = window;
+      globals.navigator = navigator;
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { GcpKmsWallet } from "../src/evm/wallets/gcp-kms";
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+const SECP256K1_N = ethers.BigNumber.from(
+  "0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141",
+);
+// SubjectPublicKeyInfo header of an uncompressed secp256k1 key
+const SPKI_PREFIX = "0x3056301006072a8648ce3d020106052b8104000a034200";
+
+function encodeDerInteger(value: ethers.BigNumber) {
+  let bytes = ethers.utils.arrayify(value.toHexString());
+  // integers with the high bit set are prefixed with a zero byte
+  if (bytes[0] & 0x80) {
+    bytes = ethers.utils.concat([[0], bytes]);
+  }
+  return ethers.utils.concat([[0x02, bytes.length], bytes]);
+}
+
+/**
+ * Stand-in for the Cloud KMS client, which returns DER signatures with high s values
+ * half of the time like a generic ECDSA implementation
+ */
+function createClient(key: ethers.utils.SigningKey) {
+  const names: string[] = [];
+  let signatures = 0;
+
+  return {
+    names,
+    getPublicKey: async ({ name }: { name: string }) => {
+      names.push(name);
+      const der = ethers.utils.concat([SPKI_PREFIX, key.publicKey]);
+      const pem = `-----BEGIN PUBLIC KEY-----\n${ethers.utils.base64.encode(
+        der,
+      )}\n-----END PUBLIC KEY-----\n`;
+      return [{ pem }];
+    },
+    asymmetricSign: async ({
+      name,
+      digest,
+    }: {
+      name: string;
+      digest: { sha256: Uint8Array };
+    }) => {
+      names.push(name);
+      const signature = key.signDigest(digest.sha256);
+      let s = ethers.BigNumber.from(signature.s);
+      if (signatures++ % 2 === 0) {
+        s = SECP256K1_N.sub(s);
+      }
+      const integers = ethers.utils.concat([
+        encodeDerInteger(ethers.BigNumber.from(signature.r)),
+        encodeDerInteger(s),
+      ]);
+      return [
+        { signature: ethers.utils.concat([[0x30, integers.length], integers]) },
+      ];
+    },
+  };
+}
+
+describe("GCP KMS Wallet", async () => {
+  const key = new ethers.utils.SigningKey(ethers.utils.randomBytes(32));
+  const address = ethers.utils.computeAddress(key.publicKey);
+  let client: ReturnType<typeof createClient>;
+
+  function createWallet() {
+    const wallet = new GcpKmsWallet({
+      projectId: "my-project",
+      locationId: "us-east1",
+      keyRingId: "my-key-ring",
+      keyId: "my-key",
+      keyVersion: "1",
+    });
+    client = createClient(key);
+    (wallet as any).signer.client = client;
+    return wallet;
+  }
+
+  it("Should derive the address from the public key of the key version", async () => {
+    const wallet = createWallet();
+    expect(await wallet.getAddress()).to.equal(address);
+    expect(client.names).to.deep.equal([
+      "projects/my-project/locations/us-east1/keyRings/my-key-ring/cryptoKeys/my-key/cryptoKeyVersions/1",
+    ]);
+  });
+
+  it("Should sign messages and transactions with low s values", async () => {
+    const wallet = createWallet();
+    for (const message of ["first", "second"]) {
+      const signature = await wallet.signMessage(message);
+      expect(ethers.utils.verifyMessage(message, signature)).to.equal(address);
+      expect(
+        ethers.BigNumber.from(ethers.utils.splitSignature(signature).s).lte(
+          SECP256K1_N.div(2),
+        ),
+      ).to.equal(true);
+    }
+
+    const signer = await wallet.getSigner();
+    const signed = await signer.signTransaction({
+      type: 2,
+      chainId: 137,
+      nonce: 3,
+      to: ethers.Wallet.createRandom().address,
+      value: 1,
+      gasLimit: 21000,
+      maxFeePerGas: 100,
+      maxPriorityFeePerGas: 1,
+    });
+    expect(ethers.utils.parseTransaction(signed).from).to.equal(address);
+  });
+});
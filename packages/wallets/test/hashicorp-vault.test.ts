@@ -0,0 +1,163 @@
+import { HashicorpVaultWallet } from "../src/evm/wallets/hashicorp-vault";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import http from "http";
+import { AddressInfo } from "net";
+
+const SECP256K1_N = ethers.BigNumber.from(
+  "0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141",
+);
+// SubjectPublicKeyInfo header of an uncompressed secp256k1 key
+const SPKI_PREFIX = "0x3056301006072a8648ce3d020106052b8104000a034200";
+
+function encodeDerInteger(value: ethers.BigNumber) {
+  let bytes = ethers.utils.arrayify(value.toHexString());
+  // integers with the high bit set are prefixed with a zero byte
+  if (bytes[0] & 0x80) {
+    bytes = ethers.utils.concat([[0], bytes]);
+  }
+  return ethers.utils.concat([[0x02, bytes.length], bytes]);
+}
+
+/**
+ * Stand-in for the Vault transit secrets engine, which signs with high s values
+ * half of the time like a generic ECDSA implementation
+ */
+function createVault(key: ethers.utils.SigningKey, token: string) {
+  const requests: string[] = [];
+  let signatures = 0;
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push(`${req.method} ${req.url}`);
+      res.setHeader("content-type", "application/json");
+      if (req.headers["x-vault-token"] !== token) {
+        res.statusCode = 403;
+        res.end(JSON.stringify({ errors: ["permission denied"] }));
+        return;
+      }
+
+      if (req.url === "/v1/transit/keys/eth-key") {
+        const der = ethers.utils.concat([SPKI_PREFIX, key.publicKey]);
+        const pem = `-----BEGIN PUBLIC KEY-----\n${ethers.utils.base64.encode(
+          der,
+        )}\n-----END PUBLIC KEY-----\n`;
+        res.end(
+          JSON.stringify({
+            data: { latest_version: 1, keys: { 1: { public_key: pem } } },
+          }),
+        );
+        return;
+      }
+
+      const { input, prehashed } = JSON.parse(body);
+      expect(prehashed).to.equal(true);
+      const signature = key.signDigest(ethers.utils.base64.decode(input));
+      let s = ethers.BigNumber.from(signature.s);
+      if (signatures++ % 2 === 0) {
+        s = SECP256K1_N.sub(s);
+      }
+      const integers = ethers.utils.concat([
+        encodeDerInteger(ethers.BigNumber.from(signature.r)),
+        encodeDerInteger(s),
+      ]);
+      const der = ethers.utils.concat([[0x30, integers.length], integers]);
+      res.end(
+        JSON.stringify({
+          data: { signature: `vault:v1:${ethers.utils.base64.encode(der)}` },
+        }),
+      );
+    });
+  });
+
+  return { server, requests };
+}
+
+describe("HashiCorp Vault Wallet", async () => {
+  const key = new ethers.utils.SigningKey(ethers.utils.randomBytes(32));
+  const address = ethers.utils.computeAddress(key.publicKey);
+  let vault: ReturnType<typeof createVault>;
+  let vaultUrl: string;
+
+  before(async () => {
+    vault = createVault(key, "root-token");
+    await new Promise<void>((resolve) =>
+      vault.server.listen(0, "127.0.0.1", resolve),
+    );
+    vaultUrl = `http://127.0.0.1:${
+      (vault.server.address() as AddressInfo).port
+    }`;
+  });
+
+  after(async () => {
+    vault.server.close();
+  });
+
+  function createWallet(token = "root-token") {
+    return new HashicorpVaultWallet({ vaultUrl, token, keyName: "eth-key" });
+  }
+
+  it("Should derive the address from the public key", async () => {
+    expect(await createWallet().getAddress()).to.equal(address);
+  });
+
+  it("Should sign messages and typed data with low s values", async () => {
+    const wallet = createWallet();
+    for (const message of ["first", "second"]) {
+      const signature = await wallet.signMessage(message);
+      expect(ethers.utils.verifyMessage(message, signature)).to.equal(address);
+      expect(
+        ethers.BigNumber.from(ethers.utils.splitSignature(signature).s).lte(
+          SECP256K1_N.div(2),
+        ),
+      ).to.equal(true);
+    }
+
+    const domain = { name: "Test", version: "1", chainId: 1 };
+    const types = { Mail: [{ name: "contents", type: "string" }] };
+    const value = { contents: "hello" };
+    const signer = (await wallet.getSigner()) as any;
+    const signature = await signer._signTypedData(domain, types, value);
+    expect(
+      ethers.utils.verifyTypedData(domain, types, value, signature),
+    ).to.equal(address);
+  });
+
+  it("Should sign transactions", async () => {
+    const signer = await createWallet().getSigner();
+    const signed = await signer.signTransaction({
+      type: 2,
+      chainId: 137,
+      nonce: 3,
+      to: ethers.Wallet.createRandom().address,
+      value: 1,
+      gasLimit: 21000,
+      maxFeePerGas: 100,
+      maxPriorityFeePerGas: 1,
+    });
+    const tx = ethers.utils.parseTransaction(signed);
+    expect(tx.from).to.equal(address);
+    expect(tx.chainId).to.equal(137);
+
+    try {
+      await signer.signTransaction({
+        from: ethers.Wallet.createRandom().address,
+        to: address,
+      });
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("from address mismatch");
+    }
+  });
+
+  it("Should surface Vault errors", async () => {
+    try {
+      await createWallet("wrong-token").getAddress();
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("permission denied");
+    }
+  });
+});
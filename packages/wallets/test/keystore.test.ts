@@ -0,0 +1,116 @@
+import { KeystoreWallet } from "../src/evm/wallets/keystore";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+
+describe("Keystore Wallet", async () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "keystore-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("Should create standard keystore files that can be loaded again", async () => {
+    const privateKey = ethers.Wallet.createRandom().privateKey;
+    const created = await KeystoreWallet.create({
+      directory,
+      account: "deployer",
+      password: "password",
+      privateKey,
+    });
+    const address = await created.getAddress();
+    expect(address).to.equal(new ethers.Wallet(privateKey).address);
+
+    // the file is a Web3 Secret Storage keystore any tool can decrypt
+    const keystore = await readFile(path.join(directory, "deployer.json"));
+    const decrypted = await ethers.Wallet.fromEncryptedJson(
+      keystore.toString(),
+      "password",
+    );
+    expect(decrypted.privateKey).to.equal(privateKey);
+
+    const requested: any[] = [];
+    const wallet = new KeystoreWallet({
+      directory,
+      account: "deployer",
+      password: async (account) => {
+        requested.push(account);
+        return "password";
+      },
+    });
+    expect(await wallet.getAddress()).to.equal(address);
+    await wallet.signMessage("hello");
+    expect(requested).to.deep.equal([{ name: "deployer", address }]);
+  });
+
+  it("Should list the named accounts of the directory", async () => {
+    const first = await KeystoreWallet.create({
+      directory,
+      account: "first",
+      password: "password",
+    });
+    const second = await KeystoreWallet.create({
+      directory,
+      account: "second",
+      password: () => "other-password",
+    });
+    await writeFile(path.join(directory, "notes.json"), "{}");
+
+    const accounts = await KeystoreWallet.listAccounts(directory);
+    expect(accounts.map((a) => [a.name, a.address])).to.deep.equal([
+      ["first", await first.getAddress()],
+      ["second", await second.getAddress()],
+    ]);
+    expect(
+      await KeystoreWallet.listAccounts(path.join(directory, "missing")),
+    ).to.deep.equal([]);
+  });
+
+  it("Should never overwrite an existing account", async () => {
+    await KeystoreWallet.create({ directory, password: "password" });
+    try {
+      await KeystoreWallet.create({ directory, password: "password" });
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("Account 'default' already exists");
+    }
+  });
+
+  it("Should reject wrong passwords and missing accounts", async () => {
+    await KeystoreWallet.create({ directory, password: "password" });
+    try {
+      await new KeystoreWallet({ directory, password: "wrong" }).getSigner();
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("invalid password");
+    }
+
+    try {
+      await new KeystoreWallet({
+        directory,
+        account: "missing",
+        password: "password",
+      }).getSigner();
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("No account named 'missing'");
+    }
+
+    try {
+      await new KeystoreWallet({
+        directory,
+        account: "../default",
+        password: "password",
+      }).getSigner();
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("Invalid account name");
+    }
+  });
+});
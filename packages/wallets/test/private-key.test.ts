@@ -0,0 +1,27 @@
+import { EthersWallet } from "../src/evm/wallets/ethers";
+import { PrivateKeyWallet } from "../src/evm/wallets/private-key";
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+describe("Private Key Wallet", async () => {
+  it("Should sign digests with the private key", async () => {
+    const privateKey = ethers.Wallet.createRandom().privateKey;
+    const wallet = new PrivateKeyWallet(privateKey);
+    const digest = ethers.utils.arrayify(ethers.utils.id("digest"));
+
+    expect(wallet.signDigest).to.be.a("function");
+    const signature = await wallet.signDigest?.(digest);
+    expect(ethers.utils.recoverAddress(digest, signature as string)).to.equal(
+      await wallet.getAddress(),
+    );
+  });
+
+  it("Should not sign digests with signers that have no private key", async () => {
+    const signer = new ethers.VoidSigner(ethers.constants.AddressZero);
+    const wallet = new EthersWallet(signer);
+    expect(wallet.signDigest).to.equal(undefined);
+
+    const privateKeyWallet = new EthersWallet(ethers.Wallet.createRandom());
+    expect(privateKeyWallet.signDigest).to.be.a("function");
+  });
+});
@@ -0,0 +1,317 @@
+import { getUserOperationHash } from "../src/evm/utils/user-operation";
+import { PrivateKeyWallet } from "../src/evm/wallets/private-key";
+import { SmartWallet } from "../src/evm/wallets/smart-wallet";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import http from "http";
+import { AddressInfo } from "net";
+
+const CHAIN_ID = 1337;
+const ENTRYPOINT_ADDRESS = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
+const FACTORY_ADDRESS = ethers.Wallet.createRandom().address;
+const BUNDLER_ADDRESS = ethers.Wallet.createRandom().address;
+
+const factoryInterface = new ethers.utils.Interface([
+  "function createAccount(address owner, uint256 salt) returns (address)",
+  "function getAddress(address owner, uint256 salt) view returns (address)",
+]);
+const entryPointInterface = new ethers.utils.Interface([
+  "function getNonce(address sender, uint192 key) view returns (uint256)",
+]);
+const accountInterface = new ethers.utils.Interface([
+  "function execute(address dest, uint256 value, bytes func)",
+]);
+
+const ZERO_HASH = ethers.constants.HashZero;
+
+/**
+ * Stand-in for both the chain node and the bundler, which validates user operations
+ * the way the EntryPoint would and executes them instantly
+ */
+function createStandIn() {
+  const state = {
+    owners: {} as Record<string, string>,
+    deployed: new Set<string>(),
+    nonces: {} as Record<string, number>,
+    calls: [] as {
+      sender: string;
+      dest: string;
+      value: string;
+      data: string;
+    }[],
+    receipts: {} as Record<string, string>,
+  };
+
+  function getAccountAddress(owner: string, salt: ethers.BigNumberish) {
+    return ethers.utils.getAddress(
+      ethers.utils.hexDataSlice(
+        ethers.utils.solidityKeccak256(["address", "uint256"], [owner, salt]),
+        12,
+      ),
+    );
+  }
+
+  function call({ to, data }: { to: string; data: string }) {
+    if (to.toLowerCase() === FACTORY_ADDRESS.toLowerCase()) {
+      const [owner, salt] = factoryInterface.decodeFunctionData(
+        "getAddress",
+        data,
+      );
+      return factoryInterface.encodeFunctionResult("getAddress", [
+        getAccountAddress(owner, salt),
+      ]);
+    }
+    const [sender] = entryPointInterface.decodeFunctionData("getNonce", data);
+    return entryPointInterface.encodeFunctionResult("getNonce", [
+      state.nonces[sender] || 0,
+    ]);
+  }
+
+  function sendUserOperation(userOp: any, entryPoint: string) {
+    const sender = ethers.utils.getAddress(userOp.sender);
+    let owner = state.owners[sender];
+    if (state.deployed.has(sender)) {
+      expect(userOp.initCode).to.equal("0x");
+    } else {
+      // the factory deploys the account for the owner
+      expect(
+        ethers.utils.hexDataSlice(userOp.initCode, 0, 20).toLowerCase(),
+      ).to.equal(FACTORY_ADDRESS.toLowerCase());
+      const [initOwner, salt] = factoryInterface.decodeFunctionData(
+        "createAccount",
+        ethers.utils.hexDataSlice(userOp.initCode, 20),
+      );
+      expect(getAccountAddress(initOwner, salt)).to.equal(sender);
+      owner = initOwner;
+    }
+
+    expect(ethers.BigNumber.from(userOp.nonce).toNumber()).to.equal(
+      state.nonces[sender] || 0,
+    );
+    const userOpHash = getUserOperationHash(userOp, entryPoint, CHAIN_ID);
+    const signer = ethers.utils.verifyMessage(
+      ethers.utils.arrayify(userOpHash),
+      userOp.signature,
+    );
+    if (signer !== owner) {
+      throw new Error("AA24 signature error");
+    }
+    state.owners[sender] = owner;
+    state.deployed.add(sender);
+
+    const [dest, value, data] = accountInterface.decodeFunctionData(
+      "execute",
+      userOp.callData,
+    );
+    state.calls.push({ sender, dest, value: value.toString(), data });
+    state.nonces[sender] = (state.nonces[sender] || 0) + 1;
+    state.receipts[userOpHash] = ethers.utils.keccak256(userOpHash);
+    return userOpHash;
+  }
+
+  function handle(method: string, params: any[]): any {
+    switch (method) {
+      case "eth_chainId":
+        return ethers.utils.hexValue(CHAIN_ID);
+      case "eth_blockNumber":
+        return "0x1";
+      case "eth_getCode":
+        return state.deployed.has(ethers.utils.getAddress(params[0]))
+          ? "0x01"
+          : "0x";
+      case "eth_call":
+        return call(params[0]);
+      case "eth_gasPrice":
+        return ethers.utils.hexValue(ethers.utils.parseUnits("2", "gwei"));
+      case "eth_getBlockByNumber":
+        return {
+          hash: ZERO_HASH,
+          parentHash: ZERO_HASH,
+          number: "0x1",
+          timestamp: "0x1",
+          nonce: "0x0000000000000000",
+          difficulty: "0x0",
+          gasLimit: "0x1c9c380",
+          gasUsed: "0x0",
+          miner: BUNDLER_ADDRESS,
+          extraData: "0x",
+          baseFeePerGas: ethers.utils.hexValue(
+            ethers.utils.parseUnits("1", "gwei"),
+          ),
+          transactions: [],
+        };
+      case "eth_getTransactionByHash":
+        return {
+          hash: params[0],
+          blockHash: ZERO_HASH,
+          blockNumber: "0x1",
+          transactionIndex: "0x0",
+          type: "0x0",
+          from: BUNDLER_ADDRESS,
+          to: ENTRYPOINT_ADDRESS,
+          gas: "0x5208",
+          gasPrice: "0x1",
+          value: "0x0",
+          nonce: "0x0",
+          input: "0x",
+          r: ZERO_HASH,
+          s: ZERO_HASH,
+          v: "0x1b",
+        };
+      case "eth_getTransactionReceipt":
+        return {
+          transactionHash: params[0],
+          blockHash: ZERO_HASH,
+          blockNumber: "0x1",
+          transactionIndex: "0x0",
+          type: "0x0",
+          from: BUNDLER_ADDRESS,
+          to: ENTRYPOINT_ADDRESS,
+          gasUsed: "0x5208",
+          cumulativeGasUsed: "0x5208",
+          effectiveGasPrice: "0x1",
+          contractAddress: null,
+          logs: [],
+          logsBloom: ethers.utils.hexZeroPad("0x", 256),
+          status: "0x1",
+        };
+      case "eth_estimateUserOperationGas":
+        expect(params[1]).to.equal(ENTRYPOINT_ADDRESS);
+        return {
+          callGasLimit: "0x186a0",
+          verificationGasLimit: "0x30d40",
+          preVerificationGas: "0xc350",
+        };
+      case "eth_sendUserOperation":
+        return sendUserOperation(params[0], params[1]);
+      case "eth_getUserOperationReceipt":
+        return state.receipts[params[0]]
+          ? {
+              userOpHash: params[0],
+              success: true,
+              receipt: { transactionHash: state.receipts[params[0]] },
+            }
+          : null;
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const { id, method, params } = JSON.parse(body);
+      let response: any;
+      try {
+        response = { jsonrpc: "2.0", id, result: handle(method, params) };
+      } catch (err: any) {
+        response = {
+          jsonrpc: "2.0",
+          id,
+          error: { code: -32500, message: err.message },
+        };
+      }
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  return { server, state };
+}
+
+describe("Smart Wallet", async () => {
+  let standIn: ReturnType<typeof createStandIn>;
+  let url: string;
+
+  before(async () => {
+    standIn = createStandIn();
+    await new Promise<void>((resolve) =>
+      standIn.server.listen(0, "127.0.0.1", resolve),
+    );
+    url = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    standIn.server.close();
+  });
+
+  function createSmartWallet(owner: ethers.Wallet, salt = 0) {
+    return new SmartWallet({
+      owner: new PrivateKeyWallet(owner.privateKey),
+      chain: { chainId: CHAIN_ID, rpc: [url] },
+      bundlerUrl: url,
+      factoryAddress: FACTORY_ADDRESS,
+      accountSalt: salt,
+    });
+  }
+
+  it("Should send contract writes as user operations from the account", async () => {
+    const owner = ethers.Wallet.createRandom();
+    const wallet = createSmartWallet(owner);
+    const signer = await wallet.getSigner();
+    const address = await wallet.getAddress();
+    expect(address).to.not.equal(owner.address);
+    expect(await wallet.isDeployed()).to.equal(false);
+
+    const target = ethers.Wallet.createRandom().address;
+    const contract = new ethers.Contract(
+      target,
+      ["function mint(address to, uint256 amount)"],
+      signer,
+    );
+
+    // the first operation deploys the account, the second one uses the next nonce
+    const tx = await contract.mint(address, 5);
+    const receipt = await tx.wait();
+    expect(receipt.status).to.equal(1);
+    expect(await wallet.isDeployed()).to.equal(true);
+    await contract.mint(address, 10);
+
+    const calls = standIn.state.calls.filter((c) => c.sender === address);
+    expect(calls.length).to.equal(2);
+    expect(calls[0].dest).to.equal(target);
+    expect(calls[1].data).to.equal(
+      contract.interface.encodeFunctionData("mint", [address, 10]),
+    );
+    expect(standIn.state.nonces[address]).to.equal(2);
+  });
+
+  it("Should derive a different account for each salt", async () => {
+    const owner = ethers.Wallet.createRandom();
+    const first = await createSmartWallet(owner, 0).getAddress();
+    const second = await createSmartWallet(owner, 1).getAddress();
+    expect(first).to.not.equal(second);
+  });
+
+  it("Should reject user operations signed by another wallet", async () => {
+    const owner = ethers.Wallet.createRandom();
+    const wallet = createSmartWallet(owner);
+    const signer = await wallet.getSigner();
+    await signer.sendTransaction({
+      to: ethers.Wallet.createRandom().address,
+      value: 1,
+    });
+
+    const userOp = await wallet.buildUserOperation({
+      to: ethers.Wallet.createRandom().address,
+      value: 1,
+    });
+    const userOpHash = getUserOperationHash(
+      userOp,
+      ENTRYPOINT_ADDRESS,
+      CHAIN_ID,
+    );
+    userOp.signature = await ethers.Wallet.createRandom().signMessage(
+      ethers.utils.arrayify(userOpHash),
+    );
+
+    const bundler = new ethers.providers.StaticJsonRpcProvider(url, CHAIN_ID);
+    try {
+      await bundler.send("eth_sendUserOperation", [userOp, ENTRYPOINT_ADDRESS]);
+      expect.fail();
+    } catch (err: any) {
+      expect(err.message).to.contain("AA24 signature error");
+    }
+  });
+});